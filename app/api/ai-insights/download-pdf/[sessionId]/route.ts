@@ -3,8 +3,12 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { getSessionById } from '@/lib/dynamodb-schedules';
 import { getAllAIInsightsForSession } from '@/lib/dynamodb-ai-insights';
-import puppeteerCore from 'puppeteer-core';
-import chromium from '@sparticuz/chromium';
+import { describePostureAngles } from '@/lib/posture-angles';
+import { describeTemplateMatches, type TemplateMatchRecord } from '@/lib/reference-templates';
+import { describeGait, type GaitRecord } from '@/lib/gait-analysis';
+import { describeFatigueCurve, type FatigueCurve } from '@/lib/fatigue';
+import { describeInjuryRisk, type InjuryRiskAssessment } from '@/lib/injury-risk';
+import { renderPdf } from '@/lib/pdf';
 
 /**
  * Generate PDF from summary data using Puppeteer
@@ -24,6 +28,10 @@ async function generatePDF(
       performanceInterpretation?: string;
       performanceImpact?: string[];
       postureMetrics?: any;
+      templateMatches?: TemplateMatchRecord[];
+      gaitMetrics?: GaitRecord;
+      fatigueCurve?: FatigueCurve;
+      injuryRisk?: InjuryRiskAssessment;
     };
   },
   session: any
@@ -148,6 +156,35 @@ async function generatePDF(
     ${summaryResult.insight.postureMetrics.additional_metrics && summaryResult.insight.postureMetrics.additional_metrics.length > 0 ? `
     ${summaryResult.insight.postureMetrics.additional_metrics.map((metric: string) => `<p>${metric}</p>`).join('')}
     ` : ''}
+    ${describePostureAngles(summaryResult.insight.postureMetrics).map((line) => `<p><strong>${line.label}:</strong> ${line.value}</p>`).join('')}
+  </div>
+  ` : ''}
+
+  ${summaryResult.insight?.templateMatches && summaryResult.insight.templateMatches.length > 0 ? `
+  <h2>Reference Template Match</h2>
+  <div class="text-content">
+    ${describeTemplateMatches(summaryResult.insight.templateMatches).map((line) => `<p><strong>${line.label}:</strong> ${line.value}</p>`).join('')}
+  </div>
+  ` : ''}
+
+  ${summaryResult.insight?.gaitMetrics ? `
+  <h2>Gait &amp; Running Mechanics</h2>
+  <div class="text-content">
+    ${describeGait(summaryResult.insight.gaitMetrics).map((line) => `<p><strong>${line.label}:</strong> ${line.value}</p>`).join('')}
+  </div>
+  ` : ''}
+
+  ${summaryResult.insight?.fatigueCurve ? `
+  <h2>Fatigue Across the Session</h2>
+  <div class="text-content">
+    ${describeFatigueCurve(summaryResult.insight.fatigueCurve).map((line) => `<p><strong>${line.label}:</strong> ${line.value}</p>`).join('')}
+  </div>
+  ` : ''}
+
+  ${summaryResult.insight?.injuryRisk ? `
+  <h2>Injury Risk</h2>
+  <div class="text-content">
+    ${describeInjuryRisk(summaryResult.insight.injuryRisk).map((line) => `<p><strong>${line.label}:</strong> ${line.value}</p>`).join('')}
   </div>
   ` : ''}
 
@@ -217,78 +254,7 @@ async function generatePDF(
 </html>
   `;
 
-  let browser;
-  try {
-    console.log('[PDF] Using @sparticuz/chromium for PDF generation');
-    
-    const executablePath = await chromium.executablePath();
-    console.log('[PDF] Chromium executable path obtained:', executablePath ? 'Yes' : 'No');
-    
-    if (!executablePath) {
-      throw new Error('Failed to get Chromium executable path from @sparticuz/chromium');
-    }
-    
-    const browserOptions = {
-      headless: chromium.headless,
-      args: [
-        ...chromium.args,
-        '--disable-gpu',
-        '--disable-dev-shm-usage',
-        '--disable-software-rasterizer',
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--single-process', // Important for serverless environments
-        '--disable-plugins',
-        '--disable-extensions',
-      ],
-      defaultViewport: chromium.defaultViewport,
-      executablePath,
-    };
-
-    browser = await puppeteerCore.launch(browserOptions);
-    
-    const page = await browser.newPage();
-    
-    // Use 'load' instead of 'networkidle0' for faster rendering (saves ~5-10 seconds)
-    // Set a shorter timeout for page content loading (10 seconds)
-    await Promise.race([
-      page.setContent(html, { waitUntil: 'load', timeout: 10000 }),
-      new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('PDF generation timeout: page content loading exceeded 10 seconds')), 10000)
-      )
-    ]);
-    
-    // Set a shorter timeout for PDF generation (15 seconds)
-    const pdfBuffer = await Promise.race([
-      page.pdf({
-        format: 'A4',
-        margin: {
-          top: '20mm',
-          right: '15mm',
-          bottom: '20mm',
-          left: '15mm',
-        },
-        printBackground: true,
-        timeout: 15000,
-      }),
-      new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error('PDF generation timeout: PDF creation exceeded 15 seconds')), 15000)
-      )
-    ]);
-    
-    await browser.close();
-    return Buffer.from(pdfBuffer);
-  } catch (error: any) {
-    console.error('[PDF] Error during PDF generation:', error);
-    if (browser) {
-      try {
-        await browser.close();
-      } catch (closeError) {
-        console.error('[PDF] Error closing browser:', closeError);
-      }
-    }
-    throw new Error(`PDF generation failed: ${error.message || 'Unknown error'}`);
-  }
+  return renderPdf(html);
 }
 
 export async function GET(
@@ -368,6 +334,10 @@ export async function GET(
         performanceInterpretation: firstInsight.performance_interpretation,
         performanceImpact: firstInsight.performance_impact || [],
         postureMetrics: firstInsight.posture_metrics,
+        templateMatches: firstInsight.template_matches,
+        gaitMetrics: firstInsight.gait_metrics,
+        fatigueCurve: firstInsight.fatigue_curve,
+        injuryRisk: firstInsight.injury_risk,
       },
     };
 
@@ -4,10 +4,14 @@ import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { getSessionById } from '@/lib/dynamodb-schedules';
 import { getAIInsightsBySession, getAllAIInsightsForSession } from '@/lib/dynamodb-ai-insights';
 import { saveAISummary, getAllAISummariesForSession } from '@/lib/dynamodb-ai-summary';
+import { describeTemplateMatches, type TemplateMatchRecord } from '@/lib/reference-templates';
+import { describeGait, type GaitRecord } from '@/lib/gait-analysis';
+import { describeFatigueCurve, type FatigueCurve } from '@/lib/fatigue';
+import { describeInjuryRisk, type InjuryRiskAssessment } from '@/lib/injury-risk';
+import { aiSummarySchema, formatValidationIssues, LLMValidationError, SUMMARY_SCHEMA_VERSION } from '@/lib/llm-schemas';
 import OpenAI from 'openai';
 import { randomUUID } from 'crypto';
-import puppeteerCore from 'puppeteer-core';
-import chromium from '@sparticuz/chromium';
+import { renderPdf } from '@/lib/pdf';
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -108,7 +112,7 @@ export async function POST(req: NextRequest) {
 
       // Convert insight to summary format (for PDF generation)
       // The insight already contains all the analysis, we just need to format it for the PDF
-      const summaryData = {
+      const summaryContent = {
         summary: insight.performance_interpretation || 'No summary available',
         key_findings: [
           insight.movement_quality ? `Movement Quality: ${insight.movement_quality}` : null,
@@ -117,8 +121,19 @@ export async function POST(req: NextRequest) {
         ].filter(Boolean) as string[],
         recommendations: insight.targeted_recommendations || [],
         overall_assessment: insight.performance_interpretation || 'No assessment available',
+        metrics_summary: metrics,
       };
 
+      // Insights saved before LLM output was validated can carry out-of-range scores or stray levels - check the
+      // summary against its schema before it is saved
+      const validation = aiSummarySchema.safeParse(summaryContent);
+      if (!validation.success) {
+        const issues = formatValidationIssues(validation.error);
+        console.error(`[API] Summary for participant ${participantId} failed validation:`, issues);
+        throw new LLMValidationError(`Summary for ${participantName} failed validation`, issues);
+      }
+      const summaryData = validation.data;
+
       // Check if summary already exists for this participant in this session
       let summaryId: string;
       const existingSummary = existingSummaries.find(s => s.participant_id === participantId);
@@ -141,8 +156,9 @@ export async function POST(req: NextRequest) {
         key_findings: summaryData.key_findings,
         recommendations: summaryData.recommendations,
         overall_assessment: summaryData.overall_assessment,
-        metrics_summary: metrics,
+        metrics_summary: summaryData.metrics_summary,
         insights_count: 1, // Only 1 insight per participant now
+        schema_version: SUMMARY_SCHEMA_VERSION,
       });
 
       return {
@@ -166,6 +182,10 @@ export async function POST(req: NextRequest) {
           riskDescription: insight.risk_description,
           targetedRecommendations: insight.targeted_recommendations || [],
           postureMetrics: insight.posture_metrics,
+          templateMatches: insight.template_matches,
+          gaitMetrics: insight.gait_metrics,
+          fatigueCurve: insight.fatigue_curve,
+          injuryRisk: insight.injury_risk,
         },
       };
     });
@@ -253,6 +273,12 @@ async function generatePDF(
     summaryId: string;
     summary: any;
     metrics: any;
+    insight?: {
+      templateMatches?: TemplateMatchRecord[];
+      gaitMetrics?: GaitRecord;
+      fatigueCurve?: FatigueCurve;
+      injuryRisk?: InjuryRiskAssessment;
+    };
   },
   session: any
 ): Promise<Buffer> {
@@ -374,6 +400,34 @@ async function generatePDF(
     </div>
   </div>
 
+  ${summaryResult.insight?.templateMatches && summaryResult.insight.templateMatches.length > 0 ? `
+  <h2>Reference Template Match</h2>
+  <div class="text-content">
+    ${describeTemplateMatches(summaryResult.insight.templateMatches).map((line) => `<p><strong>${line.label}:</strong> ${line.value}</p>`).join('')}
+  </div>
+  ` : ''}
+
+  ${summaryResult.insight?.gaitMetrics ? `
+  <h2>Gait &amp; Running Mechanics</h2>
+  <div class="text-content">
+    ${describeGait(summaryResult.insight.gaitMetrics).map((line) => `<p><strong>${line.label}:</strong> ${line.value}</p>`).join('')}
+  </div>
+  ` : ''}
+
+  ${summaryResult.insight?.fatigueCurve ? `
+  <h2>Fatigue Across the Session</h2>
+  <div class="text-content">
+    ${describeFatigueCurve(summaryResult.insight.fatigueCurve).map((line) => `<p><strong>${line.label}:</strong> ${line.value}</p>`).join('')}
+  </div>
+  ` : ''}
+
+  ${summaryResult.insight?.injuryRisk ? `
+  <h2>Injury Risk</h2>
+  <div class="text-content">
+    ${describeInjuryRisk(summaryResult.insight.injuryRisk).map((line) => `<p><strong>${line.label}:</strong> ${line.value}</p>`).join('')}
+  </div>
+  ` : ''}
+
   ${summaryResult.summary.overall_assessment ? `
   <h2>Overall Assessment</h2>
   <div class="text-content">
@@ -409,95 +463,6 @@ async function generatePDF(
 </html>
   `;
 
-    let browser;
-    try {
-      // Always use @sparticuz/chromium - it works in both local dev and serverless (Netlify, AWS Lambda)
-      // The package automatically handles the differences between environments
-      console.log('[PDF] Using @sparticuz/chromium for PDF generation');
-      console.log('[PDF] Environment check:', {
-        NODE_ENV: process.env.NODE_ENV,
-        NETLIFY: process.env.NETLIFY,
-        AWS_LAMBDA_FUNCTION_NAME: process.env.AWS_LAMBDA_FUNCTION_NAME ? 'set' : 'not set',
-      });
-      
-      const executablePath = await chromium.executablePath();
-      console.log('[PDF] Chromium executable path obtained:', executablePath ? 'Yes' : 'No');
-      
-      if (!executablePath) {
-        throw new Error('Failed to get Chromium executable path from @sparticuz/chromium');
-      }
-      
-      const browserOptions = {
-        headless: chromium.headless,
-        args: [
-          ...chromium.args,
-          '--disable-gpu',
-          '--disable-dev-shm-usage',
-          '--disable-software-rasterizer',
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--single-process', // Important for serverless environments
-          '--disable-plugins',
-          '--disable-extensions',
-        ],
-        defaultViewport: chromium.defaultViewport,
-        executablePath,
-      };
-
-      console.log('[PDF] Launching browser with options:', {
-        headless: browserOptions.headless,
-        hasExecutablePath: !!browserOptions.executablePath,
-        executablePath: browserOptions.executablePath ? 
-          (browserOptions.executablePath.length > 50 ? 
-            browserOptions.executablePath.substring(0, 50) + '...' : 
-            browserOptions.executablePath) : 
-          'Not set',
-        argsCount: browserOptions.args?.length || 0,
-      });
-
-      browser = await puppeteerCore.launch(browserOptions);
-      
-      const page = await browser.newPage();
-      
-      // Use 'load' instead of 'networkidle0' for faster rendering (saves ~5-10 seconds)
-      // Set a shorter timeout for page content loading (10 seconds)
-      await Promise.race([
-        page.setContent(html, { waitUntil: 'load', timeout: 10000 }),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error('PDF generation timeout: page content loading exceeded 10 seconds')), 10000)
-        )
-      ]);
-      
-      // Set a shorter timeout for PDF generation (15 seconds)
-      const pdfBuffer = await Promise.race([
-        page.pdf({
-          format: 'A4',
-          margin: {
-            top: '20mm',
-            right: '15mm',
-            bottom: '20mm',
-            left: '15mm',
-          },
-          printBackground: true,
-          timeout: 15000,
-        }),
-        new Promise<never>((_, reject) => 
-          setTimeout(() => reject(new Error('PDF generation timeout: PDF creation exceeded 15 seconds')), 15000)
-        )
-      ]);
-      
-      await browser.close();
-      return Buffer.from(pdfBuffer);
-    } catch (error: any) {
-      console.error('[PDF] Error during PDF generation:', error);
-      if (browser) {
-        try {
-          await browser.close();
-        } catch (closeError) {
-          console.error('[PDF] Error closing browser:', closeError);
-        }
-      }
-      throw new Error(`PDF generation failed: ${error.message || 'Unknown error'}`);
-    }
+    return renderPdf(html);
 }
 
@@ -3,7 +3,14 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { getSessionById } from '@/lib/dynamodb-schedules';
 import { getAllAIMetricsForSession } from '@/lib/dynamodb-ai-metrics';
-import { saveAIInsight } from '@/lib/dynamodb-ai-insights';
+import { getAIInsightsBySubject, saveAIInsight } from '@/lib/dynamodb-ai-insights';
+import { describeFormFault, summarizeFormFaults } from '@/lib/movement-rules';
+import { combinePostureAngleRecords } from '@/lib/posture-angles';
+import { combineTemplateMatchRecords, describeTemplateMatches } from '@/lib/reference-templates';
+import { combineGaitRecords, describeGait } from '@/lib/gait-analysis';
+import { buildFatigueCurve, describeFatigueCurve } from '@/lib/fatigue';
+import { describeInjuryRisk, scoreInjuryRisk } from '@/lib/injury-risk';
+import { createValidatedCompletion, INSIGHT_SCHEMA_VERSION, sessionInsightSchema } from '@/lib/llm-schemas';
 import OpenAI from 'openai';
 import { randomUUID } from 'crypto';
 
@@ -154,8 +161,30 @@ export async function POST(req: NextRequest) {
         postural_efficiency: metric.postural_efficiency,
         risk_level: metric.risk_level,
         posture_metrics: metric.posture_metrics,
+        rep_metrics: metric.rep_metrics,
+        kinematics: metric.kinematics,
+        template_match: metric.template_match,
+        gait_metrics: metric.gait_metrics,
+        fatigue: metric.fatigue,
+        landing_metrics: metric.landing_metrics,
       }));
 
+      // Form faults are measured by the movement rule engine, so the LLM explains them instead of guessing
+      const formFaults = summarizeFormFaults(metrics.flatMap(metric => metric.form_faults || []));
+      // Rep-by-rep similarity to the coach's reference capture of each exercise
+      const templateMatches = combineTemplateMatchRecords(metrics.map(metric => metric.template_match));
+      // Stride mechanics over every stride of the session (running / walking captures)
+      const gaitMetrics = combineGaitRecords(metrics.map(metric => metric.gait_metrics));
+      // How the athlete held up across the session - the averages above hide a late decline
+      const fatigueCurve = buildFatigueCurve(metrics);
+      // Deterministic injury-risk score - earlier sessions' insights are the history factor
+      const previousInsights = (await getAIInsightsBySubject(participantId))
+        .filter(insight => !insight.session_id.startsWith(`${sessionId}#`));
+      const injuryRisk = scoreInjuryRisk({ metrics, history: previousInsights });
+      if (injuryRisk) {
+        avgMetrics.risk_level = injuryRisk.level;
+      }
+
       // Generate insight using LLM
       // IMPORTANT: We are sending SAVED METRICS DATA to the LLM, NOT image frames
       // The metrics were previously collected from pose detection and saved to DynamoDB
@@ -167,11 +196,26 @@ Average Metrics:
 - Balance Score: ${avgMetrics.average_balance_score.toFixed(1)}/100
 - Symmetry Score: ${avgMetrics.average_symmetry_score.toFixed(1)}/100
 - Postural Efficiency: ${avgMetrics.average_postural_efficiency.toFixed(1)}/100
-- Overall Risk Level: ${avgMetrics.risk_level}
+- Overall Risk Level: ${avgMetrics.risk_level}${injuryRisk ? ` (injury-risk score ${injuryRisk.score}/100)` : ''}
 
 Metrics Data (chronological):
 ${JSON.stringify(metricsData, null, 2)}
 
+Detected Form Faults (measured by the movement rule engine - treat these as facts):
+${formFaults.length > 0 ? formFaults.map(fault => `- ${describeFormFault(fault)} - cue: "${fault.cue}"`).join('\n') : '- None detected'}
+${templateMatches.length > 0 ? `
+Reference Template Match (measured against the coach's reference rep - treat these as facts):
+${describeTemplateMatches(templateMatches).map(line => `- ${line.label}: ${line.value}`).join('\n')}
+` : ''}${gaitMetrics ? `
+Gait / Running Mechanics (measured from foot strikes - treat these as facts):
+${describeGait(gaitMetrics).map(line => `- ${line.label}: ${line.value}`).join('\n')}
+` : ''}${fatigueCurve ? `
+Fatigue Across the Session (measured from rep velocity, rep-to-rep variability, symmetry and postural efficiency - treat these as facts):
+${describeFatigueCurve(fatigueCurve).map(line => `- ${line.label}: ${line.value}`).join('\n')}
+` : ''}${injuryRisk ? `
+Injury Risk (deterministic scoring model - the score, level and factors are final; narrate them, do not re-score):
+${describeInjuryRisk(injuryRisk).map(line => `- ${line.label}: ${line.value}`).join('\n')}
+` : ''}
 Please provide a comprehensive insight in JSON format with the following structure:
 {
   "movementQuality": "Brief description of overall movement quality (e.g., 'Controlled with minor adjustments')",
@@ -184,7 +228,7 @@ Please provide a comprehensive insight in JSON format with the following structu
   "symmetryScore": ${avgMetrics.average_symmetry_score.toFixed(1)},
   "posturalEfficiency": ${avgMetrics.average_postural_efficiency.toFixed(1)},
   "riskLevel": "${avgMetrics.risk_level}",
-  "riskDescription": "Brief description of risk level and what it means",
+  "riskDescription": "${injuryRisk ? 'Brief narration of the injury-risk score above - which factors drive it and what they mean for training' : 'Brief description of risk level and what it means'}",
   "targetedRecommendations": ["Recommendation 1", "Recommendation 2", ...] // 2-3 actionable recommendations
 }
 
@@ -192,6 +236,9 @@ Focus on:
 - Identifying patterns and trends across all metrics
 - Highlighting consistent issues or improvements
 - Providing actionable recommendations based on the full session data
+- Basing movementPatterns and targetedRecommendations on the detected form faults above - do not invent faults that were not detected
+- Whether movement quality degraded late in the session (fatigue) rather than only the session averages
+- Explaining the injury risk from its contributing factors - keep riskLevel exactly as given
 - Overall performance trajectory`;
 
       console.log(`[API] Generating insight for participant ${participantId} with ${metrics.length} metrics`);
@@ -202,7 +249,8 @@ Focus on:
       
       for (let attempt = 1; attempt <= maxRetries; attempt++) {
         try {
-          const response = await openai.chat.completions.create({
+          // Validated against the schema (and repaired by the model) before anything is saved
+          const insightData = await createValidatedCompletion(openai, {
             model: 'gpt-4o',
             messages: [
               {
@@ -215,18 +263,23 @@ Focus on:
               },
             ],
             max_tokens: 2000,
-            response_format: { type: 'json_object' },
-          });
-
-          // Success - parse and save
-          const insightData = JSON.parse(response.choices[0].message.content || '{}');
+          }, sessionInsightSchema({
+            balanceScore: avgMetrics.average_balance_score,
+            symmetryScore: avgMetrics.average_symmetry_score,
+            posturalEfficiency: avgMetrics.average_postural_efficiency,
+            riskLevel: injuryRisk?.level,
+          }), `Session insight for ${participantId}`);
 
           // Generate insight ID (use session_id + participant_id as unique identifier)
           // This ensures we overwrite previous insights for this participant in this session
           const insightId = `${sessionId}-${participantId}`;
 
-          // Get latest metric for posture_metrics
+          // Get latest metric for posture_metrics (measured angles are averaged over the whole session)
           const latestMetric = metrics[metrics.length - 1];
+          const measuredAngles = combinePostureAngleRecords(metrics.map(metric => metric.posture_metrics));
+          const postureMetrics = latestMetric.posture_metrics || Object.keys(measuredAngles).length > 0
+            ? { ...latestMetric.posture_metrics, ...measuredAngles }
+            : undefined;
 
           // Save insight to database (will overwrite if exists)
           await saveAIInsight({
@@ -234,21 +287,27 @@ Focus on:
             insight_id: insightId,
             participant_id: participantId,
             participant_name: participantName,
-            posture_metrics: latestMetric.posture_metrics,
+            posture_metrics: postureMetrics,
             performance_interpretation: insightData.performanceInterpretation,
-            performance_impact: insightData.performanceImpact || [],
-            balance_score: insightData.balanceScore || avgMetrics.average_balance_score,
-            symmetry_score: insightData.symmetryScore || avgMetrics.average_symmetry_score,
-            postural_efficiency: insightData.posturalEfficiency || avgMetrics.average_postural_efficiency,
-            risk_level: insightData.riskLevel || avgMetrics.risk_level,
+            performance_impact: insightData.performanceImpact,
+            balance_score: insightData.balanceScore,
+            symmetry_score: insightData.symmetryScore,
+            postural_efficiency: insightData.posturalEfficiency,
+            risk_level: insightData.riskLevel,
             risk_description: insightData.riskDescription,
-            targeted_recommendations: insightData.targetedRecommendations || [],
+            targeted_recommendations: insightData.targetedRecommendations,
             timestamp: new Date().toISOString(),
+            schema_version: INSIGHT_SCHEMA_VERSION,
             // Add movement analysis fields
             movement_quality: insightData.movementQuality,
-            movement_patterns: insightData.movementPatterns || [],
+            movement_patterns: insightData.movementPatterns,
             movement_consistency: insightData.movementConsistency,
             dynamic_stability: insightData.dynamicStability,
+            form_faults: formFaults,
+            template_matches: templateMatches.length > 0 ? templateMatches : undefined,
+            gait_metrics: gaitMetrics ?? undefined,
+            fatigue_curve: fatigueCurve ?? undefined,
+            injury_risk: injuryRisk ?? undefined,
           });
 
           return {
@@ -256,11 +315,13 @@ Focus on:
             participantName,
             insight: {
               ...insightData,
-              balanceScore: insightData.balanceScore || avgMetrics.average_balance_score,
-              symmetryScore: insightData.symmetryScore || avgMetrics.average_symmetry_score,
-              posturalEfficiency: insightData.posturalEfficiency || avgMetrics.average_postural_efficiency,
-              riskLevel: insightData.riskLevel || avgMetrics.risk_level,
-              postureMetrics: latestMetric.posture_metrics,
+              schemaVersion: INSIGHT_SCHEMA_VERSION,
+              postureMetrics,
+              formFaults,
+              templateMatches,
+              gaitMetrics,
+              fatigueCurve,
+              injuryRisk,
             },
           };
         } catch (error: any) {
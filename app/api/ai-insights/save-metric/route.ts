@@ -2,6 +2,17 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { saveAIMetric } from '@/lib/dynamodb-ai-metrics';
+import { toFormFaultRecord, type FormFaultEvent } from '@/lib/movement-rules';
+import { isKinematicsSummary, toKinematicsRecord } from '@/lib/kinematics';
+import { toPostureAngleRecord } from '@/lib/posture-angles';
+import { isBalanceSummary, isValidHeightCm, toBalanceRecord } from '@/lib/calibration';
+import { isTemplateMatchWindow, toTemplateMatchRecord } from '@/lib/reference-templates';
+import { isGaitStride, toGaitRecord } from '@/lib/gait-analysis';
+import { isFatigueState, toFatigueRecord } from '@/lib/fatigue';
+import { isJumpResult, toLandingRecord } from '@/lib/jump-analysis';
+import { scoreInjuryRisk } from '@/lib/injury-risk';
+import { formatValidationIssues, storedAnalysisSchema } from '@/lib/llm-schemas';
+import { withoutEmptyValues } from '@/lib/utils';
 
 export async function POST(req: NextRequest) {
   try {
@@ -35,7 +46,10 @@ export async function POST(req: NextRequest) {
       posturalEfficiency: body.posturalEfficiency,
       riskLevel: body.riskLevel,
       hasPostureMetrics: !!body.postureMetrics,
+      postureAngleFrames: body.postureAngles?.frameCount,
       hasMovementMetrics: !!(body.movementQuality || body.movementPatterns || body.movementConsistency || body.dynamicStability),
+      repCount: body.repMetrics?.repCount,
+      formFaults: Array.isArray(body.formFaults) ? body.formFaults.length : 0,
     });
 
     const {
@@ -47,10 +61,20 @@ export async function POST(req: NextRequest) {
       posturalEfficiency,
       riskLevel,
       postureMetrics,
+      postureAngles,
       movementQuality,
       movementPatterns,
       movementConsistency,
       dynamicStability,
+      repMetrics,
+      formFaults,
+      kinematics,
+      balance,
+      calibratedHeightCm,
+      templateMatch, // TemplateMatchWindow
+      gait, // { strides: GaitStride[], calibrated }
+      fatigue, // FatigueLiveState
+      jumps, // JumpResult[] completed since the last metric
       timestamp,
     } = body;
 
@@ -69,14 +93,113 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const postureMetricsSnakeCase = postureMetrics
-      ? {
-          spine_lean: postureMetrics.spineLean,
-          neck_flexion: postureMetrics.neckFlexion,
-          shoulder_alignment: postureMetrics.shoulderAlignment,
-          pelvic_sway: postureMetrics.pelvicSway,
-          additional_metrics: postureMetrics.additionalMetrics,
-        }
+    if (kinematics !== undefined && kinematics !== null && !isKinematicsSummary(kinematics)) {
+      console.error('[API] Invalid kinematics summary');
+      return NextResponse.json(
+        { error: 'Invalid kinematics summary' },
+        { status: 400 }
+      );
+    }
+
+    if (balance !== undefined && balance !== null && !isBalanceSummary(balance)) {
+      console.error('[API] Invalid balance summary');
+      return NextResponse.json(
+        { error: 'Invalid balance summary' },
+        { status: 400 }
+      );
+    }
+
+    if (calibratedHeightCm !== undefined && calibratedHeightCm !== null
+      && !(typeof calibratedHeightCm === 'number' && isValidHeightCm(calibratedHeightCm))) {
+      console.error('[API] Invalid calibrated height');
+      return NextResponse.json(
+        { error: 'Invalid calibrated height' },
+        { status: 400 }
+      );
+    }
+
+    if (templateMatch !== undefined && templateMatch !== null && !isTemplateMatchWindow(templateMatch)) {
+      console.error('[API] Invalid template match');
+      return NextResponse.json(
+        { error: 'Invalid template match' },
+        { status: 400 }
+      );
+    }
+
+    if (jumps !== undefined && jumps !== null && !(Array.isArray(jumps) && jumps.every(isJumpResult))) {
+      console.error('[API] Invalid jumps');
+      return NextResponse.json(
+        { error: 'Invalid jumps' },
+        { status: 400 }
+      );
+    }
+
+    if (gait !== undefined && gait !== null
+      && !(typeof gait === 'object' && Array.isArray(gait.strides) && gait.strides.every(isGaitStride))) {
+      console.error('[API] Invalid gait strides');
+      return NextResponse.json(
+        { error: 'Invalid gait strides' },
+        { status: 400 }
+      );
+    }
+
+    if (fatigue !== undefined && fatigue !== null && !isFatigueState(fatigue)) {
+      console.error('[API] Invalid fatigue state');
+      return NextResponse.json(
+        { error: 'Invalid fatigue state' },
+        { status: 400 }
+      );
+    }
+
+    // The analysis fields come from the LLM via the client - out-of-range scores or unknown fields are rejected
+    const analysisCheck = storedAnalysisSchema.safeParse({
+      balanceScore,
+      symmetryScore,
+      posturalEfficiency: posturalEfficiency ?? undefined,
+      riskLevel: riskLevel ?? undefined,
+      postureMetrics: postureMetrics ?? undefined,
+      movementQuality: movementQuality ?? undefined,
+      movementPatterns: movementPatterns ?? undefined,
+      movementConsistency: movementConsistency ?? undefined,
+      dynamicStability: dynamicStability ?? undefined,
+    });
+
+    if (!analysisCheck.success) {
+      const issues = formatValidationIssues(analysisCheck.error);
+      console.error('[API] Invalid analysis fields:', issues);
+      return NextResponse.json(
+        { error: 'Invalid analysis fields', issues },
+        { status: 400 }
+      );
+    }
+
+    const analysis = analysisCheck.data;
+
+    // Measured angles (pose pipeline) are stored next to the LLM's descriptions
+    // (the LLM fields are absent whenever only pose angles were measured)
+    const postureMetricsSnakeCase = analysis.postureMetrics || postureAngles
+      ? withoutEmptyValues({
+          spine_lean: analysis.postureMetrics?.spineLean,
+          neck_flexion: analysis.postureMetrics?.neckFlexion,
+          shoulder_alignment: analysis.postureMetrics?.shoulderAlignment,
+          pelvic_sway: analysis.postureMetrics?.pelvicSway,
+          additional_metrics: analysis.postureMetrics?.additionalMetrics,
+          ...(postureAngles ? toPostureAngleRecord(postureAngles) : {}),
+        })
+      : undefined;
+
+    // Windows before the first rep have no tempo / ROM yet - those fields are left out
+    const repMetricsSnakeCase = repMetrics
+      ? withoutEmptyValues({
+          exercise: repMetrics.exercise,
+          angle_source: repMetrics.angleSource,
+          rep_count: repMetrics.repCount,
+          partial_reps: repMetrics.partialReps,
+          avg_tempo: repMetrics.averageTempo,
+          avg_range_of_motion: repMetrics.averageRangeOfMotion,
+          range_of_motion_variability: repMetrics.rangeOfMotionVariability,
+          tempo_variability: repMetrics.tempoVariability,
+        })
       : undefined;
 
     const metricData = {
@@ -84,17 +207,39 @@ export async function POST(req: NextRequest) {
       timestamp: timestamp || new Date().toISOString(),
       participant_id: participantId,
       participant_name: participantName,
-      balance_score: balanceScore,
-      symmetry_score: symmetryScore,
-      postural_efficiency: posturalEfficiency,
-      risk_level: riskLevel,
+      balance_score: analysis.balanceScore as number,
+      symmetry_score: analysis.symmetryScore as number,
+      postural_efficiency: analysis.posturalEfficiency,
+      risk_level: analysis.riskLevel as string | undefined,
       posture_metrics: postureMetricsSnakeCase,
-      movement_quality: movementQuality,
-      movement_patterns: movementPatterns,
-      movement_consistency: movementConsistency,
-      dynamic_stability: dynamicStability,
+      movement_quality: analysis.movementQuality,
+      movement_patterns: analysis.movementPatterns,
+      movement_consistency: analysis.movementConsistency,
+      dynamic_stability: analysis.dynamicStability,
+      rep_metrics: repMetricsSnakeCase,
+      form_faults: Array.isArray(formFaults) && formFaults.length > 0
+        ? (formFaults as FormFaultEvent[]).map(toFormFaultRecord)
+        : undefined,
+      kinematics: kinematics ? toKinematicsRecord(kinematics) : undefined,
+      balance_metrics: balance && typeof calibratedHeightCm === 'number'
+        ? toBalanceRecord(balance, calibratedHeightCm) ?? undefined
+        : undefined,
+      template_match: templateMatch
+        ? toTemplateMatchRecord(templateMatch.exerciseId, templateMatch.exerciseName, templateMatch.reps) ?? undefined
+        : undefined,
+      gait_metrics: gait
+        ? toGaitRecord(gait.strides, !!gait.calibrated) ?? undefined
+        : undefined,
+      fatigue: toFatigueRecord(fatigue) ?? undefined,
+      landing_metrics: Array.isArray(jumps) ? toLandingRecord(jumps) ?? undefined : undefined,
     };
 
+    // The window's risk level comes from the injury-risk model, not the LLM's guess (kept only when nothing was measured)
+    const windowRisk = scoreInjuryRisk({ metrics: [metricData] });
+    if (windowRisk) {
+      metricData.risk_level = windowRisk.level;
+    }
+
     console.log('[API] Saving AI metric to DynamoDB:', {
       table: 'jak-coach-session-ai-metrics',
       session_id: metricData.session_id,
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { saveAIInsight } from '@/lib/dynamodb-ai-insights';
+import { formatValidationIssues, INSIGHT_SCHEMA_VERSION, storedAnalysisSchema } from '@/lib/llm-schemas';
 import { randomUUID } from 'crypto';
 
 export async function POST(req: NextRequest) {
@@ -79,17 +80,45 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // The analysis comes from the LLM via the client - out-of-range scores or unknown fields are rejected
+    const analysisCheck = storedAnalysisSchema.safeParse({
+      postureMetrics: postureMetrics ?? undefined,
+      movementQuality: movementQuality ?? undefined,
+      movementPatterns: movementPatterns ?? undefined,
+      movementConsistency: movementConsistency ?? undefined,
+      dynamicStability: dynamicStability ?? undefined,
+      performanceInterpretation: performanceInterpretation ?? undefined,
+      performanceImpact: performanceImpact ?? undefined,
+      balanceScore: balanceScore || 0,
+      symmetryScore: symmetryScore || 0,
+      posturalEfficiency: posturalEfficiency ?? undefined,
+      riskLevel: riskLevel ?? undefined,
+      riskDescription: riskDescription || undefined,
+      targetedRecommendations: targetedRecommendations ?? undefined,
+    });
+
+    if (!analysisCheck.success) {
+      const issues = formatValidationIssues(analysisCheck.error);
+      console.error('[API] Invalid insight fields:', issues);
+      return NextResponse.json(
+        { error: 'Invalid insight fields', issues },
+        { status: 400 }
+      );
+    }
+
+    const analysis = analysisCheck.data;
+
     // Generate unique insight ID (timestamp-based UUID)
     const insightId = `${Date.now()}-${randomUUID()}`;
 
     // Convert camelCase to snake_case for posture metrics
-    const postureMetricsSnakeCase = postureMetrics
+    const postureMetricsSnakeCase = analysis.postureMetrics
       ? {
-          spine_lean: postureMetrics.spineLean,
-          neck_flexion: postureMetrics.neckFlexion,
-          shoulder_alignment: postureMetrics.shoulderAlignment,
-          pelvic_sway: postureMetrics.pelvicSway,
-          additional_metrics: postureMetrics.additionalMetrics,
+          spine_lean: analysis.postureMetrics.spineLean,
+          neck_flexion: analysis.postureMetrics.neckFlexion,
+          shoulder_alignment: analysis.postureMetrics.shoulderAlignment,
+          pelvic_sway: analysis.postureMetrics.pelvicSway,
+          additional_metrics: analysis.postureMetrics.additionalMetrics,
         }
       : undefined;
 
@@ -100,19 +129,20 @@ export async function POST(req: NextRequest) {
       participant_name: participantName,
       exercise_name: exerciseName,
       posture_metrics: postureMetricsSnakeCase,
-      performance_interpretation: performanceInterpretation,
-      performance_impact: performanceImpact,
-      balance_score: balanceScore || 0,
-      symmetry_score: symmetryScore || 0,
-      postural_efficiency: posturalEfficiency,
-      movement_quality: movementQuality,
-      movement_patterns: movementPatterns,
-      movement_consistency: movementConsistency,
-      dynamic_stability: dynamicStability,
-      risk_level: riskLevel,
-      risk_description: riskDescription,
-      targeted_recommendations: targetedRecommendations,
+      performance_interpretation: analysis.performanceInterpretation,
+      performance_impact: analysis.performanceImpact,
+      balance_score: analysis.balanceScore ?? 0,
+      symmetry_score: analysis.symmetryScore ?? 0,
+      postural_efficiency: analysis.posturalEfficiency,
+      movement_quality: analysis.movementQuality,
+      movement_patterns: analysis.movementPatterns,
+      movement_consistency: analysis.movementConsistency,
+      dynamic_stability: analysis.dynamicStability,
+      risk_level: analysis.riskLevel,
+      risk_description: analysis.riskDescription,
+      targeted_recommendations: analysis.targetedRecommendations,
       timestamp: timestamp || new Date().toISOString(),
+      schema_version: INSIGHT_SCHEMA_VERSION,
     };
 
     console.log('[API] Saving AI insight to DynamoDB:', {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import OpenAI from 'openai';
+import { createValidatedCompletion, LLMValidationError, movementAnalysisSchema } from '@/lib/llm-schemas';
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -117,7 +118,7 @@ export async function POST(req: NextRequest) {
 
 These ${poseDataToAnalyze.length} pose data points were captured over ${poseDataToAnalyze.length} seconds (collected every 1 second, analyzed every 10 seconds). Each pose contains:
 - 33 body keypoints (x, y, z coordinates with visibility scores)
-- Calculated joint angles (knee, hip, shoulder, elbow, spine lean, neck flexion)
+- Calculated joint angles (knee, hip, shoulder, elbow, spine lean, neck flexion, ankle dorsiflexion, pelvic obliquity, trunk rotation, knee valgus)
 - Biomechanical metrics (balance score, symmetry score, postural efficiency)
 
 Average Joint Angles (degrees):
@@ -139,6 +140,10 @@ ${poseDataToAnalyze.map((pose: any, idx: number) => {
   - Right Knee: ${angles.rightKnee !== null && angles.rightKnee !== undefined ? `${Math.round(angles.rightKnee)}°` : 'N/A'}
   - Spine Lean: ${angles.spineLean !== null && angles.spineLean !== undefined ? `${Math.round(angles.spineLean)}°` : 'N/A'}
   - Neck Flexion: ${angles.neckFlexion !== null && angles.neckFlexion !== undefined ? `${Math.round(angles.neckFlexion)}°` : 'N/A'}
+  - Ankle Dorsiflexion (L/R): ${angles.leftAnkleDorsiflexion !== null && angles.leftAnkleDorsiflexion !== undefined ? `${Math.round(angles.leftAnkleDorsiflexion)}°` : 'N/A'} / ${angles.rightAnkleDorsiflexion !== null && angles.rightAnkleDorsiflexion !== undefined ? `${Math.round(angles.rightAnkleDorsiflexion)}°` : 'N/A'}
+  - Knee Valgus (L/R): ${angles.leftKneeValgus !== null && angles.leftKneeValgus !== undefined ? `${Math.round(angles.leftKneeValgus)}°` : 'N/A'} / ${angles.rightKneeValgus !== null && angles.rightKneeValgus !== undefined ? `${Math.round(angles.rightKneeValgus)}°` : 'N/A'}
+  - Pelvic Obliquity: ${angles.pelvicObliquity !== null && angles.pelvicObliquity !== undefined ? `${Math.round(angles.pelvicObliquity)}°` : 'N/A'}
+  - Trunk Rotation: ${angles.trunkRotation !== null && angles.trunkRotation !== undefined ? `${Math.round(angles.trunkRotation)}°` : 'N/A'}
   - Balance: ${metrics.balanceScore || 'N/A'}, Symmetry: ${metrics.symmetryScore || 'N/A'}`;
 }).join('\n\n')}
 
@@ -231,8 +236,8 @@ Focus on actionable insights that help coaches understand the performance implic
       ];
     }
 
-    // Analyze using OpenAI API
-    const response = await openai.chat.completions.create({
+    // Analyze using OpenAI API - validated against the schema (and repaired by the model) before it's returned
+    const analysis = await createValidatedCompletion(openai, {
       model: 'gpt-4o',
       messages: [
         {
@@ -259,7 +264,7 @@ Format your response as JSON with the following structure:
   "balanceScore": number (0-100, use provided value if available),
   "symmetryScore": number (0-100, use provided value if available),
   "posturalEfficiency": number (0-100, use provided value if available),
-  "riskLevel": string ("Low" | "Moderate" | "High"),
+  "riskLevel": string ("Low" | "Medium" | "High"),
   "riskDescription": string (brief description of the risk level),
   "targetedRecommendations": array of strings (specific exercises/cues like "Chin tucks – 3×10 reps", "Scapular retractions – 2×12 reps")
 }
@@ -277,10 +282,7 @@ Focus on:
         },
       ],
       max_tokens: 2000,
-      response_format: { type: 'json_object' },
-    });
-
-    const analysis = JSON.parse(response.choices[0].message.content || '{}');
+    }, movementAnalysisSchema, 'Movement analysis');
 
     return NextResponse.json(
       {
@@ -291,14 +293,14 @@ Focus on:
           movementPatterns: analysis.movementPatterns || [],
           movementConsistency: analysis.movementConsistency,
           dynamicStability: analysis.dynamicStability,
-          performanceInterpretation: analysis.performanceInterpretation || 'No interpretation available',
-          performanceImpact: analysis.performanceImpact || [],
-          balanceScore: analysis.balanceScore || 0,
-          symmetryScore: analysis.symmetryScore || 0,
-          posturalEfficiency: analysis.posturalEfficiency || 0,
-          riskLevel: analysis.riskLevel || 'Low',
-          riskDescription: analysis.riskDescription || '',
-          targetedRecommendations: analysis.targetedRecommendations || [],
+          performanceInterpretation: analysis.performanceInterpretation,
+          performanceImpact: analysis.performanceImpact,
+          balanceScore: analysis.balanceScore,
+          symmetryScore: analysis.symmetryScore,
+          posturalEfficiency: analysis.posturalEfficiency,
+          riskLevel: analysis.riskLevel,
+          riskDescription: analysis.riskDescription,
+          targetedRecommendations: analysis.targetedRecommendations,
           timestamp: new Date().toISOString(),
         },
       },
@@ -306,6 +308,12 @@ Focus on:
     );
   } catch (error: any) {
     console.error('Error analyzing movement:', error);
+    if (error instanceof LLMValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 502 }
+      );
+    }
     return NextResponse.json(
       { error: error.message || 'Failed to analyze movement' },
       { status: 500 }
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { SESClient, SendEmailCommand } from '@aws-sdk/client-ses';
 import { saveSubjectProfile } from '@/lib/dynamodb-subjects';
+import { isValidHeightCm } from '@/lib/calibration';
 import { randomUUID } from 'crypto';
 
 // Initialize SES client
@@ -29,7 +30,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { name, email, sportType, notes } = await req.json();
+    const { name, email, sportType, heightCm, notes } = await req.json();
 
     if (!name || !email) {
       return NextResponse.json(
@@ -47,6 +48,14 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const height = heightCm !== undefined && heightCm !== '' ? Number(heightCm) : undefined;
+    if (height !== undefined && !isValidHeightCm(height)) {
+      return NextResponse.json(
+        { error: 'Height must be between 50 and 250 cm' },
+        { status: 400 }
+      );
+    }
+
     // Parse name into first and last name
     const nameParts = name.trim().split(' ');
     const f_name = nameParts[0] || '';
@@ -75,6 +84,7 @@ export async function POST(req: NextRequest) {
         coach_id: session.user.id,
         owner_id: session.user.id, // Required partition key for jak-subjects table
         sport: sportType || undefined,
+        height_cm: height,
         notes: notes || undefined,
         status: 'pending_invite',
       });
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/app/api/auth/[...nextauth]/route"
+import { getCatalogExercise, setCatalogExemplar } from "@/lib/dynamodb-exercise-catalog"
+import { getSessionById } from "@/lib/dynamodb-schedules"
+import { getPoseTrackChunks } from "@/lib/dynamodb-pose-tracks"
+import { decodePoseStream } from "@/lib/pose-stream"
+import { mergePoseTrackChunks } from "@/lib/pose-tracks"
+import { trimFrames } from "@/lib/movement-comparison"
+import { buildReferenceTemplate } from "@/lib/reference-templates"
+
+/**
+ * Attach a recorded pose track as the exercise's exemplar (what the movement should look like) and derive
+ * the reference template reps are scored against. Only the coach who ran the session can use it as an exemplar,
+ * and only the coach who attached the current exemplar can replace it.
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: exerciseId } = await params
+
+    let body
+    try {
+      body = await req.json()
+    } catch (parseError) {
+      return NextResponse.json({ error: "Invalid JSON in request body" }, { status: 400 })
+    }
+
+    const { sessionId, participantId, startMs, endMs } = body
+
+    if (typeof sessionId !== "string" || !sessionId || typeof participantId !== "string" || !participantId) {
+      return NextResponse.json({ error: "sessionId and participantId are required" }, { status: 400 })
+    }
+
+    const isTime = (value: unknown) => value === undefined || (typeof value === "number" && Number.isFinite(value))
+    if (!isTime(startMs) || !isTime(endMs) || (startMs !== undefined && endMs !== undefined && startMs >= endMs)) {
+      return NextResponse.json({ error: "startMs and endMs must be timestamps with startMs before endMs" }, { status: 400 })
+    }
+
+    const exercise = await getCatalogExercise(exerciseId)
+    if (!exercise) {
+      return NextResponse.json({ error: "Exercise not found" }, { status: 404 })
+    }
+
+    // Replacing an exemplar also replaces the template other coaches' reps are scored against
+    if (exercise.exemplar && exercise.exemplar.set_by !== session.user.id) {
+      return NextResponse.json(
+        { error: "Forbidden - Only the coach who attached the exemplar can replace it" },
+        { status: 403 }
+      )
+    }
+
+    const recording = await getSessionById(sessionId, session.user.id)
+    if (!recording) {
+      return NextResponse.json(
+        { error: "Forbidden - You can only use recordings from your own sessions" },
+        { status: 403 }
+      )
+    }
+
+    const chunks = await getPoseTrackChunks(sessionId, participantId)
+    const frames = trimFrames(
+      mergePoseTrackChunks(chunks.map((chunk) => ({ frames: chunk.stream ? decodePoseStream(chunk.stream).frames : chunk.frames || [] }))),
+      startMs,
+      endMs
+    )
+    if (frames.length === 0) {
+      return NextResponse.json({ error: "No pose data was recorded for this participant in that range" }, { status: 400 })
+    }
+    // Null when the recording has no full rep - the exemplar still works for side-by-side comparison
+    const template = buildReferenceTemplate(frames, exercise.name)
+
+    const exemplar = {
+      session_id: sessionId,
+      participant_id: participantId,
+      ...(startMs !== undefined ? { start_ms: startMs } : {}),
+      ...(endMs !== undefined ? { end_ms: endMs } : {}),
+      set_by: session.user.id,
+      set_at: new Date().toISOString(),
+    }
+    await setCatalogExemplar(exerciseId, exemplar, template)
+
+    console.log(`[API] Set exemplar for exercise ${exerciseId} from session ${sessionId} (${template ? `template from ${template.repsAnalyzed} rep(s)` : "no full reps - no template"})`)
+
+    return NextResponse.json({ exemplar, referenceTemplate: template }, { status: 200 })
+  } catch (error: any) {
+    console.error("Error setting exercise exemplar:", error)
+    return NextResponse.json(
+      { error: error.message || "Failed to set exemplar" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Detach the exercise's exemplar
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: exerciseId } = await params
+
+    const exercise = await getCatalogExercise(exerciseId)
+    if (!exercise) {
+      return NextResponse.json({ error: "Exercise not found" }, { status: 404 })
+    }
+
+    if (exercise.exemplar && exercise.exemplar.set_by !== session.user.id) {
+      return NextResponse.json(
+        { error: "Forbidden - Only the coach who attached the exemplar can remove it" },
+        { status: 403 }
+      )
+    }
+
+    await setCatalogExemplar(exerciseId, null)
+
+    return NextResponse.json({ success: true }, { status: 200 })
+  } catch (error: any) {
+    console.error("Error removing exercise exemplar:", error)
+    return NextResponse.json(
+      { error: error.message || "Failed to remove exemplar" },
+      { status: 500 }
+    )
+  }
+}
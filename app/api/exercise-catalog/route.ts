@@ -46,6 +46,9 @@ export async function GET(req: NextRequest) {
       instructions: item.instructions || [],
       benefits: item.benefits || [],
       videoUrl: item.video_url,
+      formRules: item.form_rules || [], // Machine-checkable criteria (see lib/movement-rules.ts)
+      exemplar: item.exemplar, // Reference recording to compare against (see lib/movement-comparison.ts)
+      referenceTemplate: item.reference_template, // Target ranges / tempo reps are scored against (see lib/reference-templates.ts)
     }))
 
     return NextResponse.json({ exercises }, { status: 200 })
@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { getSessionById, isSessionMember } from '@/lib/dynamodb-schedules';
+import { deleteSessionBookmark, getSessionBookmarks, saveSessionBookmark } from '@/lib/dynamodb-session-bookmarks';
+
+const MAX_NOTE_LENGTH = 2000;
+
+/**
+ * Get the review bookmarks of a session
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: sessionId } = await params;
+
+    const dbSession = await getSessionById(sessionId);
+
+    if (!dbSession) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!isSessionMember(dbSession, session.user.id)) {
+      return NextResponse.json(
+        { error: 'Forbidden - You are not part of this session' },
+        { status: 403 }
+      );
+    }
+
+    const bookmarks = await getSessionBookmarks(sessionId);
+
+    return NextResponse.json(
+      { bookmarks },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('[API] Error fetching bookmarks:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch bookmarks' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Bookmark a moment of a participant's pose track with a note
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: sessionId } = await params;
+
+    const dbSession = await getSessionById(sessionId);
+
+    if (!dbSession) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    if (dbSession.user_id !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Only the coach can add bookmarks on this session' },
+        { status: 403 }
+      );
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const { participantId, timestampMs, note } = body;
+
+    if (!participantId || typeof timestampMs !== 'number' || !Number.isFinite(timestampMs)) {
+      return NextResponse.json(
+        { error: 'participantId and timestampMs are required' },
+        { status: 400 }
+      );
+    }
+    if (typeof note !== 'string' || note.length > MAX_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `note must be a string of at most ${MAX_NOTE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const bookmark = await saveSessionBookmark({
+      session_id: sessionId,
+      participant_id: participantId,
+      timestamp_ms: Math.round(timestampMs),
+      note: note.trim(),
+      created_by: session.user.id,
+    });
+
+    return NextResponse.json(
+      { bookmark },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('[API] Error saving bookmark:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to save bookmark' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a bookmark (?bookmarkId=)
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: sessionId } = await params;
+
+    const dbSession = await getSessionById(sessionId);
+
+    if (!dbSession) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    if (dbSession.user_id !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Only the coach can delete bookmarks on this session' },
+        { status: 403 }
+      );
+    }
+
+    const bookmarkId = req.nextUrl.searchParams.get('bookmarkId');
+
+    if (!bookmarkId) {
+      return NextResponse.json(
+        { error: 'bookmarkId is required' },
+        { status: 400 }
+      );
+    }
+
+    await deleteSessionBookmark(sessionId, bookmarkId);
+
+    return NextResponse.json(
+      { success: true },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('[API] Error deleting bookmark:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete bookmark' },
+      { status: 500 }
+    );
+  }
+}
@@ -121,8 +121,8 @@ export async function POST(
     const docClient = DynamoDBDocumentClient.from(client);
 
     // Update session based on session type
-    if (dbSession.session_type === 'single' || dbSession.session_type === 'mocap') {
-      // For single/mocap sessions, we cannot add additional participants
+    if (dbSession.session_type === 'single' || dbSession.session_type === 'mocap' || dbSession.session_type === 'screening') {
+      // For single/mocap/screening sessions, we cannot add additional participants
       // This is a 1:1 session and adding more would require converting to a group session
       return NextResponse.json(
         { error: 'Cannot add additional participants to a 1:1 session. This session type only supports one participant.' },
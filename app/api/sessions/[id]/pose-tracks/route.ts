@@ -0,0 +1,240 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { getSessionById, isSessionMember } from '@/lib/dynamodb-schedules';
+import { getCatalogExercise } from '@/lib/dynamodb-exercise-catalog';
+import { getPoseTrackChunks, savePoseTrackChunk, type PoseTrackChunkItem, type PoseTrackChunkPayload } from '@/lib/dynamodb-pose-tracks';
+import {
+  decodePoseStream,
+  encodePoseStream,
+  POSE_STREAM_VERSION,
+  poseStreamFromBase64,
+  poseStreamToBase64,
+  PoseStreamError,
+  toPoseStreamJson,
+  type PoseStream,
+} from '@/lib/pose-stream';
+import { mergePoseTrackChunks } from '@/lib/pose-tracks';
+import { trimFrames } from '@/lib/movement-comparison';
+
+const MAX_FRAMES_PER_CHUNK = 300; // 10 s at 30 fps - keeps a chunk under the DynamoDB item size limit
+
+const framesOf = (chunk: PoseTrackChunkItem) =>
+  chunk.stream ? decodePoseStream(chunk.stream).frames : chunk.frames || [];
+
+// The part of a chunk inside an exemplar's trim (null when none of it is)
+const trimChunk = (chunk: PoseTrackChunkItem, startMs?: number, endMs?: number): PoseTrackChunkItem | null => {
+  const frames = trimFrames(framesOf(chunk), startMs, endMs);
+  if (frames.length === 0) return null;
+  return {
+    ...chunk,
+    start_ms: frames[0].timestamp,
+    end_ms: frames[frames.length - 1].timestamp,
+    frame_count: frames.length,
+    format_version: POSE_STREAM_VERSION,
+    stream: encodePoseStream(frames, { participantId: chunk.participant_id, sourceId: chunk.source_id, aspectRatio: chunk.aspect_ratio }),
+    frames: undefined,
+  };
+};
+
+/**
+ * Save pose track chunks recorded during a live session
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: sessionId } = await params;
+
+    const dbSession = await getSessionById(sessionId);
+
+    if (!dbSession) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!isSessionMember(dbSession, session.user.id)) {
+      return NextResponse.json(
+        { error: 'Forbidden - You are not part of this session' },
+        { status: 403 }
+      );
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const { participantId, participantName, sourceId, aspectRatio, chunks } = body;
+
+    if (!participantId || !Array.isArray(chunks) || chunks.length === 0) {
+      return NextResponse.json(
+        { error: 'participantId and chunks are required' },
+        { status: 400 }
+      );
+    }
+
+    // The coach records everyone in the session; participants only their own tracks
+    if (dbSession.user_id !== session.user.id && participantId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Forbidden - You can only save your own pose tracks' },
+        { status: 403 }
+      );
+    }
+
+    // Decode every chunk up front so a bad one rejects the whole upload
+    const decoded: Array<{ bytes: Uint8Array; stream: PoseStream }> = [];
+    for (const chunk of chunks) {
+      if (typeof chunk?.stream !== 'string') {
+        return NextResponse.json(
+          { error: 'Each chunk needs a base64 pose stream' },
+          { status: 400 }
+        );
+      }
+      try {
+        const bytes = poseStreamFromBase64(chunk.stream);
+        decoded.push({ bytes, stream: decodePoseStream(bytes) });
+      } catch (decodeError) {
+        const message = decodeError instanceof PoseStreamError ? decodeError.message : 'Invalid base64';
+        return NextResponse.json(
+          { error: `Invalid pose stream: ${message}` },
+          { status: 400 }
+        );
+      }
+    }
+    if (decoded.some(({ stream }) => stream.frames.length === 0 || stream.frames.length > MAX_FRAMES_PER_CHUNK)) {
+      return NextResponse.json(
+        { error: `Each chunk needs 1-${MAX_FRAMES_PER_CHUNK} frames` },
+        { status: 400 }
+      );
+    }
+
+    for (const { bytes, stream } of decoded) {
+      await savePoseTrackChunk({
+        session_id: sessionId,
+        participant_id: participantId,
+        participant_name: participantName || participantId,
+        source_id: sourceId || stream.sourceId || participantId,
+        aspect_ratio: typeof aspectRatio === 'number' && aspectRatio > 0 ? aspectRatio : stream.aspectRatio || 16 / 9, // Assume landscape when unknown
+        start_ms: stream.frames[0].timestamp,
+        end_ms: stream.frames[stream.frames.length - 1].timestamp,
+        frame_count: stream.frames.length,
+        format_version: stream.version,
+        stream: bytes,
+      });
+    }
+
+    console.log(`[API] Saved ${chunks.length} pose track chunk(s) for ${participantId} in session ${sessionId}`);
+
+    return NextResponse.json(
+      { success: true, saved: chunks.length },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('[API] Error saving pose track chunks:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to save pose track' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Get the recorded pose tracks of a session (?participantId= to load one person).
+ * ?format=json downloads the decoded tracks as the interoperable JSON export instead.
+ * Catalog exemplars are shared with every coach, so ?exemplarOf=<exerciseId> lets someone outside the session
+ * load just that exercise's exemplar recording.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: sessionId } = await params;
+
+    const dbSession = await getSessionById(sessionId);
+
+    if (!dbSession) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const participantId = req.nextUrl.searchParams.get('participantId') || undefined;
+    const exemplarOf = req.nextUrl.searchParams.get('exemplarOf');
+
+    let chunks: PoseTrackChunkItem[];
+    if (isSessionMember(dbSession, session.user.id)) {
+      chunks = await getPoseTrackChunks(sessionId, participantId);
+    } else {
+      const exemplar = exemplarOf ? (await getCatalogExercise(exemplarOf))?.exemplar : undefined;
+      if (!exemplar || exemplar.session_id !== sessionId) {
+        return NextResponse.json(
+          { error: 'Forbidden - You are not part of this session' },
+          { status: 403 }
+        );
+      }
+      chunks = (await getPoseTrackChunks(sessionId, exemplar.participant_id))
+        .map((chunk) => trimChunk(chunk, exemplar.start_ms, exemplar.end_ms))
+        .filter((chunk): chunk is PoseTrackChunkItem => chunk !== null);
+    }
+
+    if (req.nextUrl.searchParams.get('format') === 'json') {
+      const tracks = new Map<string, PoseTrackChunkItem[]>();
+      chunks.forEach((chunk) => tracks.set(chunk.participant_id, [...(tracks.get(chunk.participant_id) || []), chunk]));
+      const exported = toPoseStreamJson(Array.from(tracks.entries()).map(([id, items]) => ({
+        participantId: id,
+        participantName: items[0].participant_name,
+        aspectRatio: items[0].aspect_ratio,
+        frames: mergePoseTrackChunks(items.map((chunk) => ({ frames: framesOf(chunk) }))),
+      })));
+      return NextResponse.json(exported, {
+        status: 200,
+        headers: { 'Content-Disposition': `attachment; filename="pose-tracks-${sessionId}.json"` },
+      });
+    }
+
+    // Streams go out as base64 and are decoded by the review page
+    const payload: PoseTrackChunkPayload[] = chunks.map(({ stream, ...chunk }) => (
+      stream ? { ...chunk, stream: poseStreamToBase64(stream) } : chunk
+    ));
+
+    return NextResponse.json(
+      { chunks: payload },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('[API] Error fetching pose tracks:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch pose tracks' },
+      { status: 500 }
+    );
+  }
+}
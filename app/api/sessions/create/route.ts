@@ -9,6 +9,7 @@ import { RoomServiceClient } from 'livekit-server-sdk';
 import { SESClient, SendRawEmailCommand } from '@aws-sdk/client-ses';
 import { generateICS } from '@/lib/icalendar';
 import { createMultipartEmail } from '@/lib/email-utils';
+import { isPoseBackendId } from '@/lib/pose-backends';
 
 // Initialize SES client
 // Use JAK_ prefixed vars for Netlify (AWS_* are reserved), fallback to AWS_* for local dev
@@ -37,7 +38,7 @@ export async function POST(req: NextRequest) {
     const userId = session.user.id;
     const body = await req.json();
 
-    const { title, date, time, duration, sessionType, subjectIds, notes } = body;
+    const { title, date, time, duration, sessionType, subjectIds, notes, poseBackend } = body;
 
     // Validate required fields
     if (!title || !date || !time || !duration || !sessionType) {
@@ -47,6 +48,14 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Optional pose model for the session - sessions without one use the session-type default
+    if (poseBackend !== undefined && !isPoseBackendId(poseBackend)) {
+      return NextResponse.json(
+        { error: 'Unknown pose backend' },
+        { status: 400 }
+      );
+    }
+
     // Validate subject selection
     if (!subjectIds || subjectIds.length === 0) {
       return NextResponse.json(
@@ -70,6 +79,13 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    if (sessionType === 'screening' && subjectIds.length !== 1) {
+      return NextResponse.json(
+        { error: 'Movement screen sessions must have exactly one client' },
+        { status: 400 }
+      );
+    }
+
     if (sessionType === 'group' && subjectIds.length < 2) {
       return NextResponse.json(
         { error: 'Group sessions must have at least two clients' },
@@ -119,10 +135,11 @@ export async function POST(req: NextRequest) {
       notes: notes || undefined,
       status: 'scheduled',
       livekit_room_name: livekitRoomName,
+      pose_backend: poseBackend,
     };
 
-    // Add subject_id for single/mocap sessions, subject_ids for group sessions
-    if (sessionType === 'single' || sessionType === 'mocap') {
+    // Add subject_id for single/mocap/screening sessions, subject_ids for group sessions
+    if (sessionType === 'single' || sessionType === 'mocap' || sessionType === 'screening') {
       sessionData.subject_id = subjectIds[0];
     } else {
       sessionData.subject_ids = subjectIds;
@@ -159,8 +176,8 @@ export async function POST(req: NextRequest) {
       console.error('Error fetching coach profile for email:', error);
     }
 
-    // Get all subject IDs (handle single, mocap, and group sessions)
-    const allSubjectIds = (sessionType === 'single' || sessionType === 'mocap') ? [subjectIds[0]] : subjectIds;
+    // Get all subject IDs (handle single, mocap, screening and group sessions)
+    const allSubjectIds = (sessionType === 'single' || sessionType === 'mocap' || sessionType === 'screening') ? [subjectIds[0]] : subjectIds;
 
     // Send emails to all members
     const emailResults = await Promise.allSettled(
@@ -174,7 +191,7 @@ export async function POST(req: NextRequest) {
           }
 
           const memberName = subject.name || subject.full_name || subject.f_name || 'Member';
-          const sessionTypeText = sessionType === 'single' ? 'Virtual 1:1 Session' : sessionType === 'mocap' ? 'In-Person 1:1 Motion Capture Session' : 'Virtual Group Session';
+          const sessionTypeText = sessionType === 'single' ? 'Virtual 1:1 Session' : sessionType === 'mocap' ? 'In-Person 1:1 Motion Capture Session' : sessionType === 'screening' ? 'Virtual 1:1 Movement Screen' : 'Virtual Group Session';
           const isMocapSession = sessionType === 'mocap';
 
           // Create email content
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { getSubjectProfile } from '@/lib/dynamodb-subjects';
+import { getAIInsightsBySubject } from '@/lib/dynamodb-ai-insights';
+import type { GaitRecord } from '@/lib/gait-analysis';
+
+/**
+ * Gait mechanics per session for a subject (oldest first) - from the insights generated at the end of each session
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: subjectId } = await params;
+
+    const subject = await getSubjectProfile(subjectId);
+
+    if (!subject) {
+      return NextResponse.json(
+        { error: 'Subject profile not found' },
+        { status: 404 }
+      );
+    }
+
+    // Members see their own trend, coaches the trends of their clients
+    const isViewingOwnProfile = session.user.id === subjectId;
+    const isCoachViewingClient = session.user.id === subject.owner_id;
+
+    if (!isViewingOwnProfile && !isCoachViewingClient) {
+      return NextResponse.json(
+        { error: 'Forbidden - You can only view your own profile or profiles of clients assigned to you' },
+        { status: 403 }
+      );
+    }
+
+    const insights = await getAIInsightsBySubject(subjectId);
+
+    // The insight sort key is session_id#insight_id - keep the newest insight with gait data per session
+    const bySession = new Map<string, { sessionId: string; date: string; gait: GaitRecord }>();
+    insights.forEach((insight) => {
+      if (!insight.gait_metrics) return;
+      const sessionId = insight.session_id.split('#')[0];
+      const date = insight.timestamp || insight.created_at;
+      const existing = bySession.get(sessionId);
+      if (!existing || existing.date < date) {
+        bySession.set(sessionId, { sessionId, date, gait: insight.gait_metrics });
+      }
+    });
+
+    const sessions = Array.from(bySession.values()).sort((a, b) => a.date.localeCompare(b.date));
+
+    return NextResponse.json({ sessions });
+  } catch (error: any) {
+    console.error('[API] Error fetching gait trend:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch gait trend' },
+      { status: 500 }
+    );
+  }
+}
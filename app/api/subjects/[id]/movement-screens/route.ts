@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { getSubjectProfile } from '@/lib/dynamodb-subjects';
+import { getMovementScreensBySubject, saveMovementScreen } from '@/lib/dynamodb-movement-screens';
+import { SCREEN_PROTOCOL_VERSION, SCREEN_TESTS, type ScreenTestRecord } from '@/lib/movement-screen';
+
+const isScore = (value: unknown) => value === 0 || value === 1 || value === 2 || value === 3;
+
+const isValidSide = (value: unknown) => {
+  if (!value || typeof value !== 'object') return false;
+  const side = value as Record<string, unknown>;
+  return isScore(side.score) && (side.auto_score === undefined || isScore(side.auto_score));
+};
+
+const isValidTest = (value: unknown): value is ScreenTestRecord => {
+  if (!value || typeof value !== 'object') return false;
+  const test = value as Record<string, unknown>;
+  // Own keys only - an inherited name like "toString" is not a screen test
+  if (typeof test.test_id !== 'string' || !Object.prototype.hasOwnProperty.call(SCREEN_TESTS, test.test_id)) return false;
+  const sides = test.sides;
+  return isScore(test.score)
+    && Array.isArray(sides)
+    && sides.length === (SCREEN_TESTS[test.test_id as keyof typeof SCREEN_TESTS].sided ? 2 : 1)
+    && sides.every(isValidSide)
+    && test.score === Math.min(...sides.map((side: { score: number }) => side.score))
+    && Array.isArray(test.reasons);
+};
+
+/**
+ * Movement screens of a subject (newest first)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: subjectId } = await params;
+
+    const subject = await getSubjectProfile(subjectId);
+
+    if (!subject) {
+      return NextResponse.json(
+        { error: 'Subject profile not found' },
+        { status: 404 }
+      );
+    }
+
+    // Members see their own screens, coaches those of their clients
+    const isViewingOwnProfile = session.user.id === subjectId;
+    const isCoachViewingClient = session.user.id === subject.owner_id;
+
+    if (!isViewingOwnProfile && !isCoachViewingClient) {
+      return NextResponse.json(
+        { error: 'Forbidden - You can only view your own profile or profiles of clients assigned to you' },
+        { status: 403 }
+      );
+    }
+
+    const screens = await getMovementScreensBySubject(subjectId);
+
+    return NextResponse.json({ screens });
+  } catch (error: any) {
+    console.error('[API] Error fetching movement screens:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch movement screens' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Store a scored movement screen (composite and flags are recomputed from the tests)
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: subjectId } = await params;
+
+    const subject = await getSubjectProfile(subjectId);
+
+    if (!subject) {
+      return NextResponse.json(
+        { error: 'Subject profile not found' },
+        { status: 404 }
+      );
+    }
+
+    // Members see their own screens, coaches those of their clients
+    const isViewingOwnProfile = session.user.id === subjectId;
+    const isCoachViewingClient = session.user.id === subject.owner_id;
+
+    if (!isViewingOwnProfile && !isCoachViewingClient) {
+      return NextResponse.json(
+        { error: 'Forbidden - You can only view your own profile or profiles of clients assigned to you' },
+        { status: 403 }
+      );
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const { sessionId, tests } = body;
+
+    const testIds = Array.isArray(tests) ? tests.map((test: unknown) => (test as { test_id?: unknown } | null)?.test_id) : [];
+    if (!Array.isArray(tests) || tests.length === 0 || !tests.every(isValidTest) || new Set(testIds).size !== testIds.length) {
+      return NextResponse.json(
+        { error: 'tests must be a non-empty array of scored screen tests (0-3, one per test)' },
+        { status: 400 }
+      );
+    }
+
+    const screen = await saveMovementScreen({
+      subject_id: subjectId,
+      session_id: typeof sessionId === 'string' ? sessionId : undefined,
+      protocol_version: SCREEN_PROTOCOL_VERSION,
+      tests,
+      created_by: session.user.id,
+    });
+
+    return NextResponse.json(
+      { screen },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('[API] Error saving movement screen:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to save movement screen' },
+      { status: 500 }
+    );
+  }
+}
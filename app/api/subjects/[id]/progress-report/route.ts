@@ -0,0 +1,230 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { getSubjectProfile } from '@/lib/dynamodb-subjects';
+import { getAIInsightsBySubject } from '@/lib/dynamodb-ai-insights';
+import { getAISummaryBySubject } from '@/lib/dynamodb-ai-summary';
+import { getAIMetricsBySubject } from '@/lib/dynamodb-ai-metrics';
+import { getRomAssessmentsBySubject } from '@/lib/dynamodb-rom-assessments';
+import { getMovementScreensBySubject } from '@/lib/dynamodb-movement-screens';
+import { buildSubjectTrends } from '@/lib/subject-trends';
+import {
+  buildProgressReport,
+  describeProgressComparison,
+  summarizeProgressReport,
+  type ProgressReport,
+} from '@/lib/progress-report';
+import { renderPdf } from '@/lib/pdf';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+/**
+ * Generate the progress report PDF using Puppeteer (same setup as the session report)
+ */
+async function generatePDF(report: ProgressReport, subjectName: string): Promise<Buffer> {
+  const significanceClass = (significance: string, direction: string) =>
+    significance !== 'meaningful' ? 'neutral' : direction === 'improved' ? 'improved' : direction === 'declined' ? 'declined' : 'neutral';
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <style>
+    body {
+      font-family: Arial, sans-serif;
+      padding: 40px;
+      line-height: 1.6;
+      color: #333;
+    }
+    h1 {
+      text-align: center;
+      color: #2c3e50;
+      margin-bottom: 30px;
+      font-size: 24px;
+    }
+    h2 {
+      color: #34495e;
+      border-bottom: 2px solid #3498db;
+      padding-bottom: 5px;
+      margin-top: 25px;
+      margin-bottom: 15px;
+      font-size: 18px;
+    }
+    .info {
+      background-color: #f8f9fa;
+      padding: 15px;
+      border-radius: 5px;
+      margin-bottom: 20px;
+    }
+    .info p {
+      margin: 5px 0;
+    }
+    .improved {
+      color: #27ae60;
+    }
+    .declined {
+      color: #c0392b;
+    }
+    .neutral {
+      color: #7f8c8d;
+    }
+    .footer {
+      margin-top: 40px;
+      padding-top: 20px;
+      border-top: 1px solid #ddd;
+      text-align: center;
+      font-size: 10px;
+      color: #7f8c8d;
+    }
+    .text-content {
+      text-align: justify;
+      margin-bottom: 20px;
+    }
+  </style>
+</head>
+<body>
+  <h1>Progress Report – ${subjectName}</h1>
+
+  <div class="info">
+    <p><strong>Range:</strong> ${report.range.from || 'First session'} – ${report.range.to || 'Today'}</p>
+    <p><strong>Baseline:</strong> ${report.baseline ? formatDate(report.baseline.date) : '-'}${report.baseline_auto ? ' (first session in range)' : ''}</p>
+    <p><strong>Latest:</strong> ${report.latest ? formatDate(report.latest.date) : '-'}${report.latest_auto ? ' (last session in range)' : ''}</p>
+    <p><strong>Sessions in range:</strong> ${report.sessions.length}</p>
+  </div>
+
+  <h2>Overall Assessment</h2>
+  <div class="text-content">
+    <p>${summarizeProgressReport(report)}</p>
+  </div>
+
+  ${report.comparisons.length > 0 ? `
+  <h2>Baseline vs Latest</h2>
+  <div class="text-content">
+    ${report.comparisons.map((comparison) => {
+      const line = describeProgressComparison(comparison);
+      return `<p class="${significanceClass(comparison.significance, comparison.direction)}"><strong>${line.label}:</strong> ${line.value}</p>`;
+    }).join('')}
+  </div>
+  ` : ''}
+
+  ${report.comparisons.some((c) => c.change_points.length > 0) ? `
+  <h2>Change Points</h2>
+  <div class="text-content">
+    ${report.comparisons.flatMap((comparison) => comparison.change_points.map((point) =>
+      `<p><strong>${formatDate(point.date)}:</strong> ${comparison.label} shifted ${point.direction}</p>`)).join('')}
+  </div>
+  ` : ''}
+
+  <div class="footer">
+    Changes are meaningful when larger than the minimal detectable change (95%) estimated from session-to-session variation.<br>
+    Generated on ${new Date().toLocaleString()}
+  </div>
+</body>
+</html>
+  `;
+
+  return renderPdf(html);
+}
+
+/**
+ * Baseline vs latest progress report for a subject
+ * Query: from / to (YYYY-MM-DD), baseline / latest (session IDs - first / last session in range otherwise),
+ * format=pdf to download it as a PDF
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: subjectId } = await params;
+
+    const subject = await getSubjectProfile(subjectId);
+
+    if (!subject) {
+      return NextResponse.json(
+        { error: 'Subject profile not found' },
+        { status: 404 }
+      );
+    }
+
+    // Members see their own report, coaches the reports of their clients
+    const isViewingOwnProfile = session.user.id === subjectId;
+    const isCoachViewingClient = session.user.id === subject.owner_id;
+
+    if (!isViewingOwnProfile && !isCoachViewingClient) {
+      return NextResponse.json(
+        { error: 'Forbidden - You can only view your own profile or profiles of clients assigned to you' },
+        { status: 403 }
+      );
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return NextResponse.json(
+        { error: 'from and to must be dates in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+
+    if (from && to && from > to) {
+      return NextResponse.json(
+        { error: 'from must be on or before to' },
+        { status: 400 }
+      );
+    }
+
+    const [insights, summaries, metrics, romAssessments, movementScreens] = await Promise.all([
+      getAIInsightsBySubject(subjectId),
+      getAISummaryBySubject(subjectId),
+      getAIMetricsBySubject(subjectId),
+      getRomAssessmentsBySubject(subjectId),
+      getMovementScreensBySubject(subjectId),
+    ]);
+
+    const report = buildProgressReport(
+      buildSubjectTrends({ insights, summaries, metrics, romAssessments, movementScreens }),
+      {
+        from,
+        to,
+        baselineSessionId: searchParams.get('baseline'),
+        latestSessionId: searchParams.get('latest'),
+      }
+    );
+
+    if (searchParams.get('format') !== 'pdf') {
+      return NextResponse.json({ report });
+    }
+
+    const subjectName = subject.full_name || subject.name || [subject.f_name, subject.l_name].filter(Boolean).join(' ') || 'Client';
+    const pdfBuffer = await generatePDF(report, subjectName);
+
+    return new NextResponse(pdfBuffer as any, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="progress-report-${subjectId}-${Date.now()}.pdf"`,
+      },
+    });
+  } catch (error: any) {
+    console.error('[API] Error building progress report:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to build progress report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { getSubjectProfile } from '@/lib/dynamodb-subjects';
+import { getRomAssessmentsBySubject, saveRomAssessment } from '@/lib/dynamodb-rom-assessments';
+import {
+  rescoreRomTestRecord,
+  ROM_PROTOCOL_VERSION,
+  ROM_TESTS,
+  type RomTestDefinition,
+  type RomTestId,
+  type RomTestRecord,
+} from '@/lib/rom-assessment';
+
+const isValidMeasure = (definition: RomTestDefinition, value: unknown) => {
+  if (!value || typeof value !== 'object') return false;
+  const measure = value as Record<string, unknown>;
+  const measureDefinition = definition.measures.find((m) => m.key === measure.measure);
+  return !!measureDefinition
+    && (measureDefinition.sided ? measure.side === 'left' || measure.side === 'right' : measure.side === 'both')
+    && typeof measure.value_deg === 'number' && Number.isFinite(measure.value_deg) && Math.abs(measure.value_deg) <= 360;
+};
+
+// Only the test ids and measured angles are used - statuses and asymmetries are recomputed before saving
+const isValidTest = (value: unknown): value is RomTestRecord => {
+  if (!value || typeof value !== 'object') return false;
+  const test = value as Record<string, unknown>;
+  // Own keys only - an inherited name like "toString" is not a ROM test
+  if (typeof test.test_id !== 'string' || !Object.prototype.hasOwnProperty.call(ROM_TESTS, test.test_id)) return false;
+  const definition = ROM_TESTS[test.test_id as RomTestId];
+  const measures = test.measures;
+  if (!Array.isArray(measures) || measures.length === 0 || !measures.every((m) => isValidMeasure(definition, m))) return false;
+  const keys = measures.map((m: { measure: string; side: string }) => `${m.measure}#${m.side}`);
+  return new Set(keys).size === keys.length;
+};
+
+/**
+ * Range-of-motion assessments of a subject (newest first)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: subjectId } = await params;
+
+    const subject = await getSubjectProfile(subjectId);
+
+    if (!subject) {
+      return NextResponse.json(
+        { error: 'Subject profile not found' },
+        { status: 404 }
+      );
+    }
+
+    // Members see and run their own assessments, coaches those of their clients
+    const isViewingOwnProfile = session.user.id === subjectId;
+    const isCoachViewingClient = session.user.id === subject.owner_id;
+
+    if (!isViewingOwnProfile && !isCoachViewingClient) {
+      return NextResponse.json(
+        { error: 'Forbidden - You can only view your own profile or profiles of clients assigned to you' },
+        { status: 403 }
+      );
+    }
+
+    const assessments = await getRomAssessmentsBySubject(subjectId);
+
+    return NextResponse.json({ assessments });
+  } catch (error: any) {
+    console.error('[API] Error fetching ROM assessments:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch ROM assessments' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Store a completed ROM assessment so later sessions can be compared against it
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: subjectId } = await params;
+
+    const subject = await getSubjectProfile(subjectId);
+
+    if (!subject) {
+      return NextResponse.json(
+        { error: 'Subject profile not found' },
+        { status: 404 }
+      );
+    }
+
+    // Members see and run their own assessments, coaches those of their clients
+    const isViewingOwnProfile = session.user.id === subjectId;
+    const isCoachViewingClient = session.user.id === subject.owner_id;
+
+    if (!isViewingOwnProfile && !isCoachViewingClient) {
+      return NextResponse.json(
+        { error: 'Forbidden - You can only view your own profile or profiles of clients assigned to you' },
+        { status: 403 }
+      );
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const { sessionId, tests } = body;
+
+    const testIds = Array.isArray(tests) ? tests.map((test: unknown) => (test as { test_id?: unknown } | null)?.test_id) : [];
+    if (!Array.isArray(tests) || tests.length === 0 || !tests.every(isValidTest) || new Set(testIds).size !== testIds.length) {
+      return NextResponse.json(
+        { error: 'tests must be a non-empty array of ROM test results (one per test)' },
+        { status: 400 }
+      );
+    }
+
+    const assessment = await saveRomAssessment({
+      subject_id: subjectId,
+      session_id: typeof sessionId === 'string' ? sessionId : undefined,
+      protocol_version: ROM_PROTOCOL_VERSION,
+      tests: tests.map(rescoreRomTestRecord),
+      created_by: session.user.id,
+    });
+
+    return NextResponse.json(
+      { assessment },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('[API] Error saving ROM assessment:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to save ROM assessment' },
+      { status: 500 }
+    );
+  }
+}
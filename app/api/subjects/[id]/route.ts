@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { getSubjectProfile, updateSubjectProfile } from '@/lib/dynamodb-subjects';
 import { getUserProfile } from '@/lib/dynamodb';
+import { isValidHeightCm } from '@/lib/calibration';
 
 export async function GET(
   req: NextRequest,
@@ -115,7 +116,14 @@ export async function PUT(
     }
 
     const body = await req.json();
-    const { f_name, l_name, name, full_name, sport } = body;
+    const { f_name, l_name, name, full_name, sport, height_cm } = body;
+
+    if (height_cm !== undefined && height_cm !== null && !isValidHeightCm(Number(height_cm))) {
+      return NextResponse.json(
+        { error: 'Height must be between 50 and 250 cm' },
+        { status: 400 }
+      );
+    }
 
     // Get existing profile to preserve owner_id
     // Note: Don't pass session.user.id as ownerId - owner_id is the coach's ID, not the member's
@@ -135,6 +143,7 @@ export async function PUT(
     if (name !== undefined) updates.name = name;
     if (full_name !== undefined) updates.full_name = full_name;
     if (sport !== undefined) updates.sport = sport;
+    if (height_cm !== undefined && height_cm !== null) updates.height_cm = Number(height_cm);
 
     // Update full_name if f_name or l_name changed
     if (f_name !== undefined || l_name !== undefined) {
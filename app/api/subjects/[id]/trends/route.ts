@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { getSubjectProfile } from '@/lib/dynamodb-subjects';
+import { getAIInsightsBySubject } from '@/lib/dynamodb-ai-insights';
+import { getAISummaryBySubject } from '@/lib/dynamodb-ai-summary';
+import { getAIMetricsBySubject } from '@/lib/dynamodb-ai-metrics';
+import { getRomAssessmentsBySubject } from '@/lib/dynamodb-rom-assessments';
+import { getMovementScreensBySubject } from '@/lib/dynamodb-movement-screens';
+import { buildSubjectTrends } from '@/lib/subject-trends';
+
+/**
+ * Per-session time series for a subject across all sessions (oldest first) - scores, risk, rep / ROM metrics
+ * and assessment scores, each with a rolling average and change-point flags
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: subjectId } = await params;
+
+    const subject = await getSubjectProfile(subjectId);
+
+    if (!subject) {
+      return NextResponse.json(
+        { error: 'Subject profile not found' },
+        { status: 404 }
+      );
+    }
+
+    // Members see their own trends, coaches the trends of their clients
+    const isViewingOwnProfile = session.user.id === subjectId;
+    const isCoachViewingClient = session.user.id === subject.owner_id;
+
+    if (!isViewingOwnProfile && !isCoachViewingClient) {
+      return NextResponse.json(
+        { error: 'Forbidden - You can only view your own profile or profiles of clients assigned to you' },
+        { status: 403 }
+      );
+    }
+
+    const [insights, summaries, metrics, romAssessments, movementScreens] = await Promise.all([
+      getAIInsightsBySubject(subjectId),
+      getAISummaryBySubject(subjectId),
+      getAIMetricsBySubject(subjectId),
+      getRomAssessmentsBySubject(subjectId),
+      getMovementScreensBySubject(subjectId),
+    ]);
+
+    const trends = buildSubjectTrends({ insights, summaries, metrics, romAssessments, movementScreens });
+
+    return NextResponse.json(trends);
+  } catch (error: any) {
+    console.error('[API] Error fetching subject trends:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch subject trends' },
+      { status: 500 }
+    );
+  }
+}
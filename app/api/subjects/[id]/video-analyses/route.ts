@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { getSubjectProfile } from '@/lib/dynamodb-subjects';
+import { createSession } from '@/lib/dynamodb-schedules';
+import { randomUUID } from 'crypto';
+
+const MAX_TITLE_LENGTH = 200;
+
+/**
+ * Start the analysis of an uploaded clip. Creates a completed "video_upload" session for the subject,
+ * which the browser then fills with metrics, pose tracks and insights exactly like a live session.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: subjectId } = await params;
+
+    let body;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const { fileName, durationSeconds, exerciseName } = body;
+
+    if (typeof fileName !== 'string' || !fileName.trim() || typeof durationSeconds !== 'number' || durationSeconds <= 0) {
+      return NextResponse.json(
+        { error: 'fileName and a positive durationSeconds are required' },
+        { status: 400 }
+      );
+    }
+
+    const subject = await getSubjectProfile(subjectId);
+
+    if (!subject) {
+      return NextResponse.json(
+        { error: 'Subject profile not found' },
+        { status: 404 }
+      );
+    }
+
+    // Only the client's coach uploads clips for them
+    if (session.user.id !== subject.owner_id) {
+      return NextResponse.json(
+        { error: 'Forbidden - You can only analyze videos for clients assigned to you' },
+        { status: 403 }
+      );
+    }
+
+    const sessionId = randomUUID();
+    const exercise = typeof exerciseName === 'string' && exerciseName.trim() ? exerciseName.trim() : null;
+    const title = `${exercise ? `${exercise} · ` : ''}${fileName.trim()}`.slice(0, MAX_TITLE_LENGTH);
+
+    await createSession({
+      user_id: session.user.id,
+      session_date_time: new Date().toISOString(),
+      session_id: sessionId,
+      subject_id: subjectId,
+      subject_ids: [subjectId],
+      session_type: 'video_upload',
+      title,
+      duration: Math.max(1, Math.ceil(durationSeconds / 60)),
+      ...(exercise ? { notes: `Exercise: ${exercise}` } : {}),
+      status: 'completed', // Nothing to join - the analysis runs in the coach's browser
+    });
+
+    console.log(`[API] Created video analysis session ${sessionId} for subject ${subjectId}`);
+
+    return NextResponse.json(
+      { sessionId, title },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('[API] Error starting video analysis:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to start video analysis' },
+      { status: 500 }
+    );
+  }
+}
@@ -11,6 +11,11 @@ import { Textarea } from "@/components/ui/textarea"
 import { Input } from "@/components/ui/input"
 import { Checkbox } from "@/components/ui/checkbox"
 import { useState, useEffect } from "react"
+import { VideoAnalysisUpload } from "@/components/video-analysis-upload"
+import { GaitTrend } from "@/components/gait-trend"
+import { SubjectTrendsChart } from "@/components/subject-trends"
+import ProgressReportModal from "@/components/progress-report-modal"
+import type { SubjectTrends } from "@/lib/subject-trends"
 
 interface Subject {
   id: string
@@ -114,11 +119,31 @@ export default function ClientPage() {
     { id: "2", text: "Complete 10 strength training sessions", met: true },
   ])
   const [newGoal, setNewGoal] = useState("")
+  const [trends, setTrends] = useState<SubjectTrends | null>(null)
+  const [isLoadingTrends, setIsLoadingTrends] = useState(true)
+  const [isProgressReportOpen, setIsProgressReportOpen] = useState(false)
 
   useEffect(() => {
     fetchClient()
   }, [clientId])
 
+  useEffect(() => {
+    let cancelled = false
+    setIsLoadingTrends(true)
+    fetch(`/api/subjects/${clientId}/trends`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (!cancelled) setTrends(data)
+      })
+      .catch(err => console.error("Error fetching trends:", err))
+      .finally(() => {
+        if (!cancelled) setIsLoadingTrends(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [clientId])
+
   const fetchClient = async () => {
     setIsLoading(true)
     setError(null)
@@ -263,6 +288,14 @@ export default function ClientPage() {
     }
   }
 
+  // Average change of the session scores since the first session (rolling averages)
+  const scoreChanges = (trends?.series || [])
+    .filter(series => ["balance", "symmetry", "postural_efficiency"].includes(series.metric) && series.change !== null)
+    .map(series => series.change as number)
+  const progress = scoreChanges.length > 0
+    ? Math.round((scoreChanges.reduce((sum, change) => sum + change, 0) / scoreChanges.length) * 10) / 10
+    : null
+
   const addNote = () => {
     if (newNote.trim()) {
       setNotes([{ id: Date.now().toString(), text: newNote, timestamp: new Date().toISOString() }, ...notes])
@@ -395,7 +428,9 @@ export default function ClientPage() {
                 </div>
                 <h3 className="font-semibold text-xs md:text-base">Progress</h3>
               </div>
-              <p className="text-xl md:text-3xl font-bold">+12%</p>
+              <p className="text-xl md:text-3xl font-bold">
+                {progress === null ? "-" : `${progress > 0 ? "+" : ""}${progress} pts`}
+              </p>
             </Card>
 
             <Card className="p-3 md:p-6">
@@ -525,6 +560,15 @@ export default function ClientPage() {
             </TabsContent>
 
             <TabsContent value="sessions" className="space-y-6">
+              {/* Offline analysis of a clip the client sent in */}
+              <Card className="p-4 md:p-6">
+                <h2 className="text-lg md:text-xl font-bold mb-1">Video Analysis</h2>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Upload a recorded clip to run it through the same movement analysis as a live session.
+                </p>
+                <VideoAnalysisUpload subjectId={clientId} subjectName={client.name} />
+              </Card>
+
               {/* Upcoming Sessions */}
               <Card className="p-4 md:p-6">
                 <h2 className="text-lg md:text-xl font-bold mb-4">Upcoming Sessions</h2>
@@ -589,13 +633,29 @@ export default function ClientPage() {
 
             <TabsContent value="performance">
               <Card className="p-4 md:p-6">
-                <h2 className="text-lg md:text-xl font-bold mb-4">Performance Metrics</h2>
-                <p className="text-muted-foreground">Performance tracking and analytics coming soon...</p>
+                <div className="flex items-center justify-between gap-2 mb-4">
+                  <h2 className="text-lg md:text-xl font-bold">Performance Metrics</h2>
+                  <Button size="sm" variant="outline" onClick={() => setIsProgressReportOpen(true)}>
+                    <TrendingUp className="w-4 h-4 mr-2" />
+                    Progress Report
+                  </Button>
+                </div>
+                <SubjectTrendsChart trends={trends} isLoading={isLoadingTrends} />
+              </Card>
+              <Card className="p-4 md:p-6 mt-6">
+                <GaitTrend subjectId={clientId} />
               </Card>
             </TabsContent>
           </Tabs>
         </div>
       </div>
+
+      <ProgressReportModal
+        isOpen={isProgressReportOpen}
+        onClose={() => setIsProgressReportOpen(false)}
+        subjectId={clientId}
+        subjectName={client.name}
+      />
     </div>
   )
 }
@@ -0,0 +1,47 @@
+"use client"
+
+import { Suspense } from "react"
+import { useSearchParams } from "next/navigation"
+import { Loader2 } from "lucide-react"
+import { MovementComparisonView } from "@/components/movement-comparison"
+import type { CaptureRef } from "@/lib/movement-comparison"
+
+// ?a=<sessionId>&aParticipant=<id>&aStart=<ms>&aEnd=<ms>, the same with b, or ?exercise=<id> to compare against its exemplar
+function ComparePageContent() {
+  const searchParams = useSearchParams()
+
+  const captureFromParams = (side: "a" | "b"): CaptureRef | null => {
+    const sessionId = searchParams.get(side)
+    if (!sessionId) return null
+    const startMs = Number(searchParams.get(`${side}Start`))
+    const endMs = Number(searchParams.get(`${side}End`))
+    return {
+      sessionId,
+      participantId: searchParams.get(`${side}Participant`) || "",
+      startMs: startMs > 0 ? startMs : undefined,
+      endMs: endMs > 0 ? endMs : undefined,
+    }
+  }
+
+  return (
+    <MovementComparisonView
+      initialA={captureFromParams("a")}
+      initialB={captureFromParams("b")}
+      referenceExerciseId={searchParams.get("exercise")}
+    />
+  )
+}
+
+export default function ComparePage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex items-center justify-center h-screen">
+          <Loader2 className="h-12 w-12 animate-spin text-primary" />
+        </div>
+      }
+    >
+      <ComparePageContent />
+    </Suspense>
+  )
+}
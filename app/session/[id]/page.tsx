@@ -12,9 +12,11 @@ export default function SessionPage() {
   const [sessionTitle, setSessionTitle] = useState<string>("")
   const [sessionOwnerId, setSessionOwnerId] = useState<string | null>(null)
   const [sessionType, setSessionType] = useState<string | null>(null)
+  const [poseBackend, setPoseBackend] = useState<string | null>(null)
   const [sessionStatus, setSessionStatus] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [isCompleted, setIsCompleted] = useState(false)
 
   useEffect(() => {
     const fetchSession = async () => {
@@ -35,6 +37,7 @@ export default function SessionPage() {
         // Check if session is ended (status is "completed")
         if (session.status === "completed") {
           setError("This session has ended and is no longer available to join.")
+          setIsCompleted(true)
           setIsLoading(false)
           return
         }
@@ -42,6 +45,7 @@ export default function SessionPage() {
         setSessionTitle(session.title || "Session")
         setSessionOwnerId(session.user_id || null)
         setSessionType(session.session_type || null) // "single" or "group"
+        setPoseBackend(session.pose_backend || null)
         setSessionStatus(session.status || null)
         
         // Use livekit_room_name if available, otherwise generate from session_id
@@ -76,6 +80,11 @@ export default function SessionPage() {
       <div className="flex items-center justify-center h-screen">
         <div className="text-center">
           <p className="text-destructive mb-4">{error || "Session not found"}</p>
+          {isCompleted && (
+            <a href={`/session/${sessionId}/review`} className="block text-primary hover:underline mb-2">
+              Review session
+            </a>
+          )}
           <a href="/" className="text-primary hover:underline">
             Return to schedule
           </a>
@@ -92,6 +101,7 @@ export default function SessionPage() {
         sessionOwnerId={sessionOwnerId}
         sessionType={sessionType}
         sessionId={sessionId}
+        poseBackend={poseBackend}
       />
     </div>
   )
@@ -0,0 +1,67 @@
+"use client"
+
+import { useParams } from "next/navigation"
+import { useEffect, useState } from "react"
+import { SessionReview } from "@/components/session-review"
+import { Loader2 } from "lucide-react"
+
+export default function SessionReviewPage() {
+  const params = useParams()
+  const sessionId = params.id as string
+  const [sessionTitle, setSessionTitle] = useState<string>("")
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchSession = async () => {
+      try {
+        const response = await fetch(`/api/sessions/${sessionId}`)
+
+        if (!response.ok) {
+          throw new Error("Failed to fetch session")
+        }
+
+        const data = await response.json()
+        if (!data.session) {
+          throw new Error("Session not found")
+        }
+        setSessionTitle(data.session.title || "Session")
+      } catch (err: any) {
+        console.error("Error fetching session:", err)
+        setError(err.message || "Failed to load session")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    if (sessionId) {
+      fetchSession()
+    }
+  }, [sessionId])
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="text-center">
+          <Loader2 className="h-12 w-12 animate-spin text-primary mx-auto mb-4" />
+          <p className="text-muted-foreground">Loading session...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="text-center">
+          <p className="text-destructive mb-4">{error}</p>
+          <a href="/" className="text-primary hover:underline">
+            Return to schedule
+          </a>
+        </div>
+      </div>
+    )
+  }
+
+  return <SessionReview sessionId={sessionId} sessionTitle={sessionTitle} />
+}
@@ -25,6 +25,7 @@ export default function AddClientForm({ onClientAdded, onSuccess }: AddClientFor
     name: "",
     email: "",
     sportType: "",
+    heightCm: "",
     notes: "",
     plan: "standard",
     cardNumber: "",
@@ -52,6 +53,7 @@ export default function AddClientForm({ onClientAdded, onSuccess }: AddClientFor
           name: formData.name,
           email: formData.email,
           sportType: formData.sportType || undefined,
+          heightCm: formData.heightCm || undefined,
           notes: formData.notes || undefined,
         }),
       })
@@ -84,6 +86,7 @@ export default function AddClientForm({ onClientAdded, onSuccess }: AddClientFor
         name: "",
         email: "",
         sportType: "",
+        heightCm: "",
         notes: "",
         plan: "standard",
         cardNumber: "",
@@ -189,6 +192,22 @@ export default function AddClientForm({ onClientAdded, onSuccess }: AddClientFor
               </Select>
             </div>
 
+            <div className="space-y-2 w-full">
+              <Label htmlFor="heightCm">Height (cm)</Label>
+              <Input
+                id="heightCm"
+                type="number"
+                min={50}
+                max={250}
+                placeholder="e.g. 178"
+                value={formData.heightCm}
+                onChange={(e) => handleInputChange("heightCm", e.target.value)}
+                className="w-full"
+                style={{ width: '100%', boxSizing: 'border-box' }}
+              />
+              <p className="text-xs text-muted-foreground">Used to report live movement metrics in centimeters</p>
+            </div>
+
             <div className="space-y-2 w-full">
               <Label htmlFor="notes">Client Notes</Label>
               <Textarea
@@ -10,15 +10,53 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion"
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs"
 import {
-  createPoseDetector,
-  estimatePoses,
   landmarksToKeypoints,
   calculateBiomechanicalAngles,
   calculateBiomechanicalMetrics,
   type PoseData,
   type PoseKeypoint,
-  type PoseDetector,
 } from "@/lib/pose-detection"
+import { createPoseInferenceClient, type PoseInferenceClient } from "@/lib/pose-inference-client"
+import { getPoseBackendIdForSession } from "@/lib/pose-backends"
+import { createFrameScheduler, type FrameScheduler } from "@/lib/frame-scheduler"
+import {
+  createPoseTracker,
+  findReappearedTrack,
+  selectPrimaryTrack,
+  summarizeTracks,
+  type PinnedTrackMemory,
+  type PoseTracker,
+  type TrackedPose,
+} from "@/lib/pose-tracking"
+import {
+  createPoseSmoother,
+  calculateAngleConfidence,
+  filterAnglesByConfidence,
+  type PoseSmoother,
+} from "@/lib/pose-smoothing"
+import { createRepCounter, type RepCounter } from "@/lib/rep-counting"
+import { createKinematicsTracker, toKinematicsRecord, type KinematicsRecord, type KinematicsTracker } from "@/lib/kinematics"
+import { describePostureAngles, summarizePostureAngles, toPostureAngleRecord, type PostureAngleRecord } from "@/lib/posture-angles"
+import { createBalanceTracker, createCalibrationCapture, toBalanceRecord, type BalanceRecord, type BalanceTracker, type CalibrationCapture, type CalibrationCaptureState } from "@/lib/calibration"
+import { createTemplateScorer, summarizeTemplateMatches, toTemplateMatchRecord, type RepTemplateMatch, type TemplateMatchRecord, type TemplateScorer } from "@/lib/reference-templates"
+import {
+  createFormFaultDetector,
+  describeFormFault,
+  summarizeFormFaults,
+  toFormFaultRecord,
+  type FormFaultDetector,
+  type FormFaultEvent,
+  type FormFaultRecord,
+  type FormFaultSummary,
+} from "@/lib/movement-rules"
+import { createThrowAnalyzer, type ThrowAnalyzer } from "@/lib/baseball-metrics"
+import { createJumpAnalyzer, toLandingRecord, type JumpAnalyzer, type JumpResult, type LandingRecord } from "@/lib/jump-analysis"
+import { createGaitAnalyzer, toGaitRecord, type GaitAnalyzer, type GaitRecord, type GaitStride } from "@/lib/gait-analysis"
+import { createFatigueMonitor, toFatigueRecord, type FatigueMonitor, type FatigueRecord } from "@/lib/fatigue"
+import { scoreInjuryRisk, type InjuryRiskAssessment } from "@/lib/injury-risk"
+import { activeOverlayFaults, OVERLAY_FAULT_HOLD_MS, toOverlayKeypoints, type PoseOverlayFrame } from "@/lib/pose-overlay"
+import { createPoseTrackRecorder, toPoseTrackFrame, type PoseTrackChunk, type PoseTrackRecorder } from "@/lib/pose-tracks"
+import { decodePoseStream, encodePoseStream, POSE_STREAM_TOPIC, poseStreamToBase64 } from "@/lib/pose-stream"
 import { useRealtimeMetrics } from "@/lib/realtime-metrics-context"
 
 interface AIInsight {
@@ -31,6 +69,7 @@ interface AIInsight {
     shoulderAlignment?: string
     pelvicSway?: string
     additionalMetrics?: string[]
+    measuredAngles?: PostureAngleRecord
   }
   movementQuality?: string
   movementPatterns?: string[]
@@ -44,6 +83,8 @@ interface AIInsight {
   riskLevel?: string
   riskDescription?: string
   targetedRecommendations?: string[]
+  formFaults?: FormFaultSummary[]
+  injuryRisk?: InjuryRiskAssessment
   timestamp: string
 }
 
@@ -53,6 +94,7 @@ interface AIInsightsPanelProps {
   sessionOwnerId?: string | null
   sessionId?: string | null
   sessionType?: string | null // "single", "group", or "mocap"
+  poseBackend?: string | null // Pose model chosen when scheduling (session-type default when absent)
 }
 
 interface AIMetric {
@@ -71,14 +113,31 @@ interface AIMetric {
     shoulder_alignment?: string
     pelvic_sway?: string
     additional_metrics?: string[]
-  }
+  } & PostureAngleRecord
   movement_quality?: string
   movement_patterns?: string[]
   movement_consistency?: number
   dynamic_stability?: number
+  rep_metrics?: {
+    exercise: string
+    angle_source: string
+    rep_count: number
+    partial_reps: number
+    avg_tempo?: { eccentric: number; bottom: number; concentric: number; top: number }
+    avg_range_of_motion?: number
+    range_of_motion_variability?: number
+    tempo_variability?: number
+  }
+  form_faults?: FormFaultRecord[]
+  kinematics?: KinematicsRecord
+  balance_metrics?: BalanceRecord
+  template_match?: TemplateMatchRecord
+  gait_metrics?: GaitRecord
+  fatigue?: FatigueRecord
+  landing_metrics?: LandingRecord
 }
 
-export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId, sessionId, sessionType }: AIInsightsPanelProps) {
+export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId, sessionId, sessionType, poseBackend }: AIInsightsPanelProps) {
   // Log immediately when component function is called (before any hooks)
   console.log('[AI Insights] 🎬 AIInsightsPanel component function called', {
     sessionType,
@@ -148,7 +207,7 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
   const [metricsUpdateKey, setMetricsUpdateKey] = useState(0) // Force re-render key
   const [metricsTimestamp, setMetricsTimestamp] = useState<string>('') // Timestamp of last metrics update
   // Real-time angles and metrics (calculated before DB save) - shared via context
-  const { realtimeData, setRealtimeData } = useRealtimeMetrics()
+  const { realtimeData, setRealtimeData, setRealtimeOverlay, setTrackedPeople, trackAssignments, assignTrack, addThrow, addJump, calibrations, calibrationRequests, setCalibrationStatus, exerciseTemplates, setRomAssessment, setMovementScreen, setFatigueAlert } = useRealtimeMetrics()
   const [showInsights, setShowInsights] = useState(false) // Flag to control whether to show insights or metrics
   const analysisIntervalRef = useRef<NodeJS.Timeout | null>(null)
   const frameCollectionIntervalRef = useRef<NodeJS.Timeout | null>(null)
@@ -157,9 +216,67 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
   const chatMetricsIntervalRef = useRef<NodeJS.Timeout | null>(null)
   const latestMetricsRef = useRef<Record<string, AIMetric>>({})
   const videoElementsRef = useRef<Map<string, HTMLVideoElement>>(new Map())
-  const poseDetectorsRef = useRef<Map<string, PoseDetector>>(new Map())
-  // Pose data buffer: Map<participantId, Array<PoseData>>
+  // Pose inference (Web Worker when supported) shared by all video sources
+  const poseInferenceRef = useRef<PoseInferenceClient | null>(null)
+  // Decides which video source to process next and adapts the frame rate to the machine
+  const frameSchedulerRef = useRef<FrameScheduler | null>(null)
+  // When each analysis buffer last took a sample: Map<bufferKey, ms timestamp>
+  const lastBufferedAtRef = useRef<Map<string, number>>(new Map())
+  // Multi-person tracking per video source: Map<participantId, PoseTracker>
+  const poseTrackersRef = useRef<Map<string, PoseTracker>>(new Map())
+  // Track currently followed for each video source when no subject is pinned
+  const primaryTrackRef = useRef<Map<string, number>>(new Map())
+  // Where each pinned subject was last seen, to carry the pin over occlusions: Map<participantId#subjectId, PinnedTrackMemory>
+  const pinnedTrackMemoryRef = useRef<Map<string, PinnedTrackMemory>>(new Map())
+  // Keypoint smoothing per tracked person: Map<participantId#trackId, PoseSmoother>
+  const poseSmoothersRef = useRef<Map<string, PoseSmoother>>(new Map())
+  // Rep counting per analyzed person: Map<bufferKey, RepCounter>
+  const repCountersRef = useRef<Map<string, RepCounter>>(new Map())
+  // Velocity/acceleration tracking per analyzed person: Map<bufferKey, KinematicsTracker>
+  const kinematicsTrackersRef = useRef<Map<string, KinematicsTracker>>(new Map())
+  // Form-fault rule evaluation per analyzed person: Map<bufferKey, FormFaultDetector>
+  const formFaultDetectorsRef = useRef<Map<string, FormFaultDetector>>(new Map())
+  // Catalog exercise the per-person analyzers were created for: Map<bufferKey, exerciseId | null>
+  const liveExercisesRef = useRef<Map<string, string | null>>(new Map())
+  // Throw segmentation and kinematic sequence per analyzed person: Map<bufferKey, ThrowAnalyzer>
+  const throwAnalyzersRef = useRef<Map<string, ThrowAnalyzer>>(new Map())
+  // Takeoff/landing detection and landing mechanics per analyzed person: Map<bufferKey, JumpAnalyzer>
+  const jumpAnalyzersRef = useRef<Map<string, JumpAnalyzer>>(new Map())
+  // Foot strikes and stride mechanics per analyzed person: Map<bufferKey, GaitAnalyzer>
+  const gaitAnalyzersRef = useRef<Map<string, GaitAnalyzer>>(new Map())
+  // Velocity loss / variability / symmetry and efficiency decline per analyzed person: Map<bufferKey, FatigueMonitor>
+  const fatigueMonitorsRef = useRef<Map<string, FatigueMonitor>>(new Map())
+  // Strides completed since the last movement analysis: Map<bufferKey, GaitStride[]>
+  const pendingGaitStridesRef = useRef<Map<string, GaitStride[]>>(new Map())
+  // Jumps landed since the last movement analysis: Map<bufferKey, JumpResult[]>
+  const pendingJumpsRef = useRef<Map<string, JumpResult[]>>(new Map())
+  // Faults raised since the last movement analysis: Map<bufferKey, FormFaultEvent[]>
+  const formFaultsRef = useRef<Map<string, FormFaultEvent[]>>(new Map())
+  // Recently raised faults highlighted on the skeleton overlay: Map<bufferKey, FormFaultEvent[]>
+  const overlayFaultsRef = useRef<Map<string, FormFaultEvent[]>>(new Map())
+  // Full-resolution pose track recording per analyzed person: Map<bufferKey, { recorder, metric key, source video }>
+  const poseTrackRecordersRef = useRef<Map<string, { recorder: PoseTrackRecorder; participantId: string; sourceId: string; aspectRatio: number }>>(new Map())
+  // Faults saved with metrics but not yet reported in chat: { [metricParticipantId]: FormFaultRecord[] }
+  const pendingChatFaultsRef = useRef<Record<string, FormFaultRecord[]>>({})
+  // Coach-pinned track -> subject assignments (mirrors context, read inside intervals)
+  const trackAssignmentsRef = useRef(trackAssignments)
+  // Camera calibrations and pending calibration requests per metric key (mirror context)
+  const calibrationsRef = useRef(calibrations)
+  const calibrationRequestsRef = useRef(calibrationRequests)
+  // Running calibration captures: Map<metricKey, { capture, requestedAt, reported status }>
+  const calibrationCapturesRef = useRef<Map<string, { capture: CalibrationCapture; requestedAt: number; reported: CalibrationCaptureState | null }>>(new Map())
+  // Exercise selected for reference-template scoring per metric key (mirrors context)
+  const exerciseTemplatesRef = useRef(exerciseTemplates)
+  // Reps scored against the selected reference template: Map<bufferKey, { exercise, scorer, every match this session }>
+  const templateScorersRef = useRef<Map<string, { exerciseId: string; exerciseName: string; scorer: TemplateScorer; matches: RepTemplateMatch[] }>>(new Map())
+  // Template matches since the last movement analysis: Map<bufferKey, RepTemplateMatch[]>
+  const pendingTemplateMatchesRef = useRef<Map<string, RepTemplateMatch[]>>(new Map())
+  // Sway / CoM excursion / stride in cm per analyzed person: Map<bufferKey, BalanceTracker>
+  const balanceTrackersRef = useRef<Map<string, BalanceTracker>>(new Map())
+  // Pose data buffer: Map<participantId (or participantId#subjectId for pinned tracks), Array<PoseData>>
   const poseDataBufferRef = useRef<Map<string, Array<PoseData>>>(new Map())
+  // Subject each pinned buffer belongs to: Map<bufferKey, subjectId>
+  const bufferSubjectRef = useRef<Map<string, string>>(new Map())
   const setupCompleteRef = useRef(false) // Track if intervals have been set up
   const welcomeMessageSentRef = useRef<Set<string>>(new Set()) // Track which participants have received welcome message
   const [subjectName, setSubjectName] = useState<string | null>(null)
@@ -430,6 +547,31 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
     console.log(`[AI Insights] 🔄 Updated latestMetricsRef with ${Object.keys(latestMetrics).length} participant(s) for chat posting`)
   }, [latestMetrics, metricsUpdateKey, metricsTimestamp])
 
+  // Upload recorded pose track chunks for session review as pose streams (keepalive so the last chunk survives leaving the page)
+  const uploadPoseTrackChunks = (participantId: string, sourceId: string, aspectRatio: number, chunks: PoseTrackChunk[], keepalive: boolean = false) => {
+    const currentSessionId = sessionIdRef.current
+    if (!currentSessionId || chunks.length === 0) return
+
+    const participantName = participantInfoRef.current[participantId]?.fullName
+      || (participantId === subjectIdRef.current && subjectNameRef.current)
+      || participantId
+    fetch(`/api/sessions/${currentSessionId}/pose-tracks`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        participantId, participantName, sourceId, aspectRatio,
+        chunks: chunks.map(chunk => ({ stream: poseStreamToBase64(encodePoseStream(chunk.frames, { participantId, sourceId, aspectRatio })) })),
+      }),
+      keepalive,
+    })
+      .then(response => {
+        if (!response.ok) {
+          console.error(`[AI Insights] ❌ Failed to save pose track for ${participantId}: ${response.status}`)
+        }
+      })
+      .catch(error => console.error(`[AI Insights] ❌ Error saving pose track for ${participantId}:`, error))
+  }
+
   // Send welcome message to participants
   const sendWelcomeMessage = async (participantId: string, participantName: string) => {
     const currentRoom = room
@@ -572,6 +714,14 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
         messages.push(`Posture could be improved (${postural}%).`)
       }
 
+      // Report rule-engine form faults since the last post, with their coaching cues
+      const faultSummaries = summarizeFormFaults(pendingChatFaultsRef.current[participantId] || [])
+      delete pendingChatFaultsRef.current[participantId]
+      if (faultSummaries.length > 0) {
+        messages.push(`⚠️ Form: ${faultSummaries.map(describeFormFault).join('; ')}.`)
+        messages.push(faultSummaries.slice(0, 2).map(fault => fault.cue).join(' '))
+      }
+
       message += messages.join(' ')
 
       console.log(`[AI Insights] 💬 Sending message to chat: "${message}"`)
@@ -595,6 +745,7 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
                 symmetry_score: symmetry,
                 postural_efficiency: postural,
               },
+              form_faults: faultSummaries.length > 0 ? faultSummaries : undefined,
             },
           }),
         })
@@ -619,6 +770,7 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
                   symmetry_score: symmetry,
                   postural_efficiency: postural,
                 },
+                form_faults: faultSummaries.length > 0 ? faultSummaries : undefined,
               },
             }
 
@@ -966,6 +1118,7 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
                 shoulderAlignment: dbInsight.posture_metrics.shoulder_alignment,
                 pelvicSway: dbInsight.posture_metrics.pelvic_sway,
                 additionalMetrics: dbInsight.posture_metrics.additional_metrics,
+                measuredAngles: dbInsight.posture_metrics,
               } : undefined,
               movementQuality: dbInsight.movement_quality,
               movementPatterns: dbInsight.movement_patterns,
@@ -979,6 +1132,8 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
               riskLevel: dbInsight.risk_level,
               riskDescription: dbInsight.risk_description,
               targetedRecommendations: dbInsight.targeted_recommendations,
+              formFaults: dbInsight.form_faults,
+              injuryRisk: dbInsight.injury_risk,
               timestamp: dbInsight.timestamp || dbInsight.created_at,
             }
           })
@@ -1047,14 +1202,34 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
   useEffect(() => {
     if (!room) return
 
-    const handleDataReceived = (payload: Uint8Array, participant?: any, kind?: DataPacket_Kind) => {
+    const handleDataReceived = (payload: Uint8Array, participant?: any, kind?: DataPacket_Kind, topic?: string) => {
+      // Binary skeleton frames for the video overlay
+      if (topic === POSE_STREAM_TOPIC) {
+        try {
+          const stream = decodePoseStream(payload)
+          const frame = stream.frames[stream.frames.length - 1]
+          if (stream.participantId && stream.sourceId && frame) {
+            // Restamp the overlay on arrival - the sender's clock may differ from ours
+            setRealtimeOverlay(stream.participantId, {
+              sourceId: stream.sourceId,
+              keypoints: frame.keypoints.map(([x, y, visibility]) => ({ x, y, visibility })),
+              faults: frame.faults || [],
+              timestamp: Date.now(),
+            })
+          }
+        } catch (error) {
+          console.error('[AI Insights] ❌ Error decoding pose stream packet:', error)
+        }
+        return
+      }
+
       try {
         const decoder = new TextDecoder()
         const message = JSON.parse(decoder.decode(payload))
         
         // Handle real-time metrics updates from other participants
         if (message.type === 'realtime-metrics') {
-          const { participantId, angles, metrics } = message
+          const { participantId, angles, metrics, trackId, angleConfidence, reps, baseball, jump, gait, balance, templateMatch, fatigue } = message
           const senderId = participant?.identity || 'unknown'
           const isCoach = room?.localParticipant?.identity === sessionOwnerId
           
@@ -1070,7 +1245,8 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
           
           // Update the realtime metrics context so coach can see participant metrics
           if (participantId && angles && metrics) {
-            setRealtimeData(participantId, { angles, metrics })
+            // The overlay arrives separately on the pose stream topic and is kept
+            setRealtimeData(participantId, { angles, metrics, trackId, angleConfidence, reps, baseball, jump, gait, balance, templateMatch, fatigue })
             console.log(`[AI Insights] ✅ Updated realtime metrics context for ${participantId} (isCoach: ${isCoach})`)
             // Note: realtimeData here is from closure, might be stale, but setRealtimeData will update it
             console.log(`[AI Insights] 📊 Metrics updated - balance: ${metrics.balanceScore}, symmetry: ${metrics.symmetryScore}`)
@@ -1079,6 +1255,49 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
           }
           return
         }
+
+        // Throws segmented on another participant's device
+        if (message.type === 'baseball-throw') {
+          if (message.participantId && message.throw) {
+            addThrow(message.participantId, message.throw)
+            console.log(`[AI Insights] ⚾ Received throw #${message.throw.throwIndex} for ${message.participantId}`)
+          }
+          return
+        }
+
+        // Jumps detected on another participant's device
+        if (message.type === 'jump-landing') {
+          if (message.participantId && message.jump) {
+            addJump(message.participantId, message.jump)
+            console.log(`[AI Insights] 🦘 Received jump #${message.jump.jumpIndex} for ${message.participantId}`)
+          }
+          return
+        }
+
+        // Fatigue threshold crossed on another participant's device
+        if (message.type === 'fatigue-threshold') {
+          if (message.participantId && message.event) {
+            setFatigueAlert(message.participantId, message.event)
+            console.log(`[AI Insights] 🥵 Fatigue threshold reached for ${message.participantId} (index ${message.event.fatigueIndex})`)
+          }
+          return
+        }
+
+        // ROM assessment prompt from the coach running it (null state = assessment ended)
+        if (message.type === 'rom-assessment') {
+          if (message.participantId) {
+            setRomAssessment(message.participantId, message.state || null)
+          }
+          return
+        }
+
+        // Movement screen test being captured by the coach (screening sessions)
+        if (message.type === 'movement-screen') {
+          if (message.participantId) {
+            setMovementScreen(message.participantId, message.state || null)
+          }
+          return
+        }
         
         if (message.type === 'ai-insight') {
           const newInsight: AIInsight = {
@@ -1121,7 +1340,7 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
     return () => {
       room.off('dataReceived', handleDataReceived)
     }
-  }, [room, setRealtimeData])
+  }, [room, setRealtimeData, setRealtimeOverlay, addThrow, addJump])
 
   // Set up video elements for pose detection
   useEffect(() => {
@@ -1496,20 +1715,16 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
       room.off('trackPublished', handleTrackPublished)
       room.off('trackSubscribed', handleTrackSubscribed)
       
-      // Cleanup video elements and pose detectors
-      videoElementsRef.current.forEach((video, participantId) => {
+      // Cleanup video elements (the inference client is shared and torn down with the detection loop)
+      videoElementsRef.current.forEach((video) => {
         video.srcObject = null
         document.body.removeChild(video)
-        
-        // Clean up pose detector
-        const pose = poseDetectorsRef.current.get(participantId)
-        if (pose) {
-          // MediaPipe Pose doesn't have a close() method, just remove from ref
-          poseDetectorsRef.current.delete(participantId)
-        }
       })
       videoElementsRef.current.clear()
-      poseDetectorsRef.current.clear()
+      poseTrackersRef.current.clear()
+      primaryTrackRef.current.clear()
+      pinnedTrackMemoryRef.current.clear()
+      poseSmoothersRef.current.clear()
     }
   }, [room, tracks])
 
@@ -1532,6 +1747,22 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
     sessionIdRef.current = sessionId
   }, [sessionId])
 
+  useEffect(() => {
+    trackAssignmentsRef.current = trackAssignments
+  }, [trackAssignments])
+
+  useEffect(() => {
+    calibrationsRef.current = calibrations
+  }, [calibrations])
+
+  useEffect(() => {
+    calibrationRequestsRef.current = calibrationRequests
+  }, [calibrationRequests])
+
+  useEffect(() => {
+    exerciseTemplatesRef.current = exerciseTemplates
+  }, [exerciseTemplates])
+
   useEffect(() => {
     // Removed - no longer using localStorage for insights
   }, [])
@@ -1584,7 +1815,7 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
 
     // Clear any existing intervals/timeouts before setting up new ones (safety check)
     if (frameCollectionIntervalRef.current) {
-      clearInterval(frameCollectionIntervalRef.current)
+      clearTimeout(frameCollectionIntervalRef.current)
       frameCollectionIntervalRef.current = null
     }
     if (analysisIntervalRef.current) {
@@ -1596,25 +1827,26 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
       firstAnalysisTimeoutRef.current = null
     }
 
-    // Initialize pose detector for a participant if not already initialized
-    const ensurePoseDetector = async (participantId: string) => {
-      if (poseDetectorsRef.current.has(participantId)) {
-        return poseDetectorsRef.current.get(participantId)!;
+    // Initialize the shared pose inference client (model loads once for all participants)
+    const ensurePoseInference = async () => {
+      if (!poseInferenceRef.current) {
+        // Model backend chosen for the session, or the session type's default
+        poseInferenceRef.current = createPoseInferenceClient(getPoseBackendIdForSession(sessionType, poseBackend));
       }
 
       try {
-        const detector = await createPoseDetector();
-        poseDetectorsRef.current.set(participantId, detector);
-        console.log(`[AI Insights] Initialized pose detector for ${participantId}`);
-        return detector;
+        await poseInferenceRef.current.ready();
+        console.log(`[AI Insights] Pose inference ready (${poseInferenceRef.current.backendId}, ${poseInferenceRef.current.mode()})`);
+        return poseInferenceRef.current;
       } catch (error) {
-        console.error(`[AI Insights] Error initializing pose detector for ${participantId}:`, error);
+        console.error(`[AI Insights] Error initializing pose inference:`, error);
+        poseInferenceRef.current = null;
         return null;
       }
     };
 
-    // Process video frames for pose detection
-    const processPoseDetection = async () => {
+    // Process one video frame for pose detection (targetParticipantId comes from the frame scheduler)
+    const processPoseDetection = async (targetParticipantId?: string) => {
       // Only process if room is connected
       if (!room || room.state !== ConnectionState.Connected) {
         console.log('[AI Insights] ⚠️ Room not connected, skipping pose detection');
@@ -1661,10 +1893,10 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
           return
         }
         
-        // Process the first available participant with a valid video element
+        // Process the participant the scheduler picked, otherwise the first with a valid video element
         let participantToProcess = participantEntries.find(([pid, videoEl]) => {
           // Just check if video element exists and is valid
-          return videoEl && videoEl.readyState >= 2 // HAVE_CURRENT_DATA or higher
+          return (!targetParticipantId || pid === targetParticipantId) && videoEl && videoEl.readyState >= 2 // HAVE_CURRENT_DATA or higher
         })
         
         // If no participant found with valid video, use first one anyway (fallback)
@@ -1711,86 +1943,349 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
           return;
         }
 
-        // Ensure pose detector is initialized (without timeout - let it take as long as needed)
-        let detector = poseDetectorsRef.current.get(participantId);
-        if (!detector) {
-          console.log(`[AI Insights] Initializing pose detector for ${participantId}...`);
-          try {
-            detector = await ensurePoseDetector(participantId);
-            if (!detector) {
-              console.error(`[AI Insights] Failed to initialize pose detector for ${participantId}`);
-              return;
-            }
-            console.log(`[AI Insights] Pose detector initialized for ${participantId}`);
-          } catch (initError) {
-            console.error(`[AI Insights] Pose detector initialization failed:`, initError);
-            // Don't return - continue without pose detection rather than blocking
-            console.warn(`[AI Insights] Continuing without pose detection for ${participantId}`);
-            return;
-          }
+        // Ensure pose inference is initialized (without timeout - let it take as long as needed)
+        const poseInference = poseInferenceRef.current || await ensurePoseInference();
+        if (!poseInference) {
+          console.warn(`[AI Insights] Continuing without pose detection for ${participantId}`);
+          return;
+        }
+        if (!frameSchedulerRef.current) {
+          // Main-thread inference blocks the UI, so leave it far more headroom than the worker
+          frameSchedulerRef.current = createFrameScheduler({
+            maxBusyRatio: poseInference.mode() === 'worker' ? 0.7 : 0.3,
+          });
         }
 
         try {
-          // Estimate poses using ONNX Runtime Web + YOLOv8-Pose
-          console.log(`[AI Insights] 🔬 Running pose estimation for ${participantId}...`);
-          console.log(`[AI Insights] 🔬 Video dimensions: ${videoElement.videoWidth}x${videoElement.videoHeight}`);
-          const poses = await estimatePoses(detector, videoElement);
+          // Estimate poses using ONNX Runtime Web + YOLOv8-Pose (in the inference worker when available)
+          const processingStartedAt = performance.now();
+          console.log(`[AI Insights] 🔬 Running pose estimation for ${participantId} (${poseInference.mode()})...`);
+          const { poses, capturedAt } = await poseInference.estimate(videoElement);
           console.log(`[AI Insights] 📊 Pose estimation result: ${poses?.length || 0} pose(s) detected for ${participantId}`);
           if (poses && poses.length > 0) {
             console.log(`[AI Insights] 📊 First pose confidence: ${poses[0].score}, keypoints: ${poses[0].keypoints?.length || 0}`);
           }
 
-          if (!poses || poses.length === 0) {
+          // Give every detected person a persistent track ID for this video source
+          // (updated even when nobody is detected so stale tracks expire)
+          let tracker = poseTrackersRef.current.get(participantId);
+          if (!tracker) {
+            tracker = createPoseTracker();
+            poseTrackersRef.current.set(participantId, tracker);
+          }
+          // Use the capture time, not the result time - worker latency must not distort velocities
+          const frameTimestamp = capturedAt;
+          const trackedPoses = tracker.update(poses || [], frameTimestamp);
+          setTrackedPeople(participantId, summarizeTracks(trackedPoses));
+
+          // Drop smoothing state for tracks the tracker has given up on
+          const liveTrackIds = new Set(tracker.getTracks().map(track => track.trackId));
+          Array.from(poseSmoothersRef.current.keys()).forEach(key => {
+            const [sourceId, trackId] = key.split('#');
+            if (sourceId === participantId && !liveTrackIds.has(Number(trackId))) {
+              poseSmoothersRef.current.delete(key);
+            }
+          });
+
+          if (trackedPoses.length === 0) {
             // No pose detected, skip processing
             console.log(`[AI Insights] ⚠️ No poses detected for ${participantId}, skipping`);
             return;
           }
 
-          // Use the first (most confident) pose
-          const pose = poses[0];
-          if (!pose.keypoints || pose.keypoints.length === 0) {
-            return;
+          console.log(`[AI Insights] 👥 Tracking ${trackedPoses.length} person(s) in ${participantId}'s video:`, trackedPoses.map(p => p.trackId));
+
+          // For mocap sessions: use subjectId instead of participantId for storing metrics
+          // Coach is pointing camera at athlete, so metrics should be attributed to subject
+          const isMocapSession = sessionType === 'mocap'
+
+          // Decide which tracks to analyze and who each one belongs to:
+          // - Tracks the coach pinned to a subject are analyzed as that subject
+          // - Without pins, follow a single primary track (the original single-person behavior)
+          const sourceAssignments = { ...(trackAssignmentsRef.current[participantId] || {}) };
+
+          // Pins follow their person through occlusions: when the tracker has replaced a pinned track with a new
+          // one where that person was last seen, move the pin over (pins are otherwise only cleared by the coach)
+          Object.entries(sourceAssignments).forEach(([trackIdKey, pinnedSubjectId]) => {
+            const memoryKey = `${participantId}#${pinnedSubjectId}`;
+            const pinnedPose = trackedPoses.find(pose => pose.trackId === Number(trackIdKey));
+            if (pinnedPose) {
+              pinnedTrackMemoryRef.current.set(memoryKey, { trackId: pinnedPose.trackId, bbox: pinnedPose.bbox, lastSeen: frameTimestamp });
+              return;
+            }
+            const memory = pinnedTrackMemoryRef.current.get(memoryKey);
+            if (!memory) return;
+            const unpinned = trackedPoses.filter(pose => !sourceAssignments[pose.trackId]);
+            const reappeared = findReappearedTrack(memory, unpinned, frameTimestamp);
+            if (!reappeared) return;
+
+            console.log(`[AI Insights] 📌 Track ${trackIdKey} lost - moving ${pinnedSubjectId}'s pin to track ${reappeared.trackId}`);
+            delete sourceAssignments[Number(trackIdKey)];
+            sourceAssignments[reappeared.trackId] = pinnedSubjectId;
+            pinnedTrackMemoryRef.current.set(memoryKey, { trackId: reappeared.trackId, bbox: reappeared.bbox, lastSeen: frameTimestamp });
+            // Keep later frames consistent until the context update comes back through trackAssignments
+            trackAssignmentsRef.current = { ...trackAssignmentsRef.current, [participantId]: sourceAssignments };
+            assignTrack(participantId, reappeared.trackId, pinnedSubjectId);
+          });
+
+          const targets: Array<{ pose: TrackedPose; metricKey: string; bufferKey: string; pinnedSubjectId: string | null }> = [];
+          trackedPoses.forEach(pose => {
+            const pinnedSubjectId = sourceAssignments[pose.trackId];
+            if (pinnedSubjectId) {
+              targets.push({ pose, metricKey: pinnedSubjectId, bufferKey: `${participantId}#${pinnedSubjectId}`, pinnedSubjectId });
+            }
+          });
+
+          if (targets.length === 0) {
+            const primary = selectPrimaryTrack(trackedPoses, primaryTrackRef.current.get(participantId));
+            if (!primary) {
+              return;
+            }
+            primaryTrackRef.current.set(participantId, primary.trackId);
+            targets.push({
+              pose: primary,
+              metricKey: (isMocapSession && subjectId) ? subjectId : participantId,
+              bufferKey: participantId,
+              pinnedSubjectId: null,
+            });
           }
 
-          // Process the pose data (keypoints are already in correct format)
-          const keypoints = landmarksToKeypoints(pose.keypoints);
-            const angles = calculateBiomechanicalAngles(keypoints);
+          for (const { pose, metricKey, bufferKey, pinnedSubjectId } of targets) {
+            if (!pose.keypoints || pose.keypoints.length === 0) {
+              continue;
+            }
+
+            // Smooth keypoints over time for this person so angles follow movement rather than detector jitter
+            const smootherKey = `${participantId}#${pose.trackId}`;
+            let smoother = poseSmoothersRef.current.get(smootherKey);
+            if (!smoother) {
+              smoother = createPoseSmoother();
+              poseSmoothersRef.current.set(smootherKey, smoother);
+            }
+            const { keypoints, interpolated } = smoother.smooth(landmarksToKeypoints(pose.keypoints), frameTimestamp);
+            if (interpolated.length > 0) {
+              console.log(`[AI Insights] 🩹 Interpolated ${interpolated.length} occluded keypoint(s) for track ${pose.trackId}`);
+            }
+
+            // Angles built from low-confidence keypoints are dropped rather than shown as noise
+            const angleConfidence = calculateAngleConfidence(keypoints);
+            const angles = filterAnglesByConfidence(calculateBiomechanicalAngles(keypoints), angleConfidence);
             const metrics = calculateBiomechanicalMetrics(keypoints);
 
-            // For mocap sessions: use subjectId instead of participantId for storing metrics
-            // Coach is pointing camera at athlete, so metrics should be attributed to subject
-            const isMocapSession = sessionType === 'mocap'
-            const metricKey = (isMocapSession && subjectId) ? subjectId : participantId
+            // Analyzers follow the catalog exercise the coach selected for this person (auto rep detection and
+            // general rules until then)
+            const exerciseSelection = exerciseTemplatesRef.current[metricKey];
+            const exerciseId = exerciseSelection?.exerciseId ?? null;
+            if ((liveExercisesRef.current.get(bufferKey) ?? null) !== exerciseId) {
+              repCountersRef.current.delete(bufferKey);
+              formFaultDetectorsRef.current.delete(bufferKey);
+              liveExercisesRef.current.set(bufferKey, exerciseId);
+            }
+
+            // Count reps / segment phases from this person's joint angles
+            let repCounter = repCountersRef.current.get(bufferKey);
+            if (!repCounter) {
+              repCounter = createRepCounter(exerciseSelection?.exerciseName);
+              repCountersRef.current.set(bufferKey, repCounter);
+            }
+            const previousRepCount = repCounter.getSummary().repCount;
+            const reps = repCounter.update(angles, frameTimestamp);
+
+            // Differentiate the smoothed series into joint/angular velocity and acceleration
+            let kinematicsTracker = kinematicsTrackersRef.current.get(bufferKey);
+            if (!kinematicsTracker) {
+              kinematicsTracker = createKinematicsTracker();
+              kinematicsTrackersRef.current.set(bufferKey, kinematicsTracker);
+            }
+            const kinematics = kinematicsTracker.update(keypoints, angles, metrics, frameTimestamp);
+            if (reps.repCount > previousRepCount) {
+              kinematicsTracker.markRepComplete();
+            }
+
+            // Check this frame against the exercise's movement rules
+            let faultDetector = formFaultDetectorsRef.current.get(bufferKey);
+            if (!faultDetector) {
+              faultDetector = createFormFaultDetector({
+                exerciseName: exerciseSelection?.exerciseName,
+                rules: exerciseSelection?.formRules,
+              });
+              formFaultDetectorsRef.current.set(bufferKey, faultDetector);
+            }
+            const formFaults = faultDetector.evaluate({ keypoints, angles, phase: reps.currentPhase }, frameTimestamp);
+            if (formFaults.length > 0) {
+              console.log(`[AI Insights] ⚠️ Form fault(s) for ${bufferKey}:`, formFaults.map(f => `${f.label} (${Math.round(f.value)}${f.unit})`));
+              const pendingFaults = formFaultsRef.current.get(bufferKey) || [];
+              // Keep the most recent 50 in case analysis falls behind
+              formFaultsRef.current.set(bufferKey, [...pendingFaults, ...formFaults].slice(-50));
+            }
+            const overlayFaultEvents = [...(overlayFaultsRef.current.get(bufferKey) || []), ...formFaults]
+              .filter(f => frameTimestamp - f.timestamp <= OVERLAY_FAULT_HOLD_MS);
+            overlayFaultsRef.current.set(bufferKey, overlayFaultEvents);
+
+            // Segment throws and measure pelvis/torso rotation for the baseball views
+            let throwAnalyzer = throwAnalyzersRef.current.get(bufferKey);
+            if (!throwAnalyzer) {
+              throwAnalyzer = createThrowAnalyzer();
+              throwAnalyzersRef.current.set(bufferKey, throwAnalyzer);
+            }
+            const { live: baseball, completedThrow } = throwAnalyzer.update(keypoints, angles, frameTimestamp);
+
+            // Calibration the coach started for this person: standing pose + height -> centimeter scale
+            const calibrationRequest = calibrationRequestsRef.current[metricKey];
+            let calibrationEntry = calibrationCapturesRef.current.get(metricKey);
+            if (calibrationRequest && calibrationEntry?.requestedAt !== calibrationRequest.requestedAt) {
+              calibrationEntry = {
+                capture: createCalibrationCapture(calibrationRequest.heightCm, calibrationRequest.heightSource, frameTimestamp),
+                requestedAt: calibrationRequest.requestedAt,
+                reported: null,
+              };
+              calibrationCapturesRef.current.set(metricKey, calibrationEntry);
+            }
+            if (calibrationRequest && calibrationEntry && calibrationEntry.reported?.status !== 'complete' && calibrationEntry.reported?.status !== 'failed') {
+              const aspectRatio = videoElement.videoHeight > 0 ? videoElement.videoWidth / videoElement.videoHeight : 1;
+              const captureState = calibrationEntry.capture.update(keypoints, aspectRatio, frameTimestamp);
+              const previous = calibrationEntry.reported;
+              // Only push visible changes to the UI (status, message or a 10% progress step)
+              if (!previous || previous.status !== captureState.status || previous.message !== captureState.message
+                || Math.floor(previous.progress * 10) !== Math.floor(captureState.progress * 10)) {
+                calibrationEntry.reported = captureState;
+                setCalibrationStatus(metricKey, captureState);
+                if (captureState.status !== 'collecting') {
+                  console.log(`[AI Insights] 📏 Calibration ${captureState.status} for ${metricKey}: ${captureState.message}`);
+                }
+              }
+            }
+
+            // Sway / CoM excursion / stride relative to the athlete's base of support (cm once calibrated)
+            let balanceTracker = balanceTrackersRef.current.get(bufferKey);
+            if (!balanceTracker) {
+              balanceTracker = createBalanceTracker();
+              balanceTrackersRef.current.set(bufferKey, balanceTracker);
+            }
+            const balance = balanceTracker.update(keypoints, metrics, calibrationsRef.current[metricKey] || null, frameTimestamp);
+
+            // Takeoff / landing detection - flight time, height (cm once calibrated) and landing mechanics
+            let jumpAnalyzer = jumpAnalyzersRef.current.get(bufferKey);
+            if (!jumpAnalyzer) {
+              jumpAnalyzer = createJumpAnalyzer();
+              jumpAnalyzersRef.current.set(bufferKey, jumpAnalyzer);
+            }
+            const { live: jump, completedJump } = jumpAnalyzer.update(keypoints, angles, calibrationsRef.current[metricKey] || null, frameTimestamp);
+            if (completedJump) {
+              pendingJumpsRef.current.set(bufferKey, [...(pendingJumpsRef.current.get(bufferKey) || []), completedJump]);
+            }
+
+            // Foot strikes from a side-on view - cadence, contact time, stride length (cm once calibrated) and asymmetry
+            let gaitAnalyzer = gaitAnalyzersRef.current.get(bufferKey);
+            if (!gaitAnalyzer) {
+              gaitAnalyzer = createGaitAnalyzer();
+              gaitAnalyzersRef.current.set(bufferKey, gaitAnalyzer);
+            }
+            const { live: gait, completedStride } = gaitAnalyzer.update(keypoints, angles, calibrationsRef.current[metricKey] || null, frameTimestamp);
+            if (completedStride) {
+              pendingGaitStridesRef.current.set(bufferKey, [...(pendingGaitStridesRef.current.get(bufferKey) || []), completedStride]);
+            }
+
+            // Score each completed rep against the reference template of the exercise the coach selected
+            const template = exerciseSelection?.template;
+            let templateEntry = templateScorersRef.current.get(bufferKey);
+            if (!exerciseSelection || !template) {
+              templateScorersRef.current.delete(bufferKey);
+              templateEntry = undefined;
+            } else if (templateEntry?.exerciseId !== exerciseSelection.exerciseId) {
+              templateEntry = {
+                exerciseId: exerciseSelection.exerciseId,
+                exerciseName: exerciseSelection.exerciseName,
+                scorer: createTemplateScorer(template),
+                matches: [],
+              };
+              templateScorersRef.current.set(bufferKey, templateEntry);
+              pendingTemplateMatchesRef.current.delete(bufferKey);
+            }
+            if (templateEntry) {
+              const templateRep = templateEntry.scorer.update(angles, frameTimestamp);
+              if (templateRep) {
+                console.log(`[AI Insights] 🎯 Rep ${templateRep.repIndex} for ${metricKey}: ${templateRep.match}% match to ${templateEntry.exerciseName}`);
+                templateEntry.matches.push(templateRep);
+                pendingTemplateMatchesRef.current.set(bufferKey, [...(pendingTemplateMatchesRef.current.get(bufferKey) || []), templateRep]);
+              }
+            }
+            const templateMatch = templateEntry
+              ? summarizeTemplateMatches(templateEntry.exerciseId, templateEntry.exerciseName, templateEntry.matches)
+              : undefined;
+
+            // Fatigue since tracking started - rep velocity loss, rep-to-rep variability, symmetry and efficiency decline
+            let fatigueMonitor = fatigueMonitorsRef.current.get(bufferKey);
+            if (!fatigueMonitor) {
+              fatigueMonitor = createFatigueMonitor();
+              fatigueMonitorsRef.current.set(bufferKey, fatigueMonitor);
+            }
+            const { live: fatigue, thresholdEvent: fatigueEvent } = fatigueMonitor.update(reps, metrics, frameTimestamp);
 
             // Update real-time display immediately (before DB save) - shared via context
-            console.log(`[AI Insights] 📊 Updating real-time metrics for ${metricKey} (from video ${participantId}):`, {
+            console.log(`[AI Insights] 📊 Updating real-time metrics for ${metricKey} (from video ${participantId}, track ${pose.trackId}):`, {
               balance: metrics.balanceScore,
               symmetry: metrics.symmetryScore,
               postural: metrics.posturalEfficiency,
               angles: Object.keys(angles).filter(k => angles[k as keyof typeof angles] !== null).length,
               isMocap: isMocapSession,
+              pinned: !!pinnedSubjectId,
               subjectId: subjectId,
               sessionType: sessionType
             })
-            
-            console.log(`[AI Insights] 🔑 Storing metrics with key: "${metricKey}" (participantId: ${participantId}, subjectId: ${subjectId}, isMocap: ${isMocapSession})`)
-            console.log(`[AI Insights] 📦 Metrics data being stored:`, {
-              balanceScore: metrics.balanceScore,
-              symmetryScore: metrics.symmetryScore,
-              posturalEfficiency: metrics.posturalEfficiency,
-              anglesCount: Object.keys(angles).filter(k => angles[k as keyof typeof angles] !== null).length
-            })
-            setRealtimeData(metricKey, { angles, metrics })
+            // Skeleton for the overlay on this video's tile
+            const overlay: PoseOverlayFrame = {
+              sourceId: participantId,
+              keypoints: toOverlayKeypoints(keypoints),
+              faults: activeOverlayFaults(overlayFaultEvents, frameTimestamp),
+              timestamp: Date.now(),
+            };
+            setRealtimeData(metricKey, { angles, metrics, trackId: pose.trackId, angleConfidence, reps, baseball, jump, gait, balance, templateMatch, fatigue, overlay })
+
+            // Record every processed frame for the post-session review page
+            let trackRecording = poseTrackRecordersRef.current.get(bufferKey);
+            if (!trackRecording) {
+              trackRecording = { recorder: createPoseTrackRecorder(), participantId: metricKey, sourceId: participantId, aspectRatio: 16 / 9 };
+              poseTrackRecordersRef.current.set(bufferKey, trackRecording);
+            }
+            trackRecording.participantId = metricKey; // Mocap sessions switch to the subject once the schedule loads
+            if (videoElement.videoHeight > 0) {
+              trackRecording.aspectRatio = videoElement.videoWidth / videoElement.videoHeight;
+            }
+            trackRecording.recorder.add(frameTimestamp, keypoints, angles, formFaults);
+            uploadPoseTrackChunks(metricKey, participantId, trackRecording.aspectRatio, trackRecording.recorder.takeCompleted());
+            if (completedThrow) {
+              console.log(`[AI Insights] ⚾ Throw #${completedThrow.throwIndex} for ${metricKey}: sequence ${completedThrow.sequenceOrder}, separation ${Math.round(completedThrow.hipShoulderSeparation)}°`)
+              addThrow(metricKey, completedThrow)
+            }
+            if (completedJump) {
+              console.log(`[AI Insights] 🦘 Jump #${completedJump.jumpIndex} (${completedJump.type}) for ${metricKey}: flight ${completedJump.flightTimeMs} ms, height ${completedJump.displacementHeightCm ?? completedJump.jumpHeightCm ?? '-'} cm${completedJump.landing.asymmetries.length > 0 ? `, asymmetric landing (${completedJump.landing.asymmetries.join(', ')})` : ''}`)
+              addJump(metricKey, completedJump)
+            }
+            if (fatigueEvent) {
+              console.log(`[AI Insights] 🥵 Fatigue threshold reached for ${metricKey}: index ${fatigueEvent.fatigueIndex}${fatigueEvent.reasons.length > 0 ? ` (${fatigueEvent.reasons.join(', ')})` : ''}`)
+              setFatigueAlert(metricKey, fatigueEvent)
+            }
             console.log(`[AI Insights] ✅ Metrics stored in realtimeData context with key: "${metricKey}"`)
             
             // Share metrics with all participants (including coach) via LiveKit data channel
+            // Pinned tracks are published under the subject they belong to
             if (room && room.state === ConnectionState.Connected && room.localParticipant) {
               try {
                 const metricsMessage = {
                   type: 'realtime-metrics',
-                  participantId: participantId,
+                  participantId: pinnedSubjectId || participantId,
+                  trackId: pose.trackId,
                   angles: angles,
+                  angleConfidence: angleConfidence,
                   metrics: metrics,
+                  reps: reps,
+                  baseball: baseball,
+                  jump: jump,
+                  gait: gait,
+                  balance: balance,
+                  templateMatch: templateMatch,
+                  fatigue: fatigue,
                   timestamp: new Date().toISOString()
                 }
                 
@@ -1799,44 +2294,104 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
                   new TextEncoder().encode(data),
                   { reliable: true }
                 )
-                console.log(`[AI Insights] 📡 Published real-time metrics via LiveKit data channel for ${participantId}`)
+                // Skeleton as a one-frame pose stream - unreliable, a dropped frame is replaced by the next one
+                room.localParticipant.publishData(
+                  encodePoseStream(
+                    [{ ...toPoseTrackFrame(frameTimestamp, keypoints, angles), faults: overlay.faults }],
+                    { participantId: pinnedSubjectId || participantId, sourceId: participantId }
+                  ),
+                  { reliable: false, topic: POSE_STREAM_TOPIC }
+                )
+                console.log(`[AI Insights] 📡 Published real-time metrics via LiveKit data channel for ${pinnedSubjectId || participantId}`)
+
+                if (completedThrow) {
+                  room.localParticipant.publishData(
+                    new TextEncoder().encode(JSON.stringify({
+                      type: 'baseball-throw',
+                      participantId: pinnedSubjectId || participantId,
+                      throw: completedThrow,
+                      timestamp: new Date().toISOString()
+                    })),
+                    { reliable: true }
+                  )
+                }
+                if (completedJump) {
+                  room.localParticipant.publishData(
+                    new TextEncoder().encode(JSON.stringify({
+                      type: 'jump-landing',
+                      participantId: pinnedSubjectId || participantId,
+                      jump: completedJump,
+                      timestamp: new Date().toISOString()
+                    })),
+                    { reliable: true }
+                  )
+                }
+                if (fatigueEvent) {
+                  room.localParticipant.publishData(
+                    new TextEncoder().encode(JSON.stringify({
+                      type: 'fatigue-threshold',
+                      participantId: pinnedSubjectId || participantId,
+                      event: fatigueEvent,
+                      timestamp: new Date().toISOString()
+                    })),
+                    { reliable: true }
+                  )
+                }
               } catch (error) {
                 console.error(`[AI Insights] ❌ Failed to publish metrics via data channel:`, error)
               }
             }
 
-            // Get or create pose data buffer for this participant
-            if (!poseDataBufferRef.current.has(participantId)) {
-              poseDataBufferRef.current.set(participantId, []);
+            // Movement analysis works on ~1 pose per second - live metrics above use every frame
+            const lastBufferedAt = lastBufferedAtRef.current.get(bufferKey);
+            if (lastBufferedAt !== undefined && frameTimestamp - lastBufferedAt < 1000) {
+              continue;
+            }
+            lastBufferedAtRef.current.set(bufferKey, frameTimestamp);
+
+            // Get or create pose data buffer for this person
+            if (!poseDataBufferRef.current.has(bufferKey)) {
+              poseDataBufferRef.current.set(bufferKey, []);
+            }
+            if (pinnedSubjectId) {
+              bufferSubjectRef.current.set(bufferKey, pinnedSubjectId);
             }
 
-            const buffer = poseDataBufferRef.current.get(participantId)!;
+            const buffer = poseDataBufferRef.current.get(bufferKey)!;
             const sequenceNumber = buffer.length;
-          const timestamp = sequenceNumber * 1; // Each pose is 1 second apart (since we process every 1 second)
+            const timestamp = sequenceNumber * 1; // Each buffered pose is ~1 second apart (buffer is sampled once per second)
 
-          // Add pose data to buffer
+            // Add pose data to buffer
             const poseData: PoseData = {
               timestamp,
               sequenceNumber,
               keypoints,
+              trackId: pose.trackId,
               angles,
+              angleConfidence,
               metrics,
+              formFaults: formFaults.length > 0 ? formFaults : undefined,
+              kinematics: kinematics ?? undefined,
             };
 
             buffer.push(poseData);
 
-          // Limit buffer to 10 poses (30 seconds total - enough for 5-second analysis intervals)
-          if (buffer.length > 10) {
+            // Limit buffer to 10 poses (30 seconds total - enough for 5-second analysis intervals)
+            if (buffer.length > 10) {
               buffer.shift(); // Remove oldest pose
               // Adjust sequence numbers
               buffer.forEach((pose, idx) => {
                 pose.sequenceNumber = idx;
-              pose.timestamp = idx * 3; // Each pose is 3 seconds apart
-            });
-          }
+                pose.timestamp = idx * 3; // Each pose is 3 seconds apart
+              });
+            }
 
-          console.log(`[AI Insights] Collected pose data ${sequenceNumber + 1} for participant ${participantId} (${buffer.length}/10 poses)`);
+            console.log(`[AI Insights] Collected pose data ${sequenceNumber + 1} for ${bufferKey} (${buffer.length}/10 poses)`);
+          }
           
+          const processingMs = performance.now() - processingStartedAt;
+          frameSchedulerRef.current?.record(participantId, processingMs);
+
           // Yield to browser after processing
           await new Promise(resolve => setTimeout(resolve, 0));
       } catch (error) {
@@ -1900,13 +2455,18 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
         const currentParticipantInfo = participantInfoRef.current
         const currentSubjectName = subjectNameRef.current
         const currentSubjectId = subjectIdRef.current
-        const displayName = currentSubjectName || currentParticipantInfo[participantId]?.fullName || participantId
+        // Buffers of tracks the coach pinned to a subject are attributed to that subject directly
+        const pinnedSubjectId = bufferSubjectRef.current.get(participantId)
+        const displayName = pinnedSubjectId
+          ? (currentParticipantInfo[pinnedSubjectId]?.fullName || (pinnedSubjectId === currentSubjectId && currentSubjectName) || pinnedSubjectId)
+          : (currentSubjectName || currentParticipantInfo[participantId]?.fullName || participantId)
         
         // For mocap sessions: coach is in session pointing camera at athlete
         // Use subject_id as participantId so metrics are attributed to the athlete, not the coach
         // For other sessions: use subject_id if available, otherwise use LiveKit participantId
         const isMocapSession = sessionType === 'mocap'
-        const metricParticipantId = (isMocapSession && currentSubjectId) ? currentSubjectId : (currentSubjectId || participantId)
+        const metricParticipantId = pinnedSubjectId
+          || ((isMocapSession && currentSubjectId) ? currentSubjectId : (currentSubjectId || participantId))
         
         if (isMocapSession) {
           console.log(`[AI Insights] Mocap session: Analyzing coach's video feed (${participantId}) but attributing to subject (${metricParticipantId})`)
@@ -1956,6 +2516,44 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
 
               // Extract metrics from analysis (we don't create insights here - only metrics)
               const currentSessionId = sessionIdRef.current
+              const repSummary = repCountersRef.current.get(participantId)?.getSummary()
+              // Hand the faults raised since the last analysis over to this metric
+              const formFaults = formFaultsRef.current.get(participantId) || []
+              formFaultsRef.current.set(participantId, [])
+              const formFaultRecords = formFaults.map(toFormFaultRecord)
+              // Peaks since the last analysis (per-rep peaks are kept across windows)
+              const kinematicsSummary = kinematicsTrackersRef.current.get(participantId)?.takeWindowSummary()
+              // Measured posture angles for this window (the LLM only describes spine/neck/shoulders/pelvis)
+              const postureAngles = summarizePostureAngles(poseDataArray.map(p => p.angles))
+              const postureAngleRecord = toPostureAngleRecord(postureAngles)
+              // Sway / excursion / stride in cm (only once this person has been calibrated)
+              const calibratedHeightCm = calibrationsRef.current[metricParticipantId]?.heightCm ?? null
+              const balanceSummary = balanceTrackersRef.current.get(participantId)?.getSummary()
+              const balanceRecord = balanceSummary ? toBalanceRecord(balanceSummary, calibratedHeightCm) : null
+              // Reps scored against the selected reference template since the last analysis
+              const templateEntry = templateScorersRef.current.get(participantId)
+              const templateReps = pendingTemplateMatchesRef.current.get(participantId) || []
+              pendingTemplateMatchesRef.current.set(participantId, [])
+              const templateMatch = templateEntry && templateReps.length > 0
+                ? { exerciseId: templateEntry.exerciseId, exerciseName: templateEntry.exerciseName, reps: templateReps }
+                : undefined
+              // Strides completed since the last analysis
+              const gaitStrides = pendingGaitStridesRef.current.get(participantId) || []
+              pendingGaitStridesRef.current.set(participantId, [])
+              const gait = gaitStrides.length > 0
+                ? { strides: gaitStrides, calibrated: !!calibrationsRef.current[metricParticipantId] }
+                : undefined
+              // Fatigue state at the end of this window (builds the session's fatigue curve)
+              const fatigueState = fatigueMonitorsRef.current.get(participantId)?.getState()
+              // Landings since the last analysis (stiffness / asymmetry feed the injury-risk model)
+              const landedJumps = pendingJumpsRef.current.get(participantId) || []
+              pendingJumpsRef.current.set(participantId, [])
+              if (formFaultRecords.length > 0) {
+                pendingChatFaultsRef.current[metricParticipantId] = [
+                  ...(pendingChatFaultsRef.current[metricParticipantId] || []),
+                  ...formFaultRecords,
+                ]
+              }
               const newMetric: AIMetric = {
                 subject_id: metricParticipantId, // Partition key
                 timestamp: data.analysis.timestamp || new Date().toISOString(), // Sort key
@@ -1966,18 +2564,40 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
                 symmetry_score: data.analysis.symmetryScore || 0,
                 postural_efficiency: data.analysis.posturalEfficiency,
                 risk_level: data.analysis.riskLevel,
-                posture_metrics: data.analysis.postureMetrics ? {
-                  spine_lean: data.analysis.postureMetrics.spineLean,
-                  neck_flexion: data.analysis.postureMetrics.neckFlexion,
-                  shoulder_alignment: data.analysis.postureMetrics.shoulderAlignment,
-                  pelvic_sway: data.analysis.postureMetrics.pelvicSway,
-                  additional_metrics: data.analysis.postureMetrics.additionalMetrics,
+                posture_metrics: data.analysis.postureMetrics || postureAngles.frameCount > 0 ? {
+                  spine_lean: data.analysis.postureMetrics?.spineLean,
+                  neck_flexion: data.analysis.postureMetrics?.neckFlexion,
+                  shoulder_alignment: data.analysis.postureMetrics?.shoulderAlignment,
+                  pelvic_sway: data.analysis.postureMetrics?.pelvicSway,
+                  additional_metrics: data.analysis.postureMetrics?.additionalMetrics,
+                  ...postureAngleRecord,
                 } : undefined,
                 movement_quality: data.analysis.movementQuality,
                 movement_patterns: data.analysis.movementPatterns,
                 movement_consistency: data.analysis.movementConsistency,
                 dynamic_stability: data.analysis.dynamicStability,
+                rep_metrics: repSummary ? {
+                  exercise: repSummary.exercise,
+                  angle_source: repSummary.angleSource,
+                  rep_count: repSummary.repCount,
+                  partial_reps: repSummary.partialReps,
+                  avg_tempo: repSummary.averageTempo ?? undefined,
+                  avg_range_of_motion: repSummary.averageRangeOfMotion ?? undefined,
+                  range_of_motion_variability: repSummary.rangeOfMotionVariability ?? undefined,
+                  tempo_variability: repSummary.tempoVariability ?? undefined,
+                } : undefined,
+                form_faults: formFaultRecords.length > 0 ? formFaultRecords : undefined,
+                kinematics: kinematicsSummary ? toKinematicsRecord(kinematicsSummary) : undefined,
+                balance_metrics: balanceRecord ?? undefined,
+                template_match: templateMatch
+                  ? toTemplateMatchRecord(templateMatch.exerciseId, templateMatch.exerciseName, templateMatch.reps) ?? undefined
+                  : undefined,
+                gait_metrics: gait ? toGaitRecord(gait.strides, gait.calibrated) ?? undefined : undefined,
+                fatigue: toFatigueRecord(fatigueState) ?? undefined,
+                landing_metrics: toLandingRecord(landedJumps) ?? undefined,
               }
+              // Same window-only risk level save-metric stores (the LLM's level is kept only when nothing was measured)
+              newMetric.risk_level = scoreInjuryRisk({ metrics: [newMetric] })?.level ?? newMetric.risk_level
               
               // Update local metrics state immediately for instant display (even if DB save fails)
               setMetrics((prev) => {
@@ -2031,10 +2651,20 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
                       posturalEfficiency: data.analysis.posturalEfficiency,
                       riskLevel: data.analysis.riskLevel,
                       postureMetrics: data.analysis.postureMetrics,
+                      postureAngles: postureAngles.frameCount > 0 ? postureAngles : undefined,
                       movementQuality: data.analysis.movementQuality,
                       movementPatterns: data.analysis.movementPatterns,
                       movementConsistency: data.analysis.movementConsistency,
                       dynamicStability: data.analysis.dynamicStability,
+                      repMetrics: repSummary,
+                      formFaults,
+                      kinematics: kinematicsSummary,
+                      balance: balanceRecord ? balanceSummary : undefined,
+                      calibratedHeightCm,
+                      templateMatch,
+                      gait,
+                      fatigue: fatigueState,
+                      jumps: landedJumps,
                       timestamp: metricTimestamp,
                     }),
                   })
@@ -2144,27 +2774,31 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
       console.log(`[AI Insights] Movement analysis cycle complete at ${new Date().toISOString()}`)
     }
 
-    // Process pose detection every 1 second
-    // Start immediately if video elements are ready, otherwise wait
-    console.log('[AI Insights] Setting up pose detection interval (1 second)')
+    // Process pose detection continuously - the frame scheduler picks the next video source and
+    // paces frames (targets ~12 fps per source, backs off on slow machines)
+    console.log('[AI Insights] Setting up adaptive pose detection loop')
     console.log('[AI Insights] Video elements count:', videoElementsRef.current.size)
-    
-    // Start immediately if we have video elements, otherwise wait a bit
-    const hasVideoElements = videoElementsRef.current.size > 0
-    if (hasVideoElements) {
-      console.log('[AI Insights] Video elements ready, starting pose detection immediately')
-      processPoseDetection()
-    } else {
-      console.log('[AI Insights] Waiting for video elements, will start in 2 seconds')
-      setTimeout(() => {
-        console.log('[AI Insights] Starting pose detection after delay')
-        processPoseDetection()
-      }, 2000)
+    let poseLoopStopped = false
+
+    const schedulePoseDetection = () => {
+      if (poseLoopStopped) return
+      const sourceIds = Array.from(videoElementsRef.current.keys())
+      // The scheduler is created once the model has loaded - until then poll the first source
+      const { sourceId, delayMs } = frameSchedulerRef.current
+        ? frameSchedulerRef.current.next(sourceIds)
+        : { sourceId: sourceIds[0] ?? null, delayMs: 500 }
+
+      frameCollectionIntervalRef.current = setTimeout(async () => {
+        if (sourceId) {
+          // Mark the visit first so a source whose video isn't ready doesn't get retried in a tight loop
+          frameSchedulerRef.current?.skip(sourceId)
+          await processPoseDetection(sourceId)
+        }
+        schedulePoseDetection()
+      }, delayMs)
     }
-    
-    frameCollectionIntervalRef.current = setInterval(() => {
-      processPoseDetection()
-    }, 1000) // Every 1 second for real-time updates
+
+    schedulePoseDetection()
     
     // Flag was already set at the start, just confirm it
     console.log('[AI Insights] ✅ Pose detection intervals set up')
@@ -2195,8 +2829,9 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
 
     return () => {
       console.log('[AI Insights] Cleaning up intervals')
+      poseLoopStopped = true
       if (frameCollectionIntervalRef.current) {
-        clearInterval(frameCollectionIntervalRef.current)
+        clearTimeout(frameCollectionIntervalRef.current)
         frameCollectionIntervalRef.current = null
       }
       if (analysisIntervalRef.current) {
@@ -2213,17 +2848,47 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
         clearInterval(chatMetricsIntervalRef.current)
         chatMetricsIntervalRef.current = null
       }
-      // Clear pose data buffers on cleanup
+      // Clear pose data buffers and tracks on cleanup
       poseDataBufferRef.current.clear()
-      // Clean up pose detectors (MediaPipe Pose doesn't need explicit cleanup)
-      poseDetectorsRef.current.clear()
+      bufferSubjectRef.current.clear()
+      poseTrackersRef.current.clear()
+      primaryTrackRef.current.clear()
+      pinnedTrackMemoryRef.current.clear()
+      poseSmoothersRef.current.clear()
+      repCountersRef.current.clear()
+      templateScorersRef.current.clear()
+      pendingTemplateMatchesRef.current.clear()
+      kinematicsTrackersRef.current.clear()
+      throwAnalyzersRef.current.clear()
+      jumpAnalyzersRef.current.clear()
+      gaitAnalyzersRef.current.clear()
+      fatigueMonitorsRef.current.clear()
+      pendingGaitStridesRef.current.clear()
+      pendingJumpsRef.current.clear()
+      balanceTrackersRef.current.clear()
+      calibrationCapturesRef.current.clear()
+      formFaultDetectorsRef.current.clear()
+      liveExercisesRef.current.clear()
+      formFaultsRef.current.clear()
+      overlayFaultsRef.current.clear()
+      // Upload what's left of each pose track before dropping the recorders
+      poseTrackRecordersRef.current.forEach(({ recorder, participantId, sourceId, aspectRatio }) => {
+        uploadPoseTrackChunks(participantId, sourceId, aspectRatio, recorder.flush(), true)
+      })
+      poseTrackRecordersRef.current.clear()
+      pendingChatFaultsRef.current = {}
+      // Stop the inference worker and forget frame pacing
+      poseInferenceRef.current?.terminate()
+      poseInferenceRef.current = null
+      frameSchedulerRef.current = null
+      lastBufferedAtRef.current.clear()
       // Don't reset setup flag in cleanup - let it persist
       // Only reset setupCompleteRef so intervals can be recreated if needed
       setupCompleteRef.current = false
       // Keep __poseDetectionSetup = true so UI doesn't show "waiting" message
       console.log('[AI Insights] Cleanup: Resetting setupCompleteRef but keeping __poseDetectionSetup flag')
     }
-  }, [room, room?.state, sessionType]) // Depend on room, room state, and session type
+  }, [room, room?.state, sessionType, poseBackend]) // Depend on room, room state, session type and pose model
 
   // Group insights by participant
   // For mocap sessions: insights are already attributed to subject_id, so don't filter by sessionOwnerId
@@ -2304,6 +2969,8 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
           riskLevel: item.insight.riskLevel,
           riskDescription: item.insight.riskDescription,
           targetedRecommendations: item.insight.targetedRecommendations,
+          formFaults: item.insight.formFaults,
+          injuryRisk: item.insight.injuryRisk,
           timestamp: new Date().toISOString(),
         }))
 
@@ -2587,6 +3254,11 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
                             {latestInsight.postureMetrics.additionalMetrics?.map((metric, idx) => (
                               <p key={idx} className="break-words overflow-wrap-anywhere">{metric}</p>
                             ))}
+                            {describePostureAngles(latestInsight.postureMetrics.measuredAngles).map((line) => (
+                              <p key={line.label} className="break-words overflow-wrap-anywhere">
+                                <span className="font-medium">{line.label}:</span> {line.value}
+                              </p>
+                            ))}
                           </div>
                         </div>
                       )}
@@ -2664,10 +3336,51 @@ export function AIInsightsPanel({ participants, participantInfo, sessionOwnerId,
                             <span className={`px-2 py-1 rounded text-xs font-semibold text-white shrink-0 ${getRiskColor(latestInsight.riskLevel)}`}>
                               {latestInsight.riskLevel}
                             </span>
+                            {latestInsight.injuryRisk && (
+                              <span className="text-sm font-semibold shrink-0">{latestInsight.injuryRisk.score}/100</span>
+                            )}
                             {latestInsight.riskDescription && (
                               <span className="text-sm text-muted-foreground break-words overflow-wrap-anywhere">{latestInsight.riskDescription}</span>
                             )}
                           </div>
+                          {/* Contributing factors from the injury-risk model */}
+                          {latestInsight.injuryRisk && (
+                            <div className="space-y-1.5">
+                              {latestInsight.injuryRisk.factors.map((factor) => (
+                                <div key={factor.factor} className="space-y-0.5 min-w-0">
+                                  <div className="flex items-center justify-between gap-2 text-xs">
+                                    <span className="font-medium">{factor.label}</span>
+                                    <span className="text-muted-foreground shrink-0">+{factor.contribution} pts</span>
+                                  </div>
+                                  <div className="h-1.5 rounded bg-muted overflow-hidden">
+                                    <div
+                                      className={`h-full ${factor.score >= 60 ? 'bg-red-500' : factor.score >= 35 ? 'bg-yellow-500' : 'bg-green-500'}`}
+                                      style={{ width: `${factor.score}%` }}
+                                    />
+                                  </div>
+                                  <p className="text-xs text-muted-foreground break-words overflow-wrap-anywhere">{factor.evidence}</p>
+                                </div>
+                              ))}
+                              <p className="text-xs text-muted-foreground">
+                                Model v{latestInsight.injuryRisk.model_version} · {Math.round(latestInsight.injuryRisk.coverage * 100)}% of factors measured
+                              </p>
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Detected Form Faults */}
+                      {latestInsight.formFaults && latestInsight.formFaults.length > 0 && (
+                        <div className="space-y-2 pt-2 border-t border-border min-w-0">
+                          <h5 className="font-semibold text-sm">Detected Form Faults</h5>
+                          <ul className="space-y-1 text-sm text-muted-foreground">
+                            {latestInsight.formFaults.map((fault) => (
+                              <li key={fault.rule_id} className="flex items-start gap-2 min-w-0">
+                                <span className={`mt-1 h-2 w-2 rounded-full shrink-0 ${fault.severity === 'high' ? 'bg-red-500' : fault.severity === 'medium' ? 'bg-yellow-500' : 'bg-blue-500'}`} />
+                                <span className="break-words overflow-wrap-anywhere">{describeFormFault(fault)}</span>
+                              </li>
+                            ))}
+                          </ul>
                         </div>
                       )}
 
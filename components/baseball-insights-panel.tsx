@@ -1,16 +1,20 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useMemo } from "react"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Lightbulb, TrendingUp, AlertTriangle, CheckCircle, Activity } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion"
+import { useRealtimeMetrics } from "@/lib/realtime-metrics-context"
+import { averageThrows, type ThrowResult } from "@/lib/baseball-metrics"
 
 interface BaseballInsight {
   participantId: string
   participantName: string
   timestamp: string
+  throwCount: number // Throws analyzed so far (insights use the most recent few)
+  recentThrows: ThrowResult[]
   
   // Overall Assessment
   overallPerformance: "Excellent" | "Good" | "Needs Improvement" | "Critical"
@@ -67,11 +71,32 @@ interface BaseballInsightsPanelProps {
   sessionType?: string | null
 }
 
-// Generate realistic baseball insights
-function generateBaseballInsight(participantId: string, participantName: string): BaseballInsight {
-  const performanceScore = 70 + Math.random() * 25 // 70-95
-  const hipShoulderSep = 35 + Math.random() * 20 // 35-55
-  const legDriveBalance = 80 + Math.random() * 15 // 80-95
+const RECENT_THROWS = 5 // Insights describe the athlete's last few throws
+
+const mostCommon = <T,>(values: T[]): T =>
+  values.reduce((best, value) =>
+    values.filter(v => v === value).length > values.filter(v => v === best).length ? value : best
+  )
+
+// Build insights from the athlete's measured throws (deterministic - same throws, same insight)
+function generateBaseballInsight(participantId: string, participantName: string, throws: ThrowResult[]): BaseballInsight | null {
+  const recentThrows = throws.slice(-RECENT_THROWS)
+  const averages = averageThrows(recentThrows)
+  if (!averages) return null
+
+  const hipShoulderSep = averages.hipShoulderSeparation
+  const legDriveBalance = averages.legDriveSymmetry
+  const sequenceOrder = mostCommon(recentThrows.map(t => t.sequenceOrder))
+  const pelvisLead = recentThrows.reduce((sum, t) => sum + (t.peakTimes.torso - t.peakTimes.pelvis), 0) / recentThrows.length
+  const torsoLead = recentThrows.reduce((sum, t) => sum + (t.peakTimes.arm - t.peakTimes.torso), 0) / recentThrows.length
+  const performanceScore = (
+    averages.kinematicSequence.sequenceScore +
+    Math.min(100, (hipShoulderSep / 50) * 100) +
+    legDriveBalance +
+    averages.kinematicImbalanceIndex
+  ) / 4
+  const groundForceTiming = averages.groundForceTiming
+  const strideToFootPlant = averages.strideToFootPlant
   
   const overallPerformance: BaseballInsight["overallPerformance"] = 
     performanceScore >= 90 ? "Excellent" : 
@@ -89,9 +114,9 @@ function generateBaseballInsight(participantId: string, participantName: string)
   const kinematicSequenceInsights = [
     {
       assessment: "Excellent pelvis initiation with proper timing cascade through torso and arm",
-      pelvisLeadTime: "Pelvis leads torso by optimal 40-60ms window",
+      pelvisLeadTime: `Pelvis peaks ${Math.round(pelvisLead)}ms before the torso`,
       torsoDelay: "Torso rotation initiates properly after pelvis commitment",
-      armAcceleration: "Arm reaches peak velocity at optimal release point",
+      armAcceleration: `Arm reaches peak velocity ${Math.round(torsoLead)}ms after the torso, at release`,
       recommendations: [
         "Continue current sequencing pattern - it's generating maximum power",
         "Focus on maintaining this timing under fatigue"
@@ -99,7 +124,7 @@ function generateBaseballInsight(participantId: string, participantName: string)
     },
     {
       assessment: "Good sequencing with slight early arm commitment",
-      pelvisLeadTime: "Pelvis initiation timing is within normal range",
+      pelvisLeadTime: `Pelvis peaks ${Math.round(pelvisLead)}ms before the torso`,
       torsoDelay: "Minor delay in torso rotation affecting power transfer",
       armAcceleration: "Arm acceleration pattern shows early commitment before full hip rotation",
       recommendations: [
@@ -135,24 +160,26 @@ function generateBaseballInsight(participantId: string, participantName: string)
       pelvisEfficiency: hipShoulderSep >= 45 
         ? "Pelvis clearing efficiently, creating space for torso rotation"
         : "Pelvis rotation could be more aggressive in early phase",
-      torsoContribution: performanceScore >= 85
-        ? "Torso generating excellent rotational velocity (800-1100 deg/s)"
-        : "Torso rotation velocity below optimal range - opportunity for power gain"
+      torsoContribution: averages.kinematicSequence.torsoVelocity > averages.kinematicSequence.pelvisVelocity
+        ? `Torso speeding up the rotation from the pelvis (${Math.round(averages.kinematicSequence.pelvisVelocity)} → ${Math.round(averages.kinematicSequence.torsoVelocity)} deg/s)`
+        : `Torso rotation (${Math.round(averages.kinematicSequence.torsoVelocity)} deg/s) no faster than the pelvis - energy is lost before the arm`
     }
   ]
   
   const timingInsights = [
     {
-      groundForceSync: performanceScore >= 85
-        ? "Ground force timing synchronized perfectly with pelvis rotation (180-220ms window)"
-        : "Slight delay in ground force application - work on explosive hip drive at foot plant",
-      strideEfficiency: "Stride length and foot plant timing within optimal range for power generation",
-      criticalIssues: performanceScore < 75 
-        ? [
-            "Early weight shift before full hip loading",
-            "Foot plant occurring too early relative to arm slot"
-          ]
-        : []
+      groundForceSync: groundForceTiming === null
+        ? "Foot plant not detected - film side-on with both feet in frame"
+        : groundForceTiming < 0
+        ? `Pelvis reaches peak rotation ${Math.round(-groundForceTiming)}ms before foot plant - rotating early before the front foot is down`
+        : `Pelvis reaches peak rotation ${Math.round(groundForceTiming)}ms after foot plant`,
+      strideEfficiency: strideToFootPlant === null
+        ? "Stride start or foot plant not detected on recent throws"
+        : `Stride to foot plant takes ${Math.round(strideToFootPlant)}ms`,
+      criticalIssues: [
+        ...(groundForceTiming !== null && groundForceTiming < 0 ? ["Early weight shift before full hip loading"] : []),
+        ...(sequenceOrder === "early_arm" || sequenceOrder === "out_of_order" ? ["Arm peaking before the torso - arm is leading the throw"] : []),
+      ]
     }
   ]
   
@@ -213,7 +240,9 @@ function generateBaseballInsight(participantId: string, participantName: string)
     }
   ]
   
-  const selectedKinematic = kinematicSequenceInsights[Math.floor(Math.random() * kinematicSequenceInsights.length)]
+  const selectedKinematic = kinematicSequenceInsights[
+    sequenceOrder === "proper" ? 0 : sequenceOrder === "synchronous" ? 2 : 1
+  ]
   const selectedRotation = rotationInsights[0]
   const selectedTiming = timingInsights[0]
   const selectedSymmetry = symmetryInsights[0]
@@ -222,7 +251,9 @@ function generateBaseballInsight(participantId: string, participantName: string)
   return {
     participantId,
     participantName,
-    timestamp: new Date().toISOString(),
+    timestamp: new Date(recentThrows[recentThrows.length - 1].endTime).toISOString(),
+    throwCount: throws.length,
+    recentThrows,
     overallPerformance,
     performanceScore,
     kinematicSequence: selectedKinematic,
@@ -239,39 +270,29 @@ function generateBaseballInsight(participantId: string, participantName: string)
 }
 
 export function BaseballInsightsPanel({ participants, participantInfo, sessionType }: BaseballInsightsPanelProps) {
-  const [insights, setInsights] = useState<Record<string, BaseballInsight>>({})
-  const [lastGenerated, setLastGenerated] = useState<Date | null>(null)
-  const [isGenerating, setIsGenerating] = useState(false)
+  // Throws are segmented by the pose pipeline and shared via context
+  const { throws } = useRealtimeMetrics()
 
-  // Generate insights every 2 seconds
-  useEffect(() => {
-    const generateInsights = () => {
-      setIsGenerating(true)
-      console.log('[Baseball Insights] 🎯 Generating new insights...')
-      
-      const newInsights: Record<string, BaseballInsight> = {}
-      participants.forEach(participant => {
-        const participantName = participantInfo[participant.identity]?.fullName || participant.name || participant.identity
-        newInsights[participant.identity] = generateBaseballInsight(participant.identity, participantName)
-      })
-      
-      setInsights(newInsights)
-      setLastGenerated(new Date())
-      setIsGenerating(false)
-      
-      console.log('[Baseball Insights] ✅ Generated insights for', participants.length, 'participants')
-    }
+  // Rebuild insights whenever a throw is added
+  const insights = useMemo(() => {
+    const participantIds = Array.from(new Set([...participants.map(p => p.identity), ...Object.keys(throws)]))
+    const nextInsights: Record<string, BaseballInsight> = {}
+    participantIds.forEach(participantId => {
+      const participant = participants.find(p => p.identity === participantId)
+      const participantName = participantInfo[participantId]?.fullName || participant?.name || participantId
+      const insight = generateBaseballInsight(participantId, participantName, throws[participantId] || [])
+      if (insight) {
+        nextInsights[participantId] = insight
+      }
+    })
+    console.log('[Baseball Insights] ✅ Built insights for', Object.keys(nextInsights).length, 'participants')
+    return nextInsights
+  }, [participants, participantInfo, throws])
 
-    // Generate immediately on mount
-    if (participants.length > 0) {
-      generateInsights()
-    }
-
-    // Then generate every 15 seconds
-    const interval = setInterval(generateInsights, 15000)
-
-    return () => clearInterval(interval)
-  }, [participants, participantInfo])
+  const lastGenerated = Object.values(insights).reduce<Date | null>((latest, insight) => {
+    const time = new Date(insight.timestamp)
+    return !latest || time > latest ? time : latest
+  }, null)
 
   const getPerformanceColor = (performance: BaseballInsight["overallPerformance"]) => {
     switch (performance) {
@@ -315,7 +336,7 @@ export function BaseballInsightsPanel({ participants, participantInfo, sessionTy
         <div className="flex items-center justify-between mb-2">
           <div>
             <h3 className="text-lg font-semibold text-white mb-1">Baseball Performance Insights</h3>
-            <p className="text-sm text-white/60">AI-powered analysis updated every 15 seconds</p>
+            <p className="text-sm text-white/60">Analysis of each athlete's last {RECENT_THROWS} throws, updated after every throw</p>
           </div>
           {lastGenerated && (
             <div className="text-xs text-white/40">
@@ -323,10 +344,10 @@ export function BaseballInsightsPanel({ participants, participantInfo, sessionTy
             </div>
           )}
         </div>
-        {isGenerating && (
+        {Object.keys(insights).length === 0 && (
           <Alert className="bg-blue-500/10 border-blue-500/20">
             <AlertDescription className="text-sm text-blue-400">
-              🔄 Generating new insights...
+              Waiting for the first throw - insights appear once a throw is detected
             </AlertDescription>
           </Alert>
         )}
@@ -342,6 +363,9 @@ export function BaseballInsightsPanel({ participants, participantInfo, sessionTy
                 {insight.overallPerformance}
               </div>
             </div>
+            <div className="text-xs text-white/40 mb-2">
+              {insight.throwCount} throw{insight.throwCount === 1 ? "" : "s"} analyzed
+            </div>
             <div className="flex items-center gap-2">
               <div className="text-xs text-white/60">Performance Score:</div>
               <div className="text-sm font-bold text-white">{Math.round(insight.performanceScore)}/100</div>
@@ -355,6 +379,37 @@ export function BaseballInsightsPanel({ participants, participantInfo, sessionTy
           </div>
 
           <Accordion type="multiple" className="space-y-2">
+            {/* Per-throw results */}
+            <AccordionItem value="throws" className="border-white/10">
+              <AccordionTrigger className="text-white/90 hover:text-white text-sm py-2">
+                ⚾ Recent Throws
+              </AccordionTrigger>
+              <AccordionContent className="text-white/70 text-sm pb-4">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-white/50 text-left">
+                      <th className="py-1 font-normal">#</th>
+                      <th className="py-1 font-normal">Sequence</th>
+                      <th className="py-1 font-normal">Separation</th>
+                      <th className="py-1 font-normal">Stride → FP</th>
+                      <th className="py-1 font-normal">FP → Pelvis Peak</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {insight.recentThrows.map(result => (
+                      <tr key={result.throwIndex} className="border-t border-white/5">
+                        <td className="py-1 text-white/90">{result.throwIndex}</td>
+                        <td className="py-1">{Math.round(result.kinematicSequence.sequenceScore)}/100</td>
+                        <td className="py-1">{result.hipShoulderSeparation.toFixed(1)}°</td>
+                        <td className="py-1">{result.strideToFootPlant === null ? "—" : `${Math.round(result.strideToFootPlant)} ms`}</td>
+                        <td className="py-1">{result.groundForceTiming === null ? "—" : `${Math.round(result.groundForceTiming)} ms`}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </AccordionContent>
+            </AccordionItem>
+
             {/* Kinematic Sequence */}
             <AccordionItem value="kinematic" className="border-white/10">
               <AccordionTrigger className="text-white/90 hover:text-white text-sm py-2">
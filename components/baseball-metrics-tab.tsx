@@ -2,7 +2,8 @@
 
 import { Card } from "@/components/ui/card"
 import { Activity, TrendingUp, TrendingDown, Minus } from "lucide-react"
-import { useEffect, useState } from "react"
+import { useRealtimeMetrics } from "@/lib/realtime-metrics-context"
+import type { SequenceOrder } from "@/lib/baseball-metrics"
 
 interface BaseballMetricsTabProps {
   participants: Array<{ identity: string; name: string }>
@@ -11,98 +12,19 @@ interface BaseballMetricsTabProps {
   subjectId?: string | null
 }
 
-interface BaseballMetrics {
-  // Kinematic Sequence - time-stamped angular velocity
-  kinematicSequence: {
-    pelvisVelocity: number // deg/s
-    torsoVelocity: number // deg/s
-    armVelocity: number // deg/s
-    sequenceScore: number // 0-100
-  }
-  
-  // Rotation metrics
-  pelvisRotation: number // degrees
-  torsoRotation: number // degrees
-  shoulderAngles: {
-    throwing: number // degrees
-    glove: number // degrees
-  }
-  
-  // Separation and timing
-  hipShoulderSeparation: number // degrees
-  groundForceTiming: number // milliseconds
-  strideToFootPlant: number // milliseconds
-  
-  // Symmetry and balance
-  legDriveSymmetry: number // 0-100 score
-  hipRotation: {
-    internal: number // degrees
-    external: number // degrees
-  }
-  
-  // Overall index
-  kinematicImbalanceIndex: number // 0-100 (higher is better)
-}
-
-// Generate realistic dummy baseball metrics
-function generateDummyMetrics(): BaseballMetrics {
-  return {
-    kinematicSequence: {
-      pelvisVelocity: 600 + Math.random() * 200, // 600-800 deg/s
-      torsoVelocity: 800 + Math.random() * 300, // 800-1100 deg/s
-      armVelocity: 5000 + Math.random() * 2000, // 5000-7000 deg/s
-      sequenceScore: 75 + Math.random() * 20, // 75-95
-    },
-    pelvisRotation: 45 + Math.random() * 15, // 45-60 degrees
-    torsoRotation: 80 + Math.random() * 25, // 80-105 degrees
-    shoulderAngles: {
-      throwing: 160 + Math.random() * 20, // 160-180 degrees
-      glove: 90 + Math.random() * 30, // 90-120 degrees
-    },
-    hipShoulderSeparation: 35 + Math.random() * 20, // 35-55 degrees
-    groundForceTiming: 180 + Math.random() * 60, // 180-240 ms
-    strideToFootPlant: 140 + Math.random() * 40, // 140-180 ms
-    legDriveSymmetry: 80 + Math.random() * 15, // 80-95
-    hipRotation: {
-      internal: 35 + Math.random() * 15, // 35-50 degrees
-      external: 40 + Math.random() * 15, // 40-55 degrees
-    },
-    kinematicImbalanceIndex: 75 + Math.random() * 20, // 75-95
-  }
+const SEQUENCE_LABELS: Record<SequenceOrder, string> = {
+  proper: "proximal-to-distal",
+  synchronous: "pelvis and torso together",
+  early_arm: "arm early",
+  out_of_order: "out of order",
 }
 
 export function BaseballMetricsTab({ participants, participantInfo, sessionType, subjectId }: BaseballMetricsTabProps) {
-  const [metricsData, setMetricsData] = useState<Record<string, BaseballMetrics>>({})
-  
-  // Generate dummy metrics for all participants and update every second
-  useEffect(() => {
-    // Initialize metrics for all participants
-    const isMocapSession = sessionType === 'mocap'
-    const participantIds = isMocapSession && subjectId 
-      ? [subjectId]
-      : participants.map(p => p.identity)
-    
-    // Initial metrics
-    const initialMetrics: Record<string, BaseballMetrics> = {}
-    participantIds.forEach(id => {
-      initialMetrics[id] = generateDummyMetrics()
-    })
-    setMetricsData(initialMetrics)
-    
-    // Update metrics every second
-    const interval = setInterval(() => {
-      const updatedMetrics: Record<string, BaseballMetrics> = {}
-      participantIds.forEach(id => {
-        updatedMetrics[id] = generateDummyMetrics()
-      })
-      setMetricsData(updatedMetrics)
-    }, 1000)
-    
-    return () => clearInterval(interval)
-  }, [participants, sessionType, subjectId])
+  // Live rotation state and segmented throws come from the pose pipeline (AIInsightsPanel) via context
+  const { realtimeData, throws } = useRealtimeMetrics()
 
-  const formatNumber = (value: number, decimals: number = 0) => {
-    return value.toFixed(decimals)
+  const formatNumber = (value: number | null, decimals: number = 0) => {
+    return value === null ? "—" : value.toFixed(decimals)
   }
 
   const formatScore = (score: number) => {
@@ -149,12 +71,13 @@ export function BaseballMetricsTab({ participants, participantInfo, sessionType,
       <div className="mb-4">
         <h3 className="text-lg font-semibold text-white mb-1">Baseball Performance Metrics</h3>
         <p className="text-sm text-white/60">Real-time biomechanical analysis for pitching and hitting</p>
-        <p className="text-xs text-yellow-400/80 mt-1">⚡ Live Demo - Updates every second</p>
+        <p className="text-xs text-white/40 mt-1">Values below are from the most recent throw - throws are detected automatically</p>
       </div>
 
       {displayParticipants.map((participant) => {
-        const metrics = metricsData[participant.identity]
-        if (!metrics) return null
+        const participantThrows = throws[participant.identity] || []
+        const metrics = participantThrows[participantThrows.length - 1]
+        const live = realtimeData[participant.identity]?.baseball
         
         const participantName = participantInfo[participant.identity]?.fullName || participant.name || participant.identity
 
@@ -163,8 +86,42 @@ export function BaseballMetricsTab({ participants, participantInfo, sessionType,
             <div className="flex items-center gap-2 mb-4">
               <Activity className="h-4 w-4 text-primary" />
               <h4 className="text-base font-semibold text-white">{participantName}</h4>
+              {metrics && (
+                <span className="ml-auto text-xs text-white/60">
+                  Throw #{metrics.throwIndex} · {metrics.throwingSide === "left" ? "LHP" : "RHP"}
+                </span>
+              )}
             </div>
 
+            {/* Live rotation (current frame) */}
+            {live && (
+              <div className="mb-4 grid grid-cols-3 gap-3 text-xs">
+                <div className="bg-white/5 rounded p-2">
+                  <div className="text-white/60 mb-1">Pelvis (now)</div>
+                  <div className="text-white font-bold text-sm">{formatNumber(live.pelvisRotation, 0)}°</div>
+                </div>
+                <div className="bg-white/5 rounded p-2">
+                  <div className="text-white/60 mb-1">Torso (now)</div>
+                  <div className="text-white font-bold text-sm">{formatNumber(live.torsoRotation, 0)}°</div>
+                </div>
+                <div className="bg-white/5 rounded p-2">
+                  <div className="text-white/60 mb-1">Separation (now)</div>
+                  <div className="text-white font-bold text-sm">
+                    {formatNumber(live.hipShoulderSeparation, 0)}°
+                    {live.throwInProgress && <span className="ml-1 text-yellow-400 font-normal">throwing</span>}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {!metrics ? (
+              <div className="text-center py-6">
+                <p className="text-sm text-white/60">Waiting for the first throw</p>
+                <p className="text-xs text-white/40 mt-1">Keep the athlete's full body in frame, side-on to the camera</p>
+              </div>
+            ) : (
+            <>
+
             {/* Kinematic Sequence */}
             <div className="mb-4 space-y-3">
               <h5 className="text-sm font-medium text-white/80 mb-2 flex items-center gap-2">
@@ -191,6 +148,10 @@ export function BaseballMetricsTab({ participants, participantInfo, sessionType,
                   </div>
                 </div>
               </div>
+              <div className="text-xs text-white/60">
+                Peak timing: pelvis {metrics.peakTimes.pelvis} ms → torso {metrics.peakTimes.torso} ms → arm {metrics.peakTimes.arm} ms
+                <span className="text-white/40"> ({SEQUENCE_LABELS[metrics.sequenceOrder]})</span>
+              </div>
               <div className="text-xs text-white/40 italic">
                 Ensures proper sequencing for max power & efficiency
               </div>
@@ -297,6 +258,8 @@ export function BaseballMetricsTab({ participants, participantInfo, sessionType,
                 </div>
               </div>
             </div>
+            </>
+            )}
           </Card>
         )
       })}
@@ -0,0 +1,155 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Ruler } from "lucide-react"
+import { isValidHeightCm, MAX_HEIGHT_CM, MIN_HEIGHT_CM, type BalanceSummary } from "@/lib/calibration"
+import { useRealtimeMetrics } from "@/lib/realtime-metrics-context"
+
+interface CalibrationControlProps {
+  participantId: string // Metric key (subject ID for mocap / pinned tracks)
+  balance?: BalanceSummary
+}
+
+// Standing-pose calibration so sway, CoM excursion and stride are reported in centimeters
+export function CalibrationControl({ participantId, balance }: CalibrationControlProps) {
+  const { calibrations, calibrationRequests, calibrationStatus, requestCalibration, clearCalibration } = useRealtimeMetrics()
+  const [profileHeightCm, setProfileHeightCm] = useState<number | null>(null)
+  const [heightInput, setHeightInput] = useState("")
+  const [isEditing, setIsEditing] = useState(false)
+
+  const calibration = calibrations[participantId]
+  const request = calibrationRequests[participantId]
+  const status = calibrationStatus[participantId]
+
+  // Prefill the height from the subject profile when one is stored
+  useEffect(() => {
+    let cancelled = false
+    fetch(`/api/subjects/${participantId}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        const height = Number(data?.subject?.height_cm)
+        if (!cancelled && isValidHeightCm(height)) {
+          setProfileHeightCm(height)
+          setHeightInput(current => current || String(height))
+        }
+      })
+      .catch(() => {
+        // Not a subject (or not visible to this user) - the coach enters the height instead
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [participantId])
+
+  const height = Number(heightInput)
+  const heightIsValid = isValidHeightCm(height)
+
+  const startCalibration = () => {
+    if (!heightIsValid) return
+    requestCalibration(participantId, height, profileHeightCm === height ? "profile" : "entered")
+    setIsEditing(false)
+  }
+
+  const formatCm = (value: number | null) => (value === null ? "-" : `${value.toFixed(1)} cm`)
+
+  if (request) {
+    const progress = status?.status === "collecting" ? status.progress : 0
+    return (
+      <div className="mb-4 bg-white/5 rounded-lg p-3 space-y-2">
+        <div className="flex items-center gap-2 text-xs text-white/80">
+          <Ruler className="h-3.5 w-3.5 text-primary" />
+          <span className="font-medium">Calibrating ({Math.round(request.heightCm)} cm)</span>
+          <Button size="sm" variant="ghost" className="ml-auto h-6 text-xs" onClick={() => clearCalibration(participantId)}>
+            Cancel
+          </Button>
+        </div>
+        <div className="h-1.5 rounded bg-white/10 overflow-hidden">
+          <div className="h-full bg-primary transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+        </div>
+        <p className="text-xs text-white/60">{status?.message || "Stand still facing the camera, head and feet in frame"}</p>
+      </div>
+    )
+  }
+
+  if (!calibration || isEditing) {
+    return (
+      <div className="mb-4 bg-white/5 rounded-lg p-3 space-y-2">
+        <div className="flex items-center gap-2 text-xs text-white/80">
+          <Ruler className="h-3.5 w-3.5 text-primary" />
+          <span className="font-medium">Calibrate for measurements in cm</span>
+        </div>
+        {status?.status === "failed" && (
+          <p className="text-xs text-red-300">{status.message}</p>
+        )}
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={MIN_HEIGHT_CM}
+            max={MAX_HEIGHT_CM}
+            placeholder="Height (cm)"
+            value={heightInput}
+            onChange={(e) => setHeightInput(e.target.value)}
+            className="h-8 text-xs"
+          />
+          <Button size="sm" className="h-8 text-xs" disabled={!heightIsValid} onClick={startCalibration}>
+            Start
+          </Button>
+          {calibration && (
+            <Button size="sm" variant="ghost" className="h-8 text-xs" onClick={() => setIsEditing(false)}>
+              Cancel
+            </Button>
+          )}
+        </div>
+        <p className="text-[10px] text-white/40">
+          Athlete stands still facing the camera for 2 seconds with head and feet in frame
+          {profileHeightCm !== null ? " · height from profile" : ""}
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex items-center gap-2 text-xs text-white/60">
+        <Ruler className="h-3.5 w-3.5 text-primary" />
+        <span>Calibrated · {Math.round(calibration.heightCm)} cm{calibration.heightSource === "profile" ? " (profile)" : ""}</span>
+        <Button size="sm" variant="ghost" className="ml-auto h-6 text-xs" onClick={() => setIsEditing(true)}>
+          Recalibrate
+        </Button>
+        <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={() => clearCalibration(participantId)}>
+          Clear
+        </Button>
+      </div>
+      {balance?.calibrated && (
+        <div className="grid grid-cols-3 gap-3">
+          <div className="bg-white/5 rounded-lg p-3">
+            <div className="text-white/60 text-xs mb-1">Sway</div>
+            <div className="text-white font-semibold">{formatCm(balance.swayCm)}</div>
+          </div>
+          <div className="bg-white/5 rounded-lg p-3">
+            <div className="text-white/60 text-xs mb-1">CoM Excursion</div>
+            <div className="text-white font-semibold">{formatCm(balance.comExcursionCm)}</div>
+          </div>
+          <div className="bg-white/5 rounded-lg p-3">
+            <div className="text-white/60 text-xs mb-1">Base Width</div>
+            <div className="text-white font-semibold">{formatCm(balance.baseWidthCm)}</div>
+          </div>
+          <div className="bg-white/5 rounded-lg p-3">
+            <div className="text-white/60 text-xs mb-1">CoM Offset</div>
+            <div className="text-white font-semibold">{formatCm(balance.centerOfMassOffsetCm)}</div>
+          </div>
+          <div className="bg-white/5 rounded-lg p-3">
+            <div className="text-white/60 text-xs mb-1">Step Length</div>
+            <div className="text-white font-semibold">{formatCm(balance.stepLengthCm)}</div>
+          </div>
+          <div className="bg-white/5 rounded-lg p-3">
+            <div className="text-white/60 text-xs mb-1">Stride Length</div>
+            <div className="text-white font-semibold">{formatCm(balance.strideLengthCm)}</div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -6,7 +6,9 @@ import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { Send, Bot } from "lucide-react"
 import { Card } from "@/components/ui/card"
-import { ConnectionState, RoomEvent } from "livekit-client"
+import { ConnectionState, DataPacket_Kind, RoomEvent } from "livekit-client"
+import type { FormFaultSummary } from "@/lib/movement-rules"
+import { POSE_STREAM_TOPIC } from "@/lib/pose-stream"
 
 interface ChatMessage {
   message_id: string
@@ -23,6 +25,7 @@ interface ChatMessage {
       symmetry_score?: number
       postural_efficiency?: number
     }
+    form_faults?: FormFaultSummary[]
   }
 }
 
@@ -276,7 +279,8 @@ export function ChatPanel({ sessionId, sessionOwnerId, participantInfo, localPar
   useEffect(() => {
     if (!room) return
 
-    const handleDataReceived = (payload: Uint8Array, participant?: any) => {
+    const handleDataReceived = (payload: Uint8Array, participant?: any, kind?: DataPacket_Kind, topic?: string) => {
+      if (topic === POSE_STREAM_TOPIC) return // Binary skeleton frames, not JSON
       try {
         const text = new TextDecoder().decode(payload)
         const data = JSON.parse(text)
@@ -1,10 +1,25 @@
 
 "use client"
 
-import { PhoneOff } from "lucide-react"
+import { PhoneOff, PersonStanding } from "lucide-react"
 import { Track } from "livekit-client"
 import { useRoomContext, TrackToggle, MediaDeviceMenu } from "@livekit/components-react"
 import { useRouter } from "next/navigation"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useRealtimeMetrics } from "@/lib/realtime-metrics-context"
+
+// A video tile the skeleton overlay can be shown on
+export interface OverlayTile {
+  id: string // Participant identity
+  name: string
+}
 
 interface CustomVideoControlsProps {
   sessionDuration?: string
@@ -12,6 +27,44 @@ interface CustomVideoControlsProps {
   onStartRecording?: () => void
   onStopRecording?: () => void
   showRecordButton?: boolean
+  overlayTiles?: OverlayTile[] // Tiles with a skeleton overlay toggle (omit to hide the overlay menu)
+}
+
+// Per-tile skeleton overlay toggles
+export function PoseOverlayMenu({ tiles }: { tiles: OverlayTile[] }) {
+  const { overlayTiles, setOverlayEnabled } = useRealtimeMetrics()
+  const anyEnabled = tiles.some(tile => overlayTiles[tile.id])
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className={`inline-flex items-center justify-center text-white hover:bg-white/10 rounded-full p-2 transition-colors ${anyEnabled ? 'bg-white/20' : ''}`}
+          title="Skeleton overlay"
+        >
+          <PersonStanding className="h-5 w-5" strokeWidth={2} />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent side="top" align="center" className="w-56">
+        <DropdownMenuLabel>Skeleton overlay</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {tiles.length === 0 ? (
+          <div className="px-2 py-1.5 text-xs text-muted-foreground">No video tiles</div>
+        ) : (
+          tiles.map(tile => (
+            <DropdownMenuCheckboxItem
+              key={tile.id}
+              checked={!!overlayTiles[tile.id]}
+              onCheckedChange={(checked) => setOverlayEnabled(tile.id, checked === true)}
+              onSelect={(e) => e.preventDefault()} // Keep the menu open to toggle several tiles
+            >
+              {tile.name}
+            </DropdownMenuCheckboxItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
 }
 
 export function CustomVideoControls({ 
@@ -19,7 +72,8 @@ export function CustomVideoControls({
   isRecording = false,
   onStartRecording,
   onStopRecording,
-  showRecordButton = false
+  showRecordButton = false,
+  overlayTiles
 }: CustomVideoControlsProps) {
   const room = useRoomContext()
   const router = useRouter()
@@ -57,6 +111,9 @@ export function CustomVideoControls({
           </div>
         </div>
 
+        {/* Skeleton overlay toggles per tile */}
+        {overlayTiles && <PoseOverlayMenu tiles={overlayTiles} />}
+
         {/* Leave button - icon only */}
         <button
           onClick={async () => {
@@ -0,0 +1,88 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Target } from "lucide-react"
+import { useRealtimeMetrics } from "@/lib/realtime-metrics-context"
+import type { ReferenceTemplate, TemplateMatchSummary } from "@/lib/reference-templates"
+import type { MovementRule } from "@/lib/movement-rules"
+import { TemplateMatchBadge } from "./template-match-badge"
+
+interface ExerciseTemplateControlProps {
+  participantId: string // Metric key (subject ID for mocap / pinned tracks)
+  templateMatch?: TemplateMatchSummary
+}
+
+interface TemplateExercise {
+  id: string
+  name: string
+  referenceTemplate?: ReferenceTemplate
+  formRules?: MovementRule[]
+}
+
+// Pick the catalog exercise a person is performing - selects the rep profile and form rules, and scores each rep
+// against the exercise's reference template when it has one
+export function ExerciseTemplateControl({ participantId, templateMatch }: ExerciseTemplateControlProps) {
+  const { exerciseTemplates, setExerciseTemplate } = useRealtimeMetrics()
+  const [exercises, setExercises] = useState<TemplateExercise[]>([])
+  const selection = exerciseTemplates[participantId]
+
+  useEffect(() => {
+    let cancelled = false
+    fetch("/api/exercise-catalog")
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (cancelled || !data?.exercises) return
+        setExercises(data.exercises as TemplateExercise[])
+      })
+      .catch(error => console.error("[Exercise Template] Error loading exercises:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  if (exercises.length === 0 && !selection) return null
+
+  const selectExercise = (exerciseId: string) => {
+    const exercise = exercises.find(e => e.id === exerciseId)
+    if (!exercise) return
+    setExerciseTemplate(participantId, {
+      exerciseId: exercise.id,
+      exerciseName: exercise.name,
+      template: exercise.referenceTemplate,
+      formRules: exercise.formRules,
+    })
+  }
+
+  return (
+    <div className="mb-4 bg-white/5 rounded-lg p-3 space-y-2">
+      <div className="flex items-center gap-2 text-xs text-white/80">
+        <Target className="h-3.5 w-3.5 text-primary" />
+        <span className="font-medium">Exercise</span>
+        {selection && (
+          <Button size="sm" variant="ghost" className="ml-auto h-6 text-xs" onClick={() => setExerciseTemplate(participantId, null)}>
+            Clear
+          </Button>
+        )}
+      </div>
+      <Select value={selection?.exerciseId} onValueChange={selectExercise}>
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue placeholder="Select the exercise being performed" />
+        </SelectTrigger>
+        <SelectContent>
+          {exercises.map(e => (
+            <SelectItem key={e.id} value={e.id}>{e.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {selection && (
+        !selection.template
+          ? <p className="text-[10px] text-white/40">No reference template - reps are counted and checked against the exercise's form rules</p>
+          : templateMatch && templateMatch.exerciseId === selection.exerciseId
+            ? <TemplateMatchBadge templateMatch={templateMatch} />
+            : <p className="text-[10px] text-white/40">Waiting for the first full rep...</p>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { Search, Filter, Play, BookOpen, Target, Clock, TrendingUp, UserPlus, Loader2, ChevronLeft, ChevronRight } from "lucide-react"
+import { Search, Filter, Play, BookOpen, Target, Clock, TrendingUp, UserPlus, Loader2, ChevronLeft, ChevronRight, GitCompare } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
@@ -38,6 +38,8 @@ interface Exercise {
   instructions: string[]
   benefits: string[]
   videoUrl?: string
+  exemplar?: { session_id: string; participant_id: string } // Reference recording (see /compare)
+  referenceTemplate?: { repsAnalyzed: number } // Target ranges derived from the exemplar (see lib/reference-templates.ts)
 }
 
 const exerciseCategories = [
@@ -736,6 +738,22 @@ export default function ExercisesContent() {
                 </ul>
               </div>
 
+              {/* Exemplar */}
+              {selectedExercise.exemplar && (
+                <div className="flex items-center justify-between gap-2 rounded-md border p-3">
+                  <p className="text-sm text-muted-foreground">
+                    A reference recording is attached to this exercise.
+                    {selectedExercise.referenceTemplate && ` Live and uploaded reps are scored against its ${selectedExercise.referenceTemplate.repsAnalyzed} reference rep${selectedExercise.referenceTemplate.repsAnalyzed === 1 ? "" : "s"}.`}
+                  </p>
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/compare?exercise=${encodeURIComponent(selectedExercise.id)}`}>
+                      <GitCompare className="mr-2 h-4 w-4" />
+                      Compare a client
+                    </a>
+                  </Button>
+                </div>
+              )}
+
               {/* Prescribe and Close Buttons */}
               <div className="pt-4 border-t flex gap-2">
                 <Button
@@ -0,0 +1,76 @@
+"use client"
+
+import { AlertTriangle, X } from "lucide-react"
+import { useRealtimeMetrics } from "@/lib/realtime-metrics-context"
+import { FATIGUE_INDEX_THRESHOLD, type FatigueLiveState } from "@/lib/fatigue"
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.round(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`
+}
+
+const indexColor = (index: number) =>
+  index >= FATIGUE_INDEX_THRESHOLD ? "text-red-400" : index >= FATIGUE_INDEX_THRESHOLD / 2 ? "text-amber-400" : "text-green-400"
+
+// "Fatigue threshold reached" banners over the session room, one per athlete until dismissed
+export function FatigueAlerts({ names }: { names: Record<string, string> }) {
+  const { fatigueAlerts, setFatigueAlert } = useRealtimeMetrics()
+  const alerts = Object.entries(fatigueAlerts)
+  if (alerts.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      {alerts.map(([participantId, event]) => (
+        <div key={participantId} className="bg-black/80 backdrop-blur-sm border border-red-400/60 rounded-lg px-3 py-2 text-xs">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="h-3.5 w-3.5 text-red-400 shrink-0" />
+            <span className="font-medium text-white">Fatigue threshold reached</span>
+            <button
+              onClick={() => setFatigueAlert(participantId, null)}
+              className="ml-auto text-white/40 hover:text-white"
+              title="Dismiss"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+          <p className="text-white/60 mt-1">
+            {names[participantId] || "Athlete"} · index {event.fatigueIndex}/100 at {formatElapsed(event.elapsedMs)}
+          </p>
+          {event.reasons.length > 0 && <p className="text-[10px] text-white/40 mt-0.5">{event.reasons.join(" · ")}</p>}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// Live fatigue index and its components in the Live Metrics tab
+export function FatigueSummary({ fatigue }: { fatigue: FatigueLiveState }) {
+  if (fatigue.fatigueIndex === null) return null
+  const components = [
+    { label: "Velocity loss", value: fatigue.velocityLossPct, unit: "%" },
+    { label: "Variability", value: fatigue.variabilityIncreasePts, unit: " pts" },
+    { label: "Symmetry drop", value: fatigue.symmetryDropPts, unit: " pts" },
+    { label: "Efficiency drop", value: fatigue.efficiencyDropPts, unit: " pts" },
+  ]
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-baseline gap-2">
+        <h5 className="text-sm font-medium text-white/80">Fatigue</h5>
+        <span className={`text-lg font-bold ${indexColor(fatigue.fatigueIndex)}`}>{fatigue.fatigueIndex}</span>
+        <span className="text-[10px] text-white/40">/100{fatigue.thresholdReached && " · threshold reached"}</span>
+      </div>
+      <div className="grid grid-cols-4 gap-2">
+        {components.map(component => (
+          <div key={component.label} className="bg-white/5 rounded-lg p-2">
+            <div className="text-white/60 text-[10px] mb-0.5">{component.label}</div>
+            <div className="text-white text-sm font-semibold">
+              {component.value !== null ? `${component.value}${component.unit}` : "-"}
+            </div>
+          </div>
+        ))}
+      </div>
+      {fatigue.repsAnalyzed > 0 && <p className="text-[10px] text-white/40">{fatigue.repsAnalyzed} reps compared with the first reps of the session</p>}
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+"use client"
+
+import { Card } from "@/components/ui/card"
+import { Activity, AlertTriangle } from "lucide-react"
+import { useRealtimeMetrics } from "@/lib/realtime-metrics-context"
+import { GAIT_ASYMMETRY_THRESHOLD_PCT, type GaitSides } from "@/lib/gait-analysis"
+
+interface GaitMetricsTabProps {
+  participants: Array<{ identity: string; name: string }>
+  participantInfo: Record<string, { fullName?: string }>
+  sessionType?: string | null
+  subjectId?: string | null
+}
+
+export function GaitMetricsTab({ participants, participantInfo, sessionType, subjectId }: GaitMetricsTabProps) {
+  // Strides are measured by the pose pipeline (AIInsightsPanel) and shared via context
+  const { realtimeData } = useRealtimeMetrics()
+
+  const formatNumber = (value: number | null, decimals: number = 0) => {
+    return value === null ? "—" : value.toFixed(decimals)
+  }
+
+  // Left / right pair, e.g. "245 / 262 ms"
+  const formatSides = (pair: GaitSides, unit: string, decimals: number = 0) => {
+    return `${formatNumber(pair.left, decimals)} / ${formatNumber(pair.right, decimals)} ${unit}`
+  }
+
+  const getAsymmetryColor = (value: number | null) => {
+    if (value === null) return "text-white"
+    return value < GAIT_ASYMMETRY_THRESHOLD_PCT / 2 ? "text-green-400" : value < GAIT_ASYMMETRY_THRESHOLD_PCT ? "text-yellow-400" : "text-red-400"
+  }
+
+  // Determine which participants to show
+  const isMocapSession = sessionType === 'mocap'
+  const displayParticipants = isMocapSession && subjectId
+    ? [{ identity: subjectId, name: participantInfo[subjectId]?.fullName || 'Athlete' }]
+    : participants
+
+  if (displayParticipants.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center p-8">
+        <div className="text-center">
+          <Activity className="h-8 w-8 text-white/40 mx-auto mb-3" />
+          <p className="text-sm text-white/60">No metrics available yet</p>
+          {isMocapSession && (
+            <p className="text-xs text-white/40 mt-2">Point camera at athlete to start analysis</p>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-white mb-1">Gait & Running Mechanics</h3>
+        <p className="text-sm text-white/60">Cadence, ground contact, stride length and left/right asymmetry per stride</p>
+        <p className="text-xs text-white/40 mt-1">Film from the side (treadmill or track) - calibrate in Live Metrics for stride length, overstride and oscillation in cm</p>
+      </div>
+
+      {displayParticipants.map((participant) => {
+        const gait = realtimeData[participant.identity]?.gait
+        const lastStride = gait?.lastStride
+        const recent = gait?.recent
+        const participantName = participantInfo[participant.identity]?.fullName || participant.name || participant.identity
+        const asymmetries = recent
+          ? [
+              { label: "Step time", value: recent.stepTimeAsymmetryPct },
+              { label: "Ground contact", value: recent.groundContactAsymmetryPct },
+              { label: "Overstride", value: recent.overstrideAsymmetryPct },
+            ]
+          : []
+        const flagged = asymmetries.filter(a => a.value !== null && a.value >= GAIT_ASYMMETRY_THRESHOLD_PCT)
+
+        return (
+          <Card key={participant.identity} className="bg-black/80 backdrop-blur-sm border-white/20 p-4">
+            <div className="flex items-center gap-2 mb-4">
+              <Activity className="h-4 w-4 text-primary" />
+              <h4 className="text-base font-semibold text-white">{participantName}</h4>
+              {gait && (
+                <span className="ml-auto text-xs text-white/60">
+                  {gait.strideCount} strides{!gait.calibrated && " · not calibrated"}
+                </span>
+              )}
+            </div>
+
+            {!lastStride || !recent ? (
+              <div className="text-center py-6">
+                <p className="text-sm text-white/60">Waiting for the first full stride</p>
+                <p className="text-xs text-white/40 mt-1">Keep the runner side-on with both feet in frame</p>
+              </div>
+            ) : (
+            <>
+
+            {/* Recent strides */}
+            <div className="mb-4 space-y-3">
+              <h5 className="text-sm font-medium text-white/80 mb-2 flex items-center gap-2">
+                Last {recent.strideCount} strides
+              </h5>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="bg-white/5 rounded-lg p-3">
+                  <div className="text-white/60 text-xs mb-1">Cadence</div>
+                  <div className="text-white font-bold text-lg">{formatNumber(recent.cadenceSpm)} spm</div>
+                </div>
+                <div className="bg-white/5 rounded-lg p-3">
+                  <div className="text-white/60 text-xs mb-1">Stride Length</div>
+                  <div className="text-white font-bold text-lg">{formatNumber(recent.strideLengthCm)} cm</div>
+                  {recent.speedKmh !== null && (
+                    <div className="text-xs text-white/40 mt-1">~{formatNumber(recent.speedKmh, 1)} km/h</div>
+                  )}
+                </div>
+                <div className="bg-white/5 rounded-lg p-3">
+                  <div className="text-white/60 text-xs mb-1">Ground Contact (L / R)</div>
+                  <div className="text-white font-bold text-sm">{formatSides(recent.groundContactMs, "ms")}</div>
+                  <div className="text-xs text-white/40 mt-1">Estimated from the ankles</div>
+                </div>
+                <div className="bg-white/5 rounded-lg p-3">
+                  <div className="text-white/60 text-xs mb-1">Overstride</div>
+                  <div className="text-white font-bold text-lg">{formatNumber(recent.overstrideCm)} cm</div>
+                  <div className="text-xs text-white/40 mt-1">Foot ahead of the hips at strike</div>
+                </div>
+                <div className="bg-white/5 rounded-lg p-3">
+                  <div className="text-white/60 text-xs mb-1">Vertical Oscillation</div>
+                  <div className="text-white font-bold text-lg">{formatNumber(recent.verticalOscillationCm, 1)} cm</div>
+                </div>
+                <div className="bg-white/5 rounded-lg p-3">
+                  <div className="text-white/60 text-xs mb-1">Trunk Lean</div>
+                  <div className="text-white font-bold text-lg">{formatNumber(recent.trunkLeanDeg)}°</div>
+                  <div className="text-xs text-white/40 mt-1">Forward of vertical</div>
+                </div>
+              </div>
+            </div>
+
+            {/* Left / right asymmetry */}
+            <div className="mb-4 space-y-3">
+              <h5 className="text-sm font-medium text-white/80 mb-2">Left / Right Asymmetry</h5>
+              <div className="grid grid-cols-3 gap-3 text-xs">
+                {asymmetries.map(asymmetry => (
+                  <div key={asymmetry.label} className="bg-white/5 rounded p-2">
+                    <div className="text-white/60 mb-1">{asymmetry.label}</div>
+                    <div className={`font-bold text-sm ${getAsymmetryColor(asymmetry.value)}`}>{formatNumber(asymmetry.value, 1)}%</div>
+                  </div>
+                ))}
+              </div>
+              {flagged.length > 0 ? (
+                <div className="flex items-start gap-2 rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-xs text-red-300">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  <div>Asymmetric gait: {flagged.map(a => a.label.toLowerCase()).join(", ")} differ by {GAIT_ASYMMETRY_THRESHOLD_PCT}% or more between sides</div>
+                </div>
+              ) : (
+                <div className="text-xs text-white/40 italic">Symmetric gait</div>
+              )}
+            </div>
+
+            {/* Last stride */}
+            <div className="space-y-1">
+              <h5 className="text-sm font-medium text-white/80 mb-2 flex items-center gap-2">
+                Last stride
+                <span className="text-xs text-white/40">#{lastStride.strideIndex}</span>
+              </h5>
+              <div className="flex items-center justify-between text-xs text-white/60">
+                <span>Stride time</span>
+                <span>{lastStride.strideTimeMs} ms · {lastStride.cadenceSpm} spm</span>
+              </div>
+              <div className="flex items-center justify-between text-xs text-white/60">
+                <span>Step time (L / R)</span>
+                <span>{formatSides(lastStride.stepTimeMs, "ms")}</span>
+              </div>
+              <div className="flex items-center justify-between text-xs text-white/60">
+                <span>Ground contact (L / R)</span>
+                <span>{formatSides(lastStride.groundContactMs, "ms")}</span>
+              </div>
+              <div className="flex items-center justify-between text-xs text-white/60">
+                <span>Overstride (L / R)</span>
+                <span>{formatSides(lastStride.overstrideCm, "cm")}</span>
+              </div>
+            </div>
+            </>
+            )}
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Footprints } from "lucide-react"
+import type { GaitRecord } from "@/lib/gait-analysis"
+
+interface GaitTrendProps {
+  subjectId: string
+}
+
+interface GaitSession {
+  sessionId: string
+  date: string
+  gait: GaitRecord
+}
+
+type GaitValueKey = Exclude<keyof GaitRecord, "calibrated" | "stride_count">
+
+// Each chart plots one or more fields of the per-session gait record
+const GAIT_CHARTS: Record<string, { label: string; unit: string; lines: Array<{ key: GaitValueKey; name: string }> }> = {
+  cadence: { label: "Cadence", unit: " spm", lines: [{ key: "cadence_spm", name: "Cadence" }] },
+  contact: {
+    label: "Ground contact",
+    unit: " ms",
+    lines: [
+      { key: "left_ground_contact_ms", name: "Left" },
+      { key: "right_ground_contact_ms", name: "Right" },
+    ],
+  },
+  stride: { label: "Stride length", unit: " cm", lines: [{ key: "stride_length_cm", name: "Stride length" }] },
+  overstride: { label: "Overstride", unit: " cm", lines: [{ key: "overstride_cm", name: "Overstride" }] },
+  oscillation: { label: "Vertical oscillation", unit: " cm", lines: [{ key: "vertical_oscillation_cm", name: "Vertical oscillation" }] },
+  lean: { label: "Trunk lean", unit: "°", lines: [{ key: "trunk_lean_deg", name: "Trunk lean" }] },
+  asymmetry: {
+    label: "Left/right asymmetry",
+    unit: "%",
+    lines: [
+      { key: "step_time_asymmetry_pct", name: "Step time" },
+      { key: "ground_contact_asymmetry_pct", name: "Ground contact" },
+      { key: "overstride_asymmetry_pct", name: "Overstride" },
+    ],
+  },
+}
+
+const LINE_COLORS = ["#22d3ee", "#f472b6", "#a3e635"]
+
+// Gait mechanics session over session, from the insights of the client's running / walking captures
+export function GaitTrend({ subjectId }: GaitTrendProps) {
+  const [sessions, setSessions] = useState<GaitSession[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [chart, setChart] = useState("cadence")
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    fetch(`/api/subjects/${subjectId}/gait`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (!cancelled) setSessions(data?.sessions || [])
+      })
+      .catch(error => console.error("[Gait Trend] Error loading gait sessions:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [subjectId])
+
+  const selected = GAIT_CHARTS[chart]
+  const chartData = sessions.map(session => ({
+    date: new Date(session.date).toLocaleDateString("en-US", { month: "short", day: "numeric" }),
+    ...Object.fromEntries(selected.lines.map(line => [line.key, session.gait[line.key] ?? null])),
+  }))
+  const hasData = chartData.some(point => selected.lines.some(line => point[line.key as keyof typeof point] !== null))
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Footprints className="h-4 w-4 text-primary" />
+          Gait & Running Mechanics
+        </h3>
+        <Select value={chart} onValueChange={setChart}>
+          <SelectTrigger className="w-48 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(GAIT_CHARTS).map(([key, option]) => (
+              <SelectItem key={key} value={key}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading gait sessions...</p>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No gait data yet - analyze a side-on running or walking session (live or uploaded video) and generate its insights.
+        </p>
+      ) : (
+        <>
+          <div className="h-64">
+            {hasData ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" opacity={0.2} />
+                  <XAxis dataKey="date" />
+                  <YAxis unit={selected.unit} width={64} />
+                  <Tooltip formatter={(value: number) => `${value}${selected.unit}`} />
+                  {selected.lines.length > 1 && <Legend />}
+                  {selected.lines.map((line, i) => (
+                    <Line
+                      key={line.key}
+                      type="monotone"
+                      dataKey={line.key}
+                      name={line.name}
+                      stroke={LINE_COLORS[i % LINE_COLORS.length]}
+                      connectNulls
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {selected.label} needs a calibrated session - calibrate the athlete's height in Live Metrics.
+              </p>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {sessions.length} session{sessions.length === 1 ? "" : "s"} · {sessions.reduce((sum, s) => sum + s.gait.stride_count, 0)} strides analyzed
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
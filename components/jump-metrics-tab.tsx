@@ -0,0 +1,234 @@
+"use client"
+
+import { Card } from "@/components/ui/card"
+import { Activity, AlertTriangle } from "lucide-react"
+import { useRealtimeMetrics } from "@/lib/realtime-metrics-context"
+import { summarizeJumps, type JumpResult, type JumpType, type LandingAsymmetry } from "@/lib/jump-analysis"
+
+interface JumpMetricsTabProps {
+  participants: Array<{ identity: string; name: string }>
+  participantInfo: Record<string, { fullName?: string }>
+  sessionType?: string | null
+  subjectId?: string | null
+}
+
+const JUMP_TYPE_LABELS: Record<JumpType, string> = {
+  countermovement: "Countermovement jump",
+  drop_landing: "Drop landing",
+  rebound: "Rebound jump",
+}
+
+const ASYMMETRY_LABELS: Record<LandingAsymmetry, string> = {
+  uneven_touchdown: "One foot landed first",
+  knee_flexion: "Uneven knee bend",
+  knee_valgus: "Uneven knee valgus",
+}
+
+const PHASE_LABELS = {
+  grounded: "on the ground",
+  flight: "in the air",
+  landing: "landing",
+}
+
+const RECENT_JUMPS_SHOWN = 5
+
+export function JumpMetricsTab({ participants, participantInfo, sessionType, subjectId }: JumpMetricsTabProps) {
+  // Live phase and detected jumps come from the pose pipeline (AIInsightsPanel) via context
+  const { realtimeData, jumps } = useRealtimeMetrics()
+
+  const formatNumber = (value: number | null, decimals: number = 0) => {
+    return value === null ? "—" : value.toFixed(decimals)
+  }
+
+  // Left / right pair, e.g. "42° / 38°"
+  const formatSides = (pair: { left: number | null; right: number | null }, unit: string = "°") => {
+    return `${formatNumber(pair.left)}${unit} / ${formatNumber(pair.right)}${unit}`
+  }
+
+  const getValgusColor = (value: number | null) => {
+    if (value === null) return "text-white"
+    return value < 5 ? "text-green-400" : value < 10 ? "text-yellow-400" : "text-red-400"
+  }
+
+  // Flight-time height is always available; hip displacement needs a calibration
+  const heightOf = (jump: JumpResult) => jump.displacementHeightCm ?? jump.jumpHeightCm
+
+  // Determine which participants to show
+  const isMocapSession = sessionType === 'mocap'
+  const displayParticipants = isMocapSession && subjectId
+    ? [{ identity: subjectId, name: participantInfo[subjectId]?.fullName || 'Athlete' }]
+    : participants
+
+  if (displayParticipants.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center p-8">
+        <div className="text-center">
+          <Activity className="h-8 w-8 text-white/40 mx-auto mb-3" />
+          <p className="text-sm text-white/60">No metrics available yet</p>
+          {isMocapSession && (
+            <p className="text-xs text-white/40 mt-2">Point camera at athlete to start analysis</p>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-white mb-1">Jump & Landing Metrics</h3>
+        <p className="text-sm text-white/60">Countermovement and drop jumps - flight time, height and landing mechanics</p>
+        <p className="text-xs text-white/40 mt-1">Jumps are detected automatically - calibrate in Live Metrics for heights in cm from hip displacement</p>
+      </div>
+
+      {displayParticipants.map((participant) => {
+        const participantJumps = jumps[participant.identity] || []
+        const lastJump = participantJumps[participantJumps.length - 1]
+        const summary = summarizeJumps(participantJumps)
+        const live = realtimeData[participant.identity]?.jump
+        const participantName = participantInfo[participant.identity]?.fullName || participant.name || participant.identity
+
+        return (
+          <Card key={participant.identity} className="bg-black/80 backdrop-blur-sm border-white/20 p-4">
+            <div className="flex items-center gap-2 mb-4">
+              <Activity className="h-4 w-4 text-primary" />
+              <h4 className="text-base font-semibold text-white">{participantName}</h4>
+              {live && (
+                <span className={`ml-auto text-xs ${live.phase === "flight" ? "text-yellow-400" : "text-white/60"}`}>
+                  {PHASE_LABELS[live.phase]}{!live.calibrated && " · not calibrated"}
+                </span>
+              )}
+            </div>
+
+            {!lastJump ? (
+              <div className="text-center py-6">
+                <p className="text-sm text-white/60">Waiting for the first jump</p>
+                <p className="text-xs text-white/40 mt-1">Keep the athlete's whole body in frame, feet included, facing the camera</p>
+              </div>
+            ) : (
+            <>
+
+            {/* Last jump */}
+            <div className="mb-4 space-y-3">
+              <h5 className="text-sm font-medium text-white/80 mb-2 flex items-center gap-2">
+                {JUMP_TYPE_LABELS[lastJump.type]}
+                <span className="text-xs text-white/40">#{lastJump.jumpIndex}</span>
+              </h5>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="bg-white/5 rounded-lg p-3">
+                  <div className="text-white/60 text-xs mb-1">{lastJump.type === "drop_landing" ? "Drop Height" : "Jump Height"}</div>
+                  <div className="text-white font-bold text-lg">
+                    {formatNumber(lastJump.type === "drop_landing" ? lastJump.dropHeightCm : heightOf(lastJump), 1)} cm
+                  </div>
+                  {lastJump.displacementHeightCm !== null && lastJump.jumpHeightCm !== null && (
+                    <div className="text-xs text-white/40 mt-1">Flight-time estimate {formatNumber(lastJump.jumpHeightCm, 1)} cm</div>
+                  )}
+                </div>
+                <div className="bg-white/5 rounded-lg p-3">
+                  <div className="text-white/60 text-xs mb-1">Flight Time</div>
+                  <div className="text-white font-bold text-lg">{lastJump.flightTimeMs} ms</div>
+                </div>
+                {lastJump.type === "rebound" && (
+                  <>
+                    <div className="bg-white/5 rounded-lg p-3">
+                      <div className="text-white/60 text-xs mb-1">Ground Contact</div>
+                      <div className="text-white font-bold text-lg">{formatNumber(lastJump.groundContactMs)} ms</div>
+                    </div>
+                    <div className="bg-white/5 rounded-lg p-3">
+                      <div className="text-white/60 text-xs mb-1">Reactive Strength Index</div>
+                      <div className="text-white font-bold text-lg">{formatNumber(lastJump.reactiveStrengthIndex, 2)}</div>
+                    </div>
+                  </>
+                )}
+                {lastJump.type === "countermovement" && (
+                  <div className="bg-white/5 rounded-lg p-3">
+                    <div className="text-white/60 text-xs mb-1">Countermovement Depth</div>
+                    <div className="text-white font-bold text-lg">{formatNumber(lastJump.countermovementDepth)}° knee flexion</div>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Landing mechanics */}
+            <div className="mb-4 space-y-3">
+              <h5 className="text-sm font-medium text-white/80 mb-2 flex items-center gap-2">
+                Landing
+                <span className="text-xs text-white/40">(left / right)</span>
+              </h5>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="bg-white/5 rounded-lg p-3">
+                  <div className="text-white/60 text-xs mb-1">Knee Flexion at Impact</div>
+                  <div className="text-white font-bold text-sm">{formatSides(lastJump.landing.kneeFlexionAtImpact)}</div>
+                  <div className="text-xs text-white/40 mt-1">Peak {formatSides(lastJump.landing.peakKneeFlexion)}</div>
+                </div>
+                <div className="bg-white/5 rounded-lg p-3">
+                  <div className="text-white/60 text-xs mb-1">Hip Flexion at Impact</div>
+                  <div className="text-white font-bold text-sm">{formatSides(lastJump.landing.hipFlexionAtImpact)}</div>
+                </div>
+                <div className="bg-white/5 rounded-lg p-3 col-span-2">
+                  <div className="text-white/60 text-xs mb-1">Peak Knee Valgus</div>
+                  <div className="font-bold text-sm">
+                    <span className={getValgusColor(lastJump.landing.peakKneeValgus.left)}>{formatNumber(lastJump.landing.peakKneeValgus.left)}°</span>
+                    <span className="text-white/40"> / </span>
+                    <span className={getValgusColor(lastJump.landing.peakKneeValgus.right)}>{formatNumber(lastJump.landing.peakKneeValgus.right)}°</span>
+                  </div>
+                  <div className="text-xs text-white/40 mt-1">At impact {formatSides(lastJump.landing.kneeValgusAtImpact)} · needs a front-on camera</div>
+                </div>
+              </div>
+              {lastJump.landing.asymmetries.length > 0 ? (
+                <div className="flex items-start gap-2 rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-xs text-red-300">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  <div>
+                    Asymmetric landing: {lastJump.landing.asymmetries.map(a => ASYMMETRY_LABELS[a]).join(", ")}
+                    {lastJump.landing.touchdownDifferenceMs !== null && lastJump.landing.asymmetries.includes("uneven_touchdown") && (
+                      <span className="text-red-300/70">
+                        {" "}({lastJump.landing.touchdownDifferenceMs < 0 ? "left" : "right"} foot {Math.abs(lastJump.landing.touchdownDifferenceMs)} ms earlier)
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ) : (
+                <div className="text-xs text-white/40 italic">Symmetric landing</div>
+              )}
+            </div>
+
+            {/* Session summary */}
+            <div className="mb-4 space-y-3">
+              <h5 className="text-sm font-medium text-white/80 mb-2">This Session</h5>
+              <div className="grid grid-cols-3 gap-3 text-xs">
+                <div className="bg-white/5 rounded p-2">
+                  <div className="text-white/60 mb-1">Best Height</div>
+                  <div className="text-white font-bold text-sm">{formatNumber(summary.bestHeightCm, 1)} cm</div>
+                </div>
+                <div className="bg-white/5 rounded p-2">
+                  <div className="text-white/60 mb-1">Average Height</div>
+                  <div className="text-white font-bold text-sm">{formatNumber(summary.averageHeightCm, 1)} cm</div>
+                </div>
+                <div className="bg-white/5 rounded p-2">
+                  <div className="text-white/60 mb-1">Asymmetric Landings</div>
+                  <div className={`font-bold text-sm ${summary.asymmetricLandings > 0 ? "text-red-400" : "text-green-400"}`}>
+                    {summary.asymmetricLandings}/{summary.jumpCount}
+                  </div>
+                </div>
+              </div>
+              <div className="space-y-1">
+                {participantJumps.slice(-RECENT_JUMPS_SHOWN).reverse().map(jump => (
+                  <div key={jump.jumpIndex} className="flex items-center justify-between text-xs text-white/60">
+                    <span>#{jump.jumpIndex} {JUMP_TYPE_LABELS[jump.type]}</span>
+                    <span>
+                      {jump.type === "drop_landing" ? `${formatNumber(jump.dropHeightCm, 1)} cm drop` : `${formatNumber(heightOf(jump), 1)} cm`}
+                      {" · "}{jump.flightTimeMs} ms
+                      {jump.landing.asymmetries.length > 0 && <span className="text-red-400"> · asymmetric</span>}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+            </>
+            )}
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
@@ -5,15 +5,24 @@ import { Activity, AlertCircle } from "lucide-react"
 import type { BiomechanicalAngles, BiomechanicalMetrics } from "@/lib/pose-detection"
 import { useRealtimeMetrics } from "@/lib/realtime-metrics-context"
 import { useEffect, useRef, useState } from "react"
+import { TrackedPeoplePanel } from "./tracked-people-panel"
+import { RepMetricsSummary } from "./rep-metrics-summary"
+import { CalibrationControl } from "./calibration-control"
+import { ExerciseTemplateControl } from "./exercise-template-control"
+import { RomAssessmentControl } from "./rom-assessment-control"
+import { FatigueSummary } from "./fatigue-alert"
 
 interface LiveMetricsTabProps {
   participants: Array<{ identity: string; name: string }>
   participantInfo: Record<string, { fullName?: string }>
   sessionType?: string | null
   subjectId?: string | null
+  subjects?: Array<{ id: string; name: string }> // Session subjects a tracked person can be pinned to
+  sessionId?: string | null
+  isCoach?: boolean // Coaches run ROM assessments, subjects see the prompts
 }
 
-export function LiveMetricsTab({ participants, participantInfo, sessionType, subjectId }: LiveMetricsTabProps) {
+export function LiveMetricsTab({ participants, participantInfo, sessionType, subjectId, subjects = [], sessionId, isCoach = false }: LiveMetricsTabProps) {
   const { realtimeData } = useRealtimeMetrics()
   const [displayData, setDisplayData] = useState(realtimeData)
   const latestDataRef = useRef(realtimeData)
@@ -71,6 +80,12 @@ export function LiveMetricsTab({ participants, participantInfo, sessionType, sub
     return `${Math.round(score)}`
   }
 
+  // Detection confidence for an angle (from the smoothed keypoints it was built from)
+  const formatConfidence = (confidence?: number) => {
+    if (confidence === undefined) return null
+    return <span className="text-white/40"> · {Math.round(confidence * 100)}%</span>
+  }
+
   // For mocap sessions: check for metrics using subjectId instead of participant identity
   // Coach is in session pointing camera at athlete, so metrics are stored under subjectId
   const isMocapSession = sessionType === 'mocap'
@@ -105,8 +120,21 @@ export function LiveMetricsTab({ participants, participantInfo, sessionType, sub
         return hasMetrics
       })
   
+  // Subjects pinned to a tracked person in someone's video have metrics stored under their subject ID
+  subjects.forEach(subject => {
+    const alreadyListed = participantsWithMetrics.some(p => p.identity === subject.id)
+    if (!alreadyListed && (displayData[subject.id]?.angles || displayData[subject.id]?.metrics)) {
+      participantsWithMetrics.push({ identity: subject.id, name: subject.name })
+    }
+  })
+  
   console.log(`[Live Metrics Tab] 📊 Participants with metrics: ${participantsWithMetrics.length}`, participantsWithMetrics.map(p => p.identity))
 
+  const sourceNames = participants.reduce((acc, p) => {
+    acc[p.identity] = participantInfo[p.identity]?.fullName || p.name || p.identity
+    return acc
+  }, {} as Record<string, string>)
+
   // Show empty state if no metrics available (no waiting box)
   if (participantsWithMetrics.length === 0) {
     return (
@@ -129,10 +157,13 @@ export function LiveMetricsTab({ participants, participantInfo, sessionType, sub
         <p className="text-sm text-white/60">Real-time biomechanical analysis for all participants</p>
       </div>
 
+      <TrackedPeoplePanel subjects={subjects} sourceNames={sourceNames} />
+
       {participantsWithMetrics.map((participant) => {
         const data = displayData[participant.identity]
         const angles = data?.angles || null
         const metrics = data?.metrics || null
+        const confidence = data?.angleConfidence
         const participantName = participantInfo[participant.identity]?.fullName || participant.name || participant.identity
 
         return (
@@ -140,8 +171,20 @@ export function LiveMetricsTab({ participants, participantInfo, sessionType, sub
             <div className="flex items-center gap-2 mb-4">
               <Activity className="h-4 w-4 text-primary" />
               <h4 className="text-base font-semibold text-white">{participantName}</h4>
+              {data?.trackId !== undefined && (
+                <span className="text-xs text-white/40 ml-auto">Person #{data.trackId}</span>
+              )}
             </div>
 
+            {/* Calibration (cm scale) and balance relative to the base of support */}
+            <CalibrationControl participantId={participant.identity} balance={data?.balance} />
+
+            {/* Exercise whose reference template the reps are scored against */}
+            <ExerciseTemplateControl participantId={participant.identity} templateMatch={data?.templateMatch} />
+
+            {/* Scripted range-of-motion tests compared to normative ranges */}
+            <RomAssessmentControl participantId={participant.identity} sessionId={sessionId} isCoach={isCoach} />
+
             {/* Scores */}
             {metrics && (
               <div className="mb-4 space-y-3">
@@ -168,6 +211,20 @@ export function LiveMetricsTab({ participants, participantInfo, sessionType, sub
               </div>
             )}
 
+            {/* Reps */}
+            {data?.reps && (
+              <div className="mb-4">
+                <RepMetricsSummary reps={data.reps} />
+              </div>
+            )}
+
+            {/* Fatigue since tracking started */}
+            {data?.fatigue && data.fatigue.fatigueIndex !== null && (
+              <div className="mb-4">
+                <FatigueSummary fatigue={data.fatigue} />
+              </div>
+            )}
+
             {/* Angles */}
             {angles && (
               <div className="space-y-3">
@@ -175,52 +232,79 @@ export function LiveMetricsTab({ participants, participantInfo, sessionType, sub
                 
                 <div className="grid grid-cols-2 gap-3">
                   <div className="bg-white/5 rounded-lg p-3">
-                    <div className="text-white/60 text-xs mb-1">Left Knee</div>
+                    <div className="text-white/60 text-xs mb-1">Left Knee{formatConfidence(confidence?.leftKnee)}</div>
                     <div className="text-white font-semibold">{formatAngle(angles.leftKnee)}</div>
                   </div>
                   <div className="bg-white/5 rounded-lg p-3">
-                    <div className="text-white/60 text-xs mb-1">Right Knee</div>
+                    <div className="text-white/60 text-xs mb-1">Right Knee{formatConfidence(confidence?.rightKnee)}</div>
                     <div className="text-white font-semibold">{formatAngle(angles.rightKnee)}</div>
                   </div>
                   
                   <div className="bg-white/5 rounded-lg p-3">
-                    <div className="text-white/60 text-xs mb-1">Left Hip</div>
+                    <div className="text-white/60 text-xs mb-1">Left Hip{formatConfidence(confidence?.leftHip)}</div>
                     <div className="text-white font-semibold">{formatAngle(angles.leftHip)}</div>
                   </div>
                   <div className="bg-white/5 rounded-lg p-3">
-                    <div className="text-white/60 text-xs mb-1">Right Hip</div>
+                    <div className="text-white/60 text-xs mb-1">Right Hip{formatConfidence(confidence?.rightHip)}</div>
                     <div className="text-white font-semibold">{formatAngle(angles.rightHip)}</div>
                   </div>
                   
                   <div className="bg-white/5 rounded-lg p-3">
-                    <div className="text-white/60 text-xs mb-1">Left Shoulder</div>
+                    <div className="text-white/60 text-xs mb-1">Left Shoulder{formatConfidence(confidence?.leftShoulder)}</div>
                     <div className="text-white font-semibold">{formatAngle(angles.leftShoulder)}</div>
                   </div>
                   <div className="bg-white/5 rounded-lg p-3">
-                    <div className="text-white/60 text-xs mb-1">Right Shoulder</div>
+                    <div className="text-white/60 text-xs mb-1">Right Shoulder{formatConfidence(confidence?.rightShoulder)}</div>
                     <div className="text-white font-semibold">{formatAngle(angles.rightShoulder)}</div>
                   </div>
                   
                   <div className="bg-white/5 rounded-lg p-3">
-                    <div className="text-white/60 text-xs mb-1">Left Elbow</div>
+                    <div className="text-white/60 text-xs mb-1">Left Elbow{formatConfidence(confidence?.leftElbow)}</div>
                     <div className="text-white font-semibold">{formatAngle(angles.leftElbow)}</div>
                   </div>
                   <div className="bg-white/5 rounded-lg p-3">
-                    <div className="text-white/60 text-xs mb-1">Right Elbow</div>
+                    <div className="text-white/60 text-xs mb-1">Right Elbow{formatConfidence(confidence?.rightElbow)}</div>
                     <div className="text-white font-semibold">{formatAngle(angles.rightElbow)}</div>
                   </div>
                 </div>
 
                 <div className="grid grid-cols-2 gap-3 mt-3">
                   <div className="bg-white/5 rounded-lg p-3">
-                    <div className="text-white/60 text-xs mb-1">Spine Lean</div>
+                    <div className="text-white/60 text-xs mb-1">Spine Lean{formatConfidence(confidence?.spineLean)}</div>
                     <div className="text-white font-semibold">{formatAngle(angles.spineLean)}</div>
                   </div>
                   <div className="bg-white/5 rounded-lg p-3">
-                    <div className="text-white/60 text-xs mb-1">Neck Flexion</div>
+                    <div className="text-white/60 text-xs mb-1">Neck Flexion{formatConfidence(confidence?.neckFlexion)}</div>
                     <div className="text-white font-semibold">{formatAngle(angles.neckFlexion)}</div>
                   </div>
                 </div>
+
+                <div className="grid grid-cols-2 gap-3 mt-3">
+                  <div className="bg-white/5 rounded-lg p-3">
+                    <div className="text-white/60 text-xs mb-1">Left Ankle DF{formatConfidence(confidence?.leftAnkleDorsiflexion)}</div>
+                    <div className="text-white font-semibold">{formatAngle(angles.leftAnkleDorsiflexion)}</div>
+                  </div>
+                  <div className="bg-white/5 rounded-lg p-3">
+                    <div className="text-white/60 text-xs mb-1">Right Ankle DF{formatConfidence(confidence?.rightAnkleDorsiflexion)}</div>
+                    <div className="text-white font-semibold">{formatAngle(angles.rightAnkleDorsiflexion)}</div>
+                  </div>
+                  <div className="bg-white/5 rounded-lg p-3">
+                    <div className="text-white/60 text-xs mb-1">Left Knee Valgus{formatConfidence(confidence?.leftKneeValgus)}</div>
+                    <div className="text-white font-semibold">{formatAngle(angles.leftKneeValgus)}</div>
+                  </div>
+                  <div className="bg-white/5 rounded-lg p-3">
+                    <div className="text-white/60 text-xs mb-1">Right Knee Valgus{formatConfidence(confidence?.rightKneeValgus)}</div>
+                    <div className="text-white font-semibold">{formatAngle(angles.rightKneeValgus)}</div>
+                  </div>
+                  <div className="bg-white/5 rounded-lg p-3">
+                    <div className="text-white/60 text-xs mb-1">Pelvic Obliquity{formatConfidence(confidence?.pelvicObliquity)}</div>
+                    <div className="text-white font-semibold">{formatAngle(angles.pelvicObliquity)}</div>
+                  </div>
+                  <div className="bg-white/5 rounded-lg p-3">
+                    <div className="text-white/60 text-xs mb-1">Trunk Rotation{formatConfidence(confidence?.trunkRotation)}</div>
+                    <div className="text-white font-semibold">{formatAngle(angles.trunkRotation)}</div>
+                  </div>
+                </div>
               </div>
             )}
           </Card>
@@ -31,10 +31,15 @@ import MetricsDashboard from "./metrics-dashboard"
 import { useV2 } from "@/lib/v2-context"
 import { AIInsightsPanel } from "./ai-insights-panel"
 import { ChatPanel } from "./chat-panel"
-import { CustomVideoControls } from "./custom-video-controls"
+import { PoseOverlayMenu } from "./custom-video-controls"
+import { PoseOverlay } from "./pose-overlay"
 import { RealtimeMetricsProvider, useRealtimeMetrics } from "@/lib/realtime-metrics-context"
+import { FatigueAlerts } from "./fatigue-alert"
 import { LiveMetricsTab } from "./live-metrics-tab"
 import { BaseballMetricsTab } from "./baseball-metrics-tab"
+import { JumpMetricsTab } from "./jump-metrics-tab"
+import { GaitMetricsTab } from "./gait-metrics-tab"
+import { MovementScreenTab } from "./movement-screen-tab"
 import { BaseballInsightsPanel } from "./baseball-insights-panel"
 import { BaseballChatPanel } from "./baseball-chat-panel"
 
@@ -46,9 +51,10 @@ interface LiveKitVideoSessionProps {
   sessionOwnerId?: string | null
   sessionType?: string | null // "single" or "group"
   sessionId?: string | null
+  poseBackend?: string | null // Pose model chosen when scheduling (session-type default when absent)
 }
 
-export default function LiveKitVideoSession({ roomName, sessionTitle, sessionOwnerId, sessionType, sessionId }: LiveKitVideoSessionProps) {
+export default function LiveKitVideoSession({ roomName, sessionTitle, sessionOwnerId, sessionType, sessionId, poseBackend }: LiveKitVideoSessionProps) {
   const { data: session } = useSession()
   const [token, setToken] = useState<string | null>(null)
   const [isConnecting, setIsConnecting] = useState(true)
@@ -208,6 +214,7 @@ export default function LiveKitVideoSession({ roomName, sessionTitle, sessionOwn
           sessionType={sessionType}
           sessionId={sessionId}
           sessionTitle={sessionTitle}
+          poseBackend={poseBackend}
         />
         <RoomAudioRenderer />
       </LiveKitRoom>
@@ -232,6 +239,7 @@ function RoomContent({
   sessionType,
   sessionId,
   sessionTitle,
+  poseBackend,
 }: {
   isPanelOpen: boolean
   setIsPanelOpen: (open: boolean) => void
@@ -249,6 +257,7 @@ function RoomContent({
   sessionType?: string | null
   sessionId?: string | null
   sessionTitle?: string | null
+  poseBackend?: string | null
 }) {
   const router = useRouter()
   const { realtimeData } = useRealtimeMetrics()
@@ -993,6 +1002,7 @@ function RoomContent({
           {trackRef ? (
             <TrackRefContext.Provider value={trackRef}>
               <VideoTrack trackRef={trackRef} className="w-full h-full rounded-xl" />
+              <PoseOverlay participantId={participant.identity} />
             </TrackRefContext.Provider>
           ) : (
             <div className="w-full h-full flex items-center justify-center bg-gray-900">
@@ -1038,6 +1048,7 @@ function RoomContent({
             {trackRef ? (
               <TrackRefContext.Provider value={trackRef}>
                 <VideoTrack trackRef={trackRef} className="w-full h-full rounded-xl" style={{ width: '100%', height: '100%' }} />
+                <PoseOverlay participantId={participant.identity} />
               </TrackRefContext.Provider>
             ) : (
               <div className="w-full h-full flex items-center justify-center bg-slate-700/50 rounded-xl">
@@ -1521,11 +1532,19 @@ function RoomContent({
           `
         }} />
         <div 
-          className="absolute left-1/2 -translate-x-1/2 z-50"
+          className="absolute left-1/2 -translate-x-1/2 z-50 flex items-center gap-2"
           style={{ 
             bottom: 'calc(3vh + env(safe-area-inset-bottom, 0))'
           }}
         >
+          {/* Skeleton overlay toggles per video tile */}
+          <div className="bg-black/70 backdrop-blur-sm rounded-full p-1.5 border border-white/10">
+            <PoseOverlayMenu
+              tiles={participants
+                .filter(p => getTrackForParticipant(p.identity))
+                .map(p => ({ id: p.identity, name: formatParticipantName(participantInfo[p.identity], p) }))}
+            />
+          </div>
           <ControlBar 
             controls={{
               microphone: true,
@@ -1549,6 +1568,11 @@ function RoomContent({
             <span className="text-[8px] md:text-[10px] font-medium text-white/80">Connected</span>
           </div>
         </div>
+
+        {/* Fatigue threshold alerts raised by the pose pipeline */}
+        <div className="absolute top-24 md:top-28 right-4 md:right-6 w-64 z-20">
+          <FatigueAlerts names={Object.fromEntries(Object.entries(participantInfo).map(([id, info]) => [id, info.fullName]))} />
+        </div>
       </div>
 
       <Button
@@ -1606,9 +1630,20 @@ function RoomContent({
               <TabsTrigger value="chat" className="flex-1 data-[state=active]:bg-background data-[state=active]:text-foreground data-[state=active]:font-semibold">
                 AI Coach Chat
               </TabsTrigger>
+              {sessionType === "screening" && (
+                <TabsTrigger value="movement-screen" className="flex-1 data-[state=active]:bg-background data-[state=active]:text-foreground data-[state=active]:font-semibold">
+                  Movement Screen
+                </TabsTrigger>
+              )}
               <TabsTrigger value="pose-metrics" className="flex-1 data-[state=active]:bg-background data-[state=active]:text-foreground data-[state=active]:font-semibold">
                 Live Metrics
               </TabsTrigger>
+              <TabsTrigger value="jump-metrics" className="flex-1 data-[state=active]:bg-background data-[state=active]:text-foreground data-[state=active]:font-semibold">
+                Jump Metrics
+              </TabsTrigger>
+              <TabsTrigger value="gait-metrics" className="flex-1 data-[state=active]:bg-background data-[state=active]:text-foreground data-[state=active]:font-semibold">
+                Gait Metrics
+              </TabsTrigger>
               <TabsTrigger value="live-metrics" className="flex-1 data-[state=active]:bg-background data-[state=active]:text-foreground data-[state=active]:font-semibold">
                 Baseball Metrics
               </TabsTrigger>
@@ -1626,7 +1661,7 @@ function RoomContent({
               value="metrics"
               className="flex-1 overflow-y-auto scrollbar-hide mt-0 p-0 h-[calc(100vh-120px)]"
             >
-              <MetricsDashboard />
+              <MetricsDashboard subjectId={sessionSubjectId} />
             </TabsContent>
           )}
 
@@ -1815,6 +1850,58 @@ function RoomContent({
               participantInfo={participantInfo}
               sessionType={sessionType}
               subjectId={sessionType === 'mocap' ? sessionSubjectId : null}
+              subjects={expectedParticipants
+                .filter(p => p.id !== sessionOwnerId)
+                .map(p => ({ id: p.id, name: participantInfo[p.id]?.fullName || p.name }))}
+              sessionId={sessionId}
+              isCoach={!!isCoach}
+            />
+          </TabsContent>
+
+          {/* Movement Screen Tab (screening sessions) */}
+          {sessionType === "screening" && (
+            <TabsContent
+              value="movement-screen"
+              className="flex-1 overflow-hidden mt-0 p-0 h-full"
+            >
+              <MovementScreenTab
+                subjectId={sessionSubjectId}
+                participantInfo={participantInfo}
+                sessionId={sessionId}
+                isCoach={!!isCoach}
+              />
+            </TabsContent>
+          )}
+
+          {/* Jump & Landing Tab */}
+          <TabsContent
+            value="jump-metrics"
+            className="flex-1 overflow-hidden mt-0 p-0 h-full"
+          >
+            <JumpMetricsTab
+              participants={participants.map(p => ({
+                identity: p.identity,
+                name: participantInfo[p.identity]?.fullName || p.name || p.identity
+              }))}
+              participantInfo={participantInfo}
+              sessionType={sessionType}
+              subjectId={sessionType === 'mocap' ? sessionSubjectId : null}
+            />
+          </TabsContent>
+
+          {/* Gait & Running Tab */}
+          <TabsContent
+            value="gait-metrics"
+            className="flex-1 overflow-hidden mt-0 p-0 h-full"
+          >
+            <GaitMetricsTab
+              participants={participants.map(p => ({
+                identity: p.identity,
+                name: participantInfo[p.identity]?.fullName || p.name || p.identity
+              }))}
+              participantInfo={participantInfo}
+              sessionType={sessionType}
+              subjectId={sessionType === 'mocap' ? sessionSubjectId : null}
             />
           </TabsContent>
 
@@ -1846,6 +1933,7 @@ function RoomContent({
               sessionOwnerId={sessionOwnerId}
               sessionId={sessionId}
               sessionType={sessionType}
+              poseBackend={poseBackend}
             />
           </div>
           
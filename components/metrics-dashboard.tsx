@@ -35,7 +35,11 @@ const generateMetricValue = (base: number, variance: number) => {
   return Math.max(0, Math.min(100, base + (Math.random() - 0.5) * variance))
 }
 
-export default function MetricsDashboard() {
+interface MetricsDashboardProps {
+  subjectId?: string | null
+}
+
+export default function MetricsDashboard({ subjectId = null }: MetricsDashboardProps = {}) {
   const [phases, setPhases] = useState<Phase[]>([
     {
       id: "warmup",
@@ -329,7 +333,11 @@ export default function MetricsDashboard() {
         </Accordion>
       </div>
 
-      <ProgressReportModal isOpen={isProgressReportOpen} onClose={() => setIsProgressReportOpen(false)} />
+      <ProgressReportModal
+        isOpen={isProgressReportOpen}
+        onClose={() => setIsProgressReportOpen(false)}
+        subjectId={subjectId}
+      />
     </div>
   )
 }
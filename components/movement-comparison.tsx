@@ -0,0 +1,657 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ChevronLeft, ChevronRight, Loader2, Pause, Play, Star } from "lucide-react"
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import type { BiomechanicalAngles } from "@/lib/pose-detection"
+import type { PoseTrackChunkPayload } from "@/lib/dynamodb-pose-tracks"
+import type { CatalogExemplar } from "@/lib/dynamodb-exercise-catalog"
+import { drawPoseOverlay, getVideoContentRect } from "@/lib/pose-overlay"
+import { decodeStoredFrames } from "@/lib/pose-stream"
+import { mergePoseTrackChunks, POSE_TRACK_ANGLE_LABELS, type PoseTrackFrame } from "@/lib/pose-tracks"
+import { compareMovements, trimFrames, type CaptureRef } from "@/lib/movement-comparison"
+
+interface MovementComparisonViewProps {
+  initialA?: CaptureRef | null
+  initialB?: CaptureRef | null
+  referenceExerciseId?: string | null // Compare against this exercise's exemplar
+}
+
+type AngleKey = keyof BiomechanicalAngles
+type Side = "a" | "b"
+type CaptureSource = "session" | "exemplar"
+
+interface SessionOption {
+  session_id: string
+  title: string
+  session_date_time: string
+  subject_id?: string
+  subject_ids?: string[]
+  status?: string
+}
+
+interface ExerciseOption {
+  id: string
+  name: string
+  exemplar?: CatalogExemplar
+}
+
+// One participant's decoded track in a session
+interface ParticipantTrack {
+  name: string
+  aspectRatio: number
+  frames: PoseTrackFrame[]
+}
+
+const SIDE_LABELS: Record<Side, string> = { a: "Capture", b: "Reference" }
+const STEPS_PER_SECOND = 30 // Aligned steps shown per second of playback
+const PLAYBACK_RATES = [0.25, 0.5, 1]
+const MAX_CHART_POINTS = 600
+const DEFAULT_ANGLES: AngleKey[] = ["leftKnee", "rightKnee"]
+const LINE_COLORS = ["#22d3ee", "#f472b6", "#a3e635", "#facc15", "#818cf8", "#fb923c"]
+
+const formatSeconds = (ms: number) => `${(Math.max(0, ms) / 1000).toFixed(1)}s`
+
+const scoreColor = (score: number) =>
+  score >= 80 ? "text-green-500" : score >= 60 ? "text-amber-500" : "text-red-500"
+
+// Load and decode every participant's track in a session (unreadable chunks are skipped, as in the review page).
+// exemplarOf names a catalog exercise whose exemplar was recorded in the session - enough to load that
+// recording when the coach wasn't part of the session.
+async function loadSessionTracks(sessionId: string, exemplarOf?: string): Promise<Record<string, ParticipantTrack>> {
+  const query = exemplarOf ? `?exemplarOf=${encodeURIComponent(exemplarOf)}` : ""
+  const response = await fetch(`/api/sessions/${sessionId}/pose-tracks${query}`)
+  if (!response.ok) {
+    throw new Error("Failed to load pose tracks")
+  }
+  const data = await response.json()
+  const byParticipant = new Map<string, { name: string; aspectRatio: number; chunks: Array<{ frames: PoseTrackFrame[] }> }>()
+  ;((data.chunks || []) as PoseTrackChunkPayload[]).forEach(({ stream, frames, ...chunk }) => {
+    try {
+      const entry = byParticipant.get(chunk.participant_id) || {
+        name: chunk.participant_name || chunk.participant_id,
+        aspectRatio: chunk.aspect_ratio || 16 / 9,
+        chunks: [],
+      }
+      entry.chunks.push({ frames: decodeStoredFrames({ stream, frames }) })
+      byParticipant.set(chunk.participant_id, entry)
+    } catch (error) {
+      console.warn(`[Movement Comparison] ⚠️ Skipping unreadable pose track chunk ${chunk.chunk_id}:`, error)
+    }
+  })
+  return Object.fromEntries(Array.from(byParticipant.entries()).map(([id, entry]) => [
+    id,
+    { name: entry.name, aspectRatio: entry.aspectRatio, frames: mergePoseTrackChunks(entry.chunks) },
+  ]))
+}
+
+const exemplarToCapture = (exemplar: CatalogExemplar): CaptureRef => ({
+  sessionId: exemplar.session_id,
+  participantId: exemplar.participant_id,
+  startMs: exemplar.start_ms,
+  endMs: exemplar.end_ms,
+})
+
+// Skeleton of one side at the current aligned step
+function SkeletonCanvas({ frame, aspectRatio }: { frame?: PoseTrackFrame; aspectRatio: number }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) return
+
+    const dpr = window.devicePixelRatio || 1
+    const width = canvas.clientWidth
+    const height = canvas.clientHeight
+    canvas.width = Math.round(width * dpr)
+    canvas.height = Math.round(height * dpr)
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+    ctx.clearRect(0, 0, width, height)
+    if (!frame) return
+
+    const rect = getVideoContentRect(aspectRatio * 1000, 1000, width, height, "contain")
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.1)"
+    ctx.strokeRect(rect.x, rect.y, rect.width, rect.height)
+    drawPoseOverlay(
+      ctx,
+      {
+        keypoints: frame.keypoints.map(([x, y, visibility]) => ({ x, y, visibility })),
+        angles: frame.angles,
+        faults: frame.faults || [],
+      },
+      (point) => ({ x: rect.x + point.x * rect.width, y: rect.y + point.y * rect.height })
+    )
+  }, [frame, aspectRatio])
+
+  return (
+    <div className="relative w-full bg-black rounded-lg overflow-hidden" style={{ aspectRatio: `${aspectRatio}` }}>
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+    </div>
+  )
+}
+
+// Side-by-side comparison of two recordings: pick them, align them by movement phase, replay and plot the differences
+export function MovementComparisonView({ initialA, initialB, referenceExerciseId }: MovementComparisonViewProps) {
+  const [captures, setCaptures] = useState<Record<Side, CaptureRef | null>>({ a: initialA || null, b: initialB || null })
+  const [sources, setSources] = useState<Record<Side, CaptureSource>>({ a: "session", b: referenceExerciseId ? "exemplar" : "session" })
+  const [subjectFilter, setSubjectFilter] = useState<Record<Side, string>>({ a: "all", b: "all" })
+  const [sessions, setSessions] = useState<SessionOption[]>([])
+  const [subjects, setSubjects] = useState<Array<{ subject_id: string; name: string }>>([])
+  const [exercises, setExercises] = useState<ExerciseOption[]>([])
+  const [tracks, setTracks] = useState<Record<string, Record<string, ParticipantTrack>>>({})
+  const [loadingSessions, setLoadingSessions] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [step, setStep] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [playbackRate, setPlaybackRate] = useState(0.5)
+  const [selectedAngles, setSelectedAngles] = useState<AngleKey[]>(DEFAULT_ANGLES)
+  const [exemplarExerciseId, setExemplarExerciseId] = useState<string>("")
+  const [isSavingExemplar, setIsSavingExemplar] = useState(false)
+  const [exemplarMessage, setExemplarMessage] = useState<string | null>(null)
+
+  // Recordings and exercises to pick from
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [sessionsResponse, subjectsResponse, exercisesResponse] = await Promise.all([
+          fetch("/api/sessions"),
+          fetch("/api/subjects"),
+          fetch("/api/exercise-catalog"),
+        ])
+        if (sessionsResponse.ok) {
+          const data = await sessionsResponse.json()
+          setSessions(
+            ((data.sessions || []) as SessionOption[])
+              .filter(s => s.status === "completed")
+              .sort((x, y) => y.session_date_time.localeCompare(x.session_date_time))
+          )
+        }
+        if (subjectsResponse.ok) {
+          const data = await subjectsResponse.json()
+          setSubjects(data.subjects || [])
+        }
+        if (exercisesResponse.ok) {
+          const data = await exercisesResponse.json()
+          const loadedExercises: ExerciseOption[] = data.exercises || []
+          setExercises(loadedExercises)
+          const reference = loadedExercises.find(e => e.id === referenceExerciseId)?.exemplar
+          if (reference) {
+            setCaptures(current => ({ ...current, b: current.b || exemplarToCapture(reference) }))
+          }
+        }
+      } catch (err) {
+        console.error("[Movement Comparison] Error loading recordings:", err)
+      }
+    }
+    load()
+  }, [referenceExerciseId])
+
+  // Load the tracks of any picked session that isn't loaded yet
+  useEffect(() => {
+    const sessionIds = Array.from(new Set([captures.a?.sessionId, captures.b?.sessionId].filter((id): id is string => !!id)))
+    sessionIds
+      .filter(id => !tracks[id] && !loadingSessions.includes(id))
+      .forEach(id => {
+        setLoadingSessions(current => [...current, id])
+        loadSessionTracks(id, exercises.find(e => e.exemplar?.session_id === id)?.id)
+          .then(loaded => setTracks(current => ({ ...current, [id]: loaded })))
+          .catch(err => {
+            console.error("[Movement Comparison] Error loading pose tracks:", err)
+            setError(err.message || "Failed to load pose tracks")
+            setTracks(current => ({ ...current, [id]: {} })) // Not retried
+          })
+          .finally(() => setLoadingSessions(current => current.filter(s => s !== id)))
+      })
+  }, [captures, tracks, loadingSessions, exercises])
+
+  // A session's first tracked participant is picked until the coach chooses another
+  useEffect(() => {
+    (["a", "b"] as Side[]).forEach(side => {
+      const capture = captures[side]
+      const sessionTracks = capture ? tracks[capture.sessionId] : undefined
+      if (capture && sessionTracks && !sessionTracks[capture.participantId]) {
+        const first = Object.keys(sessionTracks)[0]
+        if (first) setCaptures(current => ({ ...current, [side]: { sessionId: capture.sessionId, participantId: first } }))
+      }
+    })
+  }, [captures, tracks])
+
+  const trackOf = (side: Side): ParticipantTrack | undefined => {
+    const capture = captures[side]
+    return capture ? tracks[capture.sessionId]?.[capture.participantId] : undefined
+  }
+  const trackA = trackOf("a")
+  const trackB = trackOf("b")
+
+  const comparison = useMemo(() => {
+    if (!trackA || !trackB || !captures.a || !captures.b) return null
+    const framesA = trimFrames(trackA.frames, captures.a.startMs, captures.a.endMs)
+    const framesB = trimFrames(trackB.frames, captures.b.startMs, captures.b.endMs)
+    if (framesA.length < 2 || framesB.length < 2) return null
+    return compareMovements(framesA, framesB)
+  }, [trackA, trackB, captures.a, captures.b])
+
+  const pathLength = comparison?.path.length || 0
+
+  useEffect(() => {
+    setIsPlaying(false)
+    setStep(0)
+  }, [comparison])
+
+  // Playback walks the alignment path, so both skeletons stay in the same phase of the movement
+  useEffect(() => {
+    if (!isPlaying || pathLength === 0) return
+    let animationFrame = 0
+    let last = performance.now()
+    let position = step
+    const tick = (now: number) => {
+      position += ((now - last) / 1000) * STEPS_PER_SECOND * playbackRate
+      last = now
+      if (position >= pathLength - 1) {
+        setStep(pathLength - 1)
+        setIsPlaying(false)
+        return
+      }
+      setStep(Math.floor(position))
+      animationFrame = requestAnimationFrame(tick)
+    }
+    animationFrame = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(animationFrame)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isPlaying, playbackRate, pathLength])
+
+  const [indexA, indexB] = comparison?.path[Math.min(step, pathLength - 1)] || [0, 0]
+  const frameA = comparison?.a[indexA]
+  const frameB = comparison?.b[indexB]
+
+  const chartData = useMemo(() => {
+    if (!comparison) return []
+    const stride = Math.max(1, Math.ceil(comparison.path.length / MAX_CHART_POINTS))
+    return comparison.path
+      .map((_, i) => i)
+      .filter(i => i % stride === 0)
+      .map(i => ({
+        step: i,
+        ...Object.fromEntries(comparison.angles.map(d => [d.angle, d.differences[i]])),
+      }))
+  }, [comparison])
+
+  const comparedAngles = comparison?.angles.map(d => d.angle) || []
+
+  const toggleAngle = (angle: AngleKey) => {
+    setSelectedAngles(current =>
+      current.includes(angle) ? current.filter(a => a !== angle) : [...current, angle]
+    )
+  }
+
+  const updateCapture = (side: Side, capture: CaptureRef | null) => {
+    setError(null)
+    setCaptures(current => ({ ...current, [side]: capture }))
+  }
+
+  const saveExemplar = async () => {
+    const capture = captures.a
+    if (!capture || !exemplarExerciseId) return
+    setIsSavingExemplar(true)
+    setExemplarMessage(null)
+    try {
+      const response = await fetch(`/api/exercise-catalog/${exemplarExerciseId}/exemplar`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(capture),
+      })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || "Failed to save exemplar")
+      }
+      const { exemplar, referenceTemplate } = await response.json()
+      setExercises(current => current.map(e => e.id === exemplarExerciseId ? { ...e, exemplar } : e))
+      const exerciseName = exercises.find(e => e.id === exemplarExerciseId)?.name || "the exercise"
+      setExemplarMessage(referenceTemplate
+        ? `Saved as the exemplar for ${exerciseName} - reps are now scored against ${referenceTemplate.repsAnalyzed} reference rep(s)`
+        : `Saved as the exemplar for ${exerciseName}, but no full rep was found, so reps can't be scored against it`)
+      console.log(`[Movement Comparison] ⭐ Saved exemplar for exercise ${exemplarExerciseId}`)
+    } catch (err: any) {
+      console.error("[Movement Comparison] Error saving exemplar:", err)
+      setExemplarMessage(err.message || "Failed to save exemplar")
+    } finally {
+      setIsSavingExemplar(false)
+    }
+  }
+
+  const renderPicker = (side: Side) => {
+    const capture = captures[side]
+    const source = sources[side]
+    const sessionTracks = capture ? tracks[capture.sessionId] : undefined
+    const track = trackOf(side)
+    const isLoading = !!capture && loadingSessions.includes(capture.sessionId)
+    const filteredSessions = subjectFilter[side] === "all"
+      ? sessions
+      : sessions.filter(s => s.subject_id === subjectFilter[side] || s.subject_ids?.includes(subjectFilter[side]))
+    const exemplars = exercises.filter(e => e.exemplar)
+    const trackStart = track?.frames[0]?.timestamp ?? 0
+    const trackEnd = track?.frames[track.frames.length - 1]?.timestamp ?? 0
+    const trimStart = capture?.startMs ?? trackStart
+    const trimEnd = capture?.endMs ?? trackEnd
+
+    return (
+      <Card className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="text-sm font-semibold">{SIDE_LABELS[side]}</h2>
+          <Select
+            value={source}
+            onValueChange={(value) => {
+              setSources(current => ({ ...current, [side]: value as CaptureSource }))
+              updateCapture(side, null)
+            }}
+          >
+            <SelectTrigger className="w-40 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="session">Session recording</SelectItem>
+              <SelectItem value="exemplar">Exercise exemplar</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {source === "session" ? (
+          <div className="grid gap-2 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Client</Label>
+              <Select value={subjectFilter[side]} onValueChange={(value) => setSubjectFilter(current => ({ ...current, [side]: value }))}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All clients</SelectItem>
+                  {subjects.map(s => (
+                    <SelectItem key={s.subject_id} value={s.subject_id}>{s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Session</Label>
+              <Select
+                value={capture?.sessionId}
+                onValueChange={(sessionId) => updateCapture(side, { sessionId, participantId: subjectFilter[side] === "all" ? "" : subjectFilter[side] })}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue placeholder="Pick a session" />
+                </SelectTrigger>
+                <SelectContent>
+                  {filteredSessions.map(s => (
+                    <SelectItem key={s.session_id} value={s.session_id}>
+                      {s.title} · {new Date(s.session_date_time).toLocaleDateString()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-1">
+            <Label className="text-xs">Exercise</Label>
+            <Select
+              value={exemplars.find(e => e.exemplar?.session_id === capture?.sessionId && e.exemplar?.participant_id === capture?.participantId)?.id}
+              onValueChange={(exerciseId) => {
+                const exemplar = exemplars.find(e => e.id === exerciseId)?.exemplar
+                if (exemplar) updateCapture(side, exemplarToCapture(exemplar))
+              }}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue placeholder={exemplars.length > 0 ? "Pick an exercise" : "No exercise has an exemplar yet"} />
+              </SelectTrigger>
+              <SelectContent>
+                {exemplars.map(e => (
+                  <SelectItem key={e.id} value={e.id}>{e.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {isLoading && (
+          <p className="flex items-center text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+            Loading pose track...
+          </p>
+        )}
+        {capture && sessionTracks && Object.keys(sessionTracks).length === 0 && (
+          <p className="text-xs text-muted-foreground">No pose data was recorded for this session.</p>
+        )}
+
+        {capture && sessionTracks && Object.keys(sessionTracks).length > 1 && (
+          <div className="space-y-1">
+            <Label className="text-xs">Participant</Label>
+            <Select value={capture.participantId} onValueChange={(participantId) => updateCapture(side, { sessionId: capture.sessionId, participantId })}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(sessionTracks).map(([id, t]) => (
+                  <SelectItem key={id} value={id}>{t.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {capture && track && trackEnd > trackStart && (
+          <div className="space-y-1">
+            <Label className="text-xs">
+              Trim {formatSeconds(trimStart - trackStart)} – {formatSeconds(trimEnd - trackStart)} of {formatSeconds(trackEnd - trackStart)}
+            </Label>
+            <input
+              type="range"
+              min={trackStart}
+              max={trackEnd}
+              step={100}
+              value={trimStart}
+              onChange={(e) => updateCapture(side, { ...capture, startMs: Math.min(Number(e.target.value), trimEnd - 1000) })}
+              className="w-full accent-primary"
+            />
+            <input
+              type="range"
+              min={trackStart}
+              max={trackEnd}
+              step={100}
+              value={trimEnd}
+              onChange={(e) => updateCapture(side, { ...capture, endMs: Math.max(Number(e.target.value), trimStart + 1000) })}
+              className="w-full accent-primary"
+            />
+          </div>
+        )}
+      </Card>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-6xl mx-auto space-y-4">
+        <div>
+          <a href="/" className="text-sm text-muted-foreground hover:underline">← Schedule</a>
+          <h1 className="text-2xl font-semibold">Compare Movement</h1>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          {renderPicker("a")}
+          {renderPicker("b")}
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {trackA && trackB && !comparison && (
+          <Card className="p-6 text-center text-sm text-muted-foreground">
+            These recordings have no measured joint angles in common, so they can't be compared.
+          </Card>
+        )}
+
+        {comparison && (
+          <>
+            <Card className="p-4 space-y-3">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">{SIDE_LABELS.a} · {trackA?.name}</p>
+                  <SkeletonCanvas frame={frameA} aspectRatio={trackA?.aspectRatio || 16 / 9} />
+                </div>
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">{SIDE_LABELS.b} · {trackB?.name}</p>
+                  <SkeletonCanvas frame={frameB} aspectRatio={trackB?.aspectRatio || 16 / 9} />
+                </div>
+              </div>
+
+              <input
+                type="range"
+                min={0}
+                max={pathLength - 1}
+                step={1}
+                value={step}
+                onChange={(e) => {
+                  setIsPlaying(false)
+                  setStep(Number(e.target.value))
+                }}
+                className="w-full accent-primary"
+              />
+
+              <div className="flex flex-wrap items-center gap-2">
+                <Button size="icon" variant="outline" onClick={() => { setIsPlaying(false); setStep(s => Math.max(0, s - 1)) }} title="Previous step">
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button size="icon" onClick={() => {
+                  if (step >= pathLength - 1) setStep(0)
+                  setIsPlaying(playing => !playing)
+                }}>
+                  {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                </Button>
+                <Button size="icon" variant="outline" onClick={() => { setIsPlaying(false); setStep(s => Math.min(pathLength - 1, s + 1)) }} title="Next step">
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+                <Select value={String(playbackRate)} onValueChange={(value) => setPlaybackRate(Number(value))}>
+                  <SelectTrigger className="w-20 h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PLAYBACK_RATES.map(rate => (
+                      <SelectItem key={rate} value={String(rate)}>{rate}×</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="ml-auto font-mono text-sm text-muted-foreground">
+                  {frameA && comparison.a[0] ? formatSeconds(frameA.timestamp - comparison.a[0].timestamp) : "-"}
+                  {" ↔ "}
+                  {frameB && comparison.b[0] ? formatSeconds(frameB.timestamp - comparison.b[0].timestamp) : "-"}
+                </span>
+              </div>
+            </Card>
+
+            <div className="grid gap-4 lg:grid-cols-[2fr_1fr]">
+              {/* Differences over the aligned movement */}
+              <Card className="p-4 space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  {comparedAngles.map(angle => (
+                    <Button
+                      key={angle}
+                      size="sm"
+                      variant={selectedAngles.includes(angle) ? "default" : "outline"}
+                      className="h-7 text-xs"
+                      onClick={() => toggleAngle(angle)}
+                    >
+                      {POSE_TRACK_ANGLE_LABELS[angle]}
+                    </Button>
+                  ))}
+                </div>
+                <div className="h-72">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart
+                      data={chartData}
+                      onClick={(state) => {
+                        if (state?.activeLabel !== undefined) {
+                          setIsPlaying(false)
+                          setStep(Number(state.activeLabel))
+                        }
+                      }}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" opacity={0.2} />
+                      <XAxis dataKey="step" type="number" domain={[0, pathLength - 1]} tickFormatter={(s) => `${Math.round((s / Math.max(1, pathLength - 1)) * 100)}%`} />
+                      <YAxis unit="°" width={48} />
+                      <Tooltip
+                        labelFormatter={(s) => `${Math.round((Number(s) / Math.max(1, pathLength - 1)) * 100)}% through the movement`}
+                        formatter={(value: number) => `${value > 0 ? "+" : ""}${value}°`}
+                      />
+                      <ReferenceLine y={0} stroke="#64748b" />
+                      {selectedAngles.filter(angle => comparedAngles.includes(angle)).map((angle, i) => (
+                        <Line
+                          key={angle}
+                          type="monotone"
+                          dataKey={angle}
+                          name={POSE_TRACK_ANGLE_LABELS[angle]}
+                          stroke={LINE_COLORS[i % LINE_COLORS.length]}
+                          dot={false}
+                          isAnimationActive={false}
+                        />
+                      ))}
+                      <ReferenceLine x={step} stroke="#ef4444" />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {SIDE_LABELS.a} minus {SIDE_LABELS.b.toLowerCase()}, in degrees, after aligning both recordings by movement phase.
+                </p>
+              </Card>
+
+              <div className="space-y-4">
+                {/* Similarity */}
+                <Card className="p-4 space-y-3">
+                  <div className="flex items-baseline justify-between">
+                    <h2 className="text-sm font-semibold">Similarity</h2>
+                    <span className={`text-3xl font-bold ${scoreColor(comparison.similarity)}`}>{comparison.similarity}%</span>
+                  </div>
+                  <div className="space-y-1 text-sm">
+                    {comparison.angles.map(d => (
+                      <div key={d.angle} className="flex justify-between">
+                        <span className="text-muted-foreground">{POSE_TRACK_ANGLE_LABELS[d.angle]}</span>
+                        <span className="font-medium">
+                          <span className={scoreColor(d.similarity)}>{d.similarity}%</span>
+                          <span className="text-xs text-muted-foreground"> · ±{d.meanAbsDifference}°</span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </Card>
+
+                {/* Promote the capture to an exemplar */}
+                {sources.a === "session" && (
+                  <Card className="p-4 space-y-2">
+                    <h2 className="text-sm font-semibold">Use capture as exemplar</h2>
+                    <Select value={exemplarExerciseId} onValueChange={setExemplarExerciseId}>
+                      <SelectTrigger className="h-8">
+                        <SelectValue placeholder="Exercise" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {exercises.map(e => (
+                          <SelectItem key={e.id} value={e.id}>{e.name}{e.exemplar ? " (replace)" : ""}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button size="sm" className="w-full" onClick={saveExemplar} disabled={!exemplarExerciseId || isSavingExemplar}>
+                      {isSavingExemplar ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Star className="h-4 w-4 mr-2" />}
+                      Save as exemplar
+                    </Button>
+                    {exemplarMessage && <p className="text-xs text-muted-foreground">{exemplarMessage}</p>}
+                  </Card>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
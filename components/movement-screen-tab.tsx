@@ -0,0 +1,335 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useRoomContext } from "@livekit/components-react"
+import { ConnectionState } from "livekit-client"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertTriangle, ClipboardList } from "lucide-react"
+import { useRealtimeMetrics } from "@/lib/realtime-metrics-context"
+import {
+  SCREEN_COMPOSITE_CUTOFF,
+  SCREEN_TESTS,
+  createMovementScreenCapture,
+  summarizeMovementScreen,
+  toScreenTestRecords,
+  type MovementScreenCapture,
+  type MovementScreenState,
+  type ScreenScore,
+  type ScreenSide,
+  type ScreenTestId,
+  type ScreenTestResult,
+  type ScreenTestReview,
+} from "@/lib/movement-screen"
+import type { MovementScreenRecord } from "@/lib/dynamodb-movement-screens"
+import { AssessmentStepPrompt } from "./rom-assessment-control"
+
+interface MovementScreenTabProps {
+  subjectId?: string | null // Screened subject (metric key of their pose)
+  participantInfo: Record<string, { fullName?: string }>
+  sessionId?: string | null
+  isCoach: boolean
+}
+
+const SCORE_COLORS: Record<ScreenScore, string> = {
+  0: "text-red-400",
+  1: "text-orange-400",
+  2: "text-yellow-400",
+  3: "text-green-400",
+}
+
+// FMS-style screen: the coach captures each test on the subject's live pose, reviews the auto scores and saves the screen
+export function MovementScreenTab({ subjectId, participantInfo, sessionId, isCoach }: MovementScreenTabProps) {
+  const room = useRoomContext()
+  const { realtimeData, movementScreens, setMovementScreen } = useRealtimeMetrics()
+  const [results, setResults] = useState<Partial<Record<ScreenTestId, ScreenTestResult>>>({})
+  const [reviews, setReviews] = useState<Partial<Record<ScreenTestId, ScreenTestReview>>>({})
+  const [captureState, setCaptureState] = useState<MovementScreenState | null>(null)
+  const [previous, setPrevious] = useState<MovementScreenRecord | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveMessage, setSaveMessage] = useState<string | null>(null)
+  const captureRef = useRef<MovementScreenCapture | null>(null)
+  const lastPublishedRef = useRef("")
+  const subjectData = subjectId ? realtimeData[subjectId] : undefined
+  const angles = subjectData?.angles
+
+  // Latest saved screen to compare the composite against
+  useEffect(() => {
+    if (!isCoach || !subjectId) return
+    let cancelled = false
+    fetch(`/api/subjects/${subjectId}/movement-screens`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (!cancelled) setPrevious(data?.screens?.[0] || null)
+      })
+      .catch(error => console.error("[Movement Screen] Error loading previous screens:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [subjectId, isCoach])
+
+  // Mirror the prompt to the subject's device (on step / phase changes and once a second)
+  const publishState = (next: MovementScreenState | null) => {
+    if (!subjectId) return
+    setMovementScreen(subjectId, next)
+    const key = next ? `${next.testId}:${next.status}:${next.stepIndex}:${next.phase}:${Math.ceil(next.remainingMs / 1000)}` : "cleared"
+    if (key === lastPublishedRef.current) return
+    lastPublishedRef.current = key
+    if (room && room.state === ConnectionState.Connected && room.localParticipant) {
+      room.localParticipant.publishData(
+        new TextEncoder().encode(JSON.stringify({ type: "movement-screen", participantId: subjectId, state: next })),
+        { reliable: true }
+      ).catch(error => console.error("[Movement Screen] ❌ Error publishing screen state:", error))
+    }
+  }
+
+  const applyState = (next: MovementScreenState) => {
+    if (next.status === "complete" && captureRef.current) {
+      const result = captureRef.current.getResult()
+      captureRef.current = null
+      if (result) {
+        setResults(prev => ({ ...prev, [result.testId]: result }))
+        console.log(`[Movement Screen] ✅ ${result.testName} captured: ${result.sides.map(s => `${s.side} ${s.autoScore ?? "-"}`).join(", ")}`)
+      }
+      setCaptureState(null)
+      publishState(null)
+      return
+    }
+    setCaptureState(next)
+    publishState(next)
+  }
+
+  // Each new pose frame of the subject drives the capture
+  useEffect(() => {
+    if (!captureRef.current || !angles) return
+    applyState(captureRef.current.update(angles, subjectData?.overlay?.keypoints || null, Date.now()))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [angles])
+
+  // Clear the subject's prompt if the coach leaves mid-capture
+  useEffect(() => {
+    return () => {
+      if (captureRef.current) publishState(null)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  if (!subjectId) {
+    return (
+      <div className="h-full flex items-center justify-center p-8">
+        <div className="text-center">
+          <ClipboardList className="h-8 w-8 text-white/40 mx-auto mb-3" />
+          <p className="text-sm text-white/60">No subject assigned to this screening session</p>
+        </div>
+      </div>
+    )
+  }
+
+  const subjectName = participantInfo[subjectId]?.fullName || "Subject"
+
+  if (!isCoach) {
+    const shared = movementScreens[subjectId]
+    return (
+      <div className="h-full overflow-y-auto p-4 space-y-4">
+        <div className="mb-4">
+          <h3 className="text-lg font-semibold text-white mb-1">Movement Screen</h3>
+          <p className="text-sm text-white/60">Seven movement tests scored 0-3 - your coach will start each one</p>
+        </div>
+        <Card className="bg-black/80 backdrop-blur-sm border-white/20 p-4">
+          {shared ? (
+            <AssessmentStepPrompt state={shared} />
+          ) : (
+            <p className="text-sm text-white/60 text-center py-6">Waiting for your coach to start the next test</p>
+          )}
+        </Card>
+      </div>
+    )
+  }
+
+  const startCapture = (testId: ScreenTestId) => {
+    captureRef.current = createMovementScreenCapture(testId, Date.now())
+    setSaveMessage(null)
+    applyState(captureRef.current.getState())
+    console.log(`[Movement Screen] ▶️ Capturing ${SCREEN_TESTS[testId].name} for ${subjectId}`)
+  }
+
+  const cancelCapture = () => {
+    captureRef.current = null
+    setCaptureState(null)
+    publishState(null)
+  }
+
+  const setOverride = (testId: ScreenTestId, side: ScreenSide, value: string) => {
+    setReviews(prev => {
+      const review = prev[testId] || { overrides: {}, pain: false }
+      const overrides = { ...review.overrides }
+      if (value === "auto") {
+        delete overrides[side]
+      } else {
+        overrides[side] = Number(value) as ScreenScore
+      }
+      return { ...prev, [testId]: { ...review, overrides } }
+    })
+  }
+
+  const setPain = (testId: ScreenTestId, pain: boolean) => {
+    setReviews(prev => ({ ...prev, [testId]: { overrides: prev[testId]?.overrides || {}, pain } }))
+  }
+
+  const summary = summarizeMovementScreen(results, reviews)
+
+  const save = async () => {
+    const tests = toScreenTestRecords(summary, results)
+    if (tests.length === 0) return
+    setIsSaving(true)
+    setSaveMessage(null)
+    try {
+      const response = await fetch(`/api/subjects/${subjectId}/movement-screens`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId, tests }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(data.error || "Failed to save screen")
+      if (data.screen) setPrevious(data.screen)
+      setSaveMessage(`Screen saved - ${data.screen?.composite_score ?? summary.compositeScore}/${data.screen?.max_score ?? summary.maxScore}`)
+    } catch (error: any) {
+      console.error("[Movement Screen] ❌ Error saving screen:", error)
+      setSaveMessage(error.message || "Failed to save screen")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const flagText = [
+    summary.painful.length > 0 && `pain on ${summary.painful.length} test${summary.painful.length === 1 ? "" : "s"}`,
+    summary.asymmetries.length > 0 && `left/right asymmetry on ${summary.asymmetries.map(id => SCREEN_TESTS[id].name).join(", ")}`,
+    summary.lowScores.length > 0 && `${summary.lowScores.length} test${summary.lowScores.length === 1 ? "" : "s"} scored 1`,
+    summary.complete && summary.compositeScore <= SCREEN_COMPOSITE_CUTOFF && `composite at or below ${SCREEN_COMPOSITE_CUTOFF}`,
+  ].filter(Boolean)
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-white mb-1">Movement Screen</h3>
+        <p className="text-sm text-white/60">Seven tests auto-scored 0-3 from {subjectName}'s pose - review and override before saving</p>
+      </div>
+
+      {/* Composite */}
+      <Card className="bg-black/80 backdrop-blur-sm border-white/20 p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <ClipboardList className="h-4 w-4 text-primary" />
+          <h4 className="text-base font-semibold text-white">Composite Score</h4>
+          <span className="ml-auto text-2xl font-bold text-white">
+            {summary.compositeScore}<span className="text-sm text-white/40">/{summary.complete ? 21 : `${summary.maxScore} so far`}</span>
+          </span>
+        </div>
+        {previous && (
+          <p className="text-xs text-white/40">
+            Last screen ({new Date(previous.created_at).toLocaleDateString()}): {previous.composite_score}/{previous.max_score}
+          </p>
+        )}
+        {summary.flagged ? (
+          <div className="flex items-start gap-2 rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-xs text-red-300">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            <div>Flagged: {flagText.join("; ")}</div>
+          </div>
+        ) : (
+          <div className="text-xs text-white/40 italic">No flags{summary.complete ? "" : " yet"}</div>
+        )}
+        <div className="flex items-center gap-2">
+          <Button size="sm" className="h-7 text-xs" onClick={save} disabled={isSaving || summary.maxScore === 0 || !!captureState}>
+            {isSaving ? "Saving..." : "Save screen"}
+          </Button>
+          {saveMessage && <span className="text-[10px] text-white/60">{saveMessage}</span>}
+        </div>
+      </Card>
+
+      {/* Test being captured */}
+      {captureState && (
+        <Card className="bg-black/80 backdrop-blur-sm border-primary/40 p-4 space-y-2">
+          <AssessmentStepPrompt state={captureState} />
+          {!angles && <p className="text-[10px] text-yellow-400">Waiting for {subjectName}'s pose...</p>}
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => captureRef.current && applyState(captureRef.current.redo(Date.now()))}>
+              Redo
+            </Button>
+            <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => captureRef.current && applyState(captureRef.current.skip(Date.now()))}>
+              Skip side
+            </Button>
+            <Button size="sm" variant="ghost" className="h-7 text-xs ml-auto" onClick={cancelCapture}>
+              Cancel
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {/* Tests */}
+      {summary.tests.map(test => {
+        const definition = SCREEN_TESTS[test.testId]
+        const review = reviews[test.testId]
+        return (
+          <Card key={test.testId} className="bg-black/80 backdrop-blur-sm border-white/20 p-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <h4 className="text-sm font-semibold text-white">{test.testName}</h4>
+              {test.asymmetric && <span className="text-[10px] text-red-300">asymmetric</span>}
+              <span className={`ml-auto text-lg font-bold ${test.score !== null ? SCORE_COLORS[test.score] : "text-white/40"}`}>
+                {test.score ?? "—"}
+              </span>
+            </div>
+
+            <div className={`grid gap-2 ${test.sides.length > 1 ? "grid-cols-2" : "grid-cols-1"}`}>
+              {test.sides.map(side => (
+                <div key={side.side} className="bg-white/5 rounded-lg p-2 space-y-1">
+                  <div className="flex items-center justify-between text-xs text-white/60">
+                    <span>{side.side === "both" ? "Score" : side.side === "left" ? "Left" : "Right"}</span>
+                    <span>Auto: {side.autoScore ?? "—"}</span>
+                  </div>
+                  <Select
+                    value={review?.overrides[side.side] !== undefined ? String(review.overrides[side.side]) : "auto"}
+                    onValueChange={value => setOverride(test.testId, side.side, value)}
+                    disabled={test.pain}
+                  >
+                    <SelectTrigger className="h-7 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Use auto score</SelectItem>
+                      {[3, 2, 1, 0].map(score => (
+                        <SelectItem key={score} value={String(score)}>{score}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {test.reasons.length > 0 && (
+              <ul className="text-[10px] text-white/60 list-disc pl-4">
+                {test.reasons.map(reason => <li key={reason}>{reason}</li>)}
+              </ul>
+            )}
+
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-2 text-xs text-white/80">
+                <Checkbox checked={test.pain} onCheckedChange={checked => setPain(test.testId, checked === true)} />
+                Pain{definition.clearingTest && <span className="text-white/40">(incl. {definition.clearingTest.toLowerCase()})</span>}
+              </label>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 text-xs ml-auto"
+                onClick={() => startCapture(test.testId)}
+                disabled={!!captureState}
+              >
+                {results[test.testId] ? "Recapture" : "Capture"}
+              </Button>
+            </div>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
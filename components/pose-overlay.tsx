@@ -0,0 +1,83 @@
+"use client"
+
+import { useCallback, useEffect, useRef } from "react"
+import { useRealtimeMetrics } from "@/lib/realtime-metrics-context"
+import { drawPoseOverlay, getVideoContentRect, OVERLAY_STALE_MS, type PoseOverlayFrame } from "@/lib/pose-overlay"
+
+interface PoseOverlayProps {
+  participantId: string // Identity of the participant whose video the tile shows
+}
+
+// Canvas drawn over a video tile: skeleton, live joint angles and the joints involved in recent form faults
+export function PoseOverlay({ participantId }: PoseOverlayProps) {
+  const { realtimeData, overlayTiles } = useRealtimeMetrics()
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const enabled = !!overlayTiles[participantId]
+
+  // Everyone detected in this tile's video (several people when tracks are pinned to subjects)
+  const people = Object.values(realtimeData).filter(
+    (data): data is typeof data & { overlay: PoseOverlayFrame } => data.overlay?.sourceId === participantId
+  )
+  const peopleRef = useRef(people)
+  peopleRef.current = people
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) return
+
+    const dpr = window.devicePixelRatio || 1
+    const width = canvas.clientWidth
+    const height = canvas.clientHeight
+    if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+      canvas.width = Math.round(width * dpr)
+      canvas.height = Math.round(height * dpr)
+    }
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+    ctx.clearRect(0, 0, width, height)
+
+    // Map normalized keypoints onto the part of the tile the video actually covers
+    const video = canvas.parentElement?.querySelector("video")
+    if (!video) return
+    const style = window.getComputedStyle(video)
+    const rect = getVideoContentRect(video.videoWidth, video.videoHeight, width, height, style.objectFit || "contain")
+    const mirrored = style.transform !== "none" && new DOMMatrix(style.transform).a < 0
+    const toScreen = (kp: { x: number; y: number }) => ({
+      x: rect.x + (mirrored ? 1 - kp.x : kp.x) * rect.width,
+      y: rect.y + kp.y * rect.height,
+    })
+
+    const now = Date.now()
+    peopleRef.current
+      .filter(({ overlay }) => now - overlay.timestamp <= OVERLAY_STALE_MS)
+      .forEach(({ overlay, angles }) => {
+        drawPoseOverlay(ctx, { keypoints: overlay.keypoints, angles, faults: overlay.faults }, toScreen)
+      })
+  }, [])
+
+  // Redraw on every new pose, and periodically so skeletons disappear once tracking stops
+  useEffect(() => {
+    if (enabled) draw()
+  }, [enabled, draw, realtimeData])
+
+  useEffect(() => {
+    if (!enabled) return
+    const interval = setInterval(draw, OVERLAY_STALE_MS / 2)
+    const canvas = canvasRef.current
+    const resizeObserver = canvas ? new ResizeObserver(() => draw()) : null
+    if (canvas && resizeObserver) resizeObserver.observe(canvas)
+    return () => {
+      clearInterval(interval)
+      resizeObserver?.disconnect()
+    }
+  }, [enabled, draw])
+
+  if (!enabled) return null
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute inset-0 w-full h-full pointer-events-none z-[5]"
+    />
+  )
+}
@@ -1,219 +1,271 @@
 "use client"
 
+import { useEffect, useState } from "react"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
-import { TrendingUp, TrendingDown, Minus, CheckCircle2, Calendar, Target } from "lucide-react"
+import { TrendingUp, TrendingDown, Minus, Calendar, Target, Download } from "lucide-react"
 import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { summarizeProgressReport, type ProgressComparison, type ProgressReport } from "@/lib/progress-report"
 
 interface ProgressReportModalProps {
   isOpen: boolean
   onClose: () => void
+  subjectId: string | null
+  subjectName?: string
 }
 
-interface MetricComparison {
-  name: string
-  baseline: number
-  latest: number
-  unit: string
-  trend: "up" | "down" | "stable"
-  isPositive: boolean
+const AUTO = "auto"
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })
+
+const formatValue = (comparison: ProgressComparison, value: number) =>
+  comparison.metric === "risk" ? ["Low", "Medium", "High"][Math.round(value) - 1] || `${value}` : `${value}${comparison.unit}`
+
+const SIGNIFICANCE_LABELS = {
+  meaningful: "Meaningful change",
+  within_noise: "Within normal variation",
+  insufficient_data: "Too few sessions to test",
 }
 
-export default function ProgressReportModal({ isOpen, onClose }: ProgressReportModalProps) {
-  const metrics: MetricComparison[] = [
-    {
-      name: "Balance Score",
-      baseline: 65,
-      latest: 78,
-      unit: "index",
-      trend: "up",
-      isPositive: true,
-    },
-    {
-      name: "Symmetry Score",
-      baseline: 72,
-      latest: 85,
-      unit: "index",
-      trend: "up",
-      isPositive: true,
-    },
-    {
-      name: "Power Consistency",
-      baseline: 68,
-      latest: 83,
-      unit: "%",
-      trend: "up",
-      isPositive: true,
-    },
-    {
-      name: "Balance Loss",
-      baseline: 28,
-      latest: 15,
-      unit: "%",
-      trend: "down",
-      isPositive: true,
-    },
-    {
-      name: "Symmetry Drift",
-      baseline: 32,
-      latest: 18,
-      unit: "%",
-      trend: "down",
-      isPositive: true,
-    },
-    {
-      name: "Recovery Efficiency",
-      baseline: 58,
-      latest: 75,
-      unit: "index",
-      trend: "up",
-      isPositive: true,
-    },
-  ]
-
-  const adherenceData = {
-    sessionsCompleted: 12,
-    sessionsScheduled: 15,
-    adherenceRate: 80,
-    currentStreak: 5,
+export default function ProgressReportModal({ isOpen, onClose, subjectId, subjectName }: ProgressReportModalProps) {
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [baselineId, setBaselineId] = useState(AUTO)
+  const [latestId, setLatestId] = useState(AUTO)
+  const [report, setReport] = useState<ProgressReport | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isDownloading, setIsDownloading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const query = () => {
+    const params = new URLSearchParams()
+    if (from) params.set("from", from)
+    if (to) params.set("to", to)
+    if (baselineId !== AUTO) params.set("baseline", baselineId)
+    if (latestId !== AUTO) params.set("latest", latestId)
+    return params
   }
 
-  const getTrendIcon = (trend: "up" | "down" | "stable") => {
-    switch (trend) {
-      case "up":
-        return <TrendingUp className="w-4 h-4 text-green-600" />
-      case "down":
-        return <TrendingDown className="w-4 h-4 text-red-600" />
-      case "stable":
-        return <Minus className="w-4 h-4 text-muted-foreground" />
+  useEffect(() => {
+    if (!isOpen || !subjectId) return
+    let cancelled = false
+    setIsLoading(true)
+    setError(null)
+    fetch(`/api/subjects/${subjectId}/progress-report?${query().toString()}`)
+      .then(async response => {
+        const data = await response.json().catch(() => ({}))
+        if (!response.ok) throw new Error(data.error || "Failed to load progress report")
+        if (!cancelled) setReport(data.report)
+      })
+      .catch(err => {
+        console.error("[Progress Report] Error loading report:", err)
+        if (!cancelled) setError(err.message || "Failed to load progress report")
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, subjectId, from, to, baselineId, latestId])
+
+  // A changed range can drop the chosen sessions - fall back to automatic selection
+  useEffect(() => {
+    if (!report) return
+    if (baselineId !== AUTO && !report.sessions.some(s => s.session_id === baselineId)) setBaselineId(AUTO)
+    if (latestId !== AUTO && !report.sessions.some(s => s.session_id === latestId)) setLatestId(AUTO)
+  }, [report, baselineId, latestId])
+
+  const downloadPdf = async () => {
+    if (!subjectId) return
+    setIsDownloading(true)
+    try {
+      const params = query()
+      params.set("format", "pdf")
+      const response = await fetch(`/api/subjects/${subjectId}/progress-report?${params.toString()}`)
+      const contentType = response.headers.get("content-type")
+      if (!response.ok || !contentType?.includes("application/pdf")) {
+        const data = contentType?.includes("application/json") ? await response.json().catch(() => ({})) : {}
+        throw new Error(data.error || `Failed to download PDF (${response.status})`)
+      }
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement("a")
+      a.href = url
+      a.download = `progress-report-${subjectId}-${Date.now()}.pdf`
+      document.body.appendChild(a)
+      a.click()
+      window.URL.revokeObjectURL(url)
+      document.body.removeChild(a)
+    } catch (err: any) {
+      console.error("[Progress Report] Error downloading PDF:", err)
+      alert(err.message || "Failed to download PDF")
+    } finally {
+      setIsDownloading(false)
     }
   }
 
-  const getChangePercentage = (baseline: number, latest: number) => {
-    const change = ((latest - baseline) / baseline) * 100
-    return Math.abs(Math.round(change))
+  const getTrendIcon = (comparison: ProgressComparison) => {
+    if (comparison.direction === "stable") return <Minus className="w-4 h-4 text-muted-foreground" />
+    const color = comparison.significance !== "meaningful"
+      ? "text-muted-foreground"
+      : comparison.direction === "improved" ? "text-green-600" : "text-red-600"
+    return comparison.change > 0 ? <TrendingUp className={`w-4 h-4 ${color}`} /> : <TrendingDown className={`w-4 h-4 ${color}`} />
   }
 
+  const changeColor = (comparison: ProgressComparison) =>
+    comparison.significance !== "meaningful" || comparison.direction === "stable"
+      ? "text-muted-foreground"
+      : comparison.direction === "improved" ? "text-green-600" : "text-red-600"
+
+  const sessions = report?.sessions || []
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="!max-w-[1200px] w-[90vw] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle className="text-2xl font-bold">Progress Report</DialogTitle>
+          <DialogTitle className="text-2xl font-bold">Progress Report{subjectName ? ` – ${subjectName}` : ""}</DialogTitle>
           <p className="text-sm text-muted-foreground">Baseline vs Latest Performance Analysis</p>
         </DialogHeader>
 
-        <div className="space-y-6 mt-4">
-          {/* Adherence Stats */}
-          <Card className="p-6 bg-muted/50">
-            <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
-              <Target className="w-5 h-5 text-primary" />
-              Session Adherence
-            </h3>
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              <div className="space-y-1">
-                <p className="text-sm text-muted-foreground">Completed</p>
-                <p className="text-2xl font-bold text-foreground">
-                  {adherenceData.sessionsCompleted}/{adherenceData.sessionsScheduled}
-                </p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm text-muted-foreground">Adherence Rate</p>
-                <p className="text-2xl font-bold text-green-600">{adherenceData.adherenceRate}%</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm text-muted-foreground">Current Streak</p>
-                <p className="text-2xl font-bold text-primary">{adherenceData.currentStreak} days</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm text-muted-foreground">Status</p>
-                <div className="flex items-center gap-2">
-                  <CheckCircle2 className="w-5 h-5 text-green-600" />
-                  <p className="text-lg font-semibold text-green-600">On Track</p>
+        {!subjectId ? (
+          <p className="text-sm text-muted-foreground mt-4">Progress reports are available once the session has a client assigned.</p>
+        ) : (
+          <div className="space-y-6 mt-4">
+            {/* Range and session selection */}
+            <Card className="p-6 bg-muted/50">
+              <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                <Target className="w-5 h-5 text-primary" />
+                Report Range
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="space-y-1">
+                  <p className="text-sm text-muted-foreground">From</p>
+                  <Input type="date" value={from} max={to || undefined} onChange={e => setFrom(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <p className="text-sm text-muted-foreground">To</p>
+                  <Input type="date" value={to} min={from || undefined} onChange={e => setTo(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <p className="text-sm text-muted-foreground">Baseline session</p>
+                  <Select value={baselineId} onValueChange={setBaselineId}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTO}>Automatic (first in range)</SelectItem>
+                      {sessions.map(s => (
+                        <SelectItem key={s.session_id} value={s.session_id}>{formatDate(s.date)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <p className="text-sm text-muted-foreground">Latest session</p>
+                  <Select value={latestId} onValueChange={setLatestId}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTO}>Automatic (last in range)</SelectItem>
+                      {sessions.map(s => (
+                        <SelectItem key={s.session_id} value={s.session_id}>{formatDate(s.date)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
               </div>
-            </div>
-          </Card>
-
-          {/* Metrics Comparison */}
-          <div>
-            <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
-              <Calendar className="w-5 h-5 text-primary" />
-              Performance Metrics: Baseline vs Latest
-            </h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {metrics.map((metric, index) => (
-                <Card key={index} className="p-4 bg-background">
-                  <div className="flex items-start justify-between mb-3">
-                    <div>
-                      <h4 className="font-semibold text-foreground">{metric.name}</h4>
-                      <p className="text-xs text-muted-foreground mt-0.5">
-                        {metric.trend === "up" && metric.isPositive && "Improved"}
-                        {metric.trend === "down" && metric.isPositive && "Improved"}
-                        {metric.trend === "stable" && "Stable"}
-                        {metric.trend === "up" && !metric.isPositive && "Declined"}
-                        {metric.trend === "down" && !metric.isPositive && "Declined"}
-                      </p>
-                    </div>
-                    {getTrendIcon(metric.trend)}
-                  </div>
-
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <p className="text-xs text-muted-foreground mb-1">Baseline</p>
-                      <p className="text-xl font-bold text-muted-foreground">
-                        {metric.baseline}
-                        <span className="text-sm ml-1">{metric.unit}</span>
-                      </p>
-                    </div>
-                    <div>
-                      <p className="text-xs text-muted-foreground mb-1">Latest</p>
-                      <p className="text-xl font-bold text-primary">
-                        {metric.latest}
-                        <span className="text-sm ml-1">{metric.unit}</span>
-                      </p>
+              {report && (
+                <div className="flex flex-wrap items-center gap-x-6 gap-y-2 mt-4 text-sm">
+                  <span><span className="text-muted-foreground">Sessions in range:</span> <strong>{sessions.length}</strong></span>
+                  <span><span className="text-muted-foreground">Baseline:</span> <strong>{report.baseline ? formatDate(report.baseline.date) : "-"}</strong></span>
+                  <span><span className="text-muted-foreground">Latest:</span> <strong>{report.latest ? formatDate(report.latest.date) : "-"}</strong></span>
+                  <span className="text-green-600">{report.improved_count} improved</span>
+                  <span className="text-red-600">{report.declined_count} declined</span>
+                  <Button size="sm" variant="outline" className="ml-auto" onClick={downloadPdf} disabled={isDownloading || isLoading}>
+                    <Download className="w-4 h-4 mr-2" />
+                    {isDownloading ? "Generating PDF..." : "Download PDF"}
+                  </Button>
+                </div>
+              )}
+            </Card>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {isLoading && !report ? (
+              <p className="text-sm text-muted-foreground">Loading progress report...</p>
+            ) : report && (
+              <>
+                {/* Metrics Comparison */}
+                <div>
+                  <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                    <Calendar className="w-5 h-5 text-primary" />
+                    Performance Metrics: Baseline vs Latest
+                  </h3>
+                  {report.comparisons.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">{summarizeProgressReport(report)}</p>
+                  ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {report.comparisons.map(comparison => (
+                        <Card key={comparison.metric} className="p-4 bg-background">
+                          <div className="flex items-start justify-between mb-3">
+                            <div>
+                              <h4 className="font-semibold text-foreground">{comparison.label}</h4>
+                              <p className="text-xs text-muted-foreground mt-0.5">
+                                {comparison.direction === "stable" ? "Stable" : comparison.direction === "improved" ? "Improved" : "Declined"}
+                                {" · "}{SIGNIFICANCE_LABELS[comparison.significance]}
+                              </p>
+                            </div>
+                            {getTrendIcon(comparison)}
+                          </div>
+
+                          <div className="grid grid-cols-2 gap-4">
+                            <div>
+                              <p className="text-xs text-muted-foreground mb-1">Baseline · {formatDate(comparison.baseline.date)}</p>
+                              <p className="text-xl font-bold text-muted-foreground">{formatValue(comparison, comparison.baseline.value)}</p>
+                            </div>
+                            <div>
+                              <p className="text-xs text-muted-foreground mb-1">Latest · {formatDate(comparison.latest.date)}</p>
+                              <p className="text-xl font-bold text-primary">{formatValue(comparison, comparison.latest.value)}</p>
+                            </div>
+                          </div>
+
+                          <div className="mt-3 pt-3 border-t border-border space-y-1">
+                            <p className="text-sm">
+                              <span className="text-muted-foreground">Change: </span>
+                              <span className={`font-semibold ${changeColor(comparison)}`}>
+                                {comparison.change > 0 ? "+" : ""}{comparison.change}{comparison.metric === "risk" ? "" : comparison.unit}
+                                {comparison.change_pct !== null && comparison.metric !== "risk" && ` (${comparison.change_pct > 0 ? "+" : ""}${comparison.change_pct}%)`}
+                              </span>
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {comparison.points} values
+                              {comparison.minimal_detectable_change !== null && ` · detectable change ±${comparison.minimal_detectable_change}${comparison.unit}`}
+                              {comparison.slope_per_session !== null && ` · trend ${comparison.slope_per_session > 0 ? "+" : ""}${comparison.slope_per_session}${comparison.unit} per session`}
+                            </p>
+                            {comparison.change_points.map(point => (
+                              <p key={point.date} className="text-xs text-muted-foreground">
+                                Shifted {point.direction} on {formatDate(point.date)}
+                              </p>
+                            ))}
+                          </div>
+                        </Card>
+                      ))}
                     </div>
-                  </div>
-
-                  <div className="mt-3 pt-3 border-t border-border">
-                    <p className="text-sm">
-                      <span className="text-muted-foreground">Change: </span>
-                      <span
-                        className={`font-semibold ${
-                          metric.isPositive
-                            ? metric.trend === "up"
-                              ? "text-green-600"
-                              : metric.trend === "down"
-                                ? "text-green-600"
-                                : "text-muted-foreground"
-                            : metric.trend === "up"
-                              ? "text-red-600"
-                              : metric.trend === "down"
-                                ? "text-red-600"
-                                : "text-muted-foreground"
-                        }`}
-                      >
-                        {metric.trend === "up" ? "+" : metric.trend === "down" ? "-" : ""}
-                        {getChangePercentage(metric.baseline, metric.latest)}%
-                      </span>
-                    </p>
-                  </div>
-                </Card>
-              ))}
-            </div>
-          </div>
+                  )}
+                </div>
 
-          {/* Summary */}
-          <Card className="p-6 bg-primary/10 border-primary/20">
-            <h3 className="text-lg font-semibold mb-3 text-primary">Overall Assessment</h3>
-            <p className="text-sm text-foreground/80 leading-relaxed">
-              <strong>Excellent progress</strong> demonstrated across all key metrics. Balance and symmetry scores have
-              improved by an average of <strong>18%</strong> since baseline. Fatigue metrics show{" "}
-              <strong>significant reduction</strong> in balance loss and symmetry drift, indicating improved endurance
-              and stability. With an <strong>80% adherence rate</strong> and consistent session completion, the athlete
-              is on track to meet their performance goals. Recommend continuing current protocol with potential
-              progression to Level 2 exercises in the next phase.
-            </p>
-          </Card>
-        </div>
+                {/* Summary */}
+                {report.comparisons.length > 0 && (
+                  <Card className="p-6 bg-primary/10 border-primary/20">
+                    <h3 className="text-lg font-semibold mb-3 text-primary">Overall Assessment</h3>
+                    <p className="text-sm text-foreground/80 leading-relaxed">{summarizeProgressReport(report)}</p>
+                  </Card>
+                )}
+              </>
+            )}
+          </div>
+        )}
       </DialogContent>
     </Dialog>
   )
@@ -3,6 +3,10 @@
 import { Card } from "@/components/ui/card"
 import { Activity, AlertCircle } from "lucide-react"
 import type { BiomechanicalAngles, BiomechanicalMetrics } from "@/lib/pose-detection"
+import type { RepSummary } from "@/lib/rep-counting"
+import type { TemplateMatchSummary } from "@/lib/reference-templates"
+import { RepMetricsSummary } from "./rep-metrics-summary"
+import { TemplateMatchBadge } from "./template-match-badge"
 import { useEffect, useState } from "react"
 
 interface RealtimeMetricsDisplayProps {
@@ -10,6 +14,8 @@ interface RealtimeMetricsDisplayProps {
   participantName: string
   angles: BiomechanicalAngles | null
   metrics: BiomechanicalMetrics | null
+  reps?: RepSummary | null
+  templateMatch?: TemplateMatchSummary | null // Reps scored against a reference template
   isCoach?: boolean // Whether the current viewer is a coach
 }
 
@@ -18,6 +24,8 @@ export function RealtimeMetricsDisplay({
   participantName, 
   angles, 
   metrics,
+  reps = null,
+  templateMatch = null,
   isCoach = false
 }: RealtimeMetricsDisplayProps) {
   const [statusMessage, setStatusMessage] = useState<string>("Initializing pose detection...")
@@ -134,6 +142,20 @@ export function RealtimeMetricsDisplay({
         </div>
       )}
 
+      {/* Reps */}
+      {reps && (
+        <div className="mb-4">
+          <RepMetricsSummary reps={reps} compact />
+        </div>
+      )}
+
+      {/* Reference template match */}
+      {templateMatch?.lastMatch && (
+        <div className="mb-4">
+          <TemplateMatchBadge templateMatch={templateMatch} compact />
+        </div>
+      )}
+
       {/* Angles */}
       {angles && (
         <div className="space-y-2 text-xs">
@@ -187,6 +209,33 @@ export function RealtimeMetricsDisplay({
               <div className="text-white font-semibold">{formatAngle(angles.neckFlexion)}</div>
             </div>
           </div>
+
+          <div className="grid grid-cols-2 gap-2 mt-2">
+            <div className="bg-white/5 rounded p-2">
+              <div className="text-white/60 mb-1">Left Ankle DF</div>
+              <div className="text-white font-semibold">{formatAngle(angles.leftAnkleDorsiflexion)}</div>
+            </div>
+            <div className="bg-white/5 rounded p-2">
+              <div className="text-white/60 mb-1">Right Ankle DF</div>
+              <div className="text-white font-semibold">{formatAngle(angles.rightAnkleDorsiflexion)}</div>
+            </div>
+            <div className="bg-white/5 rounded p-2">
+              <div className="text-white/60 mb-1">Left Knee Valgus</div>
+              <div className="text-white font-semibold">{formatAngle(angles.leftKneeValgus)}</div>
+            </div>
+            <div className="bg-white/5 rounded p-2">
+              <div className="text-white/60 mb-1">Right Knee Valgus</div>
+              <div className="text-white font-semibold">{formatAngle(angles.rightKneeValgus)}</div>
+            </div>
+            <div className="bg-white/5 rounded p-2">
+              <div className="text-white/60 mb-1">Pelvic Obliquity</div>
+              <div className="text-white font-semibold">{formatAngle(angles.pelvicObliquity)}</div>
+            </div>
+            <div className="bg-white/5 rounded p-2">
+              <div className="text-white/60 mb-1">Trunk Rotation</div>
+              <div className="text-white font-semibold">{formatAngle(angles.trunkRotation)}</div>
+            </div>
+          </div>
         </div>
       )}
     </Card>
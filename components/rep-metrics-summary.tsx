@@ -0,0 +1,71 @@
+"use client"
+
+import type { RepPhase, RepSummary } from "@/lib/rep-counting"
+
+interface RepMetricsSummaryProps {
+  reps: RepSummary
+  compact?: boolean // Smaller layout for the video overlay
+}
+
+const PHASE_LABELS: Record<RepPhase, string> = {
+  eccentric: "Lowering",
+  bottom: "Bottom",
+  concentric: "Rising",
+  top: "Top",
+}
+
+const PHASE_COLORS: Record<RepPhase, string> = {
+  eccentric: "bg-blue-500/20 text-blue-300",
+  bottom: "bg-purple-500/20 text-purple-300",
+  concentric: "bg-green-500/20 text-green-300",
+  top: "bg-white/10 text-white/70",
+}
+
+// Live rep count, current phase and per-phase tempo from the rep counting engine
+export function RepMetricsSummary({ reps, compact = false }: RepMetricsSummaryProps) {
+  const formatSeconds = (seconds?: number) => (seconds === undefined ? "-" : `${seconds.toFixed(1)}s`)
+  const formatDegrees = (degrees: number | null) => (degrees === null ? "-" : `${Math.round(degrees)}°`)
+  const formatPercent = (percent: number | null) => (percent === null ? "-" : `${Math.round(percent)}%`)
+  const tempo = reps.averageTempo
+  const tileClass = compact ? "bg-white/5 rounded p-2" : "bg-white/5 rounded-lg p-3"
+  const valueClass = compact ? "text-white font-bold text-sm" : "text-white font-bold text-lg"
+
+  return (
+    <div className={compact ? "space-y-2 text-xs" : "space-y-3"}>
+      <div className="flex items-center gap-2">
+        <h5 className={compact ? "text-white/80 font-medium" : "text-sm font-medium text-white/80"}>Reps</h5>
+        <span className="text-[10px] text-white/40">
+          {reps.exercise === "auto" ? "auto-detected" : reps.exercise.replace("_", " ")} · {reps.angleSource} angle
+        </span>
+        <span className={`ml-auto rounded px-2 py-0.5 text-[10px] font-medium ${PHASE_COLORS[reps.currentPhase]}`}>
+          {PHASE_LABELS[reps.currentPhase]}
+        </span>
+      </div>
+
+      <div className={`grid grid-cols-3 ${compact ? "gap-2" : "gap-3"}`}>
+        <div className={tileClass}>
+          <div className="text-white/60 text-xs mb-1">Count</div>
+          <div className={valueClass}>
+            {reps.repCount}
+            {reps.partialReps > 0 && <span className="text-xs text-white/40 font-normal"> +{reps.partialReps} partial</span>}
+          </div>
+        </div>
+        <div className={tileClass}>
+          <div className="text-white/60 text-xs mb-1">Avg ROM</div>
+          <div className={valueClass}>{formatDegrees(reps.averageRangeOfMotion)}</div>
+        </div>
+        <div className={tileClass}>
+          <div className="text-white/60 text-xs mb-1">Variability</div>
+          <div className={valueClass}>{formatPercent(reps.rangeOfMotionVariability)}</div>
+        </div>
+      </div>
+
+      {tempo && (
+        <div className="text-xs text-white/60">
+          Tempo (down / bottom / up / top): {formatSeconds(tempo.eccentric)} / {formatSeconds(tempo.bottom)} / {formatSeconds(tempo.concentric)} / {formatSeconds(tempo.top)}
+          {reps.tempoVariability !== null && <> · {formatPercent(reps.tempoVariability)} rep-to-rep</>}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,295 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useRoomContext } from "@livekit/components-react"
+import { ConnectionState } from "livekit-client"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { ClipboardCheck } from "lucide-react"
+import { useRealtimeMetrics } from "@/lib/realtime-metrics-context"
+import {
+  ROM_TESTS,
+  ROM_TEST_ORDER,
+  compareRomAssessments,
+  createRomAssessment,
+  toRomTestRecords,
+  type RomAssessment,
+  type RomAssessmentState,
+  type RomMeasureChange,
+  type RomTestId,
+  type RomTestRecord,
+  type AssessmentStepState,
+} from "@/lib/rom-assessment"
+import type { RomAssessmentRecord } from "@/lib/dynamodb-rom-assessments"
+
+interface RomAssessmentControlProps {
+  participantId: string // Metric key (subject ID for mocap / pinned tracks)
+  sessionId?: string | null
+  isCoach: boolean
+}
+
+const STATUS_COLORS = {
+  normal: "text-green-400",
+  limited: "text-yellow-400",
+  excessive: "text-red-400",
+}
+
+// Prompt for the current step - what the subject sees while the coach runs the assessment (also used by the movement screen)
+export function AssessmentStepPrompt({ state }: { state: AssessmentStepState }) {
+  if (state.status === "complete") {
+    return <p className="text-xs text-white/60">Assessment complete - well done!</p>
+  }
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-white font-medium">
+          {state.testName}{state.side && ` · ${state.side}`}
+        </span>
+        <span className="text-white/40">Step {state.stepIndex + 1} of {state.stepCount}</span>
+      </div>
+      <p className="text-xs text-white/80">{state.instructions}</p>
+      <div className="flex items-center justify-between text-[10px] text-white/60">
+        <span>{state.phase === "prepare" ? "Get into position" : "Move through your full range"}</span>
+        <span>{Math.ceil(state.remainingMs / 1000)}s</span>
+      </div>
+      <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+        <div
+          className={`h-full ${state.phase === "prepare" ? "bg-yellow-400" : "bg-primary"}`}
+          style={{ width: `${Math.round(state.progress * 100)}%` }}
+        />
+      </div>
+      {state.view && (
+        <p className="text-[10px] text-white/40">{state.view === "side" ? "Side-on to" : state.view === "back" ? "Back to" : "Facing"} the camera</p>
+      )}
+    </div>
+  )
+}
+
+// Scripted range-of-motion assessment: the coach runs it on the subject's live pose, the subject follows the prompts
+export function RomAssessmentControl({ participantId, sessionId, isCoach }: RomAssessmentControlProps) {
+  const room = useRoomContext()
+  const { realtimeData, romAssessments, setRomAssessment } = useRealtimeMetrics()
+  const [selectedTests, setSelectedTests] = useState<RomTestId[]>(ROM_TEST_ORDER)
+  const [state, setState] = useState<RomAssessmentState | null>(null)
+  const [results, setResults] = useState<RomTestRecord[] | null>(null)
+  const [previous, setPrevious] = useState<RomAssessmentRecord | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveMessage, setSaveMessage] = useState<string | null>(null)
+  const assessmentRef = useRef<RomAssessment | null>(null)
+  const lastPublishedRef = useRef("")
+  const angles = realtimeData[participantId]?.angles
+
+  // Latest stored assessment to compare against
+  useEffect(() => {
+    if (!isCoach) return
+    let cancelled = false
+    fetch(`/api/subjects/${participantId}/rom-assessments`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (!cancelled) setPrevious(data?.assessments?.[0] || null)
+      })
+      .catch(error => console.error("[ROM Assessment] Error loading previous assessments:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [participantId, isCoach])
+
+  // Mirror the prompt to the subject's device (on step / phase changes and once a second)
+  const publishState = (next: RomAssessmentState | null) => {
+    setRomAssessment(participantId, next)
+    const key = next ? `${next.status}:${next.stepIndex}:${next.phase}:${Math.ceil(next.remainingMs / 1000)}` : "cleared"
+    if (key === lastPublishedRef.current) return
+    lastPublishedRef.current = key
+    if (room && room.state === ConnectionState.Connected && room.localParticipant) {
+      room.localParticipant.publishData(
+        new TextEncoder().encode(JSON.stringify({ type: "rom-assessment", participantId, state: next })),
+        { reliable: true }
+      ).catch(error => console.error("[ROM Assessment] ❌ Error publishing assessment state:", error))
+    }
+  }
+
+  const applyState = (next: RomAssessmentState) => {
+    setState(next)
+    publishState(next)
+    if (next.status === "complete" && assessmentRef.current) {
+      const records = toRomTestRecords(assessmentRef.current.getResults())
+      assessmentRef.current = null
+      setResults(records)
+      console.log(`[ROM Assessment] ✅ Assessment complete for ${participantId}: ${records.length} tests measured`)
+    }
+  }
+
+  // Each new pose frame of the subject drives the runner
+  useEffect(() => {
+    if (!assessmentRef.current || !angles) return
+    applyState(assessmentRef.current.update(angles, Date.now()))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [angles])
+
+  // Clear the subject's prompt if the coach leaves mid-assessment
+  useEffect(() => {
+    return () => {
+      if (assessmentRef.current) publishState(null)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  if (!isCoach) {
+    const shared = romAssessments[participantId]
+    if (!shared) return null
+    return (
+      <div className="mb-4 bg-white/5 rounded-lg p-3 space-y-2">
+        <div className="flex items-center gap-2 text-xs text-white/80">
+          <ClipboardCheck className="h-3.5 w-3.5 text-primary" />
+          <span className="font-medium">Range of motion assessment</span>
+        </div>
+        <AssessmentStepPrompt state={shared} />
+      </div>
+    )
+  }
+
+  const toggleTest = (testId: RomTestId, checked: boolean) => {
+    setSelectedTests(prev => ROM_TEST_ORDER.filter(id => (id === testId ? checked : prev.includes(id))))
+  }
+
+  const start = () => {
+    assessmentRef.current = createRomAssessment(selectedTests, Date.now())
+    setResults(null)
+    setSaveMessage(null)
+    applyState(assessmentRef.current.getState())
+    console.log(`[ROM Assessment] ▶️ Started for ${participantId}: ${selectedTests.join(", ")}`)
+  }
+
+  const cancel = () => {
+    assessmentRef.current = null
+    setState(null)
+    publishState(null)
+  }
+
+  const save = async () => {
+    if (!results) return
+    setIsSaving(true)
+    setSaveMessage(null)
+    try {
+      const response = await fetch(`/api/subjects/${participantId}/rom-assessments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId, tests: results }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(data.error || "Failed to save assessment")
+      setSaveMessage("Assessment saved")
+      setPrevious(data.assessment || null)
+      setResults(null)
+      setState(null)
+      publishState(null)
+    } catch (error: any) {
+      console.error("[ROM Assessment] ❌ Error saving assessment:", error)
+      setSaveMessage(error.message || "Failed to save assessment")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const changes: RomMeasureChange[] = results && previous ? compareRomAssessments(results, previous.tests) : []
+  const changeFor = (testId: RomTestId, measure: string, side: string) =>
+    changes.find(c => c.testId === testId && c.measure === measure && c.side === side)
+  const isRunning = state?.status === "running"
+
+  return (
+    <div className="mb-4 bg-white/5 rounded-lg p-3 space-y-2">
+      <div className="flex items-center gap-2 text-xs text-white/80">
+        <ClipboardCheck className="h-3.5 w-3.5 text-primary" />
+        <span className="font-medium">Range of motion assessment</span>
+        {previous && !isRunning && (
+          <span className="ml-auto text-[10px] text-white/40">
+            Last: {new Date(previous.created_at).toLocaleDateString()}
+          </span>
+        )}
+      </div>
+
+      {isRunning && state ? (
+        <>
+          <AssessmentStepPrompt state={state} />
+          {!angles && <p className="text-[10px] text-yellow-400">Waiting for the subject's pose...</p>}
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => assessmentRef.current && applyState(assessmentRef.current.redo(Date.now()))}>
+              Redo step
+            </Button>
+            <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => assessmentRef.current && applyState(assessmentRef.current.skip(Date.now()))}>
+              Skip
+            </Button>
+            <Button size="sm" variant="ghost" className="h-7 text-xs ml-auto" onClick={cancel}>
+              Cancel
+            </Button>
+          </div>
+        </>
+      ) : results ? (
+        <>
+          {results.length === 0 ? (
+            <p className="text-xs text-white/60">No angles were captured - keep the subject fully in frame and run it again.</p>
+          ) : (
+            results.map(test => (
+              <div key={test.test_id} className="space-y-1">
+                <div className="text-xs font-medium text-white">{test.test_name}</div>
+                {test.measures.map(m => {
+                  const change = changeFor(test.test_id, m.measure, m.side)
+                  return (
+                    <div key={`${m.measure}-${m.side}`} className="flex items-center justify-between text-xs text-white/60">
+                      <span>{m.label}{m.side !== "both" && ` (${m.side})`}</span>
+                      <span>
+                        <span className={STATUS_COLORS[m.status]}>{Math.round(m.value_deg)}°</span>
+                        {change && (
+                          <span className={`ml-2 text-[10px] ${change.improved ? "text-green-400" : "text-red-400"}`}>
+                            {change.changeDeg > 0 ? "+" : ""}{Math.round(change.changeDeg)}°
+                          </span>
+                        )}
+                      </span>
+                    </div>
+                  )
+                })}
+                {test.asymmetries.map(a => (
+                  <div key={a.measure} className="text-[10px] text-red-300">
+                    {a.label} differs {Math.round(a.difference_deg)}° left vs right
+                  </div>
+                ))}
+              </div>
+            ))
+          )}
+          <p className="text-[10px] text-white/40">
+            <span className="text-green-400">Normal</span> · <span className="text-yellow-400">limited</span> · <span className="text-red-400">excessive</span> vs typical adult ranges{previous && " · change since last assessment"}
+          </p>
+          <div className="flex gap-2">
+            {results.length > 0 && (
+              <Button size="sm" className="h-7 text-xs" onClick={save} disabled={isSaving}>
+                {isSaving ? "Saving..." : "Save assessment"}
+              </Button>
+            )}
+            <Button size="sm" variant="ghost" className="h-7 text-xs ml-auto" onClick={() => { setResults(null); cancel() }}>
+              Discard
+            </Button>
+          </div>
+          {saveMessage && <p className="text-[10px] text-white/60">{saveMessage}</p>}
+        </>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            {ROM_TEST_ORDER.map(testId => (
+              <label key={testId} className="flex items-center gap-2 text-xs text-white/80">
+                <Checkbox
+                  checked={selectedTests.includes(testId)}
+                  onCheckedChange={checked => toggleTest(testId, checked === true)}
+                />
+                {ROM_TESTS[testId].name}
+              </label>
+            ))}
+          </div>
+          <Button size="sm" className="h-7 text-xs" onClick={start} disabled={selectedTests.length === 0}>
+            Start assessment
+          </Button>
+          {saveMessage && <p className="text-[10px] text-white/60">{saveMessage}</p>}
+        </>
+      )}
+    </div>
+  )
+}
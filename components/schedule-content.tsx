@@ -144,7 +144,7 @@ export default function ScheduleContent() {
           title: dbSession.title,
           date: sessionDate,
           time: timeString,
-          type: dbSession.session_type === "single" ? "1:1" : dbSession.session_type === "mocap" ? "mocap" : "group",
+          type: dbSession.session_type === "single" ? "1:1" : dbSession.session_type === "mocap" ? "mocap" : dbSession.session_type === "video_upload" ? "video" : dbSession.session_type === "screening" ? "screen" : "group",
           clients: clients,
           link: `/session/${dbSession.session_id}`,
           status: dbSession.status || "scheduled",
@@ -424,7 +424,7 @@ export default function ScheduleContent() {
                                   </div>
                                   <h3 className="text-base font-medium text-foreground mb-1">{session.title}</h3>
                                   <p className="text-xs text-muted-foreground">
-                                    {session.type === "1:1" ? "Virtual 1:1 Session" : session.type === "mocap" ? "In-Person 1:1 Motion Capture Session" : "Virtual Group Session"}
+                                    {session.type === "1:1" ? "Virtual 1:1 Session" : session.type === "mocap" ? "In-Person 1:1 Motion Capture Session" : session.type === "video" ? "Uploaded Video Analysis" : session.type === "screen" ? "Virtual 1:1 Movement Screen" : "Virtual Group Session"}
                                   </p>
                                 </div>
                               </div>
@@ -513,7 +513,7 @@ export default function ScheduleContent() {
                               >
                                 <div
                                   className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${
-                                    firstSession.type === "1:1" ? "bg-blue-500" : firstSession.type === "mocap" ? "bg-orange-500" : "bg-purple-500"
+                                    firstSession.type === "1:1" ? "bg-blue-500" : firstSession.type === "mocap" ? "bg-orange-500" : firstSession.type === "video" ? "bg-teal-500" : firstSession.type === "screen" ? "bg-pink-500" : "bg-purple-500"
                                   }`}
                                 />
                                 <span className="text-muted-foreground flex-shrink-0">{firstSession.time}</span>
@@ -584,7 +584,7 @@ export default function ScheduleContent() {
                 <div className="flex items-start gap-3">
                   <div
                     className={`w-3 h-3 rounded-full flex-shrink-0 mt-1 ${
-                      session.type === "1:1" ? "bg-blue-500" : session.type === "mocap" ? "bg-orange-500" : "bg-purple-500"
+                      session.type === "1:1" ? "bg-blue-500" : session.type === "mocap" ? "bg-orange-500" : session.type === "video" ? "bg-teal-500" : session.type === "screen" ? "bg-pink-500" : "bg-purple-500"
                     }`}
                   />
                   <div className="flex-1 min-w-0">
@@ -593,7 +593,7 @@ export default function ScheduleContent() {
                     </div>
                     <h3 className="text-base font-medium text-foreground mb-1">{session.title}</h3>
                     <p className="text-xs text-muted-foreground">
-                      {session.type === "1:1" ? "Virtual 1:1 Session" : session.type === "mocap" ? "In-Person 1:1 Motion Capture Session" : "Virtual Group Session"}
+                      {session.type === "1:1" ? "Virtual 1:1 Session" : session.type === "mocap" ? "In-Person 1:1 Motion Capture Session" : session.type === "video" ? "Uploaded Video Analysis" : session.type === "screen" ? "Virtual 1:1 Movement Screen" : "Virtual Group Session"}
                     </p>
                   </div>
                 </div>
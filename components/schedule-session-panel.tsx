@@ -43,6 +43,7 @@ export default function ScheduleSessionPanel({ isOpen, onClose, onAddSession }:
     duration: "60",
     notes: "",
     selectedClients: [] as string[],
+    useBlazePose: false,
   })
 
   const [clients, setClients] = useState<Client[]>([])
@@ -137,9 +138,10 @@ export default function ScheduleSessionPanel({ isOpen, onClose, onAddSession }:
           date: sessionDate,
           time: sessionTime,
           duration: formData.duration,
-          sessionType: formData.sessionType === "virtual-1:1" ? "single" : formData.sessionType === "virtual-group" ? "group" : "mocap",
+          sessionType: formData.sessionType === "virtual-1:1" ? "single" : formData.sessionType === "virtual-group" ? "group" : formData.sessionType === "screening-1:1" ? "screening" : "mocap",
           subjectIds: formData.selectedClients,
           notes: formData.notes || undefined,
+          poseBackend: formData.sessionType === "mocap-1:1" && formData.useBlazePose ? "blazepose" : undefined,
         }),
       })
 
@@ -168,7 +170,7 @@ export default function ScheduleSessionPanel({ isOpen, onClose, onAddSession }:
         title: formData.title,
         date: sessionDateObj,
         time: timeString,
-        type: formData.sessionType === "virtual-1:1" ? "1:1" : formData.sessionType === "virtual-group" ? "group" : "mocap",
+        type: formData.sessionType === "virtual-1:1" ? "1:1" : formData.sessionType === "virtual-group" ? "group" : formData.sessionType === "screening-1:1" ? "screen" : "mocap",
         clients: clientNames,
         link: `/session/${data.session_id}`,
         status: "scheduled" as const,
@@ -185,6 +187,7 @@ export default function ScheduleSessionPanel({ isOpen, onClose, onAddSession }:
         duration: "60",
         notes: "",
         selectedClients: [],
+        useBlazePose: false,
       })
       setGeneratedLink("")
       onClose()
@@ -201,8 +204,8 @@ export default function ScheduleSessionPanel({ isOpen, onClose, onAddSession }:
   }
 
   const toggleClient = (clientId: string) => {
-    if (formData.sessionType === "virtual-1:1" || formData.sessionType === "mocap-1:1") {
-      // For 1:1 sessions (virtual or mocap), replace the selection with the new client
+    if (formData.sessionType !== "virtual-group") {
+      // For 1:1 sessions (virtual, mocap or screening), replace the selection with the new client
       setFormData((prev) => ({
         ...prev,
         selectedClients: prev.selectedClients.includes(clientId) ? [] : [clientId],
@@ -304,7 +307,30 @@ export default function ScheduleSessionPanel({ isOpen, onClose, onAddSession }:
                   >
                     In-Person 1:1 Motion Capture Session
                   </Button>
+                  <Button
+                    type="button"
+                    variant={formData.sessionType === "screening-1:1" ? "default" : "outline"}
+                    onClick={() => handleInputChange("sessionType", "screening-1:1")}
+                    className="w-full justify-start"
+                  >
+                    Virtual 1:1 Movement Screen
+                  </Button>
                 </div>
+                {formData.sessionType === "mocap-1:1" && (
+                  <div className="flex items-start space-x-3 pt-2">
+                    <Checkbox
+                      id="use-blazepose"
+                      checked={formData.useBlazePose}
+                      onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, useBlazePose: checked === true }))}
+                    />
+                    <Label htmlFor="use-blazepose" className="cursor-pointer">
+                      <div className="font-medium">Use BlazePose</div>
+                      <div className="text-xs text-muted-foreground">
+                        Adds heel and toe landmarks, but tracks only one person - leave off if anyone else may be in frame
+                      </div>
+                    </Label>
+                  </div>
+                )}
               </div>
 
               <div className="flex flex-col xl:flex-row gap-4">
@@ -402,10 +428,12 @@ export default function ScheduleSessionPanel({ isOpen, onClose, onAddSession }:
 
               <div className="flex items-center justify-between gap-4">
                 <p className="text-sm text-muted-foreground flex-1">
-                  {formData.sessionType === "virtual-1:1" || formData.sessionType === "mocap-1:1"
+                  {formData.sessionType !== "virtual-group"
                     ? formData.sessionType === "mocap-1:1"
                       ? "Select one client for this In-Person Motion Capture session"
-                      : "Select one client for this 1:1 session"
+                      : formData.sessionType === "screening-1:1"
+                        ? "Select one client to screen"
+                        : "Select one client for this 1:1 session"
                     : "Select multiple clients for this group session"}
                 </p>
                 <Button
@@ -438,7 +466,7 @@ export default function ScheduleSessionPanel({ isOpen, onClose, onAddSession }:
                   clients.map((client) => {
                     const isSelected = formData.selectedClients.includes(client.subject_id)
                     const isDisabled =
-                      (formData.sessionType === "virtual-1:1" || formData.sessionType === "mocap-1:1") && formData.selectedClients.length > 0 && !isSelected
+                      formData.sessionType !== "virtual-group" && formData.selectedClients.length > 0 && !isSelected
 
                     return (
                       <div
@@ -1,7 +1,7 @@
 "use client"
 
 import Link from "next/link"
-import { Calendar, Clock, Users, LinkIcon, Video, ChevronRight, User, Download, Loader2, UserPlus } from "lucide-react"
+import { Calendar, Clock, Users, LinkIcon, Video, ChevronRight, User, Download, Loader2, UserPlus, PlayCircle } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog"
@@ -14,7 +14,7 @@ interface Session {
   title: string
   date: Date
   time: string
-  type: "1:1" | "group"
+  type: "1:1" | "group" | "mocap" | "video" | "screen"
   clients: string[]
   link: string
   status: "scheduled" | "completed" | "cancelled"
@@ -340,7 +340,7 @@ export default function SessionDetailsPanel({ session, onClose }: SessionDetails
         <div className="sticky top-0 z-10 bg-muted border-b border-border/30 px-4 md:px-6 py-4 pr-16 md:pr-6 pt-16 md:pt-4">
           <h2 className="text-xl md:text-2xl font-bold text-foreground">{session.title}</h2>
           <Badge variant={session.type === "group" ? "default" : "secondary"} className="mt-2">
-            {session.type === "group" ? "Virtual Group Session" : session.type === "mocap" ? "In-Person 1:1 Motion Capture Session" : "Virtual 1:1 Session"}
+            {session.type === "group" ? "Virtual Group Session" : session.type === "mocap" ? "In-Person 1:1 Motion Capture Session" : session.type === "video" ? "Uploaded Video Analysis" : session.type === "screen" ? "Virtual 1:1 Movement Screen" : "Virtual 1:1 Session"}
           </Badge>
         </div>
 
@@ -432,25 +432,33 @@ export default function SessionDetailsPanel({ session, onClose }: SessionDetails
           {/* Action Buttons */}
           <div className="space-y-3 pt-4 border-t border-border">
             {isExpired() ? (
-              // Expired session - show download button
-              <Button 
-                className="w-full gap-2" 
-                size="lg"
-                onClick={handleDownloadSummary}
-                disabled={isDownloading}
-              >
-                {isDownloading ? (
-                  <>
-                    <Loader2 className="size-5 animate-spin" />
-                    Downloading...
-                  </>
-                ) : (
-                  <>
-                    <Download className="size-5" />
-                    Download Session Summary Report
-                  </>
-                )}
-              </Button>
+              // Expired session - show download and review buttons
+              <>
+                <Button 
+                  className="w-full gap-2" 
+                  size="lg"
+                  onClick={handleDownloadSummary}
+                  disabled={isDownloading}
+                >
+                  {isDownloading ? (
+                    <>
+                      <Loader2 className="size-5 animate-spin" />
+                      Downloading...
+                    </>
+                  ) : (
+                    <>
+                      <Download className="size-5" />
+                      Download Session Summary Report
+                    </>
+                  )}
+                </Button>
+                <Link href={`/session/${session.id}/review`} className="block">
+                  <Button variant="secondary" className="w-full gap-2" size="lg">
+                    <PlayCircle className="size-5" />
+                    Review Movement Replay
+                  </Button>
+                </Link>
+              </>
             ) : (
               // Active session - show join button
               <Link href={session.link} className="block">
@@ -0,0 +1,467 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Bookmark, ChevronLeft, ChevronRight, Download, GitCompare, Loader2, Pause, Play, Trash2 } from "lucide-react"
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import type { BiomechanicalAngles } from "@/lib/pose-detection"
+import type { PoseTrackChunkPayload } from "@/lib/dynamodb-pose-tracks"
+import type { SessionBookmark } from "@/lib/dynamodb-session-bookmarks"
+import { drawPoseOverlay, getVideoContentRect, OVERLAY_FAULT_HOLD_MS } from "@/lib/pose-overlay"
+import { decodeStoredFrames } from "@/lib/pose-stream"
+import { faultsAt, findFrameIndex, mergePoseTrackChunks, POSE_TRACK_ANGLE_LABELS, type PoseTrackFrame } from "@/lib/pose-tracks"
+
+interface SessionReviewProps {
+  sessionId: string
+  sessionTitle: string
+}
+
+type AngleKey = keyof BiomechanicalAngles
+
+const PLAYBACK_RATES = [0.25, 0.5, 1, 2]
+const MAX_CHART_POINTS = 600
+const MAX_FRAME_GAP_MS = 500 // Beyond this the person wasn't tracked - no skeleton is drawn
+const DEFAULT_ANGLES: AngleKey[] = ["leftKnee", "rightKnee"]
+const LINE_COLORS = ["#22d3ee", "#f472b6", "#a3e635", "#facc15", "#818cf8", "#fb923c"]
+
+const formatClock = (ms: number) => {
+  const totalSeconds = Math.max(0, ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = (totalSeconds % 60).toFixed(2).padStart(5, "0")
+  return `${minutes}:${seconds}`
+}
+
+// A stored chunk with its frames decoded
+type ReviewChunk = Omit<PoseTrackChunkPayload, "stream" | "frames"> & { frames: PoseTrackFrame[] }
+
+// Decode a chunk's pose stream (legacy chunks carry JSON frames); unreadable chunks are skipped
+const toReviewChunk = ({ stream, frames, ...chunk }: PoseTrackChunkPayload): ReviewChunk[] => {
+  try {
+    return [{ ...chunk, frames: decodeStoredFrames({ stream, frames }) }]
+  } catch (error) {
+    console.warn(`[Session Review] ⚠️ Skipping unreadable pose track chunk ${chunk.chunk_id}:`, error)
+    return []
+  }
+}
+
+// Post-session review: scrub / replay a participant's recorded skeleton, plot angles over time, bookmark moments
+export function SessionReview({ sessionId, sessionTitle }: SessionReviewProps) {
+  const [chunks, setChunks] = useState<ReviewChunk[]>([])
+  const [bookmarks, setBookmarks] = useState<SessionBookmark[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [participantId, setParticipantId] = useState<string | null>(null)
+  const [playheadMs, setPlayheadMs] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [playbackRate, setPlaybackRate] = useState(1)
+  const [selectedAngles, setSelectedAngles] = useState<AngleKey[]>(DEFAULT_ANGLES)
+  const [note, setNote] = useState("")
+  const [isSavingBookmark, setIsSavingBookmark] = useState(false)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [tracksResponse, bookmarksResponse] = await Promise.all([
+          fetch(`/api/sessions/${sessionId}/pose-tracks`),
+          fetch(`/api/sessions/${sessionId}/bookmarks`),
+        ])
+        if (!tracksResponse.ok) {
+          throw new Error("Failed to load pose tracks")
+        }
+        const tracksData = await tracksResponse.json()
+        const loadedChunks = ((tracksData.chunks || []) as PoseTrackChunkPayload[]).flatMap(toReviewChunk)
+        setChunks(loadedChunks)
+        setParticipantId(current => current || loadedChunks[0]?.participant_id || null)
+        if (bookmarksResponse.ok) {
+          const bookmarksData = await bookmarksResponse.json()
+          setBookmarks(bookmarksData.bookmarks || [])
+        }
+      } catch (err: any) {
+        console.error("[Session Review] Error loading session review:", err)
+        setError(err.message || "Failed to load session review")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    load()
+  }, [sessionId])
+
+  // Everyone with a recorded track
+  const participants = useMemo(() => {
+    const names = new Map<string, string>()
+    chunks.forEach(chunk => names.set(chunk.participant_id, chunk.participant_name || chunk.participant_id))
+    return Array.from(names.entries()).map(([id, name]) => ({ id, name }))
+  }, [chunks])
+
+  const participantChunks = useMemo(
+    () => chunks.filter(chunk => chunk.participant_id === participantId),
+    [chunks, participantId]
+  )
+  const frames = useMemo(() => mergePoseTrackChunks(participantChunks), [participantChunks])
+  const aspectRatio = participantChunks[0]?.aspect_ratio || 16 / 9
+  const startMs = frames[0]?.timestamp ?? 0
+  const endMs = frames[frames.length - 1]?.timestamp ?? 0
+  const durationMs = endMs - startMs
+
+  // Start at the beginning whenever another participant's track is loaded
+  useEffect(() => {
+    setIsPlaying(false)
+    setPlayheadMs(startMs)
+  }, [participantId, startMs])
+
+  const frameIndex = findFrameIndex(frames, playheadMs)
+  const frame: PoseTrackFrame | undefined = frames[frameIndex]
+  const isTracked = !!frame && Math.abs(frame.timestamp - playheadMs) <= MAX_FRAME_GAP_MS
+
+  // Playback advances the playhead in real time (scaled by the playback rate)
+  useEffect(() => {
+    if (!isPlaying) return
+    let animationFrame = 0
+    let last = performance.now()
+    const tick = (now: number) => {
+      const elapsed = (now - last) * playbackRate
+      last = now
+      setPlayheadMs(current => {
+        const next = current + elapsed
+        if (next >= endMs) {
+          setIsPlaying(false)
+          return endMs
+        }
+        return next
+      })
+      animationFrame = requestAnimationFrame(tick)
+    }
+    animationFrame = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(animationFrame)
+  }, [isPlaying, playbackRate, endMs])
+
+  const seek = useCallback((timestamp: number) => {
+    setPlayheadMs(Math.min(endMs, Math.max(startMs, timestamp)))
+  }, [startMs, endMs])
+
+  const stepFrame = (direction: 1 | -1) => {
+    setIsPlaying(false)
+    const target = frames[Math.min(frames.length - 1, Math.max(0, frameIndex + direction))]
+    if (target) setPlayheadMs(target.timestamp)
+  }
+
+  // Draw the skeleton of the current frame
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) return
+
+    const dpr = window.devicePixelRatio || 1
+    const width = canvas.clientWidth
+    const height = canvas.clientHeight
+    canvas.width = Math.round(width * dpr)
+    canvas.height = Math.round(height * dpr)
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+    ctx.clearRect(0, 0, width, height)
+    if (!frame || !isTracked) return
+
+    const rect = getVideoContentRect(aspectRatio * 1000, 1000, width, height, "contain")
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.1)"
+    ctx.strokeRect(rect.x, rect.y, rect.width, rect.height)
+    drawPoseOverlay(
+      ctx,
+      {
+        keypoints: frame.keypoints.map(([x, y, visibility]) => ({ x, y, visibility })),
+        angles: frame.angles,
+        faults: faultsAt(frames, frameIndex, OVERLAY_FAULT_HOLD_MS),
+      },
+      (point) => ({ x: rect.x + point.x * rect.width, y: rect.y + point.y * rect.height })
+    )
+  }, [frame, frames, frameIndex, isTracked, aspectRatio])
+
+  // Angle curves, downsampled so long sessions stay responsive
+  const chartData = useMemo(() => {
+    const step = Math.max(1, Math.ceil(frames.length / MAX_CHART_POINTS))
+    return frames
+      .filter((_, i) => i % step === 0)
+      .map(f => ({ t: (f.timestamp - startMs) / 1000, ...f.angles }))
+  }, [frames, startMs])
+
+  const availableAngles = useMemo(() => {
+    const keys = new Set<AngleKey>()
+    frames.forEach(f => (Object.keys(f.angles) as AngleKey[]).forEach(key => keys.add(key)))
+    return (Object.keys(POSE_TRACK_ANGLE_LABELS) as AngleKey[]).filter(key => keys.has(key))
+  }, [frames])
+
+  const toggleAngle = (angle: AngleKey) => {
+    setSelectedAngles(current =>
+      current.includes(angle) ? current.filter(a => a !== angle) : [...current, angle]
+    )
+  }
+
+  const participantBookmarks = bookmarks.filter(b => b.participant_id === participantId)
+
+  const addBookmark = async () => {
+    if (!participantId || !frame) return
+    setIsSavingBookmark(true)
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/bookmarks`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ participantId, timestampMs: frame.timestamp, note }),
+      })
+      if (!response.ok) {
+        throw new Error("Failed to save bookmark")
+      }
+      const data = await response.json()
+      setBookmarks(current => [...current, data.bookmark].sort((a, b) => a.timestamp_ms - b.timestamp_ms))
+      setNote("")
+    } catch (err) {
+      console.error("[Session Review] Error saving bookmark:", err)
+    } finally {
+      setIsSavingBookmark(false)
+    }
+  }
+
+  const deleteBookmark = async (bookmarkId: string) => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/bookmarks?bookmarkId=${encodeURIComponent(bookmarkId)}`, {
+        method: "DELETE",
+      })
+      if (!response.ok) {
+        throw new Error("Failed to delete bookmark")
+      }
+      setBookmarks(current => current.filter(b => b.bookmark_id !== bookmarkId))
+    } catch (err) {
+      console.error("[Session Review] Error deleting bookmark:", err)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="text-center">
+          <Loader2 className="h-12 w-12 animate-spin text-primary mx-auto mb-4" />
+          <p className="text-muted-foreground">Loading session review...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || frames.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="text-center">
+          <p className="text-muted-foreground mb-4">{error || "No pose data was recorded for this session."}</p>
+          <a href="/" className="text-primary hover:underline">
+            Return to schedule
+          </a>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-6xl mx-auto space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <a href="/" className="text-sm text-muted-foreground hover:underline">← Schedule</a>
+            <h1 className="text-2xl font-semibold">{sessionTitle || "Session"} · Review</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            {participants.length > 1 && (
+              <Select value={participantId || undefined} onValueChange={setParticipantId}>
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="Participant" />
+                </SelectTrigger>
+                <SelectContent>
+                  {participants.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/compare?a=${sessionId}&aParticipant=${encodeURIComponent(participantId || "")}`}>
+                <GitCompare className="h-4 w-4 mr-2" />
+                Compare
+              </a>
+            </Button>
+            {/* Decoded tracks as JSON for use in other tools */}
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/api/sessions/${sessionId}/pose-tracks?format=json`} download>
+                <Download className="h-4 w-4 mr-2" />
+                Export JSON
+              </a>
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid gap-4 lg:grid-cols-[2fr_1fr]">
+          <Card className="p-4 space-y-3">
+            {/* Skeleton replay */}
+            <div className="relative w-full bg-black rounded-lg overflow-hidden" style={{ aspectRatio: `${aspectRatio}` }}>
+              <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+              {!isTracked && (
+                <div className="absolute inset-0 flex items-center justify-center text-sm text-white/50">Not tracked at this moment</div>
+              )}
+            </div>
+
+            {/* Timeline */}
+            <div className="relative">
+              <input
+                type="range"
+                min={startMs}
+                max={endMs}
+                step={1}
+                value={playheadMs}
+                onChange={(e) => {
+                  setIsPlaying(false)
+                  seek(Number(e.target.value))
+                }}
+                className="w-full accent-primary"
+              />
+              {/* Bookmark markers */}
+              {durationMs > 0 && participantBookmarks.map(b => (
+                <button
+                  key={b.bookmark_id}
+                  className="absolute -top-2 h-2 w-2 -translate-x-1/2 rounded-full bg-amber-400"
+                  style={{ left: `${((b.timestamp_ms - startMs) / durationMs) * 100}%` }}
+                  title={b.note || formatClock(b.timestamp_ms - startMs)}
+                  onClick={() => seek(b.timestamp_ms)}
+                />
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button size="icon" variant="outline" onClick={() => stepFrame(-1)} title="Previous frame">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button size="icon" onClick={() => {
+                if (playheadMs >= endMs) seek(startMs)
+                setIsPlaying(playing => !playing)
+              }}>
+                {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </Button>
+              <Button size="icon" variant="outline" onClick={() => stepFrame(1)} title="Next frame">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Select value={String(playbackRate)} onValueChange={(value) => setPlaybackRate(Number(value))}>
+                <SelectTrigger className="w-20 h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PLAYBACK_RATES.map(rate => (
+                    <SelectItem key={rate} value={String(rate)}>{rate}×</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="ml-auto font-mono text-sm text-muted-foreground">
+                {formatClock(playheadMs - startMs)} / {formatClock(durationMs)} · frame {frameIndex + 1}/{frames.length}
+              </span>
+            </div>
+          </Card>
+
+          <div className="space-y-4">
+            {/* Current frame angles */}
+            <Card className="p-4">
+              <h2 className="text-sm font-semibold mb-2">Angles at this frame</h2>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                {availableAngles.map(angle => (
+                  <div key={angle} className="flex justify-between">
+                    <span className="text-muted-foreground">{POSE_TRACK_ANGLE_LABELS[angle]}</span>
+                    <span className="font-medium">
+                      {isTracked && frame?.angles[angle] !== undefined ? `${Math.round(frame.angles[angle]!)}°` : "-"}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </Card>
+
+            {/* Bookmarks */}
+            <Card className="p-4 space-y-3">
+              <h2 className="text-sm font-semibold">Bookmarks</h2>
+              <Textarea
+                placeholder="Note for this moment"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="min-h-[60px]"
+              />
+              <Button size="sm" className="w-full" onClick={addBookmark} disabled={isSavingBookmark || !isTracked}>
+                <Bookmark className="h-4 w-4 mr-2" />
+                Bookmark {formatClock(playheadMs - startMs)}
+              </Button>
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {participantBookmarks.length === 0 && (
+                  <p className="text-xs text-muted-foreground">No bookmarks yet</p>
+                )}
+                {participantBookmarks.map(b => (
+                  <div key={b.bookmark_id} className="flex items-start gap-2 rounded-md border p-2 text-sm">
+                    <button className="flex-1 text-left" onClick={() => { setIsPlaying(false); seek(b.timestamp_ms) }}>
+                      <span className="font-mono text-xs text-primary">{formatClock(b.timestamp_ms - startMs)}</span>
+                      {b.note && <p className="text-muted-foreground">{b.note}</p>}
+                    </button>
+                    <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => deleteBookmark(b.bookmark_id)}>
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          </div>
+        </div>
+
+        {/* Angles over time */}
+        <Card className="p-4 space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {availableAngles.map(angle => (
+              <Button
+                key={angle}
+                size="sm"
+                variant={selectedAngles.includes(angle) ? "default" : "outline"}
+                className="h-7 text-xs"
+                onClick={() => toggleAngle(angle)}
+              >
+                {POSE_TRACK_ANGLE_LABELS[angle]}
+              </Button>
+            ))}
+          </div>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart
+                data={chartData}
+                onClick={(state) => {
+                  if (state?.activeLabel !== undefined) {
+                    setIsPlaying(false)
+                    seek(startMs + Number(state.activeLabel) * 1000)
+                  }
+                }}
+              >
+                <CartesianGrid strokeDasharray="3 3" opacity={0.2} />
+                <XAxis dataKey="t" type="number" domain={[0, durationMs / 1000]} tickFormatter={(t) => `${Math.round(t)}s`} />
+                <YAxis unit="°" width={48} />
+                <Tooltip labelFormatter={(t) => formatClock(Number(t) * 1000)} formatter={(value: number) => `${value}°`} />
+                {selectedAngles.filter(angle => availableAngles.includes(angle)).map((angle, i) => (
+                  <Line
+                    key={angle}
+                    type="monotone"
+                    dataKey={angle}
+                    name={POSE_TRACK_ANGLE_LABELS[angle]}
+                    stroke={LINE_COLORS[i % LINE_COLORS.length]}
+                    dot={false}
+                    isAnimationActive={false}
+                    connectNulls={false}
+                  />
+                ))}
+                {participantBookmarks.map(b => (
+                  <ReferenceLine key={b.bookmark_id} x={(b.timestamp_ms - startMs) / 1000} stroke="#fbbf24" strokeDasharray="4 2" />
+                ))}
+                <ReferenceLine x={(playheadMs - startMs) / 1000} stroke="#ef4444" />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </Card>
+      </div>
+    </div>
+  )
+}
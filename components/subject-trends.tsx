@@ -0,0 +1,134 @@
+"use client"
+
+import { useState } from "react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CartesianGrid, Legend, Line, LineChart, ReferenceDot, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { TrendingUp } from "lucide-react"
+import type { SubjectTrends, TrendMetricId, TrendSeries } from "@/lib/subject-trends"
+
+interface SubjectTrendsChartProps {
+  trends: SubjectTrends | null
+  isLoading: boolean
+}
+
+const RISK_LABELS: Record<number, string> = { 1: "Low", 2: "Medium", 3: "High" }
+
+const formatValue = (series: TrendSeries, value: number) =>
+  series.metric === "risk" ? RISK_LABELS[Math.round(value)] || `${value}` : `${value}${series.unit}`
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString("en-US", { month: "short", day: "numeric" })
+
+// Whether a change is an improvement depends on the metric's direction
+const changeColor = (series: TrendSeries, direction: "up" | "down") =>
+  (direction === "up") === series.higher_is_better ? "text-green-600" : "text-red-600"
+
+// Session-over-session trends with a rolling average and flagged change points
+export function SubjectTrendsChart({ trends, isLoading }: SubjectTrendsChartProps) {
+  const [metric, setMetric] = useState<TrendMetricId>("balance")
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading trends...</p>
+  }
+  if (!trends || trends.series.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No trends yet - generate session insights, or save a ROM assessment or movement screen.
+      </p>
+    )
+  }
+
+  const selected = trends.series.find(series => series.metric === metric) || trends.series[0]
+  const chartData = selected.points.map((point, i) => ({
+    index: i,
+    date: formatDate(point.date),
+    value: point.value,
+    rollingAverage: point.rolling_average,
+  }))
+  const changePoints = selected.points
+    .map((point, i) => ({ ...point, index: i }))
+    .filter(point => point.change_point !== null)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold flex items-center gap-2">
+          <TrendingUp className="h-4 w-4 text-primary" />
+          Trends Across Sessions
+        </h3>
+        <Select value={selected.metric} onValueChange={value => setMetric(value as TrendMetricId)}>
+          <SelectTrigger className="w-56 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {trends.series.map(series => (
+              <SelectItem key={series.metric} value={series.metric}>{series.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" opacity={0.2} />
+            <XAxis dataKey="index" tickFormatter={(i: number) => chartData[i]?.date ?? ""} />
+            <YAxis
+              width={64}
+              domain={selected.metric === "risk" ? [1, 3] : ["auto", "auto"]}
+              allowDecimals={selected.metric !== "risk"}
+              tickFormatter={(value: number) => formatValue(selected, value)}
+            />
+            <Tooltip
+              labelFormatter={(i: number) => chartData[i]?.date ?? ""}
+              formatter={(value: number) => formatValue(selected, value)}
+            />
+            <Legend />
+            <Line type="monotone" dataKey="value" name={selected.label} stroke="#22d3ee" isAnimationActive={false} />
+            <Line
+              type="monotone"
+              dataKey="rollingAverage"
+              name="Rolling average"
+              stroke="#a3e635"
+              strokeDasharray="4 4"
+              dot={false}
+              isAnimationActive={false}
+            />
+            {changePoints.map(point => (
+              <ReferenceDot
+                key={point.index}
+                x={point.index}
+                y={point.value}
+                r={6}
+                fill="none"
+                stroke={(point.change_point === "up") === selected.higher_is_better ? "#22c55e" : "#ef4444"}
+                strokeWidth={2}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        <span>
+          {selected.points.length} {selected.source === "session" ? "session" : selected.source === "rom_assessment" ? "assessment" : "screen"}
+          {selected.points.length === 1 ? "" : "s"}
+        </span>
+        {selected.change !== null && selected.metric !== "risk" && (
+          <span className={selected.change === 0 ? "" : changeColor(selected, selected.change > 0 ? "up" : "down")}>
+            {selected.change > 0 ? "+" : ""}{selected.change}{selected.unit} since the first (rolling average)
+          </span>
+        )}
+      </div>
+
+      {changePoints.length > 0 && (
+        <div className="space-y-1">
+          {changePoints.map(point => (
+            <p key={point.index} className={`text-xs ${changeColor(selected, point.change_point!)}`}>
+              {formatDate(point.date)}: {selected.label} shifted {point.change_point} to {formatValue(selected, point.value)}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
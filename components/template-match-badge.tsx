@@ -0,0 +1,44 @@
+"use client"
+
+import type { TemplateMatchSummary } from "@/lib/reference-templates"
+import { POSE_TRACK_ANGLE_LABELS } from "@/lib/pose-tracks"
+
+interface TemplateMatchBadgeProps {
+  templateMatch: TemplateMatchSummary
+  compact?: boolean // Smaller layout for the video overlay
+}
+
+const PHASE_LABELS = {
+  eccentric: "lowering",
+  bottom: "at the bottom",
+  concentric: "rising",
+}
+
+const matchColor = (match: number) =>
+  match >= 80 ? "text-green-400" : match >= 60 ? "text-amber-400" : "text-red-400"
+
+// "% match" of the last rep against the exercise's reference template, with the largest miss as a cue
+export function TemplateMatchBadge({ templateMatch, compact = false }: TemplateMatchBadgeProps) {
+  const last = templateMatch.lastMatch
+  if (!last) return null
+
+  return (
+    <div className={compact ? "space-y-1 text-xs" : "space-y-1"}>
+      <div className="flex items-baseline gap-2">
+        <span className={`${compact ? "text-sm" : "text-lg"} font-bold ${matchColor(last.match)}`}>{last.match}% match</span>
+        <span className="text-[10px] text-white/40">
+          rep {last.repIndex} · {templateMatch.exerciseName}
+          {templateMatch.averageMatch !== null && templateMatch.repsScored > 1 && <> · avg {templateMatch.averageMatch}% over {templateMatch.repsScored} reps</>}
+        </span>
+      </div>
+      <div className="text-[10px] text-white/60">
+        Angles {last.angleMatch}% · Tempo {last.tempoMatch}% · ROM {last.rangeOfMotionMatch}%
+      </div>
+      {last.worstAngle && (
+        <div className="text-[10px] text-white/40">
+          Furthest off: {POSE_TRACK_ANGLE_LABELS[last.worstAngle.angle]} {PHASE_LABELS[last.worstAngle.phase]} ({last.worstAngle.deviation}° outside the range)
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+"use client"
+
+import { Card } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Users } from "lucide-react"
+import { useRealtimeMetrics } from "@/lib/realtime-metrics-context"
+
+interface TrackedPeoplePanelProps {
+  subjects: Array<{ id: string; name: string }>
+  sourceNames: Record<string, string> // Video source (LiveKit identity) -> display name
+}
+
+const UNASSIGNED = "unassigned"
+
+// Lets the coach pin each tracked person in a video to a subject, so metrics are computed per athlete
+export function TrackedPeoplePanel({ subjects, sourceNames }: TrackedPeoplePanelProps) {
+  const { trackedPeople, trackAssignments, assignTrack } = useRealtimeMetrics()
+
+  // Only worth showing when a camera sees more than one person or pins already exist
+  const sources = Object.entries(trackedPeople).filter(([sourceId, tracks]) =>
+    tracks.length > 1 || Object.keys(trackAssignments[sourceId] || {}).length > 0
+  )
+
+  if (sources.length === 0 || subjects.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className="bg-black/80 backdrop-blur-sm border-white/20 p-4">
+      <div className="flex items-center gap-2 mb-1">
+        <Users className="h-4 w-4 text-primary" />
+        <h4 className="text-base font-semibold text-white">Tracked People</h4>
+      </div>
+      <p className="text-xs text-white/60 mb-4">
+        Multiple people detected. Pin each person to an athlete so their metrics are tracked separately.
+      </p>
+
+      <div className="space-y-4">
+        {sources.map(([sourceId, tracks]) => {
+          const assignments = trackAssignments[sourceId] || {}
+          return (
+            <div key={sourceId} className="space-y-2">
+              <div className="text-xs text-white/80 font-medium">
+                {sourceNames[sourceId] || sourceId}&apos;s camera
+              </div>
+              {tracks.length === 0 && (
+                <div className="text-xs text-white/40">Nobody in frame</div>
+              )}
+              {tracks.map((track) => (
+                <div key={track.trackId} className="flex items-center gap-3 bg-white/5 rounded-lg p-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-white font-semibold">Person #{track.trackId}</div>
+                    <div className="text-[10px] text-white/50">
+                      {track.bbox.x < 0.33 ? "Left" : track.bbox.x + track.bbox.width > 0.67 ? "Right" : "Center"} of frame · {Math.round(track.score * 100)}% confidence
+                    </div>
+                  </div>
+                  <Select
+                    value={assignments[track.trackId] || UNASSIGNED}
+                    onValueChange={(value) => assignTrack(sourceId, track.trackId, value === UNASSIGNED ? null : value)}
+                  >
+                    <SelectTrigger className="w-[160px] h-8 text-xs">
+                      <SelectValue placeholder="Assign athlete" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                      {subjects.map((subject) => (
+                        <SelectItem key={subject.id} value={subject.id}>
+                          {subject.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )
+        })}
+      </div>
+    </Card>
+  )
+}
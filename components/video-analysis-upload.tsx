@@ -0,0 +1,346 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { FileDown, Loader2, PlayCircle, Upload } from "lucide-react"
+import { analyzeVideoFile } from "@/lib/video-analysis-client"
+import type { VideoAnalysisWindow } from "@/lib/video-analysis"
+import type { PoseTrackChunk } from "@/lib/pose-tracks"
+import { encodePoseStream, poseStreamToBase64 } from "@/lib/pose-stream"
+import type { ExerciseTemplateSelection, ReferenceTemplate } from "@/lib/reference-templates"
+
+interface VideoAnalysisUploadProps {
+  subjectId: string
+  subjectName: string
+}
+
+type AnalysisStatus = "idle" | "analyzing" | "generating" | "complete" | "error"
+
+const MAX_FILE_SIZE_MB = 500
+const NO_TEMPLATE = "none"
+
+// Offline analysis of a phone clip: same pose pipeline, metrics, insights and report as a live session
+export function VideoAnalysisUpload({ subjectId, subjectName }: VideoAnalysisUploadProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [exerciseName, setExerciseName] = useState("")
+  const [templateExercises, setTemplateExercises] = useState<ExerciseTemplateSelection[]>([])
+  const [referenceTemplate, setReferenceTemplate] = useState<ExerciseTemplateSelection | null>(null)
+  const [status, setStatus] = useState<AnalysisStatus>("idle")
+  const [progress, setProgress] = useState(0)
+  const [message, setMessage] = useState<string | null>(null)
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  const [isDownloading, setIsDownloading] = useState(false)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // Catalog exercises with a reference template the clip's reps can be scored against
+  useEffect(() => {
+    let cancelled = false
+    fetch("/api/exercise-catalog")
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (cancelled || !data?.exercises) return
+        setTemplateExercises((data.exercises as Array<{ id: string; name: string; referenceTemplate?: ReferenceTemplate }>)
+          .filter(e => !!e.referenceTemplate)
+          .map(e => ({ exerciseId: e.id, exerciseName: e.name, template: e.referenceTemplate! })))
+      })
+      .catch(error => console.error("[Video Analysis] Error loading exercise templates:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const selectTemplate = (exerciseId: string) => {
+    const selection = templateExercises.find(e => e.exerciseId === exerciseId) || null
+    setReferenceTemplate(selection)
+    if (selection && !exerciseName.trim()) setExerciseName(selection.exerciseName)
+  }
+
+  const selectFile = (selected: File | null) => {
+    if (selected && selected.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
+      setMessage(`Video is larger than ${MAX_FILE_SIZE_MB} MB`)
+      return
+    }
+    setFile(selected)
+    setMessage(null)
+  }
+
+  // Same request the live panel sends: pose data to analyze-movement, then the metric with the measured extras
+  const saveWindow = async (currentSessionId: string, analysisWindow: VideoAnalysisWindow) => {
+    const response = await fetch("/api/ai/analyze-movement", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        poseData: analysisWindow.poseData.map(p => ({
+          timestamp: p.timestamp,
+          sequenceNumber: p.sequenceNumber,
+          keypoints: p.keypoints,
+          angles: p.angles,
+          metrics: p.metrics,
+        })),
+        participantName: subjectName,
+        participantId: subjectId,
+      }),
+    })
+    if (!response.ok) {
+      throw new Error(`Movement analysis failed (${response.status})`)
+    }
+    const { analysis } = await response.json()
+    if (!analysis) return
+
+    const saveResponse = await fetch("/api/ai-insights/save-metric", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        sessionId: currentSessionId,
+        participantId: subjectId,
+        participantName: subjectName,
+        balanceScore: analysis.balanceScore || 0,
+        symmetryScore: analysis.symmetryScore || 0,
+        posturalEfficiency: analysis.posturalEfficiency,
+        riskLevel: analysis.riskLevel,
+        postureMetrics: analysis.postureMetrics,
+        postureAngles: analysisWindow.postureAngles.frameCount > 0 ? analysisWindow.postureAngles : undefined,
+        movementQuality: analysis.movementQuality,
+        movementPatterns: analysis.movementPatterns,
+        movementConsistency: analysis.movementConsistency,
+        dynamicStability: analysis.dynamicStability,
+        repMetrics: analysisWindow.repSummary,
+        formFaults: analysisWindow.formFaults,
+        kinematics: analysisWindow.kinematics,
+        templateMatch: analysisWindow.templateMatch ?? undefined,
+        gait: analysisWindow.gaitStrides.length > 0 ? { strides: analysisWindow.gaitStrides, calibrated: false } : undefined,
+        timestamp: new Date(analysisWindow.endMs).toISOString(), // Clip time, so metrics keep the order of the video
+      }),
+    })
+    if (!saveResponse.ok) {
+      throw new Error(`Failed to save metric (${saveResponse.status})`)
+    }
+    console.log(`[Video Analysis] 💾 Saved metric for ${subjectId} (${analysisWindow.poseData.length} poses, ${analysisWindow.formFaults.length} fault(s))`)
+  }
+
+  const uploadChunks = (currentSessionId: string, chunks: PoseTrackChunk[], aspectRatio: number) => {
+    fetch(`/api/sessions/${currentSessionId}/pose-tracks`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        participantId: subjectId,
+        participantName: subjectName,
+        sourceId: subjectId,
+        aspectRatio,
+        chunks: chunks.map(chunk => ({
+          stream: poseStreamToBase64(encodePoseStream(chunk.frames, { participantId: subjectId, sourceId: subjectId, aspectRatio })),
+        })),
+      }),
+    })
+      .then(response => {
+        if (!response.ok) {
+          console.error(`[Video Analysis] ❌ Failed to save pose track: ${response.status}`)
+        }
+      })
+      .catch(error => console.error("[Video Analysis] ❌ Error saving pose track:", error))
+  }
+
+  const startAnalysis = async () => {
+    if (!file) return
+    setStatus("analyzing")
+    setProgress(0)
+    setMessage(null)
+    setSessionId(null)
+    const abortController = new AbortController()
+    abortRef.current = abortController
+
+    try {
+      // Duration is needed up front for the session record
+      const durationSeconds = await new Promise<number>((resolve, reject) => {
+        const probe = document.createElement("video")
+        probe.preload = "metadata"
+        probe.src = URL.createObjectURL(file)
+        probe.onloadedmetadata = () => {
+          URL.revokeObjectURL(probe.src)
+          resolve(probe.duration)
+        }
+        probe.onerror = () => {
+          URL.revokeObjectURL(probe.src)
+          reject(new Error("This video format is not supported by the browser"))
+        }
+      })
+
+      const createResponse = await fetch(`/api/subjects/${subjectId}/video-analyses`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fileName: file.name, durationSeconds, exerciseName: exerciseName.trim() || undefined }),
+      })
+      if (!createResponse.ok) {
+        const errorData = await createResponse.json().catch(() => ({}))
+        throw new Error(errorData.error || "Failed to start video analysis")
+      }
+      const { sessionId: newSessionId } = await createResponse.json()
+      setSessionId(newSessionId)
+      console.log(`[Video Analysis] 🎬 Analyzing ${file.name} (${Math.round(durationSeconds)}s) into session ${newSessionId}`)
+
+      let windowCount = 0
+      const result = await analyzeVideoFile(file, {
+        exerciseName: exerciseName.trim() || null,
+        referenceTemplate,
+        startedAt: Date.now() - Math.round(durationSeconds * 1000), // The clip "ends" now
+        signal: abortController.signal,
+        onProgress: setProgress,
+        onChunks: (chunks, aspectRatio) => uploadChunks(newSessionId, chunks, aspectRatio),
+        onWindow: async (analysisWindow) => {
+          windowCount++
+          await saveWindow(newSessionId, analysisWindow)
+        },
+      })
+      console.log(`[Video Analysis] ✅ ${result.framesTracked}/${result.framesAnalyzed} frames tracked, ${windowCount} metric window(s)`)
+
+      if (windowCount === 0) {
+        throw new Error("No person was detected in the video")
+      }
+
+      setStatus("generating")
+      const insightsResponse = await fetch("/api/ai-insights/generate-from-metrics", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId: newSessionId }),
+      })
+      if (!insightsResponse.ok) {
+        const errorData = await insightsResponse.json().catch(() => ({}))
+        throw new Error(errorData.error || "Failed to generate insights")
+      }
+      setStatus("complete")
+      setMessage(`Analyzed ${Math.round(durationSeconds)}s of video - ${Math.round((result.framesTracked / result.framesAnalyzed) * 100)}% of frames tracked`)
+    } catch (error: any) {
+      console.error("[Video Analysis] ❌ Analysis failed:", error)
+      setStatus("error")
+      setMessage(error.message || "Video analysis failed")
+    } finally {
+      abortRef.current = null
+    }
+  }
+
+  // Same two steps as the live session's export: build the summary, then fetch the PDF
+  const downloadReport = async () => {
+    if (!sessionId) return
+    setIsDownloading(true)
+    try {
+      const summaryResponse = await fetch("/api/ai-insights/export-summary", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId }),
+      })
+      if (!summaryResponse.ok) {
+        throw new Error("Failed to generate the report summary")
+      }
+      const pdfResponse = await fetch(`/api/ai-insights/download-pdf/${sessionId}`)
+      if (!pdfResponse.ok || !pdfResponse.headers.get("content-type")?.includes("application/pdf")) {
+        throw new Error("Failed to download the report")
+      }
+      const blob = await pdfResponse.blob()
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement("a")
+      a.href = url
+      a.download = `video-analysis-${sessionId}.pdf`
+      document.body.appendChild(a)
+      a.click()
+      window.URL.revokeObjectURL(url)
+      document.body.removeChild(a)
+    } catch (error: any) {
+      console.error("[Video Analysis] ❌ Report download failed:", error)
+      setMessage(error.message || "Failed to download the report")
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  const isBusy = status === "analyzing" || status === "generating"
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="video-analysis-file">Video (MP4)</Label>
+          <Input
+            id="video-analysis-file"
+            type="file"
+            accept="video/mp4,video/quicktime,video/webm"
+            disabled={isBusy}
+            onChange={e => selectFile(e.target.files?.[0] || null)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="video-analysis-exercise">Exercise (optional)</Label>
+          <Input
+            id="video-analysis-exercise"
+            placeholder="e.g. Back squat"
+            value={exerciseName}
+            disabled={isBusy}
+            onChange={e => setExerciseName(e.target.value)}
+          />
+        </div>
+        {templateExercises.length > 0 && (
+          <div className="space-y-2">
+            <Label>Reference template (optional)</Label>
+            <Select value={referenceTemplate?.exerciseId || NO_TEMPLATE} onValueChange={selectTemplate} disabled={isBusy}>
+              <SelectTrigger>
+                <SelectValue placeholder="Score reps against an exercise" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_TEMPLATE}>None</SelectItem>
+                {templateExercises.map(e => (
+                  <SelectItem key={e.exerciseId} value={e.exerciseId}>{e.exerciseName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      {isBusy && (
+        <div className="space-y-1">
+          <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+            <div className="h-full bg-primary transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {status === "analyzing" ? `Analyzing frames... ${Math.round(progress * 100)}%` : "Generating insights..."}
+          </p>
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-sm ${status === "error" ? "text-destructive" : "text-muted-foreground"}`}>{message}</p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {isBusy ? (
+          <Button variant="outline" onClick={() => abortRef.current?.abort()} disabled={status === "generating"}>
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Cancel
+          </Button>
+        ) : (
+          <Button onClick={startAnalysis} disabled={!file}>
+            <Upload className="h-4 w-4 mr-2" />
+            Analyze Video
+          </Button>
+        )}
+        {status === "complete" && sessionId && (
+          <>
+            <Button variant="outline" asChild>
+              <Link href={`/session/${sessionId}/review`}>
+                <PlayCircle className="h-4 w-4 mr-2" />
+                Review Movement
+              </Link>
+            </Button>
+            <Button variant="outline" onClick={downloadReport} disabled={isDownloading}>
+              {isDownloading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileDown className="h-4 w-4 mr-2" />}
+              Download Report
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,456 @@
+// Baseball throwing metrics - kinematic sequence, rotation and stride timing from pose keypoints
+import { POSE_LANDMARKS, type BiomechanicalAngles, type PoseKeypoint } from './pose-detection';
+
+export type ThrowingSide = 'left' | 'right';
+export type SequenceOrder = 'proper' | 'early_arm' | 'synchronous' | 'out_of_order';
+
+export interface BaseballMetrics {
+  // Kinematic Sequence - peak angular velocity of each segment
+  kinematicSequence: {
+    pelvisVelocity: number; // deg/s
+    torsoVelocity: number; // deg/s
+    armVelocity: number; // deg/s
+    sequenceScore: number; // 0-100
+  };
+
+  // Rotation metrics (range of rotation during the throw)
+  pelvisRotation: number; // degrees
+  torsoRotation: number; // degrees
+  shoulderAngles: {
+    throwing: number | null; // degrees, at release
+    glove: number | null; // degrees, at release
+  };
+
+  // Separation and timing
+  hipShoulderSeparation: number; // degrees (max before release)
+  groundForceTiming: number | null; // ms from foot plant to peak pelvis velocity
+  strideToFootPlant: number | null; // ms from stride start to foot plant
+
+  // Symmetry and balance
+  legDriveSymmetry: number; // 0-100 score
+  hipRotation: {
+    internal: number; // degrees of pelvis rotation from foot plant to release
+    external: number; // degrees of pelvis rotation from throw start to foot plant (loading)
+  };
+
+  // Overall index
+  kinematicImbalanceIndex: number; // 0-100 (higher is better)
+}
+
+export interface ThrowResult extends BaseballMetrics {
+  throwIndex: number; // 1-based
+  throwingSide: ThrowingSide;
+  startTime: number; // ms timestamps
+  footPlantTime: number | null;
+  releaseTime: number;
+  endTime: number;
+  frameCount: number;
+  sequenceOrder: SequenceOrder;
+  peakTimes: { pelvis: number; torso: number; arm: number }; // ms relative to throw start
+}
+
+// Current (per-frame) rotation state shown while the athlete moves
+export interface BaseballLiveState {
+  pelvisRotation: number | null;
+  torsoRotation: number | null;
+  hipShoulderSeparation: number | null;
+  throwInProgress: boolean;
+  throwCount: number;
+}
+
+export interface ThrowAnalyzerOptions {
+  throwingSide?: ThrowingSide; // Detected from wrist speed when omitted
+}
+
+export type ThrowAnalyzer = {
+  update: (keypoints: PoseKeypoint[], angles: BiomechanicalAngles, timestamp?: number) => {
+    live: BaseballLiveState;
+    completedThrow: ThrowResult | null;
+  };
+  getThrows: () => ThrowResult[];
+  reset: () => void;
+};
+
+const MIN_VISIBILITY = 0.5;
+const PRE_ROLL_MS = 2000; // Frames kept before a throw is detected (wind-up and stride)
+const MAX_THROW_MS = 1500; // Frames kept after a throw is detected (release and follow-through)
+const END_HOLD_MS = 300; // Wrist must stay slow this long to end a throw
+const COOLDOWN_MS = 1000; // Ignore movement right after a throw (follow-through, fielding position)
+const MIN_THROW_FRAMES = 3;
+const MAX_THROWS_KEPT = 50;
+// Speeds in torso lengths per second - keeps thresholds independent of camera distance
+const THROW_START_SPEED = 3;
+const THROW_END_SPEED = 1;
+const STRIDE_START_SPEED = 1;
+const FOOT_PLANT_SPEED = 0.3;
+// Width of hips/shoulders relative to torso length when square to the camera (prior until a wider frame is seen)
+const HIP_WIDTH_RATIO = 0.5;
+const SHOULDER_WIDTH_RATIO = 0.7;
+
+interface Point { x: number; y: number }
+
+interface ThrowFrame {
+  time: number;
+  pelvisRotation: number | null;
+  torsoRotation: number | null;
+  armAngle: Record<ThrowingSide, number | null>; // Shoulder->wrist orientation in the image (deg)
+  wrist: Record<ThrowingSide, Point | null>;
+  ankle: Record<ThrowingSide, Point | null>;
+  torsoLength: number;
+  angles: BiomechanicalAngles;
+}
+
+const point = (keypoints: PoseKeypoint[], index: number): Point | null => {
+  const kp = keypoints[index];
+  return kp && kp.visibility > MIN_VISIBILITY ? { x: kp.x, y: kp.y } : null;
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * Rotation of a left/right segment (hips or shoulders) about the vertical axis from its apparent width.
+ * 0° = square to the camera, 90° = side-on, 180° = back to the camera. Monocular estimate - depth is inferred
+ * from foreshortening, so it is most reliable with the camera level with the athlete.
+ */
+function segmentRotation(left: Point, right: Point, torsoLength: number, referenceRatio: number): number {
+  const ratio = Math.abs(right.x - left.x) / torsoLength;
+  const base = Math.acos(clamp(ratio / referenceRatio, 0, 1)) * (180 / Math.PI);
+  // Facing the camera, the athlete's right side appears on the left of the image
+  const facingCamera = right.x < left.x;
+  return facingCamera ? base : 180 - base;
+}
+
+// Difference between two angles in degrees, wrapped to [-180, 180]
+const angleDelta = (a: number, b: number) => ((a - b + 540) % 360) - 180;
+
+function angularVelocities(frames: ThrowFrame[], pick: (frame: ThrowFrame) => number | null): Array<{ time: number; velocity: number }> {
+  const result: Array<{ time: number; velocity: number }> = [];
+  for (let i = 1; i < frames.length; i++) {
+    const current = pick(frames[i]);
+    const previous = pick(frames[i - 1]);
+    const dt = (frames[i].time - frames[i - 1].time) / 1000;
+    if (current === null || previous === null || dt <= 0) continue;
+    result.push({ time: frames[i].time, velocity: Math.abs(angleDelta(current, previous)) / dt });
+  }
+  return result;
+}
+
+function linearSpeeds(frames: ThrowFrame[], pick: (frame: ThrowFrame) => Point | null): Array<{ time: number; speed: number; point: Point }> {
+  const result: Array<{ time: number; speed: number; point: Point }> = [];
+  for (let i = 1; i < frames.length; i++) {
+    const current = pick(frames[i]);
+    const previous = pick(frames[i - 1]);
+    const dt = (frames[i].time - frames[i - 1].time) / 1000;
+    if (!current || !previous || dt <= 0) continue;
+    result.push({ time: frames[i].time, speed: distance(current, previous) / dt / frames[i].torsoLength, point: current });
+  }
+  return result;
+}
+
+const peakOf = (series: Array<{ time: number; velocity: number }>) =>
+  series.reduce<{ time: number; velocity: number } | null>((best, s) => (!best || s.velocity > best.velocity ? s : best), null);
+
+const rangeOf = (values: Array<number | null>): number => {
+  const valid = values.filter((v): v is number => v !== null);
+  return valid.length > 0 ? Math.max(...valid) - Math.min(...valid) : 0;
+};
+
+const symmetryScore = (a: number, b: number): number => {
+  const larger = Math.max(a, b);
+  return larger > 0 ? (Math.min(a, b) / larger) * 100 : 100;
+};
+
+/**
+ * Classify the order in which pelvis, torso and arm reach peak velocity
+ */
+function classifySequence(pelvis: number, torso: number, arm: number): SequenceOrder {
+  if (pelvis < torso && torso < arm) return 'proper';
+  if (pelvis === torso && torso < arm) return 'synchronous';
+  if (arm <= torso && pelvis <= torso) return 'early_arm';
+  return 'out_of_order';
+}
+
+/**
+ * Score (0-100) how well the throw follows the proximal-to-distal sequence (pelvis -> torso -> arm),
+ * with each segment both peaking later and faster than the one before it
+ */
+function scoreSequence(
+  peaks: { pelvis: { time: number; velocity: number }; torso: { time: number; velocity: number }; arm: { time: number; velocity: number } }
+): number {
+  let score = 100;
+  if (peaks.torso.time < peaks.pelvis.time) score -= 35;
+  else if (peaks.torso.time === peaks.pelvis.time) score -= 15;
+  if (peaks.arm.time < peaks.torso.time) score -= 35;
+  else if (peaks.arm.time === peaks.torso.time) score -= 15;
+  if (peaks.torso.velocity <= peaks.pelvis.velocity) score -= 10;
+  if (peaks.arm.velocity <= peaks.torso.velocity) score -= 10;
+  return clamp(score, 0, 100);
+}
+
+/**
+ * Compute the metrics for one segmented throw. Returns null if the frames don't contain enough data.
+ */
+function analyzeThrow(frames: ThrowFrame[], throwingSide: ThrowingSide, throwIndex: number): ThrowResult | null {
+  if (frames.length < MIN_THROW_FRAMES) return null;
+  const gloveSide: ThrowingSide = throwingSide === 'right' ? 'left' : 'right';
+  const startTime = frames[0].time;
+
+  // Release = throwing wrist at peak speed
+  const wristSpeeds = linearSpeeds(frames, (f) => f.wrist[throwingSide]);
+  if (wristSpeeds.length === 0) return null;
+  const release = wristSpeeds.reduce((best, s) => (s.speed > best.speed ? s : best));
+
+  // Stride leg is the glove side: stride starts when that ankle moves, foot plant when it stops again
+  const strideAnkle = linearSpeeds(frames, (f) => f.ankle[gloveSide]).filter((s) => s.time <= release.time);
+  const strideStart = strideAnkle.find((s) => s.speed > STRIDE_START_SPEED) || null;
+  const footPlant = strideStart
+    ? strideAnkle.find((s) => s.time > strideStart.time && s.speed < FOOT_PLANT_SPEED)
+      // No clear stop before release - take the lowest ankle position (foot on the ground)
+      || strideAnkle.filter((s) => s.time > strideStart.time).reduce<typeof strideAnkle[number] | null>(
+        (lowest, s) => (!lowest || s.point.y > lowest.point.y ? s : lowest), null)
+    : null;
+
+  const pelvisPeak = peakOf(angularVelocities(frames, (f) => f.pelvisRotation));
+  const torsoPeak = peakOf(angularVelocities(frames, (f) => f.torsoRotation));
+  const armPeak = peakOf(angularVelocities(frames, (f) => f.armAngle[throwingSide]));
+  if (!pelvisPeak || !torsoPeak || !armPeak) return null;
+
+  const beforeRelease = frames.filter((f) => f.time <= release.time);
+  const hipShoulderSeparation = Math.max(
+    0,
+    ...beforeRelease
+      .filter((f) => f.pelvisRotation !== null && f.torsoRotation !== null)
+      .map((f) => Math.abs(f.torsoRotation! - f.pelvisRotation!))
+  );
+
+  const releaseFrame = frames.find((f) => f.time === release.time) || frames[frames.length - 1];
+  const shoulderAngle = (side: ThrowingSide) =>
+    side === 'left' ? releaseFrame.angles.leftShoulder : releaseFrame.angles.rightShoulder;
+
+  const pelvisAt = (time: number) => {
+    const frame = frames.reduce((closest, f) => (Math.abs(f.time - time) < Math.abs(closest.time - time) ? f : closest));
+    return frame.pelvisRotation;
+  };
+  const plantTime = footPlant?.time ?? null;
+  const pelvisStart = frames.find((f) => f.pelvisRotation !== null)?.pelvisRotation ?? null;
+  const pelvisPlant = plantTime !== null ? pelvisAt(plantTime) : null;
+  const pelvisRelease = pelvisAt(release.time);
+
+  const kneeRange = (side: ThrowingSide) => rangeOf(frames.map((f) => (side === 'left' ? f.angles.leftKnee : f.angles.rightKnee)));
+  const hipRange = (side: ThrowingSide) => rangeOf(frames.map((f) => (side === 'left' ? f.angles.leftHip : f.angles.rightHip)));
+  const legDriveSymmetry = symmetryScore(kneeRange(throwingSide), kneeRange(gloveSide));
+  const imbalance = (Math.abs(kneeRange('left') - kneeRange('right')) + Math.abs(hipRange('left') - hipRange('right'))) / 2;
+
+  return {
+    throwIndex,
+    throwingSide,
+    startTime,
+    footPlantTime: plantTime,
+    releaseTime: release.time,
+    endTime: frames[frames.length - 1].time,
+    frameCount: frames.length,
+    sequenceOrder: classifySequence(pelvisPeak.time, torsoPeak.time, armPeak.time),
+    peakTimes: {
+      pelvis: pelvisPeak.time - startTime,
+      torso: torsoPeak.time - startTime,
+      arm: armPeak.time - startTime,
+    },
+    kinematicSequence: {
+      pelvisVelocity: pelvisPeak.velocity,
+      torsoVelocity: torsoPeak.velocity,
+      armVelocity: armPeak.velocity,
+      sequenceScore: scoreSequence({ pelvis: pelvisPeak, torso: torsoPeak, arm: armPeak }),
+    },
+    pelvisRotation: rangeOf(frames.map((f) => f.pelvisRotation)),
+    torsoRotation: rangeOf(frames.map((f) => f.torsoRotation)),
+    shoulderAngles: {
+      throwing: shoulderAngle(throwingSide),
+      glove: shoulderAngle(gloveSide),
+    },
+    hipShoulderSeparation,
+    groundForceTiming: plantTime !== null ? pelvisPeak.time - plantTime : null,
+    strideToFootPlant: strideStart && plantTime !== null ? plantTime - strideStart.time : null,
+    legDriveSymmetry,
+    hipRotation: {
+      internal: pelvisPlant !== null && pelvisRelease !== null ? Math.abs(pelvisRelease - pelvisPlant) : 0,
+      external: pelvisStart !== null && pelvisPlant !== null ? Math.abs(pelvisPlant - pelvisStart) : 0,
+    },
+    kinematicImbalanceIndex: clamp(100 - imbalance * 2, 0, 100),
+  };
+}
+
+/**
+ * Create a throw analyzer for one athlete. Throws are segmented automatically from throwing-wrist speed.
+ */
+export function createThrowAnalyzer(options: ThrowAnalyzerOptions = {}): ThrowAnalyzer {
+  let hipReference = HIP_WIDTH_RATIO;
+  let shoulderReference = SHOULDER_WIDTH_RATIO;
+  let history: ThrowFrame[] = []; // Rolling pre-roll buffer
+  let throwFrames: ThrowFrame[] | null = null;
+  let throwSide: ThrowingSide = options.throwingSide || 'right';
+  let throwDetectedAt = 0;
+  let slowSince: number | null = null;
+  let cooldownUntil = 0;
+  let throws: ThrowResult[] = []; // Most recent MAX_THROWS_KEPT only
+  let throwCount = 0; // Every throw analyzed since the last reset
+  let live: BaseballLiveState = {
+    pelvisRotation: null,
+    torsoRotation: null,
+    hipShoulderSeparation: null,
+    throwInProgress: false,
+    throwCount: 0,
+  };
+
+  const measureFrame = (keypoints: PoseKeypoint[], angles: BiomechanicalAngles, time: number): ThrowFrame | null => {
+    const leftHip = point(keypoints, POSE_LANDMARKS.LEFT_HIP);
+    const rightHip = point(keypoints, POSE_LANDMARKS.RIGHT_HIP);
+    const leftShoulder = point(keypoints, POSE_LANDMARKS.LEFT_SHOULDER);
+    const rightShoulder = point(keypoints, POSE_LANDMARKS.RIGHT_SHOULDER);
+    if (!leftHip || !rightHip || !leftShoulder || !rightShoulder) return null;
+
+    const torsoLength = distance(midpoint(leftShoulder, rightShoulder), midpoint(leftHip, rightHip));
+    if (torsoLength <= 0) return null;
+
+    // The widest hips/shoulders seen so far are the best estimate of "square to the camera"
+    hipReference = Math.max(hipReference, Math.abs(rightHip.x - leftHip.x) / torsoLength);
+    shoulderReference = Math.max(shoulderReference, Math.abs(rightShoulder.x - leftShoulder.x) / torsoLength);
+
+    const leftWrist = point(keypoints, POSE_LANDMARKS.LEFT_WRIST);
+    const rightWrist = point(keypoints, POSE_LANDMARKS.RIGHT_WRIST);
+    const armAngle = (shoulder: Point, wrist: Point | null) =>
+      wrist ? Math.atan2(wrist.y - shoulder.y, wrist.x - shoulder.x) * (180 / Math.PI) : null;
+
+    return {
+      time,
+      pelvisRotation: segmentRotation(leftHip, rightHip, torsoLength, hipReference),
+      torsoRotation: segmentRotation(leftShoulder, rightShoulder, torsoLength, shoulderReference),
+      armAngle: { left: armAngle(leftShoulder, leftWrist), right: armAngle(rightShoulder, rightWrist) },
+      wrist: { left: leftWrist, right: rightWrist },
+      ankle: {
+        left: point(keypoints, POSE_LANDMARKS.LEFT_ANKLE),
+        right: point(keypoints, POSE_LANDMARKS.RIGHT_ANKLE),
+      },
+      torsoLength,
+      angles,
+    };
+  };
+
+  const wristSpeed = (frame: ThrowFrame, previous: ThrowFrame | undefined, side: ThrowingSide): number => {
+    const current = frame.wrist[side];
+    const last = previous?.wrist[side];
+    const dt = previous ? (frame.time - previous.time) / 1000 : 0;
+    return current && last && dt > 0 ? distance(current, last) / dt / frame.torsoLength : 0;
+  };
+
+  const finishThrow = (): ThrowResult | null => {
+    const frames = throwFrames || [];
+    throwFrames = null;
+    slowSince = null;
+    cooldownUntil = frames.length > 0 ? frames[frames.length - 1].time + COOLDOWN_MS : 0;
+
+    const result = analyzeThrow(frames, throwSide, throwCount + 1);
+    if (result) {
+      throwCount += 1;
+      throws.push(result);
+      if (throws.length > MAX_THROWS_KEPT) {
+        throws = throws.slice(-MAX_THROWS_KEPT);
+      }
+    }
+    return result;
+  };
+
+  const update = (keypoints: PoseKeypoint[], angles: BiomechanicalAngles, timestamp: number = Date.now()) => {
+    const frame = measureFrame(keypoints, angles, timestamp);
+    let completedThrow: ThrowResult | null = null;
+
+    if (frame) {
+      const previous = throwFrames ? throwFrames[throwFrames.length - 1] : history[history.length - 1];
+      const speeds = { left: wristSpeed(frame, previous, 'left'), right: wristSpeed(frame, previous, 'right') };
+
+      if (throwFrames) {
+        throwFrames.push(frame);
+        slowSince = speeds[throwSide] < THROW_END_SPEED ? (slowSince ?? timestamp) : null;
+        if ((slowSince !== null && timestamp - slowSince >= END_HOLD_MS) || timestamp - throwDetectedAt >= MAX_THROW_MS) {
+          completedThrow = finishThrow();
+        }
+      } else if (timestamp >= cooldownUntil && Math.max(speeds.left, speeds.right) > THROW_START_SPEED) {
+        throwSide = options.throwingSide || (speeds.left > speeds.right ? 'left' : 'right');
+        throwDetectedAt = timestamp;
+        throwFrames = [...history, frame];
+        history = [];
+      }
+
+      if (!throwFrames) {
+        history.push(frame);
+        history = history.filter((f) => timestamp - f.time <= PRE_ROLL_MS);
+      }
+    }
+
+    live = {
+      pelvisRotation: frame?.pelvisRotation ?? null,
+      torsoRotation: frame?.torsoRotation ?? null,
+      hipShoulderSeparation: frame && frame.pelvisRotation !== null && frame.torsoRotation !== null
+        ? Math.abs(frame.torsoRotation - frame.pelvisRotation)
+        : null,
+      throwInProgress: throwFrames !== null,
+      throwCount,
+    };
+
+    return { live, completedThrow };
+  };
+
+  return {
+    update,
+    getThrows: () => [...throws],
+    reset: () => {
+      hipReference = HIP_WIDTH_RATIO;
+      shoulderReference = SHOULDER_WIDTH_RATIO;
+      history = [];
+      throwFrames = null;
+      throwSide = options.throwingSide || 'right';
+      throwDetectedAt = 0;
+      slowSince = null;
+      cooldownUntil = 0;
+      throws = [];
+      throwCount = 0;
+      live = { pelvisRotation: null, torsoRotation: null, hipShoulderSeparation: null, throwInProgress: false, throwCount: 0 };
+    },
+  };
+}
+
+/**
+ * Average the metrics of several throws (e.g. the last few in a session)
+ */
+export function averageThrows(throws: ThrowResult[]): BaseballMetrics | null {
+  if (throws.length === 0) return null;
+  const mean = (pick: (t: ThrowResult) => number | null): number | null => {
+    const values = throws.map(pick).filter((v): v is number => v !== null);
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+  };
+
+  return {
+    kinematicSequence: {
+      pelvisVelocity: mean((t) => t.kinematicSequence.pelvisVelocity)!,
+      torsoVelocity: mean((t) => t.kinematicSequence.torsoVelocity)!,
+      armVelocity: mean((t) => t.kinematicSequence.armVelocity)!,
+      sequenceScore: mean((t) => t.kinematicSequence.sequenceScore)!,
+    },
+    pelvisRotation: mean((t) => t.pelvisRotation)!,
+    torsoRotation: mean((t) => t.torsoRotation)!,
+    shoulderAngles: {
+      throwing: mean((t) => t.shoulderAngles.throwing),
+      glove: mean((t) => t.shoulderAngles.glove),
+    },
+    hipShoulderSeparation: mean((t) => t.hipShoulderSeparation)!,
+    groundForceTiming: mean((t) => t.groundForceTiming),
+    strideToFootPlant: mean((t) => t.strideToFootPlant),
+    legDriveSymmetry: mean((t) => t.legDriveSymmetry)!,
+    hipRotation: {
+      internal: mean((t) => t.hipRotation.internal)!,
+      external: mean((t) => t.hipRotation.external)!,
+    },
+    kinematicImbalanceIndex: mean((t) => t.kinematicImbalanceIndex)!,
+  };
+}
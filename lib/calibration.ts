@@ -0,0 +1,303 @@
+// Camera calibration - scales normalized pose coordinates to centimeters from a standing pose and the athlete's height,
+// and measures sway / center-of-mass excursion / stride relative to the athlete's own base of support
+import { POSE_LANDMARKS, type BiomechanicalMetrics, type PoseKeypoint } from './pose-detection';
+import { isFiniteNumber, withoutEmptyValues } from './utils';
+
+export type HeightSource = 'profile' | 'entered';
+
+export interface CalibrationProfile {
+  heightCm: number;
+  heightSource: HeightSource;
+  cmPerUnitX: number; // Centimeters per normalized frame-width unit
+  cmPerUnitY: number; // Centimeters per normalized frame-height unit
+  standingBaseWidthCm: number; // Ankle separation in the calibration stance
+  frameCount: number;
+  capturedAt: number; // ms timestamp
+}
+
+export interface CalibrationCaptureState {
+  status: 'collecting' | 'complete' | 'failed';
+  progress: number; // 0-1
+  message: string;
+  profile?: CalibrationProfile;
+}
+
+export type CalibrationCapture = {
+  // aspectRatio = video width / height (normalized x and y units differ in size)
+  update: (keypoints: PoseKeypoint[], aspectRatio: number, timestamp?: number) => CalibrationCaptureState;
+  getState: () => CalibrationCaptureState;
+};
+
+export interface BalanceSummary {
+  calibrated: boolean;
+  centerOfMassOffsetCm: number | null; // Current CoM offset from the middle of the feet (+ = toward image right)
+  comExcursionCm: number | null; // Largest CoM offset from the middle of the feet in the window
+  swayCm: number | null; // Side-to-side range of the CoM (relative to the feet) in the window
+  swayVelocityCmPerSec: number | null; // Mean speed of the CoM relative to the feet
+  baseWidthCm: number | null; // Current width of the base of support
+  stepLengthCm: number | null; // Mean of the recent steps (peak ankle separation)
+  strideLengthCm: number | null; // Last two steps (same foot to same foot)
+  stepCount: number;
+}
+
+export type BalanceTracker = {
+  update: (keypoints: PoseKeypoint[], metrics: BiomechanicalMetrics, calibration: CalibrationProfile | null, timestamp?: number) => BalanceSummary;
+  getSummary: () => BalanceSummary;
+  reset: () => void;
+};
+
+// Persisted shape (AIMetric.balance_metrics) - only stored for calibrated sessions
+export interface BalanceRecord {
+  calibrated_height_cm: number;
+  com_excursion_cm?: number;
+  sway_cm?: number;
+  sway_velocity_cm_per_sec?: number;
+  base_width_cm?: number;
+  step_length_cm?: number;
+  stride_length_cm?: number;
+  step_count: number;
+}
+
+export const MIN_HEIGHT_CM = 50;
+export const MAX_HEIGHT_CM = 250;
+
+// Nose-to-ankle span as a fraction of standing height (anthropometric proportions:
+// nose at ~0.92 H, ankle joint at ~0.04 H)
+const NOSE_TO_ANKLE_FRACTION = 0.88;
+const MIN_VISIBILITY = 0.5;
+const CAPTURE_DURATION_MS = 2000; // How long the athlete has to hold the standing pose
+const CAPTURE_TIMEOUT_MS = 15000;
+const MAX_SPAN_VARIATION = 0.03; // Coefficient of variation of the standing span above which the athlete is moving
+const SWAY_WINDOW_MS = 10000; // Matches the movement analysis interval
+const MIN_STEP_CM = 15; // Ankle separation peaks below this aren't steps
+const STEP_RELEASE_RATIO = 0.7; // A step ends when separation falls below this fraction of its peak
+const STEP_REARM_RATIO = 0.4; // ...and the next one can start once it falls below this fraction
+const MAX_STEPS = 10;
+
+export function isValidHeightCm(value: number): boolean {
+  return Number.isFinite(value) && value >= MIN_HEIGHT_CM && value <= MAX_HEIGHT_CM;
+}
+
+const visiblePoint = (keypoints: PoseKeypoint[], index: number) => {
+  const kp = keypoints[index];
+  return kp && kp.visibility > MIN_VISIBILITY ? { x: kp.x, y: kp.y } : null;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+const coefficientOfVariation = (values: number[]) => {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  if (mean === 0) return Infinity;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance) / mean;
+};
+
+/**
+ * Start a calibration capture. The athlete stands still, facing the camera, with head and feet in frame;
+ * after ~2 s of steady frames the nose-to-ankle span gives the centimeter scale for this camera position.
+ * Recalibrate if the camera or the athlete's distance to it changes.
+ */
+export function createCalibrationCapture(heightCm: number, heightSource: HeightSource, startedAt: number = Date.now()): CalibrationCapture {
+  let frames: Array<{ span: number; baseWidth: number; timestamp: number }> = [];
+  let state: CalibrationCaptureState = isValidHeightCm(heightCm)
+    ? { status: 'collecting', progress: 0, message: 'Stand still facing the camera, head and feet in frame' }
+    : { status: 'failed', progress: 0, message: `Height must be between ${MIN_HEIGHT_CM} and ${MAX_HEIGHT_CM} cm` };
+
+  const update = (keypoints: PoseKeypoint[], aspectRatio: number, timestamp: number = Date.now()): CalibrationCaptureState => {
+    if (state.status !== 'collecting') return state;
+
+    if (timestamp - startedAt > CAPTURE_TIMEOUT_MS) {
+      state = { status: 'failed', progress: 0, message: 'Calibration timed out - make sure the whole body is visible and hold still' };
+      return state;
+    }
+
+    const nose = visiblePoint(keypoints, POSE_LANDMARKS.NOSE);
+    const leftAnkle = visiblePoint(keypoints, POSE_LANDMARKS.LEFT_ANKLE);
+    const rightAnkle = visiblePoint(keypoints, POSE_LANDMARKS.RIGHT_ANKLE);
+    if (!nose || !leftAnkle || !rightAnkle) {
+      frames = [];
+      state = { status: 'collecting', progress: 0, message: 'Step back so your head and feet are in frame' };
+      return state;
+    }
+
+    const span = (leftAnkle.y + rightAnkle.y) / 2 - nose.y;
+    if (span <= 0) {
+      frames = [];
+      state = { status: 'collecting', progress: 0, message: 'Stand upright facing the camera' };
+      return state;
+    }
+    frames.push({ span, baseWidth: Math.abs(leftAnkle.x - rightAnkle.x), timestamp });
+
+    if (frames.length >= 3 && coefficientOfVariation(frames.map((f) => f.span)) > MAX_SPAN_VARIATION) {
+      frames = [frames[frames.length - 1]];
+      state = { status: 'collecting', progress: 0, message: 'Hold still' };
+      return state;
+    }
+
+    const elapsed = timestamp - frames[0].timestamp;
+    if (elapsed < CAPTURE_DURATION_MS) {
+      state = { status: 'collecting', progress: Math.min(0.99, elapsed / CAPTURE_DURATION_MS), message: 'Hold still' };
+      return state;
+    }
+
+    const cmPerUnitY = (heightCm * NOSE_TO_ANKLE_FRACTION) / median(frames.map((f) => f.span));
+    // A normalized x unit spans the frame width, which is aspectRatio times the frame height
+    const cmPerUnitX = cmPerUnitY * (aspectRatio > 0 ? aspectRatio : 1);
+    const profile: CalibrationProfile = {
+      heightCm,
+      heightSource,
+      cmPerUnitX,
+      cmPerUnitY,
+      standingBaseWidthCm: median(frames.map((f) => f.baseWidth)) * cmPerUnitX,
+      frameCount: frames.length,
+      capturedAt: timestamp,
+    };
+    state = { status: 'complete', progress: 1, message: `Calibrated for ${Math.round(heightCm)} cm`, profile };
+    return state;
+  };
+
+  return {
+    update,
+    getState: () => state,
+  };
+}
+
+const emptySummary = (calibrated: boolean): BalanceSummary => ({
+  calibrated,
+  centerOfMassOffsetCm: null,
+  comExcursionCm: null,
+  swayCm: null,
+  swayVelocityCmPerSec: null,
+  baseWidthCm: null,
+  stepLengthCm: null,
+  strideLengthCm: null,
+  stepCount: 0,
+});
+
+/**
+ * Track sway, center-of-mass excursion and step/stride length in centimeters for one person.
+ * Without a calibration every centimeter value stays null.
+ */
+export function createBalanceTracker(): BalanceTracker {
+  let samples: Array<{ offsetCm: number; timestamp: number }> = [];
+  let steps: number[] = [];
+  let stepPeak = 0;
+  let stepArmed = true;
+  let calibratedAt: number | null = null;
+  let summary = emptySummary(false);
+
+  const clearHistory = () => {
+    samples = [];
+    steps = [];
+    stepPeak = 0;
+    stepArmed = true;
+  };
+
+  const update = (
+    keypoints: PoseKeypoint[],
+    metrics: BiomechanicalMetrics,
+    calibration: CalibrationProfile | null,
+    timestamp: number = Date.now()
+  ): BalanceSummary => {
+    if (!calibration) {
+      summary = emptySummary(false);
+      return summary;
+    }
+    // Samples measured with an earlier calibration are on a different scale
+    if (calibration.capturedAt !== calibratedAt) {
+      clearHistory();
+      calibratedAt = calibration.capturedAt;
+    }
+
+    const offsetCm = metrics.centerOfMassOffset !== null ? metrics.centerOfMassOffset * calibration.cmPerUnitX : null;
+    if (offsetCm !== null) {
+      samples.push({ offsetCm, timestamp });
+    }
+    samples = samples.filter((sample) => timestamp - sample.timestamp <= SWAY_WINDOW_MS);
+
+    // Steps: peaks of the ankle separation along the image x axis (side-on camera)
+    const leftAnkle = visiblePoint(keypoints, POSE_LANDMARKS.LEFT_ANKLE);
+    const rightAnkle = visiblePoint(keypoints, POSE_LANDMARKS.RIGHT_ANKLE);
+    if (leftAnkle && rightAnkle) {
+      const separationCm = Math.abs(leftAnkle.x - rightAnkle.x) * calibration.cmPerUnitX;
+      if (stepArmed) {
+        stepPeak = Math.max(stepPeak, separationCm);
+        if (stepPeak >= MIN_STEP_CM && separationCm < stepPeak * STEP_RELEASE_RATIO) {
+          steps = [...steps, stepPeak].slice(-MAX_STEPS);
+          stepArmed = false;
+        }
+      } else if (separationCm < stepPeak * STEP_REARM_RATIO) {
+        stepArmed = true;
+        stepPeak = separationCm;
+      }
+    }
+
+    const offsets = samples.map((sample) => sample.offsetCm);
+    let swayVelocity: number | null = null;
+    if (samples.length >= 2) {
+      const path = samples.slice(1).reduce((sum, sample, i) => sum + Math.abs(sample.offsetCm - samples[i].offsetCm), 0);
+      const duration = (samples[samples.length - 1].timestamp - samples[0].timestamp) / 1000;
+      swayVelocity = duration > 0 ? path / duration : null;
+    }
+    const recentSteps = steps.slice(-4);
+
+    summary = {
+      calibrated: true,
+      centerOfMassOffsetCm: offsetCm,
+      comExcursionCm: offsets.length > 0 ? Math.max(...offsets.map(Math.abs)) : null,
+      swayCm: offsets.length > 0 ? Math.max(...offsets) - Math.min(...offsets) : null,
+      swayVelocityCmPerSec: swayVelocity,
+      baseWidthCm: metrics.baseOfSupport ? metrics.baseOfSupport.width * calibration.cmPerUnitX : null,
+      stepLengthCm: recentSteps.length > 0 ? recentSteps.reduce((a, b) => a + b, 0) / recentSteps.length : null,
+      strideLengthCm: steps.length >= 2 ? steps[steps.length - 1] + steps[steps.length - 2] : null,
+      stepCount: steps.length,
+    };
+    return summary;
+  };
+
+  return {
+    update,
+    getSummary: () => summary,
+    reset: () => {
+      clearHistory();
+      calibratedAt = null;
+      summary = emptySummary(false);
+    },
+  };
+}
+
+const round = (value: number | null) => (value !== null ? Math.round(value * 10) / 10 : null);
+
+/**
+ * Convert a summary to the shape stored with AIMetric rows (null when the session isn't calibrated)
+ */
+export function toBalanceRecord(summary: BalanceSummary, calibratedHeightCm: number | null): BalanceRecord | null {
+  if (!summary.calibrated || calibratedHeightCm === null) return null;
+  return withoutEmptyValues<BalanceRecord>({
+    calibrated_height_cm: calibratedHeightCm,
+    com_excursion_cm: round(summary.comExcursionCm),
+    sway_cm: round(summary.swayCm),
+    sway_velocity_cm_per_sec: round(summary.swayVelocityCmPerSec),
+    base_width_cm: round(summary.baseWidthCm),
+    step_length_cm: round(summary.stepLengthCm),
+    stride_length_cm: round(summary.strideLengthCm),
+    step_count: summary.stepCount,
+  });
+}
+
+const BALANCE_DISTANCES = ['centerOfMassOffsetCm', 'comExcursionCm', 'swayCm', 'swayVelocityCmPerSec', 'baseWidthCm', 'stepLengthCm', 'strideLengthCm'];
+
+/**
+ * Shape check for summaries posted by clients (save-metric) before they are converted
+ */
+export function isBalanceSummary(value: unknown): value is BalanceSummary {
+  if (!value || typeof value !== 'object') return false;
+  const summary = value as Record<string, unknown>;
+  return typeof summary.calibrated === 'boolean'
+    && BALANCE_DISTANCES.every((key) => summary[key] === null || isFiniteNumber(summary[key]))
+    && Number.isInteger(summary.stepCount) && (summary.stepCount as number) >= 0;
+}
@@ -1,5 +1,11 @@
 import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocumentClient, PutCommand, QueryCommand, ScanCommand } from "@aws-sdk/lib-dynamodb";
+import type { FormFaultSummary } from "./movement-rules";
+import type { PostureAngleRecord } from "./posture-angles";
+import type { TemplateMatchRecord } from "./reference-templates";
+import type { GaitRecord } from "./gait-analysis";
+import type { FatigueCurve } from "./fatigue";
+import type { InjuryRiskAssessment } from "./injury-risk";
 
 // Initialize DynamoDB client
 // Use JAK_ prefixed vars for Netlify (AWS_* are reserved), fallback to AWS_* for local dev
@@ -30,22 +36,28 @@ export interface AIInsight {
     shoulder_alignment?: string;
     pelvic_sway?: string;
     additional_metrics?: string[];
-  };
+  } & PostureAngleRecord; // Measured angles (degrees) alongside the LLM's descriptions
   performance_interpretation?: string;
   performance_impact?: string[];
   balance_score: number;
   symmetry_score: number;
   postural_efficiency?: number;
-  risk_level?: string;
-  risk_description?: string;
+  risk_level?: string; // Level of injury_risk when present (older insights: chosen by the LLM)
+  risk_description?: string; // LLM narration of the injury-risk breakdown
   targeted_recommendations?: string[];
   timestamp: string; // ISO 8601 timestamp
   created_at: string; // ISO 8601 timestamp
+  schema_version?: number; // Validated LLM response schema (lib/llm-schemas.ts) - missing on older insights
   // Movement analysis fields
   movement_quality?: string;
   movement_patterns?: string[];
   movement_consistency?: number;
   dynamic_stability?: number;
+  form_faults?: FormFaultSummary[]; // Rule-engine faults detected across the session
+  template_matches?: TemplateMatchRecord[]; // Reps scored against reference templates, per exercise
+  gait_metrics?: GaitRecord; // Stride mechanics combined over the session (trended on the client page)
+  fatigue_curve?: FatigueCurve; // Fatigue index / symmetry / efficiency across the session
+  injury_risk?: InjuryRiskAssessment; // Deterministic risk score and its contributing factors
 }
 
 /**
@@ -94,6 +106,24 @@ export async function saveAIInsight(
   if ('dynamic_stability' in insight) {
     item.dynamic_stability = (insight as any).dynamic_stability;
   }
+  if ('form_faults' in insight) {
+    item.form_faults = insight.form_faults;
+  }
+  if ('template_matches' in insight) {
+    item.template_matches = insight.template_matches;
+  }
+  if ('gait_metrics' in insight) {
+    item.gait_metrics = insight.gait_metrics;
+  }
+  if ('fatigue_curve' in insight) {
+    item.fatigue_curve = insight.fatigue_curve;
+  }
+  if ('injury_risk' in insight) {
+    item.injury_risk = insight.injury_risk;
+  }
+  if ('schema_version' in insight) {
+    item.schema_version = insight.schema_version;
+  }
 
   console.log('[DynamoDB] Attempting to save AI insight:', {
     tableName: AI_INSIGHTS_TABLE,
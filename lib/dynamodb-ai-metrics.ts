@@ -1,5 +1,13 @@
 import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocumentClient, PutCommand, QueryCommand, ScanCommand } from "@aws-sdk/lib-dynamodb";
+import type { FormFaultRecord } from "./movement-rules";
+import type { KinematicsRecord } from "./kinematics";
+import type { PostureAngleRecord } from "./posture-angles";
+import type { BalanceRecord } from "./calibration";
+import type { GaitRecord } from "./gait-analysis";
+import type { TemplateMatchRecord } from "./reference-templates";
+import type { FatigueRecord } from "./fatigue";
+import type { LandingRecord } from "./jump-analysis";
 
 // Initialize DynamoDB client
 // Use JAK_ prefixed vars for Netlify (AWS_* are reserved), fallback to AWS_* for local dev
@@ -26,18 +34,35 @@ export interface AIMetric {
   balance_score: number; // 0-100
   symmetry_score: number; // 0-100
   postural_efficiency?: number; // 0-100
-  risk_level?: string; // "Low", "Medium", "High"
+  risk_level?: string; // "Low", "Medium", "High" - from the injury-risk model (window factors only)
   posture_metrics?: {
     spine_lean?: string;
     neck_flexion?: string;
     shoulder_alignment?: string;
     pelvic_sway?: string;
     additional_metrics?: string[];
-  };
+  } & PostureAngleRecord; // Measured angles (degrees) alongside the LLM's descriptions
   movement_quality?: string; // Description of movement quality
   movement_patterns?: string[]; // Array of movement patterns observed
   movement_consistency?: number; // 0-100, how consistent movement is across frames
   dynamic_stability?: number; // 0-100, stability throughout movement
+  rep_metrics?: {
+    exercise: string; // Rep profile used ("auto" when the exercise wasn't known)
+    angle_source: string; // Joint angle reps were detected from
+    rep_count: number;
+    partial_reps: number;
+    avg_tempo?: { eccentric: number; bottom: number; concentric: number; top: number }; // seconds per phase
+    avg_range_of_motion?: number; // degrees
+    range_of_motion_variability?: number; // CV % across reps
+    tempo_variability?: number; // CV % of rep duration
+  };
+  form_faults?: FormFaultRecord[]; // Rule-engine faults raised during this metric's window
+  kinematics?: KinematicsRecord; // Peak velocities/accelerations during this metric's window
+  balance_metrics?: BalanceRecord; // Sway / CoM excursion / stride in cm (calibrated sessions only)
+  template_match?: TemplateMatchRecord; // Reps scored against an exercise's reference template
+  gait_metrics?: GaitRecord; // Cadence / contact / stride mechanics of the strides in this window (side-on view)
+  fatigue?: FatigueRecord; // Fatigue monitor state at the end of this window
+  landing_metrics?: LandingRecord; // Landings completed during this window (jump analysis)
   created_at: string; // ISO 8601 timestamp
 }
 
@@ -64,6 +89,14 @@ export async function saveAIMetric(
     movement_patterns: metric.movement_patterns,
     movement_consistency: metric.movement_consistency,
     dynamic_stability: metric.dynamic_stability,
+    rep_metrics: metric.rep_metrics,
+    form_faults: metric.form_faults,
+    kinematics: metric.kinematics,
+    balance_metrics: metric.balance_metrics,
+    template_match: metric.template_match,
+    gait_metrics: metric.gait_metrics,
+    fatigue: metric.fatigue,
+    landing_metrics: metric.landing_metrics,
     created_at: timestamp,
   };
 
@@ -155,6 +188,41 @@ export async function getAIMetricsBySessionAndParticipant(
   }
 }
 
+// What the subject-level trends read from each metric row
+export type AIMetricRepSummary = Pick<AIMetric, "session_id" | "timestamp" | "rep_metrics">;
+
+/**
+ * Get the rep metrics saved for a subject across all sessions (oldest first) - follows pagination,
+ * a subject's history can exceed a single 1 MB query page. Only session_id / timestamp / rep_metrics are read,
+ * the posture, kinematics and gait payloads stay in DynamoDB.
+ */
+export async function getAIMetricsBySubject(subjectId: string): Promise<AIMetricRepSummary[]> {
+  try {
+    const metrics: AIMetricRepSummary[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+    do {
+      const response = await docClient.send(new QueryCommand({
+        TableName: AI_METRICS_TABLE,
+        KeyConditionExpression: "subject_id = :subjectId",
+        ExpressionAttributeValues: {
+          ":subjectId": subjectId,
+        },
+        ProjectionExpression: "session_id, #timestamp, rep_metrics",
+        ExpressionAttributeNames: {
+          "#timestamp": "timestamp", // Reserved word
+        },
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      metrics.push(...((response.Items || []) as AIMetricRepSummary[]));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+    return metrics;
+  } catch (error: any) {
+    console.error('[DynamoDB] Error getting AI metrics by subject:', error);
+    throw error;
+  }
+}
+
 /**
  * Get all metrics for a session (using scan as fallback if query doesn't work)
  */
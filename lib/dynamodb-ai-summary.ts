@@ -34,6 +34,7 @@ export interface AISummary {
     risk_level?: string;
   };
   insights_count: number; // Number of insights that were summarized
+  schema_version?: number; // Validated summary schema (lib/llm-schemas.ts) - missing on older summaries
   created_at: string; // ISO 8601 timestamp
 }
 
@@ -62,6 +63,7 @@ export async function saveAISummary(
     overall_assessment: summary.overall_assessment,
     metrics_summary: summary.metrics_summary,
     insights_count: summary.insights_count,
+    ...(summary.schema_version !== undefined ? { schema_version: summary.schema_version } : {}),
     created_at: timestamp,
   };
 
@@ -1,5 +1,6 @@
 import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocumentClient, PutCommand, QueryCommand, ScanCommand } from "@aws-sdk/lib-dynamodb";
+import type { FormFaultSummary } from "./movement-rules";
 
 // Initialize DynamoDB client
 // Use JAK_ prefixed vars for Netlify (AWS_* are reserved), fallback to AWS_* for local dev
@@ -34,6 +35,7 @@ export interface ChatMessage {
       symmetry_score?: number;
       postural_efficiency?: number;
     };
+    form_faults?: FormFaultSummary[]; // Rule-engine faults the message reports on
   };
   created_at: string; // ISO 8601 timestamp (same as timestamp, kept for consistency)
 }
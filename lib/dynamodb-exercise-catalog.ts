@@ -0,0 +1,91 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import type { ReferenceTemplate } from "./reference-templates";
+
+// Initialize DynamoDB client
+// Use JAK_ prefixed vars for Netlify (AWS_* are reserved), fallback to AWS_* for local dev
+const client = new DynamoDBClient({
+  region: process.env.JAK_AWS_REGION || process.env.AWS_REGION || "us-east-2",
+  credentials: (process.env.JAK_AWS_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID) && (process.env.JAK_AWS_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY)
+    ? {
+        accessKeyId: process.env.JAK_AWS_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID,
+        secretAccessKey: process.env.JAK_AWS_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY,
+      }
+    : undefined,
+});
+
+const docClient = DynamoDBDocumentClient.from(client);
+
+const EXERCISE_CATALOG_TABLE = "jak-exercise-catalog";
+
+// Recorded pose track that shows how the exercise should look (compared against in lib/movement-comparison.ts)
+export interface CatalogExemplar {
+  session_id: string;
+  participant_id: string;
+  start_ms?: number; // ms epoch - trim of the session's track
+  end_ms?: number;
+  set_by: string; // Coach who attached it
+  set_at: string; // ISO 8601 timestamp
+}
+
+export interface CatalogExercise {
+  exercise_id: string; // Partition key
+  name: string;
+  exemplar?: CatalogExemplar;
+  reference_template?: ReferenceTemplate; // Derived from the exemplar, used to score reps
+  [key: string]: any; // Description, instructions, muscles, form_rules, ...
+}
+
+/**
+ * Get one catalog exercise
+ */
+export async function getCatalogExercise(exerciseId: string): Promise<CatalogExercise | null> {
+  try {
+    const response = await docClient.send(new GetCommand({
+      TableName: EXERCISE_CATALOG_TABLE,
+      Key: { exercise_id: exerciseId },
+    }));
+    return (response.Item as CatalogExercise) || null;
+  } catch (error: any) {
+    console.error('[DynamoDB Exercise Catalog] Error getting exercise:', error);
+    throw error;
+  }
+}
+
+/**
+ * Attach an exemplar recording (and the template derived from it) to a catalog exercise. null removes both.
+ */
+export async function setCatalogExemplar(
+  exerciseId: string,
+  exemplar: CatalogExemplar | null,
+  template: ReferenceTemplate | null = null
+): Promise<void> {
+  const values: Record<string, any> = {};
+  const set: string[] = [];
+  const remove: string[] = [];
+  if (exemplar) {
+    set.push("exemplar = :exemplar");
+    values[":exemplar"] = exemplar;
+  } else {
+    remove.push("exemplar");
+  }
+  if (template) {
+    set.push("reference_template = :template");
+    values[":template"] = template;
+  } else {
+    remove.push("reference_template");
+  }
+
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: EXERCISE_CATALOG_TABLE,
+      Key: { exercise_id: exerciseId },
+      ConditionExpression: "attribute_exists(exercise_id)",
+      UpdateExpression: [set.length > 0 ? `SET ${set.join(", ")}` : "", remove.length > 0 ? `REMOVE ${remove.join(", ")}` : ""].join(" ").trim(),
+      ...(set.length > 0 ? { ExpressionAttributeValues: values } : {}),
+    }));
+  } catch (error: any) {
+    console.error('[DynamoDB Exercise Catalog] ❌ ERROR saving exemplar:', error);
+    throw error;
+  }
+}
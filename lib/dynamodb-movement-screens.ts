@@ -0,0 +1,86 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, PutCommand, QueryCommand } from "@aws-sdk/lib-dynamodb";
+import { randomUUID } from "crypto";
+import { scoreScreenRecords, type ScreenTestRecord } from "./movement-screen";
+
+// Initialize DynamoDB client
+// Use JAK_ prefixed vars for Netlify (AWS_* are reserved), fallback to AWS_* for local dev
+const client = new DynamoDBClient({
+  region: process.env.JAK_AWS_REGION || process.env.AWS_REGION || "us-east-2",
+  credentials: (process.env.JAK_AWS_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID) && (process.env.JAK_AWS_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY)
+    ? {
+        accessKeyId: process.env.JAK_AWS_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID,
+        secretAccessKey: process.env.JAK_AWS_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY,
+      }
+    : undefined,
+});
+
+const docClient = DynamoDBDocumentClient.from(client);
+
+const MOVEMENT_SCREENS_TABLE = "jak-coach-movement-screens";
+
+export interface MovementScreenRecord {
+  subject_id: string; // Partition key - Subject ID
+  screen_id: string; // Sort key - `${ISO timestamp}#${uuid}`, so screens sort by date
+  session_id?: string; // Screening session the tests were captured in
+  protocol_version: number; // SCREEN_PROTOCOL_VERSION the scoring rules came from
+  tests: ScreenTestRecord[];
+  composite_score: number; // Sum of the test scores
+  max_score: number; // 3 per scored test (21 for a complete screen)
+  complete: boolean; // All seven tests scored
+  asymmetry_count: number; // Sided tests scored differently left vs right
+  pain_count: number; // Tests scored 0 for pain
+  flagged: boolean; // Pain, asymmetry, a 1 or a low composite
+  created_by: string; // Coach user ID
+  created_at: string; // ISO 8601 timestamp
+}
+
+/**
+ * Save a scored movement screen for a subject (composite and flags are computed from the tests)
+ */
+export async function saveMovementScreen(
+  screen: Pick<MovementScreenRecord, "subject_id" | "session_id" | "protocol_version" | "tests" | "created_by">
+): Promise<MovementScreenRecord> {
+  const createdAt = new Date().toISOString();
+  const item: MovementScreenRecord = {
+    ...screen,
+    ...scoreScreenRecords(screen.tests),
+    screen_id: `${createdAt}#${randomUUID()}`,
+    created_at: createdAt,
+  };
+  if (!item.session_id) delete item.session_id; // DynamoDB rejects undefined attribute values
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: MOVEMENT_SCREENS_TABLE,
+      Item: item,
+    }));
+    return item;
+  } catch (error: any) {
+    console.error('[DynamoDB Movement Screens] ❌ ERROR saving screen:', error);
+    if (error.name === 'ResourceNotFoundException') {
+      console.error(`[DynamoDB Movement Screens] Table ${MOVEMENT_SCREENS_TABLE} does not exist. Please create it in AWS Console.`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get a subject's movement screens (newest first)
+ */
+export async function getMovementScreensBySubject(subjectId: string): Promise<MovementScreenRecord[]> {
+  try {
+    const response = await docClient.send(new QueryCommand({
+      TableName: MOVEMENT_SCREENS_TABLE,
+      KeyConditionExpression: "subject_id = :subjectId",
+      ExpressionAttributeValues: {
+        ":subjectId": subjectId,
+      },
+      ScanIndexForward: false,
+    }));
+    return (response.Items || []) as MovementScreenRecord[];
+  } catch (error: any) {
+    console.error('[DynamoDB Movement Screens] Error getting screens:', error);
+    throw error;
+  }
+}
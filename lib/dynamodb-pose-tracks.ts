@@ -0,0 +1,97 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, PutCommand, QueryCommand } from "@aws-sdk/lib-dynamodb";
+import type { PoseTrackFrame } from "./pose-tracks";
+
+// Initialize DynamoDB client
+// Use JAK_ prefixed vars for Netlify (AWS_* are reserved), fallback to AWS_* for local dev
+const client = new DynamoDBClient({
+  region: process.env.JAK_AWS_REGION || process.env.AWS_REGION || "us-east-2",
+  credentials: (process.env.JAK_AWS_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID) && (process.env.JAK_AWS_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY)
+    ? {
+        accessKeyId: process.env.JAK_AWS_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID,
+        secretAccessKey: process.env.JAK_AWS_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY,
+      }
+    : undefined,
+});
+
+const docClient = DynamoDBDocumentClient.from(client);
+
+const POSE_TRACKS_TABLE = "jak-coach-session-pose-tracks";
+
+export interface PoseTrackChunkItem {
+  session_id: string; // Partition key - Session ID
+  chunk_id: string; // Sort key - `${participant_id}#${start_ms}` (start zero-padded so chunks sort by time)
+  participant_id: string; // Subject / participant the track belongs to (same key as AIMetric.participant_id)
+  participant_name?: string;
+  source_id: string; // Participant whose video the pose was detected in
+  aspect_ratio: number; // Source video width / height (keypoints are normalized to the frame)
+  start_ms: number; // ms epoch of the first frame
+  end_ms: number; // ms epoch of the last frame
+  frame_count: number;
+  format_version?: number; // POSE_STREAM_VERSION the stream was encoded with
+  stream?: Uint8Array; // Frames as a pose stream (lib/pose-stream), stored as Binary
+  frames?: PoseTrackFrame[]; // Legacy chunks saved before pose streams
+  created_at: string; // ISO 8601 timestamp
+}
+
+// A chunk as returned by the API - the Binary stream travels as base64
+export type PoseTrackChunkPayload = Omit<PoseTrackChunkItem, "stream"> & { stream?: string };
+
+export const toChunkId = (participantId: string, startMs: number) =>
+  `${participantId}#${String(Math.round(startMs)).padStart(15, "0")}`;
+
+/**
+ * Save one chunk of a participant's pose track
+ */
+export async function savePoseTrackChunk(chunk: Omit<PoseTrackChunkItem, "chunk_id" | "created_at">): Promise<void> {
+  const item: PoseTrackChunkItem = {
+    ...chunk,
+    chunk_id: toChunkId(chunk.participant_id, chunk.start_ms),
+    created_at: new Date().toISOString(),
+  };
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: POSE_TRACKS_TABLE,
+      Item: item,
+    }));
+  } catch (error: any) {
+    console.error('[DynamoDB Pose Tracks] ❌ ERROR saving pose track chunk:', error);
+    if (error.name === 'ResourceNotFoundException') {
+      console.error(`[DynamoDB Pose Tracks] Table ${POSE_TRACKS_TABLE} does not exist. Please create it in AWS Console.`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get the pose track chunks of a session (optionally one participant's), ordered by participant then time
+ */
+export async function getPoseTrackChunks(sessionId: string, participantId?: string): Promise<PoseTrackChunkItem[]> {
+  const chunks: PoseTrackChunkItem[] = [];
+  let exclusiveStartKey: Record<string, any> | undefined;
+
+  try {
+    // Chunks are large - a session spans several query pages
+    do {
+      const response = await docClient.send(new QueryCommand({
+        TableName: POSE_TRACKS_TABLE,
+        KeyConditionExpression: participantId
+          ? "session_id = :sessionId AND begins_with(chunk_id, :prefix)"
+          : "session_id = :sessionId",
+        ExpressionAttributeValues: participantId
+          ? { ":sessionId": sessionId, ":prefix": `${participantId}#` }
+          : { ":sessionId": sessionId },
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      chunks.push(...((response.Items || []) as PoseTrackChunkItem[]));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    console.log(`[DynamoDB Pose Tracks] Retrieved ${chunks.length} chunks for session ${sessionId}`);
+    return chunks;
+  } catch (error: any) {
+    console.error('[DynamoDB Pose Tracks] Error getting pose track chunks:', error);
+    throw error;
+  }
+}
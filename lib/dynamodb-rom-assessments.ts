@@ -0,0 +1,86 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, PutCommand, QueryCommand } from "@aws-sdk/lib-dynamodb";
+import { randomUUID } from "crypto";
+import type { RomTestRecord } from "./rom-assessment";
+
+// Initialize DynamoDB client
+// Use JAK_ prefixed vars for Netlify (AWS_* are reserved), fallback to AWS_* for local dev
+const client = new DynamoDBClient({
+  region: process.env.JAK_AWS_REGION || process.env.AWS_REGION || "us-east-2",
+  credentials: (process.env.JAK_AWS_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID) && (process.env.JAK_AWS_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY)
+    ? {
+        accessKeyId: process.env.JAK_AWS_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID,
+        secretAccessKey: process.env.JAK_AWS_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY,
+      }
+    : undefined,
+});
+
+const docClient = DynamoDBDocumentClient.from(client);
+
+const ROM_ASSESSMENTS_TABLE = "jak-coach-rom-assessments";
+
+export interface RomAssessmentRecord {
+  subject_id: string; // Partition key - Subject ID
+  assessment_id: string; // Sort key - `${ISO timestamp}#${uuid}`, so assessments sort by date
+  session_id?: string; // Session the assessment was run in
+  protocol_version: number; // ROM_PROTOCOL_VERSION the tests and normative ranges came from
+  tests: RomTestRecord[];
+  limited_count: number; // Measures below their normal range
+  excessive_count: number; // Measures above their normal range
+  asymmetry_count: number; // Left/right differences beyond ROM_ASYMMETRY_DEG
+  created_by: string; // Coach user ID
+  created_at: string; // ISO 8601 timestamp
+}
+
+/**
+ * Save a completed ROM assessment for a subject
+ */
+export async function saveRomAssessment(
+  assessment: Omit<RomAssessmentRecord, "assessment_id" | "created_at" | "limited_count" | "excessive_count" | "asymmetry_count">
+): Promise<RomAssessmentRecord> {
+  const createdAt = new Date().toISOString();
+  const measures = assessment.tests.flatMap((test) => test.measures);
+  const item: RomAssessmentRecord = {
+    ...assessment,
+    assessment_id: `${createdAt}#${randomUUID()}`,
+    limited_count: measures.filter((m) => m.status === 'limited').length,
+    excessive_count: measures.filter((m) => m.status === 'excessive').length,
+    asymmetry_count: assessment.tests.reduce((sum, test) => sum + test.asymmetries.length, 0),
+    created_at: createdAt,
+  };
+  if (!item.session_id) delete item.session_id; // DynamoDB rejects undefined attribute values
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: ROM_ASSESSMENTS_TABLE,
+      Item: item,
+    }));
+    return item;
+  } catch (error: any) {
+    console.error('[DynamoDB ROM Assessments] ❌ ERROR saving assessment:', error);
+    if (error.name === 'ResourceNotFoundException') {
+      console.error(`[DynamoDB ROM Assessments] Table ${ROM_ASSESSMENTS_TABLE} does not exist. Please create it in AWS Console.`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get a subject's ROM assessments (newest first)
+ */
+export async function getRomAssessmentsBySubject(subjectId: string): Promise<RomAssessmentRecord[]> {
+  try {
+    const response = await docClient.send(new QueryCommand({
+      TableName: ROM_ASSESSMENTS_TABLE,
+      KeyConditionExpression: "subject_id = :subjectId",
+      ExpressionAttributeValues: {
+        ":subjectId": subjectId,
+      },
+      ScanIndexForward: false,
+    }));
+    return (response.Items || []) as RomAssessmentRecord[];
+  } catch (error: any) {
+    console.error('[DynamoDB ROM Assessments] Error getting assessments:', error);
+    throw error;
+  }
+}
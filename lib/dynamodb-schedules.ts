@@ -1,5 +1,6 @@
 import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocumentClient, PutCommand, QueryCommand, GetCommand, ScanCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import type { PoseBackendId } from "./pose-backends";
 
 // Initialize DynamoDB client
 // Use JAK_ prefixed vars for Netlify (AWS_* are reserved), fallback to AWS_* for local dev
@@ -24,12 +25,13 @@ export interface ScheduleSession {
   session_id: string; // Unique session identifier
   subject_id?: string; // For 1:1 sessions
   subject_ids?: string[]; // For group sessions
-  session_type: "single" | "group" | "mocap";
+  session_type: "single" | "group" | "mocap" | "video_upload" | "screening"; // video_upload: an uploaded clip analyzed offline, screening: a 1:1 movement screen
   title: string;
   duration: number; // Duration in minutes
   notes?: string;
   status?: "scheduled" | "completed" | "cancelled" | "rescheduled";
   livekit_room_name?: string; // LiveKit room name for video sessions
+  pose_backend?: PoseBackendId; // Pose model chosen when scheduling (session-type default when absent)
   created_at: string; // ISO 8601 timestamp
   updated_at: string; // ISO 8601 timestamp
 }
@@ -155,6 +157,15 @@ export async function getSessionById(sessionId: string, userId?: string): Promis
   }
 }
 
+/**
+ * Whether a user is the session's coach or one of its participants
+ */
+export function isSessionMember(session: ScheduleSession, userId: string): boolean {
+  return session.user_id === userId
+    || session.subject_id === userId
+    || (Array.isArray(session.subject_ids) && session.subject_ids.includes(userId));
+}
+
 /**
  * Get all subjects/clients from DynamoDB
  * Note: This uses Scan which may be slow for large tables
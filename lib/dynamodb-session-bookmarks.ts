@@ -0,0 +1,92 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, DeleteCommand, PutCommand, QueryCommand } from "@aws-sdk/lib-dynamodb";
+import { randomUUID } from "crypto";
+
+// Initialize DynamoDB client
+// Use JAK_ prefixed vars for Netlify (AWS_* are reserved), fallback to AWS_* for local dev
+const client = new DynamoDBClient({
+  region: process.env.JAK_AWS_REGION || process.env.AWS_REGION || "us-east-2",
+  credentials: (process.env.JAK_AWS_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID) && (process.env.JAK_AWS_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY)
+    ? {
+        accessKeyId: process.env.JAK_AWS_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID,
+        secretAccessKey: process.env.JAK_AWS_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY,
+      }
+    : undefined,
+});
+
+const docClient = DynamoDBDocumentClient.from(client);
+
+const BOOKMARKS_TABLE = "jak-coach-session-bookmarks";
+
+export interface SessionBookmark {
+  session_id: string; // Partition key - Session ID
+  bookmark_id: string; // Sort key
+  participant_id: string; // Pose track the bookmark was made on
+  timestamp_ms: number; // ms epoch of the bookmarked frame
+  note: string;
+  created_by: string; // Coach user ID
+  created_at: string; // ISO 8601 timestamp
+}
+
+/**
+ * Save a review bookmark (a moment in a session's pose track with a coach note)
+ */
+export async function saveSessionBookmark(
+  bookmark: Omit<SessionBookmark, "bookmark_id" | "created_at">
+): Promise<SessionBookmark> {
+  const item: SessionBookmark = {
+    ...bookmark,
+    bookmark_id: `${Date.now()}-${randomUUID()}`,
+    created_at: new Date().toISOString(),
+  };
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: BOOKMARKS_TABLE,
+      Item: item,
+    }));
+    return item;
+  } catch (error: any) {
+    console.error('[DynamoDB Bookmarks] ❌ ERROR saving bookmark:', error);
+    if (error.name === 'ResourceNotFoundException') {
+      console.error(`[DynamoDB Bookmarks] Table ${BOOKMARKS_TABLE} does not exist. Please create it in AWS Console.`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get all bookmarks for a session (ordered by bookmarked time)
+ */
+export async function getSessionBookmarks(sessionId: string): Promise<SessionBookmark[]> {
+  try {
+    const response = await docClient.send(new QueryCommand({
+      TableName: BOOKMARKS_TABLE,
+      KeyConditionExpression: "session_id = :sessionId",
+      ExpressionAttributeValues: {
+        ":sessionId": sessionId,
+      },
+    }));
+    const bookmarks = (response.Items || []) as SessionBookmark[];
+    bookmarks.sort((a, b) => a.timestamp_ms - b.timestamp_ms);
+    return bookmarks;
+  } catch (error: any) {
+    console.error('[DynamoDB Bookmarks] Error getting bookmarks:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a bookmark
+ */
+export async function deleteSessionBookmark(sessionId: string, bookmarkId: string): Promise<void> {
+  try {
+    await docClient.send(new DeleteCommand({
+      TableName: BOOKMARKS_TABLE,
+      Key: { session_id: sessionId, bookmark_id: bookmarkId },
+    }));
+  } catch (error: any) {
+    console.error('[DynamoDB Bookmarks] Error deleting bookmark:', error);
+    throw error;
+  }
+}
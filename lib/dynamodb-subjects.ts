@@ -26,6 +26,7 @@ export interface SubjectProfile {
   f_name?: string;
   l_name?: string;
   sport?: string;
+  height_cm?: number; // Standing height - scales pose measurements to centimeters (see lib/calibration.ts)
   notes?: string;
   invite_token?: string;
   coach_id?: string;
@@ -53,6 +54,7 @@ export async function saveSubjectProfile(
       f_name: profile.f_name,
       l_name: profile.l_name,
       sport: profile.sport,
+      height_cm: profile.height_cm,
       notes: profile.notes,
       invite_token: profile.invite_token,
       coach_id: profile.coach_id,
@@ -0,0 +1,329 @@
+// Fatigue within a session - rep velocity loss, growing rep-to-rep variability and declining symmetry / postural efficiency
+import type { BiomechanicalMetrics } from './pose-detection';
+import type { RepSummary } from './rep-counting';
+import { isFiniteNumber, withoutEmptyValues } from './utils';
+
+// Current state shown while the athlete works (null components have no baseline yet)
+export interface FatigueLiveState {
+  fatigueIndex: number | null; // 0-100 - weighted share of each component's threshold
+  velocityLossPct: number | null; // Mean concentric velocity of the latest reps vs the best early rep
+  variabilityIncreasePts: number | null; // Rep duration CV (%) now minus at the start
+  symmetryDropPts: number | null; // Symmetry score now vs the first minute
+  efficiencyDropPts: number | null; // Postural efficiency now vs the first minute
+  repsAnalyzed: number;
+  thresholdReached: boolean;
+  reasons: string[]; // Components past their own threshold
+}
+
+// Raised once each time the athlete crosses the threshold (re-armed after recovering)
+export interface FatigueThresholdEvent {
+  timestamp: number; // ms
+  elapsedMs: number; // Since tracking started
+  fatigueIndex: number;
+  reasons: string[];
+}
+
+// Persisted shape (AIMetric.fatigue) - state at the end of the metric window
+export interface FatigueRecord {
+  fatigue_index: number;
+  velocity_loss_pct?: number;
+  variability_increase_pts?: number;
+  symmetry_drop_pts?: number;
+  efficiency_drop_pts?: number;
+  reps_analyzed: number;
+  threshold_reached: boolean;
+}
+
+export interface FatigueCurvePoint {
+  elapsed_s: number; // Since the first metric of the session
+  fatigue_index?: number;
+  velocity_loss_pct?: number;
+  symmetry_score: number;
+  postural_efficiency?: number;
+}
+
+// Persisted shape (AIInsight.fatigue_curve) - how the athlete held up across the session
+export interface FatigueCurve {
+  points: FatigueCurvePoint[];
+  peak_index?: number;
+  threshold_reached: boolean;
+  threshold_elapsed_s?: number; // First window at / past the threshold
+  max_velocity_loss_pct?: number;
+  symmetry_change_pts?: number; // Last third of the session minus the first third
+  efficiency_change_pts?: number;
+}
+
+export type FatigueMonitor = {
+  update: (
+    reps: RepSummary | null,
+    metrics: BiomechanicalMetrics,
+    timestamp?: number
+  ) => { live: FatigueLiveState; thresholdEvent: FatigueThresholdEvent | null };
+  getState: () => FatigueLiveState;
+  reset: () => void;
+};
+
+// Component thresholds - each one alone is a meaningful sign of fatigue
+export const FATIGUE_VELOCITY_LOSS_PCT = 20; // Common velocity-based training cutoff for ending a set
+export const FATIGUE_VARIABILITY_INCREASE_PTS = 10;
+export const FATIGUE_SCORE_DROP_PTS = 10;
+export const FATIGUE_INDEX_THRESHOLD = 60;
+
+const FATIGUE_REARM_INDEX = 40; // Index must fall below this before another event is raised
+const BASELINE_REPS = 3; // Best of the first reps is the velocity baseline
+const RECENT_REPS = 3;
+const VARIABILITY_REPS = 5; // Rep durations per CV window (first vs latest)
+const MIN_CONCENTRIC_S = 0.05; // Shorter concentric phases are detection noise
+const SCORE_BASELINE_MS = 60000; // Symmetry / efficiency baseline = first minute of tracking
+const SCORE_RECENT_MS = 30000;
+const MIN_SCORE_SAMPLES = 20;
+const MAX_REPS_KEPT = 500;
+const MAX_CURVE_POINTS = 40;
+const WEIGHTS = { velocity: 0.4, variability: 0.2, symmetry: 0.2, efficiency: 0.2 };
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+const coefficientOfVariation = (values: number[]) => {
+  const m = mean(values);
+  if (m <= 0) return 0;
+  return (Math.sqrt(mean(values.map((v) => (v - m) ** 2))) / m) * 100;
+};
+const meanOrNull = (values: Array<number | undefined>): number | null => {
+  const valid = values.filter((v): v is number => typeof v === 'number');
+  return valid.length > 0 ? mean(valid) : null;
+};
+
+const emptyState = (): FatigueLiveState => ({
+  fatigueIndex: null,
+  velocityLossPct: null,
+  variabilityIncreasePts: null,
+  symmetryDropPts: null,
+  efficiencyDropPts: null,
+  repsAnalyzed: 0,
+  thresholdReached: false,
+  reasons: [],
+});
+
+export function createFatigueMonitor(): FatigueMonitor {
+  let startTime: number | null = null;
+  let lastRepIndex = 0;
+  let velocities: number[] = []; // deg/s, mean concentric velocity per rep
+  let durations: number[] = []; // s per rep
+  let baselineSymmetry = { sum: 0, count: 0 };
+  let baselineEfficiency = { sum: 0, count: 0 };
+  let recent: Array<{ t: number; symmetry: number; efficiency: number }> = [];
+  let armed = true;
+  let state = emptyState();
+
+  const addRep = (reps: RepSummary) => {
+    const rep = reps.lastRep;
+    if (!rep) return;
+    // Counter restarted (new exercise / profile) - fatigue is tracked per movement
+    if (rep.index < lastRepIndex) {
+      velocities = [];
+      durations = [];
+    }
+    if (rep.index === lastRepIndex) return;
+    lastRepIndex = rep.index;
+    if (rep.tempo.concentric >= MIN_CONCENTRIC_S && rep.rangeOfMotion > 0) {
+      velocities.push(rep.rangeOfMotion / rep.tempo.concentric);
+    }
+    durations.push((rep.endTime - rep.startTime) / 1000);
+    if (velocities.length > MAX_REPS_KEPT) velocities.shift();
+    if (durations.length > MAX_REPS_KEPT) durations.shift();
+  };
+
+  const velocityLoss = (): number | null => {
+    if (velocities.length < BASELINE_REPS + 1) return null;
+    const baseline = Math.max(...velocities.slice(0, BASELINE_REPS));
+    const latest = mean(velocities.slice(-Math.min(RECENT_REPS, velocities.length - BASELINE_REPS)));
+    return baseline > 0 ? Math.max(0, ((baseline - latest) / baseline) * 100) : null;
+  };
+
+  const variabilityIncrease = (): number | null => {
+    if (durations.length < VARIABILITY_REPS * 2) return null;
+    const early = coefficientOfVariation(durations.slice(0, VARIABILITY_REPS));
+    const latest = coefficientOfVariation(durations.slice(-VARIABILITY_REPS));
+    return Math.max(0, latest - early);
+  };
+
+  // Drop of the last 30 s vs the first minute, once both windows are filled
+  const scoreDrop = (baseline: { sum: number; count: number }, key: 'symmetry' | 'efficiency', now: number): number | null => {
+    if (startTime === null || now - startTime < SCORE_BASELINE_MS + SCORE_RECENT_MS) return null;
+    if (baseline.count < MIN_SCORE_SAMPLES || recent.length < MIN_SCORE_SAMPLES) return null;
+    return Math.max(0, baseline.sum / baseline.count - mean(recent.map((s) => s[key])));
+  };
+
+  const update: FatigueMonitor['update'] = (reps, metrics, timestamp = Date.now()) => {
+    if (startTime === null) startTime = timestamp;
+    if (reps) addRep(reps);
+
+    if (timestamp - startTime <= SCORE_BASELINE_MS) {
+      baselineSymmetry = { sum: baselineSymmetry.sum + metrics.symmetryScore, count: baselineSymmetry.count + 1 };
+      baselineEfficiency = { sum: baselineEfficiency.sum + metrics.posturalEfficiency, count: baselineEfficiency.count + 1 };
+    }
+    recent.push({ t: timestamp, symmetry: metrics.symmetryScore, efficiency: metrics.posturalEfficiency });
+    while (recent.length > 0 && timestamp - recent[0].t > SCORE_RECENT_MS) recent.shift();
+
+    const components = [
+      { value: velocityLoss(), threshold: FATIGUE_VELOCITY_LOSS_PCT, weight: WEIGHTS.velocity, reason: (v: number) => `Rep velocity down ${Math.round(v)}%` },
+      { value: variabilityIncrease(), threshold: FATIGUE_VARIABILITY_INCREASE_PTS, weight: WEIGHTS.variability, reason: (v: number) => `Rep-to-rep variability up ${Math.round(v)} pts` },
+      { value: scoreDrop(baselineSymmetry, 'symmetry', timestamp), threshold: FATIGUE_SCORE_DROP_PTS, weight: WEIGHTS.symmetry, reason: (v: number) => `Symmetry down ${Math.round(v)} pts` },
+      { value: scoreDrop(baselineEfficiency, 'efficiency', timestamp), threshold: FATIGUE_SCORE_DROP_PTS, weight: WEIGHTS.efficiency, reason: (v: number) => `Postural efficiency down ${Math.round(v)} pts` },
+    ];
+    const measured = components.filter((c): c is typeof c & { value: number } => c.value !== null);
+    const weightTotal = measured.reduce((sum, c) => sum + c.weight, 0);
+    const fatigueIndex = weightTotal > 0
+      ? Math.round((measured.reduce((sum, c) => sum + c.weight * Math.min(1, c.value / c.threshold), 0) / weightTotal) * 100)
+      : null;
+    const [velocity, variability, symmetry, efficiency] = components.map((c) => (c.value !== null ? round1(c.value) : null));
+    const thresholdReached = fatigueIndex !== null
+      && (fatigueIndex >= FATIGUE_INDEX_THRESHOLD || (velocity ?? 0) >= FATIGUE_VELOCITY_LOSS_PCT);
+
+    state = {
+      fatigueIndex,
+      velocityLossPct: velocity,
+      variabilityIncreasePts: variability,
+      symmetryDropPts: symmetry,
+      efficiencyDropPts: efficiency,
+      repsAnalyzed: durations.length,
+      thresholdReached,
+      reasons: measured.filter((c) => c.value >= c.threshold).map((c) => c.reason(c.value)),
+    };
+
+    let thresholdEvent: FatigueThresholdEvent | null = null;
+    if (thresholdReached && armed && fatigueIndex !== null) {
+      armed = false;
+      thresholdEvent = { timestamp, elapsedMs: timestamp - startTime, fatigueIndex, reasons: state.reasons };
+    } else if (!armed && (fatigueIndex ?? 0) < FATIGUE_REARM_INDEX && (velocity ?? 0) < FATIGUE_VELOCITY_LOSS_PCT / 2) {
+      armed = true;
+    }
+
+    return { live: state, thresholdEvent };
+  };
+
+  const reset = () => {
+    startTime = null;
+    lastRepIndex = 0;
+    velocities = [];
+    durations = [];
+    baselineSymmetry = { sum: 0, count: 0 };
+    baselineEfficiency = { sum: 0, count: 0 };
+    recent = [];
+    armed = true;
+    state = emptyState();
+  };
+
+  return { update, getState: () => state, reset };
+}
+
+/**
+ * Record for a metric window (null until the monitor has a baseline)
+ */
+export function toFatigueRecord(state: FatigueLiveState | null | undefined): FatigueRecord | null {
+  if (!state || state.fatigueIndex === null) return null;
+  return withoutEmptyValues<FatigueRecord>({
+    fatigue_index: state.fatigueIndex,
+    velocity_loss_pct: state.velocityLossPct,
+    variability_increase_pts: state.variabilityIncreasePts,
+    symmetry_drop_pts: state.symmetryDropPts,
+    efficiency_drop_pts: state.efficiencyDropPts,
+    reps_analyzed: state.repsAnalyzed,
+    threshold_reached: state.thresholdReached,
+  });
+}
+
+/**
+ * Shape check for live states posted by clients (save-metric) before they are converted
+ */
+export function isFatigueState(value: unknown): value is FatigueLiveState {
+  if (!value || typeof value !== 'object') return false;
+  const state = value as Record<string, unknown>;
+  return ['fatigueIndex', 'velocityLossPct', 'variabilityIncreasePts', 'symmetryDropPts', 'efficiencyDropPts']
+    .every((key) => state[key] === null || isFiniteNumber(state[key]))
+    && Number.isInteger(state.repsAnalyzed) && (state.repsAnalyzed as number) >= 0
+    && typeof state.thresholdReached === 'boolean'
+    && Array.isArray(state.reasons) && state.reasons.every((reason) => typeof reason === 'string');
+}
+
+/**
+ * Fatigue curve over a session's metric windows - averages the windows into at most 40 points, so a long
+ * session stays readable, and compares the last third of the session with the first (null with under 2 windows)
+ */
+export function buildFatigueCurve(
+  metrics: Array<{ timestamp: string; symmetry_score: number; postural_efficiency?: number; fatigue?: FatigueRecord }>
+): FatigueCurve | null {
+  const sorted = [...metrics]
+    .filter((m) => !Number.isNaN(new Date(m.timestamp).getTime()))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  if (sorted.length < 2) return null;
+
+  const start = new Date(sorted[0].timestamp).getTime();
+  const bucketSize = Math.ceil(sorted.length / MAX_CURVE_POINTS);
+  const points: FatigueCurvePoint[] = [];
+  for (let i = 0; i < sorted.length; i += bucketSize) {
+    const bucket = sorted.slice(i, i + bucketSize);
+    const fatigueIndex = meanOrNull(bucket.map((m) => m.fatigue?.fatigue_index));
+    const velocityLoss = meanOrNull(bucket.map((m) => m.fatigue?.velocity_loss_pct));
+    const efficiency = meanOrNull(bucket.map((m) => m.postural_efficiency));
+    const point: FatigueCurvePoint = {
+      elapsed_s: Math.round((new Date(bucket[bucket.length - 1].timestamp).getTime() - start) / 1000),
+      symmetry_score: round1(mean(bucket.map((m) => m.symmetry_score))),
+    };
+    if (fatigueIndex !== null) point.fatigue_index = Math.round(fatigueIndex);
+    if (velocityLoss !== null) point.velocity_loss_pct = round1(velocityLoss);
+    if (efficiency !== null) point.postural_efficiency = round1(efficiency);
+    points.push(point);
+  }
+
+  const curve: FatigueCurve = {
+    points,
+    threshold_reached: sorted.some((m) => m.fatigue?.threshold_reached),
+  };
+  const indexes = sorted.map((m) => m.fatigue?.fatigue_index).filter((v): v is number => typeof v === 'number');
+  if (indexes.length > 0) curve.peak_index = Math.max(...indexes);
+  const firstPast = sorted.find((m) => m.fatigue?.threshold_reached);
+  if (firstPast) curve.threshold_elapsed_s = Math.round((new Date(firstPast.timestamp).getTime() - start) / 1000);
+  const velocityLosses = sorted.map((m) => m.fatigue?.velocity_loss_pct).filter((v): v is number => typeof v === 'number');
+  if (velocityLosses.length > 0) curve.max_velocity_loss_pct = Math.max(...velocityLosses);
+
+  // Session averages hide a late decline - compare the ends directly
+  if (sorted.length >= 3) {
+    const third = Math.floor(sorted.length / 3);
+    const first = sorted.slice(0, third);
+    const last = sorted.slice(-third);
+    curve.symmetry_change_pts = round1(mean(last.map((m) => m.symmetry_score)) - mean(first.map((m) => m.symmetry_score)));
+    const firstEfficiency = meanOrNull(first.map((m) => m.postural_efficiency));
+    const lastEfficiency = meanOrNull(last.map((m) => m.postural_efficiency));
+    if (firstEfficiency !== null && lastEfficiency !== null) curve.efficiency_change_pts = round1(lastEfficiency - firstEfficiency);
+  }
+  return curve;
+}
+
+const formatElapsed = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+const formatChange = (value: number) => `${value > 0 ? '+' : ''}${value} pts`;
+
+/**
+ * Human-readable lines for reports
+ */
+export function describeFatigueCurve(curve: FatigueCurve | null | undefined): Array<{ label: string; value: string }> {
+  if (!curve) return [];
+  const lines: Array<{ label: string; value: string }> = [];
+  if (curve.peak_index !== undefined) lines.push({ label: 'Peak fatigue index', value: `${curve.peak_index}/100` });
+  lines.push({
+    label: 'Fatigue threshold',
+    value: curve.threshold_reached
+      ? `Reached${curve.threshold_elapsed_s !== undefined ? ` at ${formatElapsed(curve.threshold_elapsed_s)} into the session` : ''}`
+      : 'Not reached',
+  });
+  if (curve.max_velocity_loss_pct !== undefined) {
+    lines.push({ label: 'Rep velocity loss (max)', value: `${curve.max_velocity_loss_pct}% vs the best early rep` });
+  }
+  if (curve.symmetry_change_pts !== undefined) {
+    lines.push({ label: 'Symmetry, last vs first third', value: formatChange(curve.symmetry_change_pts) });
+  }
+  if (curve.efficiency_change_pts !== undefined) {
+    lines.push({ label: 'Postural efficiency, last vs first third', value: formatChange(curve.efficiency_change_pts) });
+  }
+  return lines;
+}
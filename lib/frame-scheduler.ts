@@ -0,0 +1,117 @@
+// Adaptive frame scheduler - decides which video source to run pose inference on next, and when
+export interface FrameSchedulerOptions {
+  targetFps?: number; // Per-source frame rate to aim for
+  minFps?: number; // Never drop below this, even on slow machines
+  maxBusyRatio?: number; // Fraction of wall time inference may occupy before the frame rate backs off
+}
+
+export interface FrameSchedulerStats {
+  fps: number; // Current per-source frame rate
+  targetFps: number;
+  sources: number;
+  averageProcessingMs: number | null;
+  busyRatio: number; // Estimated fraction of time spent processing at the current rate
+}
+
+export type FrameScheduler = {
+  // Pick the most overdue source and how long to wait before processing it
+  next: (sourceIds: string[], now?: number) => { sourceId: string | null; delayMs: number };
+  // Report how long a frame took end to end (inference + pose pipeline)
+  record: (sourceId: string, processingMs: number, now?: number) => void;
+  // Mark a source as visited without a measurement (e.g. its video wasn't ready) so it isn't retried in a tight loop
+  skip: (sourceId: string, now?: number) => void;
+  getStats: () => FrameSchedulerStats;
+  reset: () => void;
+};
+
+const DEFAULT_TARGET_FPS = 12;
+const DEFAULT_MIN_FPS = 2;
+const DEFAULT_MAX_BUSY_RATIO = 0.7;
+const PROCESSING_EMA_ALPHA = 0.2;
+const ADJUST_INTERVAL_MS = 1000; // Re-evaluate the frame rate at most once a second
+const BACK_OFF_FACTOR = 0.8;
+const RECOVER_FACTOR = 1.1;
+const RECOVER_BELOW_RATIO = 0.6; // Only speed up again with clear headroom (avoids oscillating)
+const IDLE_DELAY_MS = 500; // Poll interval when there is nothing to process
+
+/**
+ * Create a scheduler shared by all video sources. Sources are served round-robin by due time,
+ * and the per-source frame rate drops when processing can't keep up (and recovers when it can).
+ */
+export function createFrameScheduler(options: FrameSchedulerOptions = {}): FrameScheduler {
+  const targetFps = options.targetFps ?? DEFAULT_TARGET_FPS;
+  const minFps = Math.min(options.minFps ?? DEFAULT_MIN_FPS, targetFps);
+  const maxBusyRatio = options.maxBusyRatio ?? DEFAULT_MAX_BUSY_RATIO;
+
+  let fps = targetFps;
+  let averageProcessingMs: number | null = null;
+  let lastAdjustedAt = 0;
+  let sourceCount = 0;
+  const lastRun = new Map<string, number>();
+
+  const busyRatio = () =>
+    averageProcessingMs !== null ? (averageProcessingMs * fps * Math.max(1, sourceCount)) / 1000 : 0;
+
+  const adjust = (now: number) => {
+    if (averageProcessingMs === null || now - lastAdjustedAt < ADJUST_INTERVAL_MS) return;
+    lastAdjustedAt = now;
+
+    const ratio = busyRatio();
+    const previousFps = fps;
+    if (ratio > maxBusyRatio) {
+      fps = Math.max(minFps, fps * BACK_OFF_FACTOR);
+    } else if (ratio < maxBusyRatio * RECOVER_BELOW_RATIO) {
+      fps = Math.min(targetFps, fps * RECOVER_FACTOR);
+    }
+    if (Math.round(fps) !== Math.round(previousFps)) {
+      console.log(`[Frame Scheduler] ${Math.round(previousFps)} -> ${Math.round(fps)} fps per source (${sourceCount} source(s), ${Math.round(averageProcessingMs)}ms/frame)`);
+    }
+  };
+
+  const next = (sourceIds: string[], now: number = Date.now()) => {
+    sourceCount = sourceIds.length;
+    // Forget sources that went away
+    Array.from(lastRun.keys()).forEach((id) => {
+      if (!sourceIds.includes(id)) lastRun.delete(id);
+    });
+    if (sourceIds.length === 0) {
+      return { sourceId: null, delayMs: IDLE_DELAY_MS };
+    }
+
+    const interval = 1000 / fps;
+    const dueTimes = sourceIds.map((sourceId) => {
+      const last = lastRun.get(sourceId);
+      return { sourceId, due: last === undefined ? now : last + interval };
+    });
+    const mostOverdue = dueTimes.reduce((best, entry) => (entry.due < best.due ? entry : best));
+    return { sourceId: mostOverdue.sourceId, delayMs: Math.max(0, mostOverdue.due - now) };
+  };
+
+  return {
+    next,
+    record: (sourceId, processingMs, now = Date.now()) => {
+      lastRun.set(sourceId, now);
+      averageProcessingMs = averageProcessingMs === null
+        ? processingMs
+        : averageProcessingMs + PROCESSING_EMA_ALPHA * (processingMs - averageProcessingMs);
+      adjust(now);
+    },
+    skip: (sourceId, now = Date.now()) => {
+      lastRun.set(sourceId, now);
+    },
+    getStats: () => ({
+      fps,
+      targetFps,
+      sources: sourceCount,
+      averageProcessingMs,
+      busyRatio: busyRatio(),
+    }),
+    reset: () => {
+      fps = targetFps;
+      averageProcessingMs = null;
+      lastAdjustedAt = 0;
+      sourceCount = 0;
+      lastRun.clear();
+    },
+  };
+}
@@ -0,0 +1,509 @@
+// Gait and running mechanics from a side-on camera - foot strikes, cadence, contact time, stride length and asymmetry per stride
+import { POSE_LANDMARKS, type BiomechanicalAngles, type PoseKeypoint } from './pose-detection';
+import type { CalibrationProfile } from './calibration';
+import { isFiniteNumber, withoutEmptyValues } from './utils';
+
+type Side = 'left' | 'right';
+export type GaitSides = { left: number | null; right: number | null };
+
+export interface GaitStride {
+  strideIndex: number; // 1-based
+  side: Side; // Foot whose strikes open and close the stride
+  startTime: number; // ms timestamps of the two foot strikes
+  endTime: number;
+  strideTimeMs: number;
+  cadenceSpm: number; // Steps per minute (two steps per stride)
+  stepTimeMs: GaitSides; // Opposite foot strike -> this foot's strike
+  groundContactMs: GaitSides; // Estimated from the ankle height, so approximate (the ankle lifts at heel-off)
+  overstrideCm: GaitSides; // Ankle ahead of the hips at foot strike (calibrated sessions only)
+  strideLengthCm: number | null; // Same-foot strike to strike, treadmill belt travel included (calibrated sessions only)
+  speedKmh: number | null;
+  verticalOscillationCm: number | null; // Hip rise and fall over the stride (calibrated sessions only)
+  trunkLeanDeg: number | null; // Mean trunk angle from vertical, + = leaning in the running direction
+  asymmetry: {
+    // Symmetry index |L - R| / mean(L, R), in percent
+    stepTimePct: number | null;
+    groundContactPct: number | null;
+    overstridePct: number | null;
+  };
+}
+
+export interface GaitSummary {
+  strideCount: number;
+  cadenceSpm: number | null;
+  groundContactMs: GaitSides;
+  strideLengthCm: number | null;
+  speedKmh: number | null;
+  overstrideCm: number | null;
+  verticalOscillationCm: number | null;
+  trunkLeanDeg: number | null;
+  stepTimeAsymmetryPct: number | null;
+  groundContactAsymmetryPct: number | null;
+  overstrideAsymmetryPct: number | null;
+}
+
+// Current state shown while the athlete runs
+export interface GaitLiveState {
+  calibrated: boolean;
+  strideCount: number;
+  lastStride: GaitStride | null;
+  recent: GaitSummary; // Over the last few strides
+}
+
+// Persisted shape (AIMetric.gait_metrics / AIInsight.gait_metrics) - cm values only for calibrated sessions
+export interface GaitRecord {
+  calibrated: boolean;
+  stride_count: number;
+  cadence_spm: number;
+  left_ground_contact_ms?: number;
+  right_ground_contact_ms?: number;
+  stride_length_cm?: number;
+  speed_kmh?: number;
+  overstride_cm?: number;
+  vertical_oscillation_cm?: number;
+  trunk_lean_deg?: number;
+  step_time_asymmetry_pct?: number;
+  ground_contact_asymmetry_pct?: number;
+  overstride_asymmetry_pct?: number;
+}
+
+export type GaitAnalyzer = {
+  update: (keypoints: PoseKeypoint[], angles: BiomechanicalAngles, calibration: CalibrationProfile | null, timestamp?: number) => {
+    live: GaitLiveState;
+    completedStride: GaitStride | null;
+  };
+  getStrides: () => GaitStride[];
+  reset: () => void;
+};
+
+// Asymmetry above this is worth a coach's attention
+export const GAIT_ASYMMETRY_THRESHOLD_PCT = 10;
+
+const MIN_VISIBILITY = 0.5;
+const GROUND_WINDOW_MS = 2000; // Ground level = lowest ankle position over this much time
+// Heights in torso lengths - keeps thresholds independent of camera distance
+const CONTACT_TOLERANCE = 0.06; // Ankle within this of the ground level = foot on the ground
+const SWING_RISE = 0.12; // Ankle this far above the ground level = foot in swing
+const MIN_CONTACT_MS = 60;
+const MIN_STRIDE_MS = 300;
+const MAX_STRIDE_MS = 2500; // Longer gaps are pauses or tracking dropouts
+const CONTACT_WAIT_MS = 1000; // Give up waiting for the opposite foot's toe-off after this long
+const RECENT_STRIDES = 10; // Strides in the live summary
+const MAX_STRIDES_KEPT = 200;
+
+interface Point { x: number; y: number }
+
+interface GaitFrame {
+  time: number;
+  ankle: Record<Side, Point | null>;
+  hip: Point; // Midpoint of the hips
+  torsoLength: number;
+  spineLean: number | null;
+}
+
+interface FootStrike {
+  side: Side;
+  time: number;
+  ankleX: number;
+  hipX: number;
+  toeOff: { time: number; ankleX: number; hipX: number } | null;
+  stance: Array<{ time: number; ankleX: number }>; // Ankle path while on the ground
+}
+
+// Per-foot contact state
+interface FootState {
+  phase: 'stance' | 'swing' | null; // null until the foot has been seen clearly in one phase
+  lastHeight: number | null;
+  lastTime: number;
+  lastX: number;
+  liftOff: { time: number; ankleX: number; hipX: number } | null; // Left the contact band, not yet confirmed as swing
+}
+
+const point = (keypoints: PoseKeypoint[], index: number): Point | null => {
+  const kp = keypoints[index];
+  return kp && kp.visibility > MIN_VISIBILITY ? { x: kp.x, y: kp.y } : null;
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const mean = (values: Array<number | null>): number | null => {
+  const valid = values.filter((v): v is number => v !== null);
+  return valid.length > 0 ? valid.reduce((sum, v) => sum + v, 0) / valid.length : null;
+};
+const roundOrNull = (value: number | null) => (value !== null ? round1(value) : null);
+
+// |L - R| as a percentage of their mean
+const symmetryIndex = (pair: GaitSides): number | null => {
+  if (pair.left === null || pair.right === null) return null;
+  const average = (Math.abs(pair.left) + Math.abs(pair.right)) / 2;
+  return average > 0 ? round1((Math.abs(pair.left - pair.right) / average) * 100) : null;
+};
+
+const emptyFoot = (): FootState => ({ phase: null, lastHeight: null, lastTime: 0, lastX: 0, liftOff: null });
+
+/**
+ * Split each stride into foot strikes and toe-offs from the ankle heights of a side-on view and measure it.
+ * Works on a treadmill (feet carried back by the belt) and over ground (camera fixed, athlete crossing the frame).
+ */
+export function createGaitAnalyzer(): GaitAnalyzer {
+  let history: GaitFrame[] = [];
+  let feet: Record<Side, FootState> = { left: emptyFoot(), right: emptyFoot() };
+  let strikes: FootStrike[] = [];
+  let strideSide: Side | null = null; // Strides open with the first foot seen striking
+  let facing = 0; // Votes for the running direction: > 0 = toward image right
+  let strides: GaitStride[] = [];
+
+  const measureFrame = (keypoints: PoseKeypoint[], angles: BiomechanicalAngles, time: number): GaitFrame | null => {
+    const leftHip = point(keypoints, POSE_LANDMARKS.LEFT_HIP);
+    const rightHip = point(keypoints, POSE_LANDMARKS.RIGHT_HIP);
+    const leftShoulder = point(keypoints, POSE_LANDMARKS.LEFT_SHOULDER);
+    const rightShoulder = point(keypoints, POSE_LANDMARKS.RIGHT_SHOULDER);
+    // Side-on, the far hip/shoulder is often hidden - one of each is enough
+    const hip = leftHip && rightHip ? { x: (leftHip.x + rightHip.x) / 2, y: (leftHip.y + rightHip.y) / 2 } : leftHip || rightHip;
+    const shoulder = leftShoulder && rightShoulder
+      ? { x: (leftShoulder.x + rightShoulder.x) / 2, y: (leftShoulder.y + rightShoulder.y) / 2 }
+      : leftShoulder || rightShoulder;
+    if (!hip || !shoulder) return null;
+
+    const torsoLength = Math.hypot(shoulder.x - hip.x, shoulder.y - hip.y);
+    if (torsoLength <= 0) return null;
+
+    return {
+      time,
+      ankle: { left: point(keypoints, POSE_LANDMARKS.LEFT_ANKLE), right: point(keypoints, POSE_LANDMARKS.RIGHT_ANKLE) },
+      hip,
+      torsoLength,
+      spineLean: angles.spineLean,
+    };
+  };
+
+  // Feet on the ground = the lowest ankle position seen recently (one foot is down at least once per stride)
+  const groundLevel = (now: number) => {
+    const ankles = history
+      .filter((f) => now - f.time <= GROUND_WINDOW_MS)
+      .flatMap((f) => [f.ankle.left?.y, f.ankle.right?.y])
+      .filter((y): y is number => y !== undefined);
+    return ankles.length > 0 ? Math.max(...ankles) : null;
+  };
+
+  // Foot strike / toe-off state machine for one foot, with hysteresis between the contact band and swing height
+  const updateFoot = (side: Side, frame: GaitFrame, ground: number) => {
+    const ankle = frame.ankle[side];
+    const foot = feet[side];
+    if (!ankle) {
+      foot.lastHeight = null;
+      return;
+    }
+    const height = (ground - ankle.y) / frame.torsoLength;
+
+    if (foot.phase !== 'stance' && height <= CONTACT_TOLERANCE) {
+      if (foot.phase === 'swing') {
+        // Interpolate the moment the ankle entered the contact band
+        let time = frame.time;
+        if (foot.lastHeight !== null && foot.lastHeight > height) {
+          const fraction = (foot.lastHeight - CONTACT_TOLERANCE) / (foot.lastHeight - height);
+          time = foot.lastTime + (frame.time - foot.lastTime) * Math.min(1, Math.max(0, fraction));
+        }
+        strikes.push({ side, time, ankleX: ankle.x, hipX: frame.hip.x, toeOff: null, stance: [{ time: frame.time, ankleX: ankle.x }] });
+      }
+      foot.phase = 'stance';
+      foot.liftOff = null;
+    } else if (foot.phase === 'stance') {
+      if (height <= CONTACT_TOLERANCE) {
+        foot.liftOff = null;
+        const strike = strikes[strikes.length - 1];
+        if (strike?.side === side && !strike.toeOff) strike.stance.push({ time: frame.time, ankleX: ankle.x });
+      } else if (!foot.liftOff) {
+        // Left the contact band - the toe-off if the foot keeps rising
+        let time = frame.time;
+        if (foot.lastHeight !== null && foot.lastHeight < height) {
+          const fraction = (CONTACT_TOLERANCE - foot.lastHeight) / (height - foot.lastHeight);
+          time = foot.lastTime + (frame.time - foot.lastTime) * Math.min(1, Math.max(0, fraction));
+        }
+        foot.liftOff = { time, ankleX: foot.lastHeight !== null ? foot.lastX : ankle.x, hipX: frame.hip.x };
+      }
+      if (foot.liftOff && height >= SWING_RISE) {
+        const strike = [...strikes].reverse().find((s) => s.side === side);
+        if (strike && !strike.toeOff && foot.liftOff.time - strike.time >= MIN_CONTACT_MS) {
+          strike.toeOff = foot.liftOff;
+          // The stance foot always moves backward relative to the hips - that gives the running direction
+          const relativeTravel = (foot.liftOff.ankleX - foot.liftOff.hipX) - (strike.ankleX - strike.hipX);
+          if (relativeTravel !== 0) facing += relativeTravel < 0 ? 1 : -1;
+        }
+        foot.phase = 'swing';
+        foot.liftOff = null;
+      }
+    } else if (foot.phase === null && height >= SWING_RISE) {
+      foot.phase = 'swing';
+    }
+
+    foot.lastHeight = height;
+    foot.lastTime = frame.time;
+    foot.lastX = ankle.x;
+  };
+
+  const contactMs = (strike: FootStrike) => (strike.toeOff ? strike.toeOff.time - strike.time : null);
+
+  const measureStride = (start: FootStrike, middle: FootStrike, end: FootStrike, calibration: CalibrationProfile | null): GaitStride => {
+    const direction = facing >= 0 ? 1 : -1;
+    const strideTimeMs = end.time - start.time;
+    const frames = history.filter((f) => f.time >= start.time && f.time <= end.time);
+    const bySide = <T,>(own: T, other: T): { left: T; right: T } =>
+      start.side === 'left' ? { left: own, right: other } : { left: other, right: own };
+
+    const overstride = (strike: FootStrike) =>
+      calibration ? round1(direction * (strike.ankleX - strike.hipX) * calibration.cmPerUnitX) : null;
+
+    // Belt speed from how fast the stance feet are carried backward (~0 over ground, where the hips move instead).
+    // Measured up to the rearmost ankle position - the foot is already swinging forward when it leaves the contact band
+    const beltSpeeds = [start, middle].flatMap((s) => {
+      const rear = s.stance.reduce((a, b) => (direction * b.ankleX < direction * a.ankleX ? b : a));
+      // Skip the first quarter - the band is entered just before the foot is planted
+      const settleTime = s.stance[0].time + (rear.time - s.stance[0].time) * 0.25;
+      const first = s.stance.find((sample) => sample.time >= settleTime)!;
+      return rear.time > first.time ? [(direction * (first.ankleX - rear.ankleX)) / (rear.time - first.time)] : [];
+    });
+    const beltSpeed = beltSpeeds.length > 0 ? Math.max(0, beltSpeeds.reduce((a, b) => a + b, 0) / beltSpeeds.length) : 0;
+    const strideLengthCm = calibration
+      ? round1((direction * (end.ankleX - start.ankleX) + beltSpeed * strideTimeMs) * calibration.cmPerUnitX)
+      : null;
+
+    const hipYs = frames.map((f) => f.hip.y);
+    const stepTimeMs = bySide(end.time - middle.time, middle.time - start.time);
+    const groundContactMs = bySide(contactMs(start), contactMs(middle));
+    const overstrideCm = bySide(overstride(start), overstride(middle));
+
+    return {
+      strideIndex: strides.length + 1,
+      side: start.side,
+      startTime: start.time,
+      endTime: end.time,
+      strideTimeMs: Math.round(strideTimeMs),
+      cadenceSpm: Math.round(120000 / strideTimeMs),
+      stepTimeMs: { left: Math.round(stepTimeMs.left), right: Math.round(stepTimeMs.right) },
+      groundContactMs: {
+        left: groundContactMs.left !== null ? Math.round(groundContactMs.left) : null,
+        right: groundContactMs.right !== null ? Math.round(groundContactMs.right) : null,
+      },
+      overstrideCm,
+      strideLengthCm,
+      speedKmh: strideLengthCm !== null && strideLengthCm > 0 ? round1((strideLengthCm / strideTimeMs) * 36) : null, // cm/ms -> km/h
+      verticalOscillationCm: calibration && hipYs.length >= 2
+        ? round1((Math.max(...hipYs) - Math.min(...hipYs)) * calibration.cmPerUnitY)
+        : null,
+      trunkLeanDeg: roundOrNull(mean(frames.map((f) => (f.spineLean !== null ? direction * f.spineLean : null)))),
+      asymmetry: {
+        stepTimePct: symmetryIndex(stepTimeMs),
+        groundContactPct: symmetryIndex(groundContactMs),
+        overstridePct: symmetryIndex(overstrideCm),
+      },
+    };
+  };
+
+  // Completed strides: strike - opposite strike - strike, once the opposite foot has toed off (walking has double support)
+  const takeCompletedStride = (now: number, calibration: CalibrationProfile | null): GaitStride | null => {
+    // Consecutive strikes of the same foot mean a missed detection - restart from the later one
+    for (let i = strikes.length - 1; i > 0; i--) {
+      if (strikes[i].side === strikes[i - 1].side) {
+        strikes = strikes.slice(i);
+        break;
+      }
+    }
+    if (strideSide === null && strikes.length > 0) strideSide = strikes[0].side;
+    while (strikes.length > 0 && strikes[0].side !== strideSide) strikes = strikes.slice(1);
+    if (strikes.length < 3) return null;
+
+    const [start, middle, end] = strikes;
+    if (!middle.toeOff && now - end.time < CONTACT_WAIT_MS) return null;
+    strikes = strikes.slice(2);
+
+    const strideTimeMs = end.time - start.time;
+    if (strideTimeMs < MIN_STRIDE_MS || strideTimeMs > MAX_STRIDE_MS) return null;
+    return measureStride(start, middle, end, calibration);
+  };
+
+  const update = (
+    keypoints: PoseKeypoint[],
+    angles: BiomechanicalAngles,
+    calibration: CalibrationProfile | null,
+    timestamp: number = Date.now()
+  ) => {
+    let completedStride: GaitStride | null = null;
+    const frame = measureFrame(keypoints, angles, timestamp);
+    if (frame) {
+      history.push(frame);
+      history = history.filter((f) => timestamp - f.time <= Math.max(GROUND_WINDOW_MS, MAX_STRIDE_MS * 2));
+      const ground = groundLevel(timestamp);
+      if (ground !== null) {
+        updateFoot('left', frame, ground);
+        updateFoot('right', frame, ground);
+      }
+      completedStride = takeCompletedStride(timestamp, calibration);
+      if (completedStride) {
+        strides = [...strides, completedStride].slice(-MAX_STRIDES_KEPT);
+      }
+    }
+
+    return {
+      live: {
+        calibrated: !!calibration,
+        strideCount: strides.length > 0 ? strides[strides.length - 1].strideIndex : 0,
+        lastStride: strides[strides.length - 1] || null,
+        recent: summarizeGait(strides.slice(-RECENT_STRIDES)),
+      },
+      completedStride,
+    };
+  };
+
+  return {
+    update,
+    getStrides: () => strides,
+    reset: () => {
+      history = [];
+      feet = { left: emptyFoot(), right: emptyFoot() };
+      strikes = [];
+      strideSide = null;
+      facing = 0;
+      strides = [];
+    },
+  };
+}
+
+/**
+ * Average the strides of a run (cm values stay null unless the strides were calibrated)
+ */
+export function summarizeGait(strides: GaitStride[]): GaitSummary {
+  const average = (pick: (stride: GaitStride) => number | null) => roundOrNull(mean(strides.map(pick)));
+  return {
+    strideCount: strides.length,
+    cadenceSpm: strides.length > 0 ? Math.round(120000 / mean(strides.map((s) => s.strideTimeMs))!) : null,
+    groundContactMs: {
+      left: roundOrNull(mean(strides.map((s) => s.groundContactMs.left))),
+      right: roundOrNull(mean(strides.map((s) => s.groundContactMs.right))),
+    },
+    strideLengthCm: average((s) => s.strideLengthCm),
+    speedKmh: average((s) => s.speedKmh),
+    overstrideCm: average((s) => mean([s.overstrideCm.left, s.overstrideCm.right])),
+    verticalOscillationCm: average((s) => s.verticalOscillationCm),
+    trunkLeanDeg: average((s) => s.trunkLeanDeg),
+    stepTimeAsymmetryPct: average((s) => s.asymmetry.stepTimePct),
+    groundContactAsymmetryPct: average((s) => s.asymmetry.groundContactPct),
+    overstrideAsymmetryPct: average((s) => s.asymmetry.overstridePct),
+  };
+}
+
+/**
+ * Record for the strides completed during one metric window (null when there were none)
+ */
+export function toGaitRecord(strides: GaitStride[], calibrated: boolean): GaitRecord | null {
+  if (strides.length === 0) return null;
+  const summary = summarizeGait(strides);
+  return withoutEmptyValues<GaitRecord>({
+    calibrated,
+    stride_count: summary.strideCount,
+    cadence_spm: summary.cadenceSpm,
+    left_ground_contact_ms: summary.groundContactMs.left,
+    right_ground_contact_ms: summary.groundContactMs.right,
+    stride_length_cm: summary.strideLengthCm,
+    speed_kmh: summary.speedKmh,
+    overstride_cm: summary.overstrideCm,
+    vertical_oscillation_cm: summary.verticalOscillationCm,
+    trunk_lean_deg: summary.trunkLeanDeg,
+    step_time_asymmetry_pct: summary.stepTimeAsymmetryPct,
+    ground_contact_asymmetry_pct: summary.groundContactAsymmetryPct,
+    overstride_asymmetry_pct: summary.overstrideAsymmetryPct,
+  });
+}
+
+const isMeasurement = (value: unknown) => value === null || isFiniteNumber(value);
+
+const isGaitSides = (value: unknown): value is GaitSides => {
+  if (!value || typeof value !== 'object') return false;
+  const sides = value as Record<string, unknown>;
+  return isMeasurement(sides.left) && isMeasurement(sides.right);
+};
+
+/**
+ * Shape check for strides posted by clients (save-metric) before they are converted
+ */
+export function isGaitStride(value: unknown): value is GaitStride {
+  if (!value || typeof value !== 'object') return false;
+  const stride = value as Record<string, unknown>;
+  const asymmetry = stride.asymmetry as Record<string, unknown> | null | undefined;
+  return Number.isInteger(stride.strideIndex)
+    && (stride.side === 'left' || stride.side === 'right')
+    && isFiniteNumber(stride.startTime) && isFiniteNumber(stride.endTime)
+    && isFiniteNumber(stride.strideTimeMs) && stride.strideTimeMs > 0
+    && isFiniteNumber(stride.cadenceSpm)
+    && isGaitSides(stride.stepTimeMs) && isGaitSides(stride.groundContactMs) && isGaitSides(stride.overstrideCm)
+    && ['strideLengthCm', 'speedKmh', 'verticalOscillationCm', 'trunkLeanDeg'].every((key) => isMeasurement(stride[key]))
+    && !!asymmetry && typeof asymmetry === 'object'
+    && isMeasurement(asymmetry.stepTimePct) && isMeasurement(asymmetry.groundContactPct) && isMeasurement(asymmetry.overstridePct);
+}
+
+type GaitAverageKey = Exclude<keyof GaitRecord, 'calibrated' | 'stride_count'>;
+const GAIT_AVERAGE_KEYS: GaitAverageKey[] = [
+  'cadence_spm',
+  'left_ground_contact_ms',
+  'right_ground_contact_ms',
+  'stride_length_cm',
+  'speed_kmh',
+  'overstride_cm',
+  'vertical_oscillation_cm',
+  'trunk_lean_deg',
+  'step_time_asymmetry_pct',
+  'ground_contact_asymmetry_pct',
+  'overstride_asymmetry_pct',
+];
+
+/**
+ * Combine the windows of a session (averages weighted by strides, over the windows that measured each value)
+ */
+export function combineGaitRecords(records: Array<GaitRecord | undefined>): GaitRecord | null {
+  const valid = records.filter((r): r is GaitRecord => !!r && r.stride_count > 0);
+  if (valid.length === 0) return null;
+  const combined: GaitRecord = {
+    calibrated: valid.some((r) => r.calibrated),
+    stride_count: valid.reduce((sum, r) => sum + r.stride_count, 0),
+    cadence_spm: 0,
+  };
+  GAIT_AVERAGE_KEYS.forEach((key) => {
+    const measured = valid.filter((r) => typeof r[key] === 'number');
+    const strideTotal = measured.reduce((sum, r) => sum + r.stride_count, 0);
+    if (strideTotal > 0) {
+      combined[key] = round1(measured.reduce((sum, r) => sum + (r[key] as number) * r.stride_count, 0) / strideTotal);
+    }
+  });
+  combined.cadence_spm = Math.round(combined.cadence_spm);
+  return combined;
+}
+
+/**
+ * Human-readable lines for reports
+ */
+export function describeGait(record: GaitRecord | null | undefined): Array<{ label: string; value: string }> {
+  if (!record) return [];
+  const lines: Array<{ label: string; value: string }> = [
+    { label: 'Strides analyzed', value: `${record.stride_count}${record.calibrated ? '' : ' (not calibrated - no distances)'}` },
+    { label: 'Cadence', value: `${record.cadence_spm} steps/min` },
+  ];
+  if (record.left_ground_contact_ms !== undefined || record.right_ground_contact_ms !== undefined) {
+    lines.push({
+      label: 'Ground contact (left / right)',
+      value: `${record.left_ground_contact_ms !== undefined ? Math.round(record.left_ground_contact_ms) : '-'} ms / `
+        + `${record.right_ground_contact_ms !== undefined ? Math.round(record.right_ground_contact_ms) : '-'} ms (estimate)`,
+    });
+  }
+  if (record.stride_length_cm !== undefined) {
+    lines.push({ label: 'Stride length', value: `${record.stride_length_cm} cm${record.speed_kmh !== undefined ? ` (~${record.speed_kmh} km/h)` : ''}` });
+  }
+  if (record.overstride_cm !== undefined) lines.push({ label: 'Overstride', value: `${record.overstride_cm} cm ahead of the hips at foot strike` });
+  if (record.vertical_oscillation_cm !== undefined) lines.push({ label: 'Vertical oscillation', value: `${record.vertical_oscillation_cm} cm` });
+  if (record.trunk_lean_deg !== undefined) lines.push({ label: 'Trunk lean', value: `${record.trunk_lean_deg}° ${record.trunk_lean_deg >= 0 ? 'forward' : 'backward'}` });
+  const asymmetry = [
+    record.step_time_asymmetry_pct !== undefined ? `step time ${record.step_time_asymmetry_pct}%` : null,
+    record.ground_contact_asymmetry_pct !== undefined ? `ground contact ${record.ground_contact_asymmetry_pct}%` : null,
+    record.overstride_asymmetry_pct !== undefined ? `overstride ${record.overstride_asymmetry_pct}%` : null,
+  ].filter((part): part is string => part !== null);
+  if (asymmetry.length > 0) lines.push({ label: 'Left/right asymmetry', value: asymmetry.join(', ') });
+  return lines;
+}
@@ -0,0 +1,221 @@
+// Injury-risk scoring - a deterministic, versioned model combining asymmetry, knee valgus, landing mechanics,
+// fatigue and the subject's history into a 0-100 score with a per-factor breakdown (the LLM only narrates it)
+import type { AIMetric } from './dynamodb-ai-metrics';
+import type { AIInsight } from './dynamodb-ai-insights';
+
+// Bump whenever weights or thresholds change - stored with every assessment so old scores stay interpretable
+export const INJURY_RISK_MODEL_VERSION = '1.0';
+
+export type InjuryRiskFactorId = 'asymmetry' | 'knee_valgus' | 'landing' | 'fatigue' | 'history';
+export type InjuryRiskLevel = 'Low' | 'Medium' | 'High';
+
+export interface InjuryRiskFactor {
+  factor: InjuryRiskFactorId;
+  label: string;
+  weight: number; // Share of the score when every factor is measured
+  score: number; // 0-100 - risk from this factor alone
+  contribution: number; // Points of the total score (weights re-normalized over the measured factors)
+  evidence: string; // Measured values behind the factor score
+}
+
+// Persisted shape (AIInsight.injury_risk)
+export interface InjuryRiskAssessment {
+  model_version: string;
+  score: number; // 0-100
+  level: InjuryRiskLevel;
+  coverage: number; // 0-1 - share of the model's weight that had data
+  factors: InjuryRiskFactor[]; // Measured factors, biggest contribution first
+  missing_factors: InjuryRiskFactorId[];
+}
+
+export type InjuryRiskMetric = Pick<AIMetric, 'symmetry_score' | 'posture_metrics' | 'gait_metrics' | 'landing_metrics' | 'form_faults' | 'fatigue'>;
+
+export interface InjuryRiskInput {
+  metrics: InjuryRiskMetric[]; // Metric windows being scored (a whole session, or a single window)
+  history?: Array<Pick<AIInsight, 'timestamp' | 'risk_level' | 'injury_risk'>>; // Earlier insights for the subject
+}
+
+const FACTOR_WEIGHTS: Record<InjuryRiskFactorId, number> = {
+  asymmetry: 0.25,
+  knee_valgus: 0.25,
+  landing: 0.2,
+  fatigue: 0.15,
+  history: 0.15,
+};
+
+const FACTOR_LABELS: Record<InjuryRiskFactorId, string> = {
+  asymmetry: 'Left/right asymmetry',
+  knee_valgus: 'Knee valgus',
+  landing: 'Landing mechanics',
+  fatigue: 'Fatigue',
+  history: 'Risk history',
+};
+
+// Factor scores ramp linearly from 0 at the first value to 100 at the second
+const SYMMETRY_DEFICIT_RANGE: [number, number] = [10, 30]; // 100 - symmetry score
+const GAIT_ASYMMETRY_RANGE: [number, number] = [5, 15]; // % contact / step time difference
+const KNEE_VALGUS_RANGE: [number, number] = [5, 15]; // degrees, worst side per window
+const LANDING_FLEXION_RANGE: [number, number] = [90, 45]; // degrees of peak knee flexion - lower is stiffer
+const LANDING_STIFFNESS_WEIGHT = 0.6; // Rest is the share of asymmetric landings
+const HISTORY_SESSIONS = 5; // Most recent earlier sessions counted
+const LEGACY_RISK_SCORES: Record<string, number> = { low: 20, medium: 50, high: 80 }; // Insights from before the model
+const LEVEL_THRESHOLDS = { medium: 35, high: 60 };
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+const numbers = (values: Array<number | undefined | null>) =>
+  values.filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+const ramp = (value: number, [from, to]: [number, number]) =>
+  Math.round(Math.max(0, Math.min(1, (value - from) / (to - from))) * 100);
+
+export function injuryRiskLevel(score: number): InjuryRiskLevel {
+  return score >= LEVEL_THRESHOLDS.high ? 'High' : score >= LEVEL_THRESHOLDS.medium ? 'Medium' : 'Low';
+}
+
+function asymmetryFactor(metrics: InjuryRiskMetric[]): { score: number; evidence: string } | null {
+  const symmetry = numbers(metrics.map((m) => (m.symmetry_score > 0 ? m.symmetry_score : null)));
+  const gait = numbers(metrics.map((m) => {
+    const values = numbers([m.gait_metrics?.ground_contact_asymmetry_pct, m.gait_metrics?.step_time_asymmetry_pct]);
+    return values.length > 0 ? Math.max(...values) : null;
+  }));
+  if (symmetry.length === 0 && gait.length === 0) return null;
+
+  const scores: number[] = [];
+  const evidence: string[] = [];
+  if (symmetry.length > 0) {
+    const average = mean(symmetry);
+    scores.push(ramp(100 - average, SYMMETRY_DEFICIT_RANGE));
+    evidence.push(`symmetry ${round1(average)}/100`);
+  }
+  if (gait.length > 0) {
+    const average = mean(gait);
+    scores.push(ramp(average, GAIT_ASYMMETRY_RANGE));
+    evidence.push(`stride asymmetry ${round1(average)}%`);
+  }
+  return { score: Math.max(...scores), evidence: evidence.join(', ') };
+}
+
+function kneeValgusFactor(metrics: InjuryRiskMetric[]): { score: number; evidence: string } | null {
+  const windowPeaks = numbers(metrics.map((m) => {
+    const values = numbers([
+      m.posture_metrics?.peak_knee_valgus_left,
+      m.posture_metrics?.peak_knee_valgus_right,
+      m.landing_metrics?.peak_knee_valgus,
+    ]);
+    return values.length > 0 ? Math.max(...values) : null;
+  }));
+  if (windowPeaks.length === 0) return null;
+
+  // Typical worst-side peak rather than the single worst frame, which is often a tracking glitch
+  const typicalPeak = mean(windowPeaks);
+  const faults = metrics.reduce((count, m) => count + (m.form_faults || []).filter((f) => f.rule_id === 'knee_valgus').length, 0);
+  return {
+    score: ramp(typicalPeak, KNEE_VALGUS_RANGE),
+    evidence: `peak ${round1(typicalPeak)}° (worst side, average over ${windowPeaks.length} window${windowPeaks.length === 1 ? '' : 's'})`
+      + (faults > 0 ? `, ${faults} knee valgus fault${faults === 1 ? '' : 's'}` : ''),
+  };
+}
+
+function landingFactor(metrics: InjuryRiskMetric[]): { score: number; evidence: string } | null {
+  const records = metrics.map((m) => m.landing_metrics).filter((r): r is NonNullable<typeof r> => !!r && r.landing_count > 0);
+  if (records.length === 0) return null;
+
+  const landings = records.reduce((sum, r) => sum + r.landing_count, 0);
+  const asymmetric = records.reduce((sum, r) => sum + r.asymmetric_landings, 0);
+  const flexions = numbers(records.map((r) => r.avg_peak_knee_flexion));
+  const stiffness = flexions.length > 0 ? ramp(mean(flexions), LANDING_FLEXION_RANGE) : null;
+  const asymmetryScore = Math.round((asymmetric / landings) * 100);
+  const score = stiffness !== null
+    ? Math.round(LANDING_STIFFNESS_WEIGHT * stiffness + (1 - LANDING_STIFFNESS_WEIGHT) * asymmetryScore)
+    : asymmetryScore;
+  return {
+    score,
+    evidence: `${landings} landing${landings === 1 ? '' : 's'}, ${asymmetric} asymmetric`
+      + (flexions.length > 0 ? `, peak knee flexion ${round1(mean(flexions))}°` : ''),
+  };
+}
+
+function fatigueFactor(metrics: InjuryRiskMetric[]): { score: number; evidence: string } | null {
+  const indices = numbers(metrics.map((m) => m.fatigue?.fatigue_index));
+  if (indices.length === 0) return null;
+  const peak = Math.max(...indices);
+  const thresholdReached = metrics.some((m) => m.fatigue?.threshold_reached);
+  return {
+    score: Math.round(Math.max(0, Math.min(100, peak))),
+    evidence: `peak fatigue index ${round1(peak)}/100${thresholdReached ? ', threshold reached' : ''}`,
+  };
+}
+
+function historyFactor(history: InjuryRiskInput['history']): { score: number; evidence: string } | null {
+  const recent = [...(history || [])]
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+    .map((insight) => insight.injury_risk?.score ?? LEGACY_RISK_SCORES[(insight.risk_level || '').toLowerCase()])
+    .filter((score): score is number => typeof score === 'number')
+    .slice(0, HISTORY_SESSIONS);
+  if (recent.length === 0) return null;
+  const highSessions = recent.filter((score) => score >= LEVEL_THRESHOLDS.high).length;
+  return {
+    score: Math.round(mean(recent)),
+    evidence: `average ${Math.round(mean(recent))}/100 over the last ${recent.length} session${recent.length === 1 ? '' : 's'}`
+      + (highSessions > 0 ? `, ${highSessions} high` : ''),
+  };
+}
+
+/**
+ * Score injury risk from measured factors. Factors without data are left out and the weights of the rest are
+ * re-normalized (see coverage); null when nothing could be measured.
+ */
+export function scoreInjuryRisk(input: InjuryRiskInput): InjuryRiskAssessment | null {
+  const measured: Record<InjuryRiskFactorId, { score: number; evidence: string } | null> = {
+    asymmetry: asymmetryFactor(input.metrics),
+    knee_valgus: kneeValgusFactor(input.metrics),
+    landing: landingFactor(input.metrics),
+    fatigue: fatigueFactor(input.metrics),
+    history: historyFactor(input.history),
+  };
+  const ids = Object.keys(FACTOR_WEIGHTS) as InjuryRiskFactorId[];
+  const available = ids.filter((id) => measured[id] !== null);
+  if (available.length === 0) return null;
+
+  const totalWeight = available.reduce((sum, id) => sum + FACTOR_WEIGHTS[id], 0);
+  const factors: InjuryRiskFactor[] = available
+    .map((id) => ({
+      factor: id,
+      label: FACTOR_LABELS[id],
+      weight: FACTOR_WEIGHTS[id],
+      score: measured[id]!.score,
+      contribution: round1((measured[id]!.score * FACTOR_WEIGHTS[id]) / totalWeight),
+      evidence: measured[id]!.evidence,
+    }))
+    .sort((a, b) => b.contribution - a.contribution);
+  const score = Math.round(factors.reduce((sum, f) => sum + (f.score * f.weight) / totalWeight, 0));
+
+  return {
+    model_version: INJURY_RISK_MODEL_VERSION,
+    score,
+    level: injuryRiskLevel(score),
+    coverage: Math.round(totalWeight * 100) / 100,
+    factors,
+    missing_factors: ids.filter((id) => measured[id] === null),
+  };
+}
+
+/**
+ * Human-readable lines for prompts and reports
+ */
+export function describeInjuryRisk(assessment: InjuryRiskAssessment): Array<{ label: string; value: string }> {
+  const lines = [
+    {
+      label: 'Injury risk score',
+      value: `${assessment.score}/100 (${assessment.level}) - model v${assessment.model_version}, ${Math.round(assessment.coverage * 100)}% of factors measured`,
+    },
+    ...assessment.factors.map((f) => ({
+      label: f.label,
+      value: `${f.score}/100 risk, +${f.contribution} points - ${f.evidence}`,
+    })),
+  ];
+  if (assessment.missing_factors.length > 0) {
+    lines.push({ label: 'Not measured', value: assessment.missing_factors.map((id) => FACTOR_LABELS[id]).join(', ') });
+  }
+  return lines;
+}
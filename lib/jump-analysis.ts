@@ -0,0 +1,443 @@
+// Jump and landing analysis - takeoff/landing detection, flight time, jump height and landing mechanics from pose keypoints
+import { POSE_LANDMARKS, type BiomechanicalAngles, type PoseKeypoint } from './pose-detection';
+import type { CalibrationProfile } from './calibration';
+import { isFiniteNumber, withoutEmptyValues } from './utils';
+
+// countermovement: jump from standing; drop_landing: stepping off a box (landed lower than took off);
+// rebound: takeoff straight out of the previous landing (drop jump, repeated hops)
+export type JumpType = 'countermovement' | 'drop_landing' | 'rebound';
+export type LandingAsymmetry = 'uneven_touchdown' | 'knee_flexion' | 'knee_valgus';
+
+export interface LandingMechanics {
+  kneeFlexionAtImpact: { left: number | null; right: number | null }; // degrees (0 = straight)
+  hipFlexionAtImpact: { left: number | null; right: number | null };
+  peakKneeFlexion: { left: number | null; right: number | null }; // Within the landing window
+  kneeValgusAtImpact: { left: number | null; right: number | null }; // degrees, + = knee collapsing inward (frontal view)
+  peakKneeValgus: { left: number | null; right: number | null };
+  touchdownDifferenceMs: number | null; // Left minus right foot contact time
+  asymmetries: LandingAsymmetry[];
+}
+
+export interface JumpResult {
+  jumpIndex: number; // 1-based
+  type: JumpType;
+  takeoffTime: number; // ms timestamps (interpolated between frames)
+  landingTime: number;
+  flightTimeMs: number;
+  jumpHeightCm: number | null; // From flight time (h = g·t²/8); null for drop landings
+  displacementHeightCm: number | null; // Peak hip rise above standing height (calibrated sessions only)
+  dropHeightCm: number | null; // Box height for drop landings (calibrated sessions only)
+  groundContactMs: number | null; // Time on the ground before a rebound
+  reactiveStrengthIndex: number | null; // Jump height (m) / ground contact (s) for rebounds
+  countermovementDepth: number | null; // Deepest knee flexion in the dip before takeoff (degrees)
+  landing: LandingMechanics;
+}
+
+// Current state shown while the athlete moves
+export interface JumpLiveState {
+  phase: 'grounded' | 'flight' | 'landing';
+  jumpCount: number;
+  calibrated: boolean;
+}
+
+// Persisted shape (AIMetric.landing_metrics) - landings completed during the metric window
+export interface LandingRecord {
+  landing_count: number;
+  asymmetric_landings: number;
+  avg_peak_knee_flexion?: number; // degrees, mean of both sides - low values are stiff landings
+  min_peak_knee_flexion?: number; // Stiffest landing
+  peak_knee_valgus?: number; // degrees, worst side of the worst landing
+}
+
+export type JumpAnalyzer = {
+  update: (keypoints: PoseKeypoint[], angles: BiomechanicalAngles, calibration: CalibrationProfile | null, timestamp?: number) => {
+    live: JumpLiveState;
+    completedJump: JumpResult | null;
+  };
+  getJumps: () => JumpResult[];
+  reset: () => void;
+};
+
+const MIN_VISIBILITY = 0.5;
+const GRAVITY = 9.81; // m/s²
+const PRE_ROLL_MS = 1500; // Frames kept before takeoff (countermovement, standing height)
+const GROUND_WINDOW_MS = 1000; // Ground level = lowest ankle position over this much grounded time
+// Distances in torso lengths - keeps thresholds independent of camera distance
+const TAKEOFF_RISE = 0.15; // Both ankles this far above the ground level = airborne
+const CONTACT_TOLERANCE = 0.05; // Ankle within this of its resting position = in contact
+const LANDED_SPEED = 0.8; // Downward ankle speed (torso lengths/s) below which the feet have stopped
+const DROP_LEVEL_CHANGE = 0.3; // Landing this much lower than takeoff = stepped off a box
+const MIN_FLIGHT_MS = 100;
+const MAX_FLIGHT_MS = 1500; // Longer "flights" are tracking dropouts, not jumps
+const LANDING_WINDOW_MS = 300; // Landing mechanics are measured over this much time after contact
+const MAX_REBOUND_CONTACT_MS = 1000; // A takeoff this soon after landing is a rebound
+const MAX_JUMPS_KEPT = 50;
+// Landing asymmetry thresholds
+const UNEVEN_TOUCHDOWN_MS = 60;
+const KNEE_FLEXION_ASYMMETRY_DEG = 15;
+const KNEE_VALGUS_ASYMMETRY_DEG = 8;
+
+interface Point { x: number; y: number }
+type Side = 'left' | 'right';
+
+interface JumpFrame {
+  time: number;
+  ankle: Record<Side, number | null>; // Image y (larger = lower)
+  ankleY: number; // Mean of the visible ankles
+  hipY: number;
+  torsoLength: number;
+  angles: BiomechanicalAngles;
+}
+
+const point = (keypoints: PoseKeypoint[], index: number): Point | null => {
+  const kp = keypoints[index];
+  return kp && kp.visibility > MIN_VISIBILITY ? { x: kp.x, y: kp.y } : null;
+};
+
+const flexion = (angle: number | null) => (angle === null ? null : Math.max(0, 180 - angle));
+const maxOf = (values: Array<number | null>): number | null => {
+  const valid = values.filter((v): v is number => v !== null);
+  return valid.length > 0 ? Math.max(...valid) : null;
+};
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Time a signal first came within tolerance of its resting value, scanning back from the end of the flight.
+ * Interpolates between the two frames either side of the crossing.
+ */
+function contactTime(frames: JumpFrame[], pick: (frame: JumpFrame) => number | null, rest: number, tolerance: number): number | null {
+  let contactIndex: number | null = null;
+  for (let i = frames.length - 1; i >= 0; i--) {
+    const value = pick(frames[i]);
+    if (value === null) continue;
+    if (value < rest - tolerance) break;
+    contactIndex = i;
+  }
+  if (contactIndex === null) return null;
+  const current = frames[contactIndex];
+  const previous = frames.slice(0, contactIndex).reverse().find((f) => pick(f) !== null);
+  if (!previous) return current.time;
+  const a = pick(previous)!;
+  const b = pick(current)!;
+  const target = rest - tolerance;
+  const fraction = b !== a ? Math.min(1, Math.max(0, (target - a) / (b - a))) : 1;
+  return previous.time + fraction * (current.time - previous.time);
+}
+
+function measureLanding(frames: JumpFrame[], landingTime: number, touchdown: Record<Side, number | null>): LandingMechanics {
+  const window = frames.filter((f) => f.time >= landingTime && f.time <= landingTime + LANDING_WINDOW_MS);
+  const impact = window[0] || frames[frames.length - 1];
+  const bySide = <T,>(pick: (side: Side) => T) => ({ left: pick('left'), right: pick('right') });
+  const knee = (f: JumpFrame, side: Side) => flexion(side === 'left' ? f.angles.leftKnee : f.angles.rightKnee);
+  const hip = (f: JumpFrame, side: Side) => flexion(side === 'left' ? f.angles.leftHip : f.angles.rightHip);
+  const valgus = (f: JumpFrame, side: Side) => (side === 'left' ? f.angles.leftKneeValgus : f.angles.rightKneeValgus);
+
+  const peakKneeFlexion = bySide((side) => maxOf(window.map((f) => knee(f, side))));
+  const peakKneeValgus = bySide((side) => maxOf(window.map((f) => valgus(f, side))));
+  const touchdownDifferenceMs = touchdown.left !== null && touchdown.right !== null
+    ? Math.round(touchdown.left - touchdown.right)
+    : null;
+
+  const asymmetries: LandingAsymmetry[] = [];
+  if (touchdownDifferenceMs !== null && Math.abs(touchdownDifferenceMs) > UNEVEN_TOUCHDOWN_MS) {
+    asymmetries.push('uneven_touchdown');
+  }
+  if (peakKneeFlexion.left !== null && peakKneeFlexion.right !== null
+    && Math.abs(peakKneeFlexion.left - peakKneeFlexion.right) > KNEE_FLEXION_ASYMMETRY_DEG) {
+    asymmetries.push('knee_flexion');
+  }
+  if (peakKneeValgus.left !== null && peakKneeValgus.right !== null
+    && Math.abs(peakKneeValgus.left - peakKneeValgus.right) > KNEE_VALGUS_ASYMMETRY_DEG) {
+    asymmetries.push('knee_valgus');
+  }
+
+  return {
+    kneeFlexionAtImpact: bySide((side) => knee(impact, side)),
+    hipFlexionAtImpact: bySide((side) => hip(impact, side)),
+    peakKneeFlexion,
+    kneeValgusAtImpact: bySide((side) => valgus(impact, side)),
+    peakKneeValgus,
+    touchdownDifferenceMs,
+    asymmetries,
+  };
+}
+
+/**
+ * Create a jump analyzer for one athlete. Jumps are detected from the ankles leaving and returning to the ground;
+ * heights in cm from hip/ankle displacement need a calibration (flight-time height does not).
+ */
+export function createJumpAnalyzer(): JumpAnalyzer {
+  let history: JumpFrame[] = []; // Grounded frames (pre-roll)
+  let flightFrames: JumpFrame[] | null = null;
+  let takeoff: { time: number; groundY: number; standingHipY: number; countermovementDepth: number | null } | null = null;
+  let landed: { frames: JumpFrame[]; result: Omit<JumpResult, 'landing'>; touchdown: Record<Side, number | null>; restY: number } | null = null;
+  let lastLandingTime: number | null = null;
+  let jumps: JumpResult[] = [];
+  let live: JumpLiveState = { phase: 'grounded', jumpCount: 0, calibrated: false };
+
+  const measureFrame = (keypoints: PoseKeypoint[], angles: BiomechanicalAngles, time: number): JumpFrame | null => {
+    const leftHip = point(keypoints, POSE_LANDMARKS.LEFT_HIP);
+    const rightHip = point(keypoints, POSE_LANDMARKS.RIGHT_HIP);
+    const leftShoulder = point(keypoints, POSE_LANDMARKS.LEFT_SHOULDER);
+    const rightShoulder = point(keypoints, POSE_LANDMARKS.RIGHT_SHOULDER);
+    const leftAnkle = point(keypoints, POSE_LANDMARKS.LEFT_ANKLE);
+    const rightAnkle = point(keypoints, POSE_LANDMARKS.RIGHT_ANKLE);
+    if (!leftHip || !rightHip || !leftShoulder || !rightShoulder || (!leftAnkle && !rightAnkle)) return null;
+
+    const hipY = (leftHip.y + rightHip.y) / 2;
+    const torsoLength = Math.hypot(
+      (leftShoulder.x + rightShoulder.x) / 2 - (leftHip.x + rightHip.x) / 2,
+      (leftShoulder.y + rightShoulder.y) / 2 - hipY
+    );
+    if (torsoLength <= 0) return null;
+
+    const ankles = [leftAnkle, rightAnkle].filter((a): a is Point => a !== null);
+    return {
+      time,
+      ankle: { left: leftAnkle?.y ?? null, right: rightAnkle?.y ?? null },
+      ankleY: ankles.reduce((sum, a) => sum + a.y, 0) / ankles.length,
+      hipY,
+      torsoLength,
+      angles,
+    };
+  };
+
+  // Feet on the ground = the lowest ankle position seen recently
+  const groundLevel = (now: number) => {
+    const recent = history.filter((f) => now - f.time <= GROUND_WINDOW_MS);
+    return recent.length > 0 ? Math.max(...recent.map((f) => f.ankleY)) : null;
+  };
+
+  const finishLanding = (): JumpResult => {
+    const { frames, result, touchdown } = landed!;
+    landed = null;
+    const jump = { ...result, landing: measureLanding(frames, result.landingTime, touchdown) };
+    jumps.push(jump);
+    if (jumps.length > MAX_JUMPS_KEPT) {
+      jumps = jumps.slice(-MAX_JUMPS_KEPT);
+    }
+    return jump;
+  };
+
+  const land = (frames: JumpFrame[], calibration: CalibrationProfile | null) => {
+    const last = frames[frames.length - 1];
+    const tolerance = CONTACT_TOLERANCE * last.torsoLength;
+    const restY = last.ankleY;
+    const landingTime = contactTime(frames, (f) => f.ankleY, restY, tolerance) ?? last.time;
+    const touchdown = {
+      left: contactTime(frames, (f) => f.ankle.left, last.ankle.left ?? restY, tolerance),
+      right: contactTime(frames, (f) => f.ankle.right, last.ankle.right ?? restY, tolerance),
+    };
+    const start = takeoff!;
+    takeoff = null;
+
+    const flightTimeMs = landingTime - start.time;
+    if (flightTimeMs < MIN_FLIGHT_MS || flightTimeMs > MAX_FLIGHT_MS) return;
+
+    const levelChange = restY - start.groundY; // + = landed lower
+    const groundContactMs = lastLandingTime !== null && start.time - lastLandingTime <= MAX_REBOUND_CONTACT_MS
+      ? Math.round(start.time - lastLandingTime)
+      : null;
+    const type: JumpType = levelChange > DROP_LEVEL_CHANGE * last.torsoLength
+      ? 'drop_landing'
+      : groundContactMs !== null ? 'rebound' : 'countermovement';
+
+    const flightSeconds = flightTimeMs / 1000;
+    const jumpHeightCm = type === 'drop_landing' ? null : round1(((GRAVITY * flightSeconds * flightSeconds) / 8) * 100);
+    const peakHipY = Math.min(...frames.filter((f) => f.time <= landingTime).map((f) => f.hipY));
+    const displacementHeightCm = calibration && type !== 'drop_landing'
+      ? round1(Math.max(0, start.standingHipY - peakHipY) * calibration.cmPerUnitY)
+      : null;
+
+    landed = {
+      frames,
+      touchdown,
+      restY,
+      result: {
+        jumpIndex: (jumps.length > 0 ? jumps[jumps.length - 1].jumpIndex : 0) + 1,
+        type,
+        takeoffTime: Math.round(start.time),
+        landingTime: Math.round(landingTime),
+        flightTimeMs: Math.round(flightTimeMs),
+        jumpHeightCm,
+        displacementHeightCm,
+        dropHeightCm: calibration && type === 'drop_landing' ? round1(levelChange * calibration.cmPerUnitY) : null,
+        groundContactMs: type === 'rebound' ? groundContactMs : null,
+        reactiveStrengthIndex: type === 'rebound' && jumpHeightCm !== null && groundContactMs
+          ? Math.round((jumpHeightCm / 100 / (groundContactMs / 1000)) * 100) / 100
+          : null,
+        countermovementDepth: type === 'countermovement' ? start.countermovementDepth : null,
+      },
+    };
+    lastLandingTime = landingTime;
+  };
+
+  const update = (keypoints: PoseKeypoint[], angles: BiomechanicalAngles, calibration: CalibrationProfile | null, timestamp: number = Date.now()) => {
+    const frame = measureFrame(keypoints, angles, timestamp);
+    let completedJump: JumpResult | null = null;
+
+    if (frame) {
+      if (landed) {
+        landed.frames.push(frame);
+        if (timestamp - landed.result.landingTime >= LANDING_WINDOW_MS) {
+          completedJump = finishLanding();
+        }
+      }
+
+      if (flightFrames) {
+        flightFrames.push(frame);
+        const previous = flightFrames[flightFrames.length - 2];
+        const dt = (frame.time - previous.time) / 1000;
+        const downwardSpeed = dt > 0 ? (frame.ankleY - previous.ankleY) / dt / frame.torsoLength : 0;
+        const peakAnkleY = Math.min(...flightFrames.map((f) => f.ankleY));
+        const descended = frame.ankleY - peakAnkleY > CONTACT_TOLERANCE * frame.torsoLength;
+        if (timestamp - takeoff!.time > MAX_FLIGHT_MS) {
+          // Lost the athlete mid-air - drop the attempt
+          flightFrames = null;
+          takeoff = null;
+          history = [frame];
+        } else if (descended && downwardSpeed < LANDED_SPEED) {
+          if (landed) completedJump = finishLanding(); // Quick rebound before the previous landing window closed
+          const frames = flightFrames;
+          flightFrames = null;
+          land(frames, calibration);
+          history = [frame];
+        }
+      } else {
+        const ground = groundLevel(timestamp);
+        const preRoll = history.filter((f) => timestamp - f.time <= PRE_ROLL_MS);
+        const lastGrounded = preRoll[preRoll.length - 1];
+        const tolerance = CONTACT_TOLERANCE * frame.torsoLength;
+        const bothAnkles = (test: (y: number) => boolean) =>
+          (['left', 'right'] as Side[]).every((side) => frame.ankle[side] !== null && test(frame.ankle[side]!));
+        // Both feet off the ground with the hips above standing height - a single lifted foot is a step, not a jump
+        const jumped = ground !== null && lastGrounded !== undefined
+          && bothAnkles((y) => ground - y > TAKEOFF_RISE * frame.torsoLength)
+          && frame.hipY < Math.min(...preRoll.map((f) => f.hipY));
+        // Both feet falling below the ground level - stepped off a box
+        const dt = lastGrounded ? (frame.time - lastGrounded.time) / 1000 : 0;
+        const stepped = ground !== null && lastGrounded !== undefined && dt > 0
+          && bothAnkles((y) => y - ground > 2 * tolerance)
+          && (frame.ankleY - lastGrounded.ankleY) / dt / frame.torsoLength > LANDED_SPEED;
+
+        if (jumped || stepped) {
+          // Takeoff = when the ankles left the ground level (interpolated between the last grounded frame and this one)
+          const leftGroundAt = jumped ? ground! - tolerance : ground! + tolerance;
+          const span = frame.ankleY - lastGrounded.ankleY;
+          const fraction = span !== 0 ? Math.min(1, Math.max(0, (leftGroundAt - lastGrounded.ankleY) / span)) : 0;
+          takeoff = {
+            time: lastGrounded.time + fraction * (frame.time - lastGrounded.time),
+            groundY: ground!,
+            standingHipY: Math.min(...preRoll.map((f) => f.hipY)),
+            countermovementDepth: maxOf(preRoll.flatMap((f) => [flexion(f.angles.leftKnee), flexion(f.angles.rightKnee)])),
+          };
+          flightFrames = [lastGrounded, frame];
+          if (landed) completedJump = finishLanding();
+        } else {
+          history.push(frame);
+          history = history.filter((f) => timestamp - f.time <= PRE_ROLL_MS);
+        }
+      }
+    }
+
+    live = {
+      phase: flightFrames ? 'flight' : landed ? 'landing' : 'grounded',
+      jumpCount: (landed ? landed.result.jumpIndex : jumps.length > 0 ? jumps[jumps.length - 1].jumpIndex : 0),
+      calibrated: calibration !== null,
+    };
+
+    return { live, completedJump };
+  };
+
+  return {
+    update,
+    getJumps: () => [...jumps],
+    reset: () => {
+      history = [];
+      flightFrames = null;
+      takeoff = null;
+      landed = null;
+      lastLandingTime = null;
+      jumps = [];
+      live = { phase: 'grounded', jumpCount: 0, calibrated: false };
+    },
+  };
+}
+
+/**
+ * Average flight/height/landing numbers of several jumps (e.g. a set of drop jumps)
+ */
+export function summarizeJumps(jumps: JumpResult[]): {
+  jumpCount: number;
+  averageHeightCm: number | null;
+  bestHeightCm: number | null;
+  averageFlightTimeMs: number | null;
+  averageReactiveStrengthIndex: number | null;
+  asymmetricLandings: number;
+} {
+  const mean = (values: Array<number | null>): number | null => {
+    const valid = values.filter((v): v is number => v !== null);
+    return valid.length > 0 ? round1(valid.reduce((sum, v) => sum + v, 0) / valid.length) : null;
+  };
+  const heights = jumps.map((j) => j.displacementHeightCm ?? j.jumpHeightCm);
+  const jumped = jumps.filter((j) => j.type !== 'drop_landing');
+  return {
+    jumpCount: jumps.length,
+    averageHeightCm: mean(heights),
+    bestHeightCm: maxOf(heights),
+    averageFlightTimeMs: mean(jumped.map((j) => j.flightTimeMs)),
+    averageReactiveStrengthIndex: mean(jumps.map((j) => j.reactiveStrengthIndex)),
+    asymmetricLandings: jumps.filter((j) => j.landing.asymmetries.length > 0).length,
+  };
+}
+
+/**
+ * Landing mechanics of the jumps completed in a metric window (null when there were none)
+ */
+export function toLandingRecord(jumps: JumpResult[]): LandingRecord | null {
+  if (jumps.length === 0) return null;
+  const peakFlexions = jumps.map((j) => {
+    const sides = [j.landing.peakKneeFlexion.left, j.landing.peakKneeFlexion.right].filter((v): v is number => v !== null);
+    return sides.length > 0 ? sides.reduce((sum, v) => sum + v, 0) / sides.length : null;
+  }).filter((v): v is number => v !== null);
+  const peakValgus = maxOf(jumps.flatMap((j) => [j.landing.peakKneeValgus.left, j.landing.peakKneeValgus.right]));
+  return withoutEmptyValues<LandingRecord>({
+    landing_count: jumps.length,
+    asymmetric_landings: jumps.filter((j) => j.landing.asymmetries.length > 0).length,
+    avg_peak_knee_flexion: peakFlexions.length > 0 ? round1(peakFlexions.reduce((sum, v) => sum + v, 0) / peakFlexions.length) : null,
+    min_peak_knee_flexion: peakFlexions.length > 0 ? round1(Math.min(...peakFlexions)) : null,
+    peak_knee_valgus: peakValgus !== null ? round1(peakValgus) : null,
+  });
+}
+
+const JUMP_TYPES: JumpType[] = ['countermovement', 'drop_landing', 'rebound'];
+const LANDING_ASYMMETRIES: LandingAsymmetry[] = ['uneven_touchdown', 'knee_flexion', 'knee_valgus'];
+const LANDING_SIDES = ['kneeFlexionAtImpact', 'hipFlexionAtImpact', 'peakKneeFlexion', 'kneeValgusAtImpact', 'peakKneeValgus'];
+const JUMP_MEASUREMENTS = ['jumpHeightCm', 'displacementHeightCm', 'dropHeightCm', 'groundContactMs', 'reactiveStrengthIndex', 'countermovementDepth'];
+
+const isMeasurement = (value: unknown) => value === null || isFiniteNumber(value);
+
+const isLandingMechanics = (value: unknown): value is LandingMechanics => {
+  if (!value || typeof value !== 'object') return false;
+  const landing = value as Record<string, unknown>;
+  return LANDING_SIDES.every((key) => {
+    const sides = landing[key] as Record<string, unknown> | null | undefined;
+    return !!sides && typeof sides === 'object' && isMeasurement(sides.left) && isMeasurement(sides.right);
+  })
+    && isMeasurement(landing.touchdownDifferenceMs)
+    && Array.isArray(landing.asymmetries)
+    && landing.asymmetries.every((asymmetry) => LANDING_ASYMMETRIES.includes(asymmetry as LandingAsymmetry));
+};
+
+/**
+ * Shape check for jumps posted by clients (save-metric) before they are converted
+ */
+export function isJumpResult(value: unknown): value is JumpResult {
+  if (!value || typeof value !== 'object') return false;
+  const jump = value as Record<string, unknown>;
+  return Number.isInteger(jump.jumpIndex)
+    && JUMP_TYPES.includes(jump.type as JumpType)
+    && isFiniteNumber(jump.takeoffTime) && isFiniteNumber(jump.landingTime) && isFiniteNumber(jump.flightTimeMs)
+    && JUMP_MEASUREMENTS.every((key) => isMeasurement(jump[key]))
+    && isLandingMechanics(jump.landing);
+}
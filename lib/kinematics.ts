@@ -0,0 +1,311 @@
+// Joint kinematics - differentiates smoothed keypoint and angle series into velocity and acceleration
+import { POSE_LANDMARKS, type BiomechanicalAngles, type BiomechanicalMetrics, type PoseKeypoint } from './pose-detection';
+import { withoutEmptyValues } from './utils';
+
+export type TrackedJoint =
+  | 'leftShoulder' | 'rightShoulder'
+  | 'leftElbow' | 'rightElbow'
+  | 'leftWrist' | 'rightWrist'
+  | 'leftHip' | 'rightHip'
+  | 'leftKnee' | 'rightKnee'
+  | 'leftAnkle' | 'rightAnkle';
+
+export type MovementCharacter = 'explosive' | 'moderate' | 'controlled';
+
+export interface JointMotion {
+  speed: number; // normalized frame units per second
+  acceleration: number; // normalized frame units per second²
+}
+
+// Kinematics for a single frame (attached to PoseData)
+export interface KinematicsFrame {
+  dt: number; // seconds since the previous frame
+  joints: Partial<Record<TrackedJoint, JointMotion>>;
+  angularVelocity: Partial<Record<keyof BiomechanicalAngles, number>>; // degrees per second (signed)
+  angularAcceleration: Partial<Record<keyof BiomechanicalAngles, number>>; // degrees per second²
+  centerOfMassSpeed: number | null; // normalized frame units per second
+}
+
+export interface KinematicsPeaks {
+  peakJointSpeed: number;
+  peakJointSpeedJoint: TrackedJoint | null;
+  peakJointAcceleration: number;
+  peakAngularVelocity: number; // absolute, degrees per second
+  peakAngularVelocityAngle: keyof BiomechanicalAngles | null;
+  peakAngularAcceleration: number; // absolute, degrees per second²
+  peakCenterOfMassSpeed: number;
+}
+
+export interface KinematicsSummary {
+  window: KinematicsPeaks; // Peaks since the last takeWindowSummary()
+  reps: KinematicsPeaks[]; // Peaks for each completed rep (most recent last)
+  averageRepPeakAngularVelocity: number | null;
+  movementCharacter: MovementCharacter | null;
+}
+
+export type KinematicsTracker = {
+  update: (keypoints: PoseKeypoint[], angles: BiomechanicalAngles, metrics: BiomechanicalMetrics, timestamp?: number) => KinematicsFrame | null;
+  markRepComplete: () => void; // Close the current rep's peaks (call when the rep counter increments)
+  getSummary: () => KinematicsSummary;
+  takeWindowSummary: () => KinematicsSummary; // Returns the summary and starts a new window
+  reset: () => void;
+};
+
+const MIN_VISIBILITY = 0.5;
+const MIN_DT_SECONDS = 0.01;
+const MAX_DT_SECONDS = 5; // Larger gaps (e.g. track lost) restart differentiation
+const MAX_REPS_KEPT = 20;
+// Peak angular velocity thresholds (deg/s) for classifying movement
+const EXPLOSIVE_ANGULAR_VELOCITY = 300;
+const CONTROLLED_ANGULAR_VELOCITY = 120;
+
+const TRACKED_JOINTS: Record<TrackedJoint, number> = {
+  leftShoulder: POSE_LANDMARKS.LEFT_SHOULDER,
+  rightShoulder: POSE_LANDMARKS.RIGHT_SHOULDER,
+  leftElbow: POSE_LANDMARKS.LEFT_ELBOW,
+  rightElbow: POSE_LANDMARKS.RIGHT_ELBOW,
+  leftWrist: POSE_LANDMARKS.LEFT_WRIST,
+  rightWrist: POSE_LANDMARKS.RIGHT_WRIST,
+  leftHip: POSE_LANDMARKS.LEFT_HIP,
+  rightHip: POSE_LANDMARKS.RIGHT_HIP,
+  leftKnee: POSE_LANDMARKS.LEFT_KNEE,
+  rightKnee: POSE_LANDMARKS.RIGHT_KNEE,
+  leftAnkle: POSE_LANDMARKS.LEFT_ANKLE,
+  rightAnkle: POSE_LANDMARKS.RIGHT_ANKLE,
+};
+
+const emptyPeaks = (): KinematicsPeaks => ({
+  peakJointSpeed: 0,
+  peakJointSpeedJoint: null,
+  peakJointAcceleration: 0,
+  peakAngularVelocity: 0,
+  peakAngularVelocityAngle: null,
+  peakAngularAcceleration: 0,
+  peakCenterOfMassSpeed: 0,
+});
+
+/**
+ * Classify movement from peak angular velocity (deg/s)
+ */
+export function classifyMovement(peakAngularVelocity: number | null): MovementCharacter | null {
+  if (peakAngularVelocity === null || peakAngularVelocity === 0) return null;
+  if (peakAngularVelocity >= EXPLOSIVE_ANGULAR_VELOCITY) return 'explosive';
+  if (peakAngularVelocity <= CONTROLLED_ANGULAR_VELOCITY) return 'controlled';
+  return 'moderate';
+}
+
+function accumulatePeaks(peaks: KinematicsPeaks, frame: KinematicsFrame): void {
+  (Object.entries(frame.joints) as Array<[TrackedJoint, JointMotion]>).forEach(([joint, motion]) => {
+    if (motion.speed > peaks.peakJointSpeed) {
+      peaks.peakJointSpeed = motion.speed;
+      peaks.peakJointSpeedJoint = joint;
+    }
+    peaks.peakJointAcceleration = Math.max(peaks.peakJointAcceleration, Math.abs(motion.acceleration));
+  });
+
+  (Object.entries(frame.angularVelocity) as Array<[keyof BiomechanicalAngles, number]>).forEach(([angle, velocity]) => {
+    if (Math.abs(velocity) > peaks.peakAngularVelocity) {
+      peaks.peakAngularVelocity = Math.abs(velocity);
+      peaks.peakAngularVelocityAngle = angle;
+    }
+  });
+
+  Object.values(frame.angularAcceleration).forEach((acceleration) => {
+    if (acceleration !== undefined) {
+      peaks.peakAngularAcceleration = Math.max(peaks.peakAngularAcceleration, Math.abs(acceleration));
+    }
+  });
+
+  if (frame.centerOfMassSpeed !== null) {
+    peaks.peakCenterOfMassSpeed = Math.max(peaks.peakCenterOfMassSpeed, frame.centerOfMassSpeed);
+  }
+}
+
+interface PreviousSample {
+  timestamp: number;
+  positions: Partial<Record<TrackedJoint, { x: number; y: number }>>;
+  speeds: Partial<Record<TrackedJoint, number>>;
+  angles: BiomechanicalAngles;
+  angularVelocity: Partial<Record<keyof BiomechanicalAngles, number>>;
+  centerOfMass: { x: number; y: number };
+}
+
+/**
+ * Create a kinematics tracker for one tracked person. Feed it smoothed keypoints -
+ * differentiating raw detections amplifies jitter into fake speed spikes.
+ */
+export function createKinematicsTracker(): KinematicsTracker {
+  let previous: PreviousSample | null = null;
+  let windowPeaks = emptyPeaks();
+  let repPeaks = emptyPeaks();
+  let reps: KinematicsPeaks[] = [];
+
+  const update = (
+    keypoints: PoseKeypoint[],
+    angles: BiomechanicalAngles,
+    metrics: BiomechanicalMetrics,
+    timestamp: number = Date.now()
+  ): KinematicsFrame | null => {
+    const positions: PreviousSample['positions'] = {};
+    (Object.entries(TRACKED_JOINTS) as Array<[TrackedJoint, number]>).forEach(([joint, index]) => {
+      const kp = keypoints[index];
+      if (kp && kp.visibility > MIN_VISIBILITY) {
+        positions[joint] = { x: kp.x, y: kp.y };
+      }
+    });
+
+    const dt = previous ? (timestamp - previous.timestamp) / 1000 : 0;
+    if (!previous || dt < MIN_DT_SECONDS || dt > MAX_DT_SECONDS) {
+      previous = { timestamp, positions, speeds: {}, angles, angularVelocity: {}, centerOfMass: metrics.centerOfMass };
+      return null;
+    }
+
+    const frame: KinematicsFrame = {
+      dt,
+      joints: {},
+      angularVelocity: {},
+      angularAcceleration: {},
+      centerOfMassSpeed: null,
+    };
+    const speeds: PreviousSample['speeds'] = {};
+
+    (Object.keys(positions) as TrackedJoint[]).forEach((joint) => {
+      const current = positions[joint]!;
+      const last = previous!.positions[joint];
+      if (!last) return;
+      const speed = Math.hypot(current.x - last.x, current.y - last.y) / dt;
+      const lastSpeed = previous!.speeds[joint];
+      speeds[joint] = speed;
+      frame.joints[joint] = {
+        speed,
+        acceleration: lastSpeed !== undefined ? (speed - lastSpeed) / dt : 0,
+      };
+    });
+
+    (Object.keys(angles) as Array<keyof BiomechanicalAngles>).forEach((angle) => {
+      const current = angles[angle];
+      const last = previous!.angles[angle];
+      if (current === null || last === null) return;
+      const velocity = (current - last) / dt;
+      frame.angularVelocity[angle] = velocity;
+      const lastVelocity = previous!.angularVelocity[angle];
+      if (lastVelocity !== undefined) {
+        frame.angularAcceleration[angle] = (velocity - lastVelocity) / dt;
+      }
+    });
+
+    frame.centerOfMassSpeed = Math.hypot(
+      metrics.centerOfMass.x - previous.centerOfMass.x,
+      metrics.centerOfMass.y - previous.centerOfMass.y
+    ) / dt;
+
+    accumulatePeaks(windowPeaks, frame);
+    accumulatePeaks(repPeaks, frame);
+
+    previous = {
+      timestamp,
+      positions,
+      speeds,
+      angles,
+      angularVelocity: frame.angularVelocity,
+      centerOfMass: metrics.centerOfMass,
+    };
+    return frame;
+  };
+
+  const getSummary = (): KinematicsSummary => {
+    const repVelocities = reps.map((rep) => rep.peakAngularVelocity);
+    const averageRepPeakAngularVelocity = repVelocities.length > 0
+      ? repVelocities.reduce((sum, v) => sum + v, 0) / repVelocities.length
+      : null;
+
+    return {
+      window: { ...windowPeaks },
+      reps: reps.map((rep) => ({ ...rep })),
+      averageRepPeakAngularVelocity,
+      // Prefer the per-rep average (stable across windows) when reps are being counted
+      movementCharacter: classifyMovement(averageRepPeakAngularVelocity ?? windowPeaks.peakAngularVelocity),
+    };
+  };
+
+  return {
+    update,
+    markRepComplete: () => {
+      reps.push(repPeaks);
+      if (reps.length > MAX_REPS_KEPT) {
+        reps = reps.slice(-MAX_REPS_KEPT);
+      }
+      repPeaks = emptyPeaks();
+    },
+    getSummary,
+    takeWindowSummary: () => {
+      const summary = getSummary();
+      windowPeaks = emptyPeaks();
+      return summary;
+    },
+    reset: () => {
+      previous = null;
+      windowPeaks = emptyPeaks();
+      repPeaks = emptyPeaks();
+      reps = [];
+    },
+  };
+}
+
+// Persisted shape (AIMetric.kinematics)
+export interface KinematicsRecord {
+  peak_joint_speed: number; // normalized frame units per second
+  peak_joint_speed_joint?: TrackedJoint;
+  peak_joint_acceleration: number;
+  peak_angular_velocity: number; // degrees per second
+  peak_angular_velocity_angle?: keyof BiomechanicalAngles;
+  peak_angular_acceleration: number; // degrees per second²
+  peak_center_of_mass_speed: number;
+  rep_peak_angular_velocities?: number[]; // Peak angular velocity of each rep in the window
+  avg_rep_peak_angular_velocity?: number;
+  movement_character?: MovementCharacter;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Convert a summary to the shape stored with AIMetric rows
+ */
+export function toKinematicsRecord(summary: KinematicsSummary): KinematicsRecord {
+  const { window } = summary;
+  return withoutEmptyValues<KinematicsRecord>({
+    peak_joint_speed: round(window.peakJointSpeed),
+    peak_joint_speed_joint: window.peakJointSpeedJoint,
+    peak_joint_acceleration: round(window.peakJointAcceleration),
+    peak_angular_velocity: round(window.peakAngularVelocity),
+    peak_angular_velocity_angle: window.peakAngularVelocityAngle,
+    peak_angular_acceleration: round(window.peakAngularAcceleration),
+    peak_center_of_mass_speed: round(window.peakCenterOfMassSpeed),
+    rep_peak_angular_velocities: summary.reps.length > 0 ? summary.reps.map((rep) => round(rep.peakAngularVelocity)) : null,
+    avg_rep_peak_angular_velocity: summary.averageRepPeakAngularVelocity !== null ? round(summary.averageRepPeakAngularVelocity) : null,
+    movement_character: summary.movementCharacter,
+  });
+}
+
+const isPeaks = (value: unknown): value is KinematicsPeaks => {
+  if (!value || typeof value !== 'object') return false;
+  const peaks = value as Record<string, unknown>;
+  return ['peakJointSpeed', 'peakJointAcceleration', 'peakAngularVelocity', 'peakAngularAcceleration', 'peakCenterOfMassSpeed']
+    .every((key) => typeof peaks[key] === 'number' && Number.isFinite(peaks[key]))
+    && (peaks.peakJointSpeedJoint === null || (typeof peaks.peakJointSpeedJoint === 'string' && Object.prototype.hasOwnProperty.call(TRACKED_JOINTS, peaks.peakJointSpeedJoint)))
+    && (peaks.peakAngularVelocityAngle === null || typeof peaks.peakAngularVelocityAngle === 'string');
+};
+
+/**
+ * Shape check for summaries posted by clients (save-metric) before they are converted
+ */
+export function isKinematicsSummary(value: unknown): value is KinematicsSummary {
+  if (!value || typeof value !== 'object') return false;
+  const summary = value as Record<string, unknown>;
+  return isPeaks(summary.window)
+    && Array.isArray(summary.reps) && summary.reps.every(isPeaks)
+    && (summary.averageRepPeakAngularVelocity === null
+      || (typeof summary.averageRepPeakAngularVelocity === 'number' && Number.isFinite(summary.averageRepPeakAngularVelocity)))
+    && (summary.movementCharacter === null
+      || summary.movementCharacter === 'explosive' || summary.movementCharacter === 'moderate' || summary.movementCharacter === 'controlled');
+}
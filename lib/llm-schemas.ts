@@ -0,0 +1,186 @@
+// LLM response validation - zod schemas for every JSON the model returns, plus a completion helper that sends
+// invalid responses back for repair. Nothing from the model reaches DynamoDB without passing one of these.
+import { z } from 'zod';
+import type OpenAI from 'openai';
+
+// Bump when the stored shape of an insight / summary changes - saved as schema_version on each record
+// (records without one predate validation)
+export const INSIGHT_SCHEMA_VERSION = 1;
+export const SUMMARY_SCHEMA_VERSION = 1;
+
+const MAX_REPAIR_ATTEMPTS = 2; // Corrections requested after the first invalid response
+const MEASURED_TOLERANCE = 0.5; // Echoed scores are printed to 1 decimal in the prompt
+const SHORT_TEXT_MAX = 1000;
+const LONG_TEXT_MAX = 5000;
+
+const score = z.number().finite().min(0).max(100);
+const shortText = z.string().trim().min(1).max(SHORT_TEXT_MAX);
+const longText = z.string().trim().min(1).max(LONG_TEXT_MAX);
+const textList = (max: number) => z.array(shortText).max(max);
+// The model often sends null for fields that don't apply (e.g. movement quality from a single frame)
+const optional = <T extends z.ZodTypeAny>(schema: T) => schema.nullish().transform((value) => value ?? undefined);
+
+const RISK_LEVEL_ALIASES: Record<string, string> = { low: 'Low', medium: 'Medium', moderate: 'Medium', high: 'High' };
+
+// "Moderate" (older prompts) and any casing map onto the levels used everywhere else
+export const riskLevelSchema = z.preprocess(
+  (value) => (typeof value === 'string' ? RISK_LEVEL_ALIASES[value.trim().toLowerCase()] ?? value : value),
+  z.enum(['Low', 'Medium', 'High'])
+);
+
+const postureMetricsSchema = z.object({
+  spineLean: optional(shortText),
+  neckFlexion: optional(shortText),
+  shoulderAlignment: optional(shortText),
+  pelvicSway: optional(shortText),
+  additionalMetrics: optional(textList(10)),
+}).strict();
+
+/**
+ * analyze-movement - one analysis window (pose data or frames)
+ */
+export const movementAnalysisSchema = z.object({
+  postureMetrics: optional(postureMetricsSchema),
+  movementQuality: optional(shortText),
+  movementPatterns: optional(textList(8)),
+  movementConsistency: optional(score),
+  dynamicStability: optional(score),
+  performanceInterpretation: longText,
+  performanceImpact: textList(8),
+  balanceScore: score,
+  symmetryScore: score,
+  posturalEfficiency: score,
+  riskLevel: riskLevelSchema,
+  riskDescription: shortText,
+  targetedRecommendations: textList(8),
+}).strict();
+
+export type MovementAnalysis = z.infer<typeof movementAnalysisSchema>;
+
+// Analysis fields clients forward to save-metric / save - checked again server-side before they are stored
+export const storedAnalysisSchema = movementAnalysisSchema.partial();
+
+// Values the session insight has to echo - they are measured or computed, not the model's to choose
+export interface SessionInsightExpectations {
+  balanceScore: number;
+  symmetryScore: number;
+  posturalEfficiency: number;
+  riskLevel?: string; // Injury-risk model level (unchecked when the model had nothing to score)
+}
+
+/**
+ * generate-from-metrics - the session insight for one participant
+ */
+export const sessionInsightSchema = (expected: SessionInsightExpectations) => z.object({
+  movementQuality: shortText,
+  movementPatterns: textList(6),
+  movementConsistency: score,
+  dynamicStability: score,
+  performanceInterpretation: longText,
+  performanceImpact: textList(6),
+  balanceScore: score,
+  symmetryScore: score,
+  posturalEfficiency: score,
+  riskLevel: riskLevelSchema,
+  riskDescription: longText,
+  targetedRecommendations: textList(6),
+}).strict().superRefine((insight, ctx) => {
+  (['balanceScore', 'symmetryScore', 'posturalEfficiency'] as const).forEach((key) => {
+    if (Math.abs(insight[key] - expected[key]) > MEASURED_TOLERANCE) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `must be the measured value ${expected[key].toFixed(1)}` });
+    }
+  });
+  if (expected.riskLevel && insight.riskLevel !== expected.riskLevel) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['riskLevel'], message: `must be the scored level "${expected.riskLevel}"` });
+  }
+});
+
+export type SessionInsight = z.infer<ReturnType<typeof sessionInsightSchema>>;
+
+/**
+ * export-summary - the summary record built from a stored insight (insights saved before validation existed
+ * pass through here too)
+ */
+export const aiSummarySchema = z.object({
+  summary: longText,
+  key_findings: textList(20),
+  recommendations: textList(20),
+  overall_assessment: longText,
+  metrics_summary: z.object({
+    average_balance_score: optional(score),
+    average_symmetry_score: optional(score),
+    average_postural_efficiency: optional(score),
+    risk_level: optional(riskLevelSchema),
+  }).strict(),
+}).strict();
+
+export type AISummaryContent = z.infer<typeof aiSummarySchema>;
+
+export class LLMValidationError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[]) {
+    super(message);
+    this.name = 'LLMValidationError';
+    this.issues = issues;
+  }
+}
+
+export const formatValidationIssues = (error: z.ZodError): string[] =>
+  error.issues.map((issue) => `${issue.path.join('.') || '(response)'}: ${issue.message}`);
+
+/**
+ * Parse and validate a JSON response
+ */
+export function parseLLMResponse<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  content: string | null | undefined
+): { success: true; data: T } | { success: false; issues: string[] } {
+  let json: unknown;
+  try {
+    json = JSON.parse(content || '');
+  } catch {
+    return { success: false, issues: ['(response): not valid JSON'] };
+  }
+  const result = schema.safeParse(json);
+  return result.success ? { success: true, data: result.data } : { success: false, issues: formatValidationIssues(result.error) };
+}
+
+/**
+ * Run a JSON chat completion and validate it. An invalid response goes back to the model with the validation issues
+ * for a corrected version (up to MAX_REPAIR_ATTEMPTS times); throws LLMValidationError if it never validates.
+ * API errors (rate limits etc.) are thrown unchanged so callers keep their own retry handling.
+ */
+export async function createValidatedCompletion<T>(
+  openai: OpenAI,
+  request: Omit<OpenAI.Chat.ChatCompletionCreateParamsNonStreaming, 'response_format'>,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  label: string
+): Promise<T> {
+  const messages = [...request.messages];
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS + 1; attempt++) {
+    const response = await openai.chat.completions.create({
+      ...request,
+      messages,
+      response_format: { type: 'json_object' },
+    });
+    const content = response.choices[0]?.message?.content ?? null;
+    const result = parseLLMResponse(schema, content);
+    if (result.success) return result.data;
+
+    issues = result.issues;
+    console.warn(`[LLM] ${label} response failed validation (attempt ${attempt}/${MAX_REPAIR_ATTEMPTS + 1}):`, issues);
+    messages.push(
+      { role: 'assistant', content: content || '' },
+      {
+        role: 'user',
+        content: `That JSON failed validation:\n${issues.map((issue) => `- ${issue}`).join('\n')}\n`
+          + 'Return the corrected JSON object only - the same structure, no extra fields, every score within its range.',
+      }
+    );
+  }
+
+  throw new LLMValidationError(`${label} response failed validation after ${MAX_REPAIR_ATTEMPTS + 1} attempts`, issues);
+}
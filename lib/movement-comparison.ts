@@ -0,0 +1,153 @@
+// Movement comparison - aligns two pose recordings by movement phase (dynamic time warping) and scores their similarity
+import type { BiomechanicalAngles } from './pose-detection';
+import type { PoseTrackFrame } from './pose-tracks';
+
+type AngleKey = keyof BiomechanicalAngles;
+
+// A stored recording to compare: one person's pose track in a session, optionally trimmed
+export interface CaptureRef {
+  sessionId: string;
+  participantId: string;
+  startMs?: number; // ms epoch, inclusive
+  endMs?: number;
+}
+
+export interface AngleDifference {
+  angle: AngleKey;
+  differences: number[]; // a - b per aligned step (degrees)
+  meanAbsDifference: number;
+  similarity: number; // 0-100
+}
+
+export interface MovementComparison {
+  a: PoseTrackFrame[]; // Frames the alignment was computed on (downsampled)
+  b: PoseTrackFrame[];
+  path: Array<[number, number]>; // Aligned [index in a, index in b] pairs, in order
+  angles: AngleDifference[];
+  similarity: number; // 0-100 over all compared angles
+}
+
+// Angles that describe the movement itself (valgus / obliquity are faults, not the pattern)
+export const COMPARISON_ANGLES: AngleKey[] = [
+  'leftKnee',
+  'rightKnee',
+  'leftHip',
+  'rightHip',
+  'leftShoulder',
+  'rightShoulder',
+  'leftElbow',
+  'rightElbow',
+  'spineLean',
+  'leftAnkleDorsiflexion',
+  'rightAnkleDorsiflexion',
+];
+
+const MAX_DTW_FRAMES = 400; // Per recording - keeps the cost matrix small enough for the main thread
+const MIN_ANGLE_COVERAGE = 0.5; // An angle is compared only if measured on half the frames of both recordings
+const BAND_RATIO = 0.25; // Sakoe-Chiba band as a fraction of the longer recording
+const SIMILARITY_ZERO_DEG = 45; // Mean difference that scores 0%
+
+const similarityFromDifference = (meanAbsDifference: number) =>
+  Math.round(Math.max(0, 100 * (1 - meanAbsDifference / SIMILARITY_ZERO_DEG)));
+
+/**
+ * Frames within a capture's trim range
+ */
+export function trimFrames(frames: PoseTrackFrame[], startMs?: number, endMs?: number): PoseTrackFrame[] {
+  return frames.filter((frame) =>
+    (startMs === undefined || frame.timestamp >= startMs) && (endMs === undefined || frame.timestamp <= endMs));
+}
+
+function downsample(frames: PoseTrackFrame[], maxFrames: number): PoseTrackFrame[] {
+  if (frames.length <= maxFrames) return frames;
+  const step = frames.length / maxFrames;
+  return Array.from({ length: maxFrames }, (_, i) => frames[Math.floor(i * step)]);
+}
+
+// Angle series with gaps filled from the nearest measured frame (null if the angle is too sparse)
+function angleSeries(frames: PoseTrackFrame[], angle: AngleKey): number[] | null {
+  const raw = frames.map((frame) => frame.angles[angle]);
+  const measured = raw.filter((value): value is number => typeof value === 'number').length;
+  if (frames.length === 0 || measured / frames.length < MIN_ANGLE_COVERAGE) return null;
+
+  const series = new Array<number>(raw.length);
+  let last: number | undefined = raw.find((value): value is number => typeof value === 'number');
+  raw.forEach((value, i) => {
+    if (typeof value === 'number') last = value;
+    series[i] = last!;
+  });
+  return series;
+}
+
+/**
+ * Align two recordings with dynamic time warping on their joint angles and measure how they differ.
+ * Returns null when they have no angle in common.
+ */
+export function compareMovements(
+  first: PoseTrackFrame[],
+  second: PoseTrackFrame[],
+  angles: AngleKey[] = COMPARISON_ANGLES
+): MovementComparison | null {
+  const a = downsample(first, MAX_DTW_FRAMES);
+  const b = downsample(second, MAX_DTW_FRAMES);
+  const series = angles
+    .map((angle) => ({ angle, a: angleSeries(a, angle), b: angleSeries(b, angle) }))
+    .filter((s): s is { angle: AngleKey; a: number[]; b: number[] } => !!s.a && !!s.b);
+  if (series.length === 0) return null;
+
+  const n = a.length;
+  const m = b.length;
+  const band = Math.max(Math.ceil(BAND_RATIO * Math.max(n, m)), Math.abs(n - m));
+  const cost = (i: number, j: number) =>
+    series.reduce((sum, s) => sum + Math.abs(s.a[i] - s.b[j]), 0) / series.length;
+
+  // Accumulated cost, row-major (n x m); cells outside the band stay Infinity
+  const acc = new Float64Array(n * m).fill(Infinity);
+  for (let i = 0; i < n; i++) {
+    const center = Math.round((i * (m - 1)) / Math.max(1, n - 1));
+    for (let j = Math.max(0, center - band); j <= Math.min(m - 1, center + band); j++) {
+      const previous = i === 0 && j === 0
+        ? 0
+        : Math.min(
+            i > 0 ? acc[(i - 1) * m + j] : Infinity,
+            j > 0 ? acc[i * m + j - 1] : Infinity,
+            i > 0 && j > 0 ? acc[(i - 1) * m + j - 1] : Infinity
+          );
+      acc[i * m + j] = cost(i, j) + previous;
+    }
+  }
+
+  // Walk back from the end along the cheapest predecessors
+  const path: Array<[number, number]> = [[n - 1, m - 1]];
+  let i = n - 1;
+  let j = m - 1;
+  while (i > 0 || j > 0) {
+    const diagonal = i > 0 && j > 0 ? acc[(i - 1) * m + j - 1] : Infinity;
+    const up = i > 0 ? acc[(i - 1) * m + j] : Infinity;
+    const left = j > 0 ? acc[i * m + j - 1] : Infinity;
+    if (diagonal <= up && diagonal <= left) {
+      i--;
+      j--;
+    } else if (up <= left) {
+      i--;
+    } else {
+      j--;
+    }
+    path.push([i, j]);
+  }
+  path.reverse();
+
+  const angleDifferences: AngleDifference[] = series.map((s) => {
+    const differences = path.map(([pi, pj]) => Math.round((s.a[pi] - s.b[pj]) * 10) / 10);
+    const meanAbsDifference = differences.reduce((sum, d) => sum + Math.abs(d), 0) / differences.length;
+    return {
+      angle: s.angle,
+      differences,
+      meanAbsDifference: Math.round(meanAbsDifference * 10) / 10,
+      similarity: similarityFromDifference(meanAbsDifference),
+    };
+  });
+  const overall = angleDifferences.reduce((sum, d) => sum + d.meanAbsDifference, 0) / angleDifferences.length;
+
+  return { a, b, path, angles: angleDifferences, similarity: similarityFromDifference(overall) };
+}
@@ -0,0 +1,445 @@
+// Declarative per-exercise movement rules - turns pose frames into timestamped form-fault events
+import { computeAngle, POSE_LANDMARKS, type BiomechanicalAngles, type PoseKeypoint } from './pose-detection';
+import type { RepPhase } from './rep-counting';
+import { withoutEmptyValues } from './utils';
+
+export type FaultSeverity = 'low' | 'medium' | 'high';
+export type RuleOperator = '>' | '>=' | '<' | '<=';
+
+// Measurements a rule can check. Any joint angle, plus derived measurements computed from keypoints.
+export type RuleMetric =
+  | keyof BiomechanicalAngles
+  | 'kneeValgus' // degrees the knee collapses inward from the hip-ankle line (worst side, frontal view)
+  | 'trunkLean' // degrees of trunk lean from vertical, either direction
+  | 'hipSag' // degrees the hips drop below the shoulder-ankle line (negative = hips piked up)
+  | 'kneeAsymmetry' // degrees difference between left and right knee angles
+  | 'hipAsymmetry'; // degrees difference between left and right hip angles
+
+export interface MovementRule {
+  id: string;
+  label: string; // Short fault name shown to coaches, e.g. "Knee valgus"
+  cue: string; // Coaching cue sent to the athlete
+  metric: RuleMetric;
+  operator: RuleOperator;
+  threshold: number;
+  unit?: string; // Defaults to degrees
+  phases?: RepPhase[]; // Only evaluated during these rep phases (all phases if omitted)
+  minDurationMs?: number; // Condition must hold this long before a fault is raised
+  severity: FaultSeverity;
+}
+
+export interface ExerciseRuleSet {
+  exercise: string;
+  keywords: string[]; // Matched against the exercise name (case-insensitive)
+  rules: MovementRule[];
+}
+
+export interface FormFaultEvent {
+  ruleId: string;
+  label: string;
+  cue: string;
+  severity: FaultSeverity;
+  metric: RuleMetric;
+  operator: RuleOperator;
+  threshold: number;
+  value: number;
+  unit: string;
+  exercise: string;
+  phase?: RepPhase;
+  timestamp: number; // ms
+}
+
+// Persisted shape (AIMetric.form_faults)
+export interface FormFaultRecord {
+  rule_id: string;
+  label: string;
+  cue: string;
+  severity: FaultSeverity;
+  operator: RuleOperator;
+  threshold: number;
+  value: number;
+  unit: string;
+  exercise: string;
+  phase?: RepPhase;
+  timestamp: string; // ISO 8601
+}
+
+// Aggregate of one rule's faults over a window (AIInsight.form_faults, chat messages)
+export interface FormFaultSummary {
+  rule_id: string;
+  label: string;
+  cue: string;
+  severity: FaultSeverity;
+  count: number;
+  peak_value: number; // Worst value observed
+  threshold: number;
+  unit: string;
+  first_seen: string;
+  last_seen: string;
+}
+
+export interface FormFaultInput {
+  keypoints: PoseKeypoint[];
+  angles: BiomechanicalAngles;
+  phase?: RepPhase;
+}
+
+export type FormFaultDetector = {
+  evaluate: (input: FormFaultInput, timestamp?: number) => FormFaultEvent[];
+  getRuleSet: () => ExerciseRuleSet;
+  reset: () => void;
+};
+
+export interface FormFaultDetectorOptions {
+  exerciseName?: string | null;
+  rules?: MovementRule[]; // Custom rules (e.g. from the exercise catalog) - replace the built-in set
+  cooldownMs?: number; // Minimum time between two events for the same rule
+}
+
+const DEFAULT_COOLDOWN_MS = 10000;
+const MIN_VISIBILITY = 0.5; // Same cutoff as the angle calculators
+
+const KNEE_VALGUS_RULE: MovementRule = {
+  id: 'knee_valgus',
+  label: 'Knee valgus',
+  cue: 'Push your knees out so they track over your toes.',
+  metric: 'kneeValgus',
+  operator: '>',
+  threshold: 10,
+  phases: ['eccentric', 'bottom', 'concentric'],
+  minDurationMs: 500,
+  severity: 'high',
+};
+
+const TRUNK_LEAN_RULE: MovementRule = {
+  id: 'trunk_lean',
+  label: 'Excessive trunk lean',
+  cue: 'Keep your chest up as you lower.',
+  metric: 'trunkLean',
+  operator: '>',
+  threshold: 45,
+  phases: ['eccentric', 'bottom'],
+  minDurationMs: 500,
+  severity: 'medium',
+};
+
+const KNEE_ASYMMETRY_RULE: MovementRule = {
+  id: 'knee_asymmetry',
+  label: 'Uneven knee bend',
+  cue: 'Sit evenly into both legs.',
+  metric: 'kneeAsymmetry',
+  operator: '>',
+  threshold: 20,
+  phases: ['bottom'],
+  minDurationMs: 500,
+  severity: 'low',
+};
+
+// Applied when the exercise is unknown or has no specific rule set
+export const GENERAL_RULE_SET: ExerciseRuleSet = {
+  exercise: 'general',
+  keywords: [],
+  rules: [KNEE_VALGUS_RULE, TRUNK_LEAN_RULE, KNEE_ASYMMETRY_RULE],
+};
+
+export const EXERCISE_RULE_SETS: ExerciseRuleSet[] = [
+  {
+    exercise: 'squat',
+    keywords: ['squat', 'wall sit'],
+    rules: [KNEE_VALGUS_RULE, TRUNK_LEAN_RULE, { ...KNEE_ASYMMETRY_RULE, threshold: 15 }],
+  },
+  {
+    exercise: 'lunge',
+    keywords: ['lunge', 'split squat', 'step up'],
+    rules: [
+      KNEE_VALGUS_RULE,
+      { ...TRUNK_LEAN_RULE, threshold: 30, cue: 'Stay tall through your torso as you step down.' },
+    ],
+  },
+  {
+    exercise: 'plank',
+    keywords: ['plank'],
+    rules: [
+      {
+        id: 'hip_sag',
+        label: 'Hips sagging',
+        cue: 'Squeeze your glutes and lift your hips in line with your shoulders.',
+        metric: 'hipSag',
+        operator: '>',
+        threshold: 10,
+        minDurationMs: 1000,
+        severity: 'high',
+      },
+      {
+        id: 'hip_pike',
+        label: 'Hips piked',
+        cue: 'Lower your hips until your body forms a straight line.',
+        metric: 'hipSag',
+        operator: '<',
+        threshold: -15,
+        minDurationMs: 1000,
+        severity: 'low',
+      },
+    ],
+  },
+  {
+    exercise: 'glute_bridge',
+    keywords: ['bridge', 'hip thrust'],
+    rules: [{ ...KNEE_VALGUS_RULE, cue: 'Keep your knees hip-width apart as you drive up.' }],
+  },
+  {
+    exercise: 'deadlift',
+    keywords: ['deadlift', 'rdl', 'good morning', 'hinge'],
+    rules: [KNEE_VALGUS_RULE],
+  },
+];
+
+/**
+ * Find the rule set for an exercise name, falling back to the general rules
+ */
+export function getRuleSet(exerciseName?: string | null): ExerciseRuleSet {
+  if (!exerciseName) return GENERAL_RULE_SET;
+  const name = exerciseName.toLowerCase();
+  return EXERCISE_RULE_SETS.find((set) => set.keywords.some((keyword) => name.includes(keyword))) || GENERAL_RULE_SET;
+}
+
+// Runtime list of RuleMetric (typed as a record so a new metric can't be left out)
+const RULE_METRICS: Record<RuleMetric, true> = {
+  leftKnee: true,
+  rightKnee: true,
+  leftHip: true,
+  rightHip: true,
+  leftShoulder: true,
+  rightShoulder: true,
+  leftElbow: true,
+  rightElbow: true,
+  spineLean: true,
+  neckFlexion: true,
+  leftAnkleDorsiflexion: true,
+  rightAnkleDorsiflexion: true,
+  pelvicObliquity: true,
+  trunkRotation: true,
+  leftKneeValgus: true,
+  rightKneeValgus: true,
+  kneeValgus: true,
+  trunkLean: true,
+  hipSag: true,
+  kneeAsymmetry: true,
+  hipAsymmetry: true,
+};
+const RULE_OPERATORS: RuleOperator[] = ['>', '>=', '<', '<='];
+const FAULT_SEVERITIES: FaultSeverity[] = ['low', 'medium', 'high'];
+const RULE_PHASES: RepPhase[] = ['eccentric', 'bottom', 'concentric', 'top'];
+
+/**
+ * Check that rules loaded from outside the codebase (e.g. a catalog item's form_rules) are usable
+ */
+export function isValidRule(value: unknown): value is MovementRule {
+  if (!value || typeof value !== 'object') return false;
+  const rule = value as Record<string, unknown>;
+  return typeof rule.id === 'string'
+    && typeof rule.label === 'string'
+    && typeof rule.cue === 'string'
+    && typeof rule.metric === 'string' && Object.prototype.hasOwnProperty.call(RULE_METRICS, rule.metric)
+    && RULE_OPERATORS.includes(rule.operator as RuleOperator)
+    && typeof rule.threshold === 'number' && Number.isFinite(rule.threshold)
+    && FAULT_SEVERITIES.includes(rule.severity as FaultSeverity)
+    && (rule.unit === undefined || typeof rule.unit === 'string')
+    && (rule.phases === undefined
+      || (Array.isArray(rule.phases) && rule.phases.every((phase) => RULE_PHASES.includes(phase as RepPhase))))
+    && (rule.minDurationMs === undefined || (typeof rule.minDurationMs === 'number' && Number.isFinite(rule.minDurationMs)));
+}
+
+const visiblePoint = (keypoints: PoseKeypoint[], index: number) => {
+  const kp = keypoints[index];
+  return kp && kp.visibility > MIN_VISIBILITY ? { x: kp.x, y: kp.y } : null;
+};
+
+/**
+ * Hip drop below the shoulder-ankle line in degrees (negative when the hips are above it)
+ */
+function hipSag(keypoints: PoseKeypoint[]): number | null {
+  // Use whichever side of the body the camera sees better
+  const sides = [
+    [POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_ANKLE],
+    [POSE_LANDMARKS.RIGHT_SHOULDER, POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_ANKLE],
+  ];
+  for (const [shoulderIdx, hipIdx, ankleIdx] of sides) {
+    const shoulder = visiblePoint(keypoints, shoulderIdx);
+    const hip = visiblePoint(keypoints, hipIdx);
+    const ankle = visiblePoint(keypoints, ankleIdx);
+    if (!shoulder || !hip || !ankle || ankle.x === shoulder.x) continue;
+
+    const lineY = shoulder.y + ((ankle.y - shoulder.y) * (hip.x - shoulder.x)) / (ankle.x - shoulder.x);
+    const deviation = 180 - computeAngle(shoulder, hip, ankle);
+    // Image y grows downward, so a hip below the line has a larger y
+    return hip.y > lineY ? deviation : -deviation;
+  }
+  return null;
+}
+
+/**
+ * Compute the value a rule checks, or null if the keypoints it needs aren't visible
+ */
+export function measureRuleMetric(metric: RuleMetric, input: FormFaultInput): number | null {
+  const { angles, keypoints } = input;
+  switch (metric) {
+    case 'kneeValgus': {
+      const values = [angles.leftKneeValgus, angles.rightKneeValgus].filter((v): v is number => v !== null);
+      return values.length > 0 ? Math.max(...values) : null;
+    }
+    case 'trunkLean':
+      return angles.spineLean !== null ? Math.abs(angles.spineLean) : null;
+    case 'hipSag':
+      return hipSag(keypoints);
+    case 'kneeAsymmetry':
+      return angles.leftKnee !== null && angles.rightKnee !== null ? Math.abs(angles.leftKnee - angles.rightKnee) : null;
+    case 'hipAsymmetry':
+      return angles.leftHip !== null && angles.rightHip !== null ? Math.abs(angles.leftHip - angles.rightHip) : null;
+    default:
+      return angles[metric] ?? null;
+  }
+}
+
+const compare = (value: number, operator: RuleOperator, threshold: number): boolean => {
+  switch (operator) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+  }
+};
+
+/**
+ * Create a detector for one athlete. A fault is raised once per episode (condition starting to hold),
+ * then not again until the condition clears and the cooldown has passed.
+ */
+export function createFormFaultDetector(options: FormFaultDetectorOptions = {}): FormFaultDetector {
+  const baseSet = getRuleSet(options.exerciseName);
+  const ruleSet: ExerciseRuleSet = options.rules && options.rules.length > 0
+    ? { ...baseSet, rules: options.rules.filter(isValidRule) }
+    : baseSet;
+  const cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+
+  let state = new Map<string, { activeSince: number | null; raised: boolean; lastRaised: number }>();
+
+  const evaluate = (input: FormFaultInput, timestamp: number = Date.now()): FormFaultEvent[] => {
+    const events: FormFaultEvent[] = [];
+
+    for (const rule of ruleSet.rules) {
+      const ruleState = state.get(rule.id) || { activeSince: null, raised: false, lastRaised: -Infinity };
+      state.set(rule.id, ruleState);
+
+      const inPhase = !rule.phases || (input.phase !== undefined && rule.phases.includes(input.phase));
+      const value = inPhase ? measureRuleMetric(rule.metric, input) : null;
+
+      if (value === null || !compare(value, rule.operator, rule.threshold)) {
+        ruleState.activeSince = null;
+        ruleState.raised = false;
+        continue;
+      }
+
+      if (ruleState.activeSince === null) {
+        ruleState.activeSince = timestamp;
+      }
+
+      const heldLongEnough = timestamp - ruleState.activeSince >= (rule.minDurationMs ?? 0);
+      const cooledDown = timestamp - ruleState.lastRaised >= cooldownMs;
+      if (!ruleState.raised && heldLongEnough && cooledDown) {
+        ruleState.raised = true;
+        ruleState.lastRaised = timestamp;
+        events.push({
+          ruleId: rule.id,
+          label: rule.label,
+          cue: rule.cue,
+          severity: rule.severity,
+          metric: rule.metric,
+          operator: rule.operator,
+          threshold: rule.threshold,
+          value,
+          unit: rule.unit || '°',
+          exercise: ruleSet.exercise,
+          phase: input.phase,
+          timestamp,
+        });
+      }
+    }
+
+    return events;
+  };
+
+  return {
+    evaluate,
+    getRuleSet: () => ruleSet,
+    reset: () => {
+      state = new Map();
+    },
+  };
+}
+
+/**
+ * Convert an event to the shape stored with AIMetric rows
+ */
+export function toFormFaultRecord(event: FormFaultEvent): FormFaultRecord {
+  return withoutEmptyValues<FormFaultRecord>({
+    rule_id: event.ruleId,
+    label: event.label,
+    cue: event.cue,
+    severity: event.severity,
+    operator: event.operator,
+    threshold: event.threshold,
+    value: Math.round(event.value * 10) / 10,
+    unit: event.unit,
+    exercise: event.exercise,
+    phase: event.phase,
+    timestamp: new Date(event.timestamp).toISOString(),
+  });
+}
+
+const SEVERITY_ORDER: Record<FaultSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Group fault records by rule - most severe and most frequent first
+ */
+export function summarizeFormFaults(records: FormFaultRecord[]): FormFaultSummary[] {
+  const byRule = new Map<string, FormFaultSummary>();
+
+  records.forEach((record) => {
+    const existing = byRule.get(record.rule_id);
+    const worse = (a: number, b: number) =>
+      record.operator === '<' || record.operator === '<=' ? Math.min(a, b) : Math.max(a, b);
+
+    if (!existing) {
+      byRule.set(record.rule_id, {
+        rule_id: record.rule_id,
+        label: record.label,
+        cue: record.cue,
+        severity: record.severity,
+        count: 1,
+        peak_value: record.value,
+        threshold: record.threshold,
+        unit: record.unit,
+        first_seen: record.timestamp,
+        last_seen: record.timestamp,
+      });
+      return;
+    }
+
+    existing.count++;
+    existing.peak_value = worse(existing.peak_value, record.value);
+    if (record.timestamp < existing.first_seen) existing.first_seen = record.timestamp;
+    if (record.timestamp > existing.last_seen) existing.last_seen = record.timestamp;
+  });
+
+  return Array.from(byRule.values()).sort(
+    (a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || b.count - a.count
+  );
+}
+
+/**
+ * One-line description of a fault summary for chat messages and LLM prompts
+ */
+export function describeFormFault(summary: FormFaultSummary): string {
+  const times = summary.count === 1 ? 'once' : `${summary.count}×`;
+  return `${summary.label} ${times} (worst ${Math.round(summary.peak_value)}${summary.unit}, limit ${summary.threshold}${summary.unit})`;
+}
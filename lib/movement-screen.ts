@@ -0,0 +1,529 @@
+// Movement screen - FMS-style seven-test screen, auto-scored 0-3 from pose rules with coach override
+import type { BiomechanicalAngles, PoseKeypoint } from './pose-detection';
+import { POSE_LANDMARKS } from './pose-detection';
+import { robustExtreme, type AssessmentSide, type AssessmentStepState } from './rom-assessment';
+
+export type ScreenTestId =
+  | 'deep_squat'
+  | 'hurdle_step'
+  | 'inline_lunge'
+  | 'shoulder_mobility'
+  | 'active_straight_leg_raise'
+  | 'trunk_stability_pushup'
+  | 'rotary_stability';
+export type ScreenScore = 0 | 1 | 2 | 3; // 0 = pain, 1 = unable, 2 = with compensation, 3 = as described
+export type ScreenSide = AssessmentSide | 'both';
+export type ScreenKeypoints = Array<Pick<PoseKeypoint, 'x' | 'y' | 'visibility'>>;
+
+export interface ScreenFeatureDefinition {
+  key: string;
+  label: string;
+  unit: string;
+  extreme: 'max' | 'min';
+  value: (angles: BiomechanicalAngles, keypoints: ScreenKeypoints | null, side: AssessmentSide) => number | null;
+}
+
+export interface ScreenTestDefinition {
+  id: ScreenTestId;
+  name: string;
+  view: 'side' | 'front' | 'back';
+  sided: boolean; // Scored left and right - the test score is the lower side
+  instructions: string; // "{side}" is replaced with the tested side
+  captureMs: number;
+  clearingTest?: string; // Pain on this clearing test scores the test 0
+  features: ScreenFeatureDefinition[];
+  // Score from the captured extremes; null when the features needed were never visible
+  score: (features: Record<string, number | null>) => { score: 1 | 2 | 3; reasons: string[] } | null;
+}
+
+export interface ScreenSideResult {
+  side: ScreenSide;
+  features: Record<string, number | null>; // Extremes over the capture
+  autoScore: 1 | 2 | 3 | null;
+  reasons: string[]; // Why the score was not a 3
+}
+
+export interface ScreenTestResult {
+  testId: ScreenTestId;
+  testName: string;
+  sides: ScreenSideResult[];
+}
+
+// Coach decisions on top of the captured results
+export interface ScreenTestReview {
+  overrides: Partial<Record<ScreenSide, ScreenScore>>;
+  pain: boolean; // Pain during the test or its clearing test
+}
+
+export interface MovementScreenState extends AssessmentStepState {
+  testId: ScreenTestId | null;
+}
+
+export type MovementScreenCapture = {
+  update: (angles: BiomechanicalAngles, keypoints: ScreenKeypoints | null, timestamp?: number) => MovementScreenState;
+  skip: (timestamp?: number) => MovementScreenState; // Skip the current side (no result for it)
+  redo: (timestamp?: number) => MovementScreenState; // Restart the current side from the countdown
+  getState: () => MovementScreenState;
+  getResult: () => ScreenTestResult | null; // Null until at least one side was captured
+};
+
+export interface ScreenTestSummary {
+  testId: ScreenTestId;
+  testName: string;
+  score: ScreenScore | null; // Lower side for sided tests, null until captured or scored by the coach
+  sides: Array<{ side: ScreenSide; autoScore: 1 | 2 | 3 | null; score: ScreenScore | null; overridden: boolean }>;
+  asymmetric: boolean; // Left and right scored differently
+  pain: boolean;
+  reasons: string[];
+}
+
+export interface MovementScreenSummary {
+  tests: ScreenTestSummary[];
+  compositeScore: number; // Sum of the scored tests
+  maxScore: number; // 3 per scored test
+  complete: boolean; // All seven tests scored
+  asymmetries: ScreenTestId[];
+  painful: ScreenTestId[];
+  lowScores: ScreenTestId[]; // Scored 1 (movement dysfunction)
+  flagged: boolean; // Pain, asymmetry, a 1 or a complete composite at / below SCREEN_COMPOSITE_CUTOFF
+}
+
+// Persisted shape (jak-coach-movement-screens) - one per test, features rounded
+export interface ScreenTestRecord {
+  test_id: ScreenTestId;
+  test_name: string;
+  score: ScreenScore;
+  sides: Array<{ side: ScreenSide; auto_score?: 1 | 2 | 3; score: ScreenScore; overridden: boolean }>;
+  asymmetric: boolean;
+  pain: boolean;
+  reasons: string[];
+  features?: Record<string, number>; // Per side: `${side}.${feature}`
+}
+
+export const SCREEN_PROTOCOL_VERSION = 1; // Bump when tests, features or scoring rules change
+export const SCREEN_COMPOSITE_CUTOFF = 14; // Composite scores at or below this are commonly flagged for follow-up
+
+const PREPARE_MS = 8000; // Longer countdown than the ROM tests - the dowel / hurdle / board need setting up
+const HAND_LENGTH_PER_TORSO = 0.36; // Hand length ≈ 0.108 × height, shoulder-to-hip ≈ 0.30 × height
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const flexion = (angle: number | null) => (angle === null ? null : Math.max(0, 180 - angle));
+const other = (side: AssessmentSide): AssessmentSide => (side === 'left' ? 'right' : 'left');
+const pick = (angles: BiomechanicalAngles, left: keyof BiomechanicalAngles, right: keyof BiomechanicalAngles, side: AssessmentSide) =>
+  angles[side === 'left' ? left : right];
+// Bilateral tests filmed side-on only see one side reliably - take the larger of the visible values
+const larger = (a: number | null, b: number | null) => (a === null ? b : b === null ? a : Math.max(a, b));
+const smaller = (a: number | null, b: number | null) => (a === null ? b : b === null ? a : Math.min(a, b));
+const trunkLean = (angles: BiomechanicalAngles) => (angles.spineLean === null ? null : Math.abs(angles.spineLean));
+
+// Gap between the fists in hand lengths (wrist distance minus roughly a fist on each side), scaled by the torso
+function fistGapHandLengths(keypoints: ScreenKeypoints | null): number | null {
+  if (!keypoints) return null;
+  const point = (index: number) => (keypoints[index] && keypoints[index].visibility >= 0.5 ? keypoints[index] : null);
+  const ls = point(POSE_LANDMARKS.LEFT_SHOULDER);
+  const rs = point(POSE_LANDMARKS.RIGHT_SHOULDER);
+  const lh = point(POSE_LANDMARKS.LEFT_HIP);
+  const rh = point(POSE_LANDMARKS.RIGHT_HIP);
+  const lw = point(POSE_LANDMARKS.LEFT_WRIST);
+  const rw = point(POSE_LANDMARKS.RIGHT_WRIST);
+  if (!ls || !rs || !lh || !rh || !lw || !rw) return null;
+  const torso = Math.hypot((ls.x + rs.x) / 2 - (lh.x + rh.x) / 2, (ls.y + rs.y) / 2 - (lh.y + rh.y) / 2);
+  if (torso <= 0) return null;
+  const handLength = torso * HAND_LENGTH_PER_TORSO;
+  return Math.max(0, Math.hypot(lw.x - rw.x, lw.y - rw.y) / handLength - 1);
+}
+
+// Score from a list of [passes, reason] checks: all pass = 3, otherwise 2 with the failed reasons
+function compensations(checks: Array<[boolean, string]>): { score: 2 | 3; reasons: string[] } {
+  const reasons = checks.filter(([passes]) => !passes).map(([, reason]) => reason);
+  return { score: reasons.length === 0 ? 3 : 2, reasons };
+}
+
+export const SCREEN_TESTS: Record<ScreenTestId, ScreenTestDefinition> = {
+  deep_squat: {
+    id: 'deep_squat',
+    name: 'Deep Squat',
+    view: 'side',
+    sided: false,
+    instructions: 'Stand side-on, feet shoulder-width apart, dowel pressed overhead with straight arms. Squat as deep as you can with heels down, three times.',
+    captureMs: 12000,
+    features: [
+      { key: 'hip_flexion', label: 'Hip flexion', unit: '°', extreme: 'max',
+        value: (angles) => larger(flexion(angles.leftHip), flexion(angles.rightHip)) },
+      { key: 'knee_flexion', label: 'Knee flexion', unit: '°', extreme: 'max',
+        value: (angles) => larger(flexion(angles.leftKnee), flexion(angles.rightKnee)) },
+      { key: 'trunk_lean', label: 'Trunk lean', unit: '°', extreme: 'max', value: trunkLean },
+      { key: 'arm_elevation', label: 'Arm elevation', unit: '°', extreme: 'min',
+        value: (angles) => larger(angles.leftShoulder, angles.rightShoulder) },
+    ],
+    score: (f) => {
+      if (f.hip_flexion === null || f.knee_flexion === null) return null;
+      if (f.hip_flexion < 95 || f.knee_flexion < 110) return { score: 1, reasons: ['Thighs did not get below horizontal'] };
+      return compensations([
+        [f.trunk_lean === null || f.trunk_lean <= 40, 'Torso fell forward of the shins'],
+        [f.arm_elevation === null || f.arm_elevation >= 150, 'Dowel drifted forward of the feet'],
+      ]);
+    },
+  },
+  hurdle_step: {
+    id: 'hurdle_step',
+    name: 'Hurdle Step',
+    view: 'side',
+    sided: true,
+    instructions: 'Stand side-on behind the hurdle, dowel across your shoulders. Step over with your {side} leg, touch the heel down and return, three times.',
+    captureMs: 10000,
+    features: [
+      { key: 'step_hip_flexion', label: 'Stepping hip flexion', unit: '°', extreme: 'max',
+        value: (angles, _keypoints, side) => flexion(pick(angles, 'leftHip', 'rightHip', side)) },
+      { key: 'stance_knee', label: 'Stance knee angle', unit: '°', extreme: 'min',
+        value: (angles, _keypoints, side) => pick(angles, 'leftKnee', 'rightKnee', other(side)) },
+      { key: 'trunk_lean', label: 'Trunk lean', unit: '°', extreme: 'max', value: trunkLean },
+    ],
+    score: (f) => {
+      if (f.step_hip_flexion === null) return null;
+      if (f.step_hip_flexion < 60) return { score: 1, reasons: ['Stepping leg did not clear the hurdle height'] };
+      return compensations([
+        [f.stance_knee === null || f.stance_knee >= 160, 'Stance knee bent'],
+        [f.trunk_lean === null || f.trunk_lean <= 10, 'Trunk moved off vertical'],
+      ]);
+    },
+  },
+  inline_lunge: {
+    id: 'inline_lunge',
+    name: 'Inline Lunge',
+    view: 'side',
+    sided: true,
+    instructions: 'Stand side-on, {side} foot forward in line with the back foot, dowel along your spine. Lower the back knee to touch behind the front heel and return, three times.',
+    captureMs: 10000,
+    features: [
+      { key: 'front_knee_flexion', label: 'Front knee flexion', unit: '°', extreme: 'max',
+        value: (angles, _keypoints, side) => flexion(pick(angles, 'leftKnee', 'rightKnee', side)) },
+      { key: 'trunk_lean', label: 'Trunk lean', unit: '°', extreme: 'max', value: trunkLean },
+    ],
+    score: (f) => {
+      if (f.front_knee_flexion === null) return null;
+      if (f.front_knee_flexion < 70) return { score: 1, reasons: ['Back knee did not reach the board'] };
+      return compensations([[f.trunk_lean === null || f.trunk_lean <= 10, 'Dowel lost contact with the spine (trunk lean)']]);
+    },
+  },
+  shoulder_mobility: {
+    id: 'shoulder_mobility',
+    name: 'Shoulder Mobility',
+    view: 'back',
+    sided: true,
+    clearingTest: 'Shoulder impingement clearing test',
+    instructions: 'Stand with your back to the camera. Make fists, then in one motion reach your {side} fist over the shoulder and the other up the back, as close together as you can. Hold, then relax.',
+    captureMs: 8000,
+    features: [
+      { key: 'fist_gap', label: 'Fist gap', unit: ' hand lengths', extreme: 'min',
+        value: (_angles, keypoints) => fistGapHandLengths(keypoints) },
+    ],
+    score: (f) => {
+      if (f.fist_gap === null) return null;
+      if (f.fist_gap <= 1) return { score: 3, reasons: [] };
+      if (f.fist_gap <= 1.5) return { score: 2, reasons: ['Fists within one and a half hand lengths'] };
+      return { score: 1, reasons: ['Fists more than one and a half hand lengths apart'] };
+    },
+  },
+  active_straight_leg_raise: {
+    id: 'active_straight_leg_raise',
+    name: 'Active Straight-Leg Raise',
+    view: 'side',
+    sided: true,
+    instructions: 'Lie on your back side-on to the camera, arms by your sides. Keeping both knees straight, raise your {side} leg as high as you can and lower, three times.',
+    captureMs: 10000,
+    features: [
+      { key: 'raise_angle', label: 'Leg raise', unit: '°', extreme: 'max',
+        value: (angles, _keypoints, side) => flexion(pick(angles, 'leftHip', 'rightHip', side)) },
+      { key: 'down_leg_flexion', label: 'Down leg lift', unit: '°', extreme: 'max',
+        value: (angles, _keypoints, side) => flexion(pick(angles, 'leftHip', 'rightHip', other(side))) },
+      { key: 'raised_knee', label: 'Raised knee angle', unit: '°', extreme: 'min',
+        value: (angles, _keypoints, side) => pick(angles, 'leftKnee', 'rightKnee', side) },
+    ],
+    score: (f) => {
+      if (f.raise_angle === null) return null;
+      // Ankle past mid-thigh of the down leg ≈ 75°, past the knee joint line ≈ 55°
+      const base: 1 | 2 | 3 = f.raise_angle >= 75 ? 3 : f.raise_angle >= 55 ? 2 : 1;
+      const reasons = base === 3 ? [] : [base === 2 ? 'Ankle between mid-thigh and knee of the down leg' : 'Ankle below the knee of the down leg'];
+      const faults: string[] = [];
+      if (f.down_leg_flexion !== null && f.down_leg_flexion > 15) faults.push('Down leg lifted off the floor');
+      if (f.raised_knee !== null && f.raised_knee < 160) faults.push('Raised knee bent');
+      return { score: faults.length > 0 ? (Math.max(1, base - 1) as 1 | 2) : base, reasons: [...reasons, ...faults] };
+    },
+  },
+  trunk_stability_pushup: {
+    id: 'trunk_stability_pushup',
+    name: 'Trunk Stability Push-Up',
+    view: 'side',
+    sided: false,
+    clearingTest: 'Spinal extension clearing test',
+    instructions: 'Lie face down side-on to the camera, hands at forehead level (chin level if regressed). Push up so your body lifts as one unit, three times.',
+    captureMs: 10000,
+    features: [
+      { key: 'elbow_flexion', label: 'Elbow flexion', unit: '°', extreme: 'max',
+        value: (angles) => larger(flexion(angles.leftElbow), flexion(angles.rightElbow)) },
+      { key: 'body_line', label: 'Hip line', unit: '°', extreme: 'min',
+        value: (angles) => smaller(angles.leftHip, angles.rightHip) },
+    ],
+    score: (f) => {
+      if (f.elbow_flexion === null || f.body_line === null) return null;
+      if (f.elbow_flexion < 60) return { score: 1, reasons: ['Did not start from the floor'] };
+      if (f.body_line >= 165) return { score: 3, reasons: [] };
+      if (f.body_line >= 150) return { score: 2, reasons: ['Hips lagged behind the chest'] };
+      return { score: 1, reasons: ['Body did not lift as one unit'] };
+    },
+  },
+  rotary_stability: {
+    id: 'rotary_stability',
+    name: 'Rotary Stability',
+    view: 'side',
+    sided: true,
+    clearingTest: 'Spinal flexion clearing test',
+    instructions: 'On hands and knees side-on to the camera. Reach your {side} arm forward and the {side} leg back together, then touch elbow to knee. If you cannot, use the opposite leg. Three times.',
+    captureMs: 12000,
+    features: [
+      { key: 'unilateral_reach', label: 'Same-side reach', unit: '°', extreme: 'max',
+        value: (angles, _keypoints, side) =>
+          smaller(pick(angles, 'leftShoulder', 'rightShoulder', side), pick(angles, 'leftHip', 'rightHip', side)) },
+      { key: 'diagonal_reach', label: 'Diagonal reach', unit: '°', extreme: 'max',
+        value: (angles, _keypoints, side) =>
+          smaller(pick(angles, 'leftShoulder', 'rightShoulder', side), pick(angles, 'leftHip', 'rightHip', other(side))) },
+    ],
+    score: (f) => {
+      if (f.unilateral_reach === null && f.diagonal_reach === null) return null;
+      if (f.unilateral_reach !== null && f.unilateral_reach >= 150) return { score: 3, reasons: [] };
+      if (f.diagonal_reach !== null && f.diagonal_reach >= 150) return { score: 2, reasons: ['Completed with the diagonal pattern only'] };
+      return { score: 1, reasons: ['Could not extend arm and leg together'] };
+    },
+  },
+};
+
+export const SCREEN_TEST_ORDER: ScreenTestId[] = [
+  'deep_squat',
+  'hurdle_step',
+  'inline_lunge',
+  'shoulder_mobility',
+  'active_straight_leg_raise',
+  'trunk_stability_pushup',
+  'rotary_stability',
+];
+
+/**
+ * Capture one screen test: a countdown to get set up, then the features are recorded over the capture window
+ * and scored. Sided tests run left, then right.
+ */
+export function createMovementScreenCapture(testId: ScreenTestId, startedAt: number = Date.now()): MovementScreenCapture {
+  const test = SCREEN_TESTS[testId];
+  const sides: AssessmentSide[] = test.sided ? ['left', 'right'] : ['left']; // Bilateral tests read both sides each frame
+  let stepIndex = 0;
+  let phase: 'prepare' | 'capture' = 'prepare';
+  let phaseStartedAt = startedAt;
+  let samples: Record<string, number[]> = {};
+  const sideResults: Array<ScreenSideResult | null> = [];
+  let state: MovementScreenState;
+
+  const buildState = (timestamp: number): MovementScreenState => {
+    if (stepIndex >= sides.length) {
+      return {
+        status: 'complete', stepIndex: sides.length, stepCount: sides.length, testId, testName: test.name, side: null,
+        view: test.view, instructions: null, phase: null, progress: 1, remainingMs: 0,
+      };
+    }
+    const side = test.sided ? sides[stepIndex] : null;
+    const duration = phase === 'prepare' ? PREPARE_MS : test.captureMs;
+    const elapsed = Math.max(0, timestamp - phaseStartedAt);
+    return {
+      status: 'running',
+      stepIndex,
+      stepCount: sides.length,
+      testId,
+      testName: test.name,
+      side,
+      view: test.view,
+      instructions: test.instructions.split('{side}').join(side ?? ''),
+      phase,
+      progress: Math.min(1, elapsed / duration),
+      remainingMs: Math.max(0, duration - elapsed),
+    };
+  };
+
+  const finishStep = () => {
+    const features: Record<string, number | null> = {};
+    test.features.forEach((feature) => {
+      features[feature.key] = robustExtreme(samples[feature.key] || [], feature.extreme);
+    });
+    const scored = test.score(features);
+    sideResults[stepIndex] = {
+      side: test.sided ? sides[stepIndex] : 'both',
+      features,
+      autoScore: scored?.score ?? null,
+      reasons: scored?.reasons ?? ['Not enough of the movement was visible - score it manually'],
+    };
+  };
+
+  const nextStep = (timestamp: number) => {
+    stepIndex += 1;
+    phase = 'prepare';
+    phaseStartedAt = timestamp;
+    samples = {};
+  };
+
+  const update = (angles: BiomechanicalAngles, keypoints: ScreenKeypoints | null, timestamp: number = Date.now()): MovementScreenState => {
+    if (stepIndex < sides.length) {
+      if (phase === 'prepare' && timestamp - phaseStartedAt >= PREPARE_MS) {
+        phase = 'capture';
+        phaseStartedAt = timestamp;
+      }
+      if (phase === 'capture') {
+        test.features.forEach((feature) => {
+          const value = feature.value(angles, keypoints, sides[stepIndex]);
+          if (value === null || !Number.isFinite(value)) return;
+          samples[feature.key] = [...(samples[feature.key] || []), value];
+        });
+        if (timestamp - phaseStartedAt >= test.captureMs) {
+          finishStep();
+          nextStep(timestamp);
+        }
+      }
+    }
+    state = buildState(timestamp);
+    return state;
+  };
+
+  state = buildState(startedAt);
+
+  return {
+    update,
+    skip: (timestamp: number = Date.now()) => {
+      if (stepIndex < sides.length) {
+        sideResults[stepIndex] = null;
+        nextStep(timestamp);
+      }
+      state = buildState(timestamp);
+      return state;
+    },
+    redo: (timestamp: number = Date.now()) => {
+      phase = 'prepare';
+      phaseStartedAt = timestamp;
+      samples = {};
+      state = buildState(timestamp);
+      return state;
+    },
+    getState: () => state,
+    getResult: () => {
+      const captured = sideResults.filter((result): result is ScreenSideResult => !!result);
+      return captured.length > 0 ? { testId, testName: test.name, sides: captured } : null;
+    },
+  };
+}
+
+/**
+ * Final scores, asymmetries and the composite from the captured results and the coach's overrides.
+ * Tests never captured can still be scored entirely by the coach.
+ */
+export function summarizeMovementScreen(
+  results: Partial<Record<ScreenTestId, ScreenTestResult>>,
+  reviews: Partial<Record<ScreenTestId, ScreenTestReview>>
+): MovementScreenSummary {
+  const tests = SCREEN_TEST_ORDER.map((testId): ScreenTestSummary => {
+    const test = SCREEN_TESTS[testId];
+    const result = results[testId];
+    const review = reviews[testId];
+    const sideKeys: ScreenSide[] = test.sided ? ['left', 'right'] : ['both'];
+    const sides = sideKeys.map((side) => {
+      const captured = result?.sides.find((s) => s.side === side);
+      const override = review?.overrides[side];
+      const autoScore = captured?.autoScore ?? null;
+      const score: ScreenScore | null = review?.pain ? 0 : override ?? autoScore;
+      return { side, autoScore, score, overridden: !review?.pain && override !== undefined && override !== autoScore };
+    });
+    const scores = sides.map((s) => s.score);
+    const score = scores.some((s) => s === null) ? null : (Math.min(...(scores as ScreenScore[])) as ScreenScore);
+    return {
+      testId,
+      testName: test.name,
+      score,
+      sides,
+      asymmetric: test.sided && scores[0] !== null && scores[1] !== null && scores[0] !== scores[1],
+      pain: !!review?.pain,
+      reasons: result ? Array.from(new Set(result.sides.flatMap((s) => s.reasons))) : [],
+    };
+  });
+  const scored = tests.filter((t) => t.score !== null);
+  const compositeScore = scored.reduce((sum, t) => sum + (t.score as number), 0);
+  const complete = scored.length === tests.length;
+  const asymmetries = tests.filter((t) => t.asymmetric).map((t) => t.testId);
+  const painful = tests.filter((t) => t.pain).map((t) => t.testId);
+  const lowScores = tests.filter((t) => t.score === 1).map((t) => t.testId);
+  return {
+    tests,
+    compositeScore,
+    maxScore: scored.length * 3,
+    complete,
+    asymmetries,
+    painful,
+    lowScores,
+    flagged: painful.length > 0 || asymmetries.length > 0 || lowScores.length > 0 || (complete && compositeScore <= SCREEN_COMPOSITE_CUTOFF),
+  };
+}
+
+/**
+ * Convert a summary to the stored shape (tests without a score are left out)
+ */
+export function toScreenTestRecords(summary: MovementScreenSummary, results: Partial<Record<ScreenTestId, ScreenTestResult>>): ScreenTestRecord[] {
+  return summary.tests
+    .filter((test): test is ScreenTestSummary & { score: ScreenScore } => test.score !== null)
+    .map((test) => {
+      const features: Record<string, number> = {};
+      results[test.testId]?.sides.forEach((side) => {
+        Object.entries(side.features).forEach(([key, value]) => {
+          if (value !== null) features[`${side.side}.${key}`] = round1(value);
+        });
+      });
+      return {
+        test_id: test.testId,
+        test_name: test.testName,
+        score: test.score,
+        sides: test.sides.map((s) => ({
+          side: s.side,
+          ...(s.autoScore !== null ? { auto_score: s.autoScore } : {}),
+          score: s.score as ScreenScore,
+          overridden: s.overridden,
+        })),
+        asymmetric: test.asymmetric,
+        pain: test.pain,
+        reasons: test.reasons,
+        ...(Object.keys(features).length > 0 ? { features } : {}),
+      };
+    });
+}
+
+/**
+ * Composite and flags of stored test records (what a saved screen is listed and trended by)
+ */
+export function scoreScreenRecords(tests: ScreenTestRecord[]) {
+  const compositeScore = tests.reduce((sum, test) => sum + test.score, 0);
+  const complete = SCREEN_TEST_ORDER.every((testId) => tests.some((test) => test.test_id === testId));
+  const asymmetryCount = tests.filter((test) => test.asymmetric).length;
+  const painCount = tests.filter((test) => test.pain).length;
+  const lowScoreCount = tests.filter((test) => test.score === 1).length;
+  return {
+    composite_score: compositeScore,
+    max_score: tests.length * 3,
+    complete,
+    asymmetry_count: asymmetryCount,
+    pain_count: painCount,
+    flagged: painCount > 0 || asymmetryCount > 0 || lowScoreCount > 0 || (complete && compositeScore <= SCREEN_COMPOSITE_CUTOFF),
+  };
+}
+
+/**
+ * Human-readable lines for reports
+ */
+export function describeMovementScreen(tests: ScreenTestRecord[] | undefined): Array<{ label: string; value: string }> {
+  return (tests || []).map((test) => {
+    const sides = test.sides.length > 1 ? ` (L ${test.sides.find((s) => s.side === 'left')?.score} / R ${test.sides.find((s) => s.side === 'right')?.score})` : '';
+    const flags = [test.pain ? 'pain' : null, test.asymmetric ? 'asymmetric' : null].filter(Boolean).join(', ');
+    return { label: test.test_name, value: `${test.score}/3${sides}${flags ? ` - ${flags}` : ''}` };
+  });
+}
@@ -0,0 +1,81 @@
+// PDF rendering - prints an HTML report to an A4 PDF with headless Chromium (shared by the PDF download routes)
+import puppeteerCore from 'puppeteer-core';
+import chromium from '@sparticuz/chromium';
+
+const CONTENT_TIMEOUT_MS = 10000;
+const PDF_TIMEOUT_MS = 15000;
+
+/**
+ * Render a self-contained HTML document to a PDF. Uses @sparticuz/chromium, which works in both local dev and
+ * serverless (Netlify, AWS Lambda); the browser is always closed, and failures are rethrown as "PDF generation failed".
+ */
+export async function renderPdf(html: string): Promise<Buffer> {
+  let browser;
+  try {
+    console.log('[PDF] Using @sparticuz/chromium for PDF generation');
+
+    const executablePath = await chromium.executablePath();
+    console.log('[PDF] Chromium executable path obtained:', executablePath ? 'Yes' : 'No');
+
+    if (!executablePath) {
+      throw new Error('Failed to get Chromium executable path from @sparticuz/chromium');
+    }
+
+    browser = await puppeteerCore.launch({
+      headless: chromium.headless,
+      args: [
+        ...chromium.args,
+        '--disable-gpu',
+        '--disable-dev-shm-usage',
+        '--disable-software-rasterizer',
+        '--no-sandbox',
+        '--disable-setuid-sandbox',
+        '--single-process', // Important for serverless environments
+        '--disable-plugins',
+        '--disable-extensions',
+      ],
+      defaultViewport: chromium.defaultViewport,
+      executablePath,
+    });
+
+    const page = await browser.newPage();
+
+    // 'load' rather than 'networkidle0' - the reports have no external resources worth waiting for
+    await Promise.race([
+      page.setContent(html, { waitUntil: 'load', timeout: CONTENT_TIMEOUT_MS }),
+      new Promise((_, reject) =>
+        setTimeout(() => reject(new Error('PDF generation timeout: page content loading exceeded 10 seconds')), CONTENT_TIMEOUT_MS)
+      ),
+    ]);
+
+    const pdfBuffer = await Promise.race([
+      page.pdf({
+        format: 'A4',
+        margin: {
+          top: '20mm',
+          right: '15mm',
+          bottom: '20mm',
+          left: '15mm',
+        },
+        printBackground: true,
+        timeout: PDF_TIMEOUT_MS,
+      }),
+      new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new Error('PDF generation timeout: PDF creation exceeded 15 seconds')), PDF_TIMEOUT_MS)
+      ),
+    ]);
+
+    await browser.close();
+    return Buffer.from(pdfBuffer);
+  } catch (error: any) {
+    console.error('[PDF] Error during PDF generation:', error);
+    if (browser) {
+      try {
+        await browser.close();
+      } catch (closeError) {
+        console.error('[PDF] Error closing browser:', closeError);
+      }
+    }
+    throw new Error(`PDF generation failed: ${error.message || 'Unknown error'}`);
+  }
+}
@@ -0,0 +1,272 @@
+// Pose model backends - every backend emits DetectedPose[] in the canonical keypoint schema (see POSE_LANDMARKS)
+import {
+  COCO_TO_CANONICAL,
+  createPoseDetector,
+  estimatePosesFromImage,
+  toCanonicalKeypoints,
+  type DetectedPose,
+  type PoseBoundingBox,
+  type PoseDetector,
+  type PoseKeypoint,
+} from './pose-detection';
+import type * as TfPoseDetection from '@tensorflow-models/pose-detection';
+
+export type PoseBackendId =
+  | 'yolov8n'
+  | 'yolov8s'
+  | 'yolov8m'
+  | 'movenet-lightning'
+  | 'movenet-multipose'
+  | 'blazepose';
+
+// Frames the backends accept - video elements on the main thread, transferred ImageBitmaps in the worker
+export type PoseFrame = HTMLVideoElement | ImageBitmap;
+
+export interface PoseBackendLoadOptions {
+  numThreads?: number; // ONNX WASM threads (YOLOv8 backends only)
+}
+
+export interface PoseBackend {
+  id: PoseBackendId;
+  load: (options?: PoseBackendLoadOptions) => Promise<void>;
+  estimate: (frame: PoseFrame, width: number, height: number) => Promise<DetectedPose[]>;
+  dispose: () => void;
+}
+
+export interface PoseBackendDefinition {
+  id: PoseBackendId;
+  label: string;
+  multiPerson: boolean;
+  hasFeet: boolean; // Heel / foot-index landmarks are populated
+  create: () => PoseBackend;
+}
+
+export const DEFAULT_POSE_BACKEND: PoseBackendId = 'yolov8n';
+
+// Model choice per session type. Every type stays multi-person so the tracker can tell the athlete from a coach
+// in frame - BlazePose's foot landmarks are opted into per session (ScheduleSession.pose_backend)
+export const SESSION_TYPE_POSE_BACKENDS: Record<string, PoseBackendId> = {
+  single: 'yolov8n',
+  group: 'yolov8n',
+  mocap: 'yolov8n',
+};
+
+// Canonical keypoint i comes from BlazePose landmark BLAZEPOSE_TO_CANONICAL[i] (33-landmark topology)
+const BLAZEPOSE_TO_CANONICAL: Array<number | null> = [
+  0, // nose
+  2, 5, // left/right eye
+  7, 8, // left/right ear
+  11, 12, // shoulders
+  13, 14, // elbows
+  15, 16, // wrists
+  23, 24, // hips
+  25, 26, // knees
+  27, 28, // ankles
+  29, 30, // heels
+  31, 32, // foot index
+];
+
+const MIN_POSE_SCORE = 0.25;
+
+/**
+ * YOLOv8-Pose via ONNX Runtime Web. All sizes share the same output layout, only the model file differs.
+ */
+function createYoloBackend(id: PoseBackendId, modelUrl: string): PoseBackend {
+  let detector: PoseDetector | null = null;
+
+  return {
+    id,
+    load: async (options = {}) => {
+      detector = await createPoseDetector({ numThreads: options.numThreads, modelUrl });
+    },
+    estimate: async (frame, width, height) => {
+      if (!detector) throw new Error(`Pose backend ${id} used before load()`);
+      return estimatePosesFromImage(detector, frame, width, height);
+    },
+    dispose: () => {
+      detector = null; // Sessions are cached per model file in pose-detection.ts
+    },
+  };
+}
+
+// Bounding box around the confident keypoints (tfjs models don't always return one)
+function keypointBoundingBox(keypoints: PoseKeypoint[]): PoseBoundingBox {
+  const visible = keypoints.filter((kp) => kp.visibility > MIN_POSE_SCORE);
+  if (visible.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const xs = visible.map((kp) => kp.x);
+  const ys = visible.map((kp) => kp.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * MoveNet / BlazePose via @tensorflow-models/pose-detection (tfjs runtime - works inside a worker)
+ */
+function createTfjsBackend(
+  id: PoseBackendId,
+  createDetector: (poseDetection: typeof TfPoseDetection) => Promise<TfPoseDetection.PoseDetector>,
+  sourceIndices: Array<number | null>,
+  maxPoses: number
+): PoseBackend {
+  let detector: TfPoseDetection.PoseDetector | null = null;
+
+  return {
+    id,
+    load: async () => {
+      if (detector) return;
+      // Loaded on demand so sessions using YOLOv8 don't pay for tfjs
+      const tf = await import('@tensorflow/tfjs');
+      const poseDetection = await import('@tensorflow-models/pose-detection');
+      await tf.ready();
+      console.log(`[Pose Backends] ${id} using tfjs backend: ${tf.getBackend()}`);
+      detector = await createDetector(poseDetection);
+    },
+    estimate: async (frame, width, height) => {
+      if (!detector) throw new Error(`Pose backend ${id} used before load()`);
+      if (width === 0 || height === 0) return [];
+
+      const poses = await detector.estimatePoses(frame, { maxPoses, flipHorizontal: false });
+      return poses
+        .map((pose): DetectedPose => {
+          const normalized: PoseKeypoint[] = pose.keypoints.map((kp, index) => ({
+            id: index,
+            x: kp.x / width,
+            y: kp.y / height,
+            z: (kp.z ?? 0) / width, // BlazePose depth is on the same scale as x
+            visibility: kp.score ?? 0,
+            score: kp.score ?? 0,
+          }));
+          const keypoints = toCanonicalKeypoints(normalized, sourceIndices);
+          return {
+            keypoints,
+            score: pose.score ?? Math.max(0, ...keypoints.map((kp) => kp.visibility)),
+            bbox: keypointBoundingBox(keypoints),
+          };
+        })
+        .filter((pose) => pose.score > MIN_POSE_SCORE)
+        .sort((a, b) => b.score - a.score);
+    },
+    dispose: () => {
+      detector?.dispose();
+      detector = null;
+    },
+  };
+}
+
+const backendRegistry = new Map<PoseBackendId, PoseBackendDefinition>([
+  ['yolov8n', {
+    id: 'yolov8n',
+    label: 'YOLOv8 nano',
+    multiPerson: true,
+    hasFeet: false,
+    create: () => createYoloBackend('yolov8n', '/models/yolov8n-pose.onnx'),
+  }],
+  ['yolov8s', {
+    id: 'yolov8s',
+    label: 'YOLOv8 small',
+    multiPerson: true,
+    hasFeet: false,
+    create: () => createYoloBackend('yolov8s', '/models/yolov8s-pose.onnx'),
+  }],
+  ['yolov8m', {
+    id: 'yolov8m',
+    label: 'YOLOv8 medium',
+    multiPerson: true,
+    hasFeet: false,
+    create: () => createYoloBackend('yolov8m', '/models/yolov8m-pose.onnx'),
+  }],
+  ['movenet-lightning', {
+    id: 'movenet-lightning',
+    label: 'MoveNet Lightning',
+    multiPerson: false,
+    hasFeet: false,
+    create: () => createTfjsBackend(
+      'movenet-lightning',
+      (poseDetection) => poseDetection.createDetector(poseDetection.SupportedModels.MoveNet, {
+        modelType: poseDetection.movenet.modelType.SINGLEPOSE_LIGHTNING,
+        enableSmoothing: false, // Smoothing happens in lib/pose-smoothing.ts for every backend
+      }),
+      COCO_TO_CANONICAL,
+      1
+    ),
+  }],
+  ['movenet-multipose', {
+    id: 'movenet-multipose',
+    label: 'MoveNet MultiPose',
+    multiPerson: true,
+    hasFeet: false,
+    create: () => createTfjsBackend(
+      'movenet-multipose',
+      (poseDetection) => poseDetection.createDetector(poseDetection.SupportedModels.MoveNet, {
+        modelType: poseDetection.movenet.modelType.MULTIPOSE_LIGHTNING,
+        enableSmoothing: false,
+        enableTracking: false, // Tracks are assigned by lib/pose-tracking.ts
+      }),
+      COCO_TO_CANONICAL,
+      6
+    ),
+  }],
+  ['blazepose', {
+    id: 'blazepose',
+    label: 'BlazePose (33 landmarks)',
+    multiPerson: false,
+    hasFeet: true,
+    create: () => createTfjsBackend(
+      'blazepose',
+      (poseDetection) => poseDetection.createDetector(poseDetection.SupportedModels.BlazePose, {
+        runtime: 'tfjs',
+        modelType: 'full',
+        enableSmoothing: false,
+      }),
+      BLAZEPOSE_TO_CANONICAL,
+      1
+    ),
+  }],
+]);
+
+/**
+ * Register (or replace) a backend - e.g. a custom ONNX export
+ */
+export function registerPoseBackend(definition: PoseBackendDefinition): void {
+  backendRegistry.set(definition.id, definition);
+}
+
+export function getPoseBackendDefinition(id: PoseBackendId): PoseBackendDefinition | null {
+  return backendRegistry.get(id) || null;
+}
+
+export function listPoseBackends(): PoseBackendDefinition[] {
+  return Array.from(backendRegistry.values());
+}
+
+export function isPoseBackendId(value: unknown): value is PoseBackendId {
+  return typeof value === 'string' && backendRegistry.has(value as PoseBackendId);
+}
+
+/**
+ * Backend to use for a session: NEXT_PUBLIC_POSE_BACKEND, then the backend chosen when the session was scheduled,
+ * then the per-session-type default.
+ */
+export function getPoseBackendIdForSession(sessionType?: string | null, sessionBackend?: string | null): PoseBackendId {
+  const override = process.env.NEXT_PUBLIC_POSE_BACKEND;
+  if (isPoseBackendId(override)) {
+    return override;
+  }
+  if (isPoseBackendId(sessionBackend)) {
+    return sessionBackend;
+  }
+  return (sessionType && SESSION_TYPE_POSE_BACKENDS[sessionType]) || DEFAULT_POSE_BACKEND;
+}
+
+/**
+ * Create a backend instance (falls back to the default backend for unknown ids)
+ */
+export function createPoseBackend(id: PoseBackendId): PoseBackend {
+  const definition = backendRegistry.get(id);
+  if (!definition) {
+    console.warn(`[Pose Backends] Unknown backend "${id}", using ${DEFAULT_POSE_BACKEND}`);
+    return backendRegistry.get(DEFAULT_POSE_BACKEND)!.create();
+  }
+  return definition.create();
+}
@@ -1,4 +1,7 @@
 // ONNX Runtime Web + YOLOv8-Pose Detection
+import type { FormFaultEvent } from './movement-rules';
+import type { KinematicsFrame } from './kinematics';
+
 type OrtModule = typeof import('onnxruntime-web');
 type InferenceSession = import('onnxruntime-web').InferenceSession;
 type OrtTensor = import('onnxruntime-web').Tensor;
@@ -28,12 +31,32 @@ export interface PoseKeypoint {
   score?: number;
 }
 
+// Normalized [0, 1] bounding box (top-left origin)
+export interface PoseBoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A single person detected in a frame
+export interface DetectedPose {
+  keypoints: PoseKeypoint[];
+  score: number;
+  bbox: PoseBoundingBox;
+  trackId?: number; // Assigned by the pose tracker (see lib/pose-tracking.ts)
+}
+
 export interface PoseData {
   timestamp: number;
   sequenceNumber: number;
   keypoints: PoseKeypoint[];
+  trackId?: number;
   angles?: BiomechanicalAngles;
+  angleConfidence?: Partial<Record<keyof BiomechanicalAngles, number>>; // 0-1 per angle (see lib/pose-smoothing.ts)
   metrics?: BiomechanicalMetrics;
+  formFaults?: FormFaultEvent[]; // Rule violations raised on this frame (see lib/movement-rules.ts)
+  kinematics?: KinematicsFrame; // Velocities/accelerations since the previous frame (see lib/kinematics.ts)
 }
 
 export interface BiomechanicalAngles {
@@ -47,6 +70,12 @@ export interface BiomechanicalAngles {
   rightElbow: number | null;
   spineLean: number | null;
   neckFlexion: number | null;
+  leftAnkleDorsiflexion: number | null; // Shank forward of perpendicular to the foot (uses heel/foot index when available)
+  rightAnkleDorsiflexion: number | null;
+  pelvicObliquity: number | null; // Lateral pelvic tilt, positive when the left hip is higher (frontal view)
+  trunkRotation: number | null; // Shoulder line rotation relative to the hip line
+  leftKneeValgus: number | null; // Inward knee collapse, positive when the knee is medial to the hip-ankle line (frontal view)
+  rightKneeValgus: number | null;
 }
 
 export interface BiomechanicalMetrics {
@@ -54,9 +83,13 @@ export interface BiomechanicalMetrics {
   symmetryScore: number;
   posturalEfficiency: number;
   centerOfMass: { x: number; y: number };
+  baseOfSupport: { x: number; y: number; width: number } | null; // Feet extent in normalized frame units (x = centre, y = ground level)
+  centerOfMassOffset: number | null; // Center of mass x minus base-of-support centre (normalized frame width, + = toward image right)
 }
 
-// YOLOv8-Pose uses COCO format (17 keypoints) - same as MoveNet
+// Canonical keypoint schema shared by every pose backend (see lib/pose-backends.ts):
+// the 17 COCO keypoints (YOLOv8-Pose, MoveNet) in COCO order, followed by foot landmarks that only
+// some backends provide (BlazePose). Missing keypoints are present with visibility 0.
 // https://cocodataset.org/#keypoints-2020
 export const POSE_LANDMARKS = {
   NOSE: 0,
@@ -76,44 +109,76 @@ export const POSE_LANDMARKS = {
   RIGHT_KNEE: 14,
   LEFT_ANKLE: 15,
   RIGHT_ANKLE: 16,
+  LEFT_HEEL: 17,
+  RIGHT_HEEL: 18,
+  LEFT_FOOT_INDEX: 19,
+  RIGHT_FOOT_INDEX: 20,
 } as const;
 
+export const CANONICAL_KEYPOINT_COUNT = 21;
+export const COCO_KEYPOINT_COUNT = 17;
+
+/**
+ * Build a canonical keypoint array. `sourceIndices[i]` is the index in `source` of canonical keypoint i
+ * (null when the model doesn't detect it). Coordinates must already be normalized to [0, 1].
+ */
+export function toCanonicalKeypoints(source: PoseKeypoint[], sourceIndices: Array<number | null>): PoseKeypoint[] {
+  return Array.from({ length: CANONICAL_KEYPOINT_COUNT }, (_, id) => {
+    const index = sourceIndices[id];
+    const kp = index !== null && index !== undefined ? source[index] : undefined;
+    return kp ? { ...kp, id } : { id, x: 0, y: 0, z: 0, visibility: 0, score: 0 };
+  });
+}
+
+// COCO-17 models map one-to-one onto the first 17 canonical keypoints
+export const COCO_TO_CANONICAL: Array<number | null> = Array.from(
+  { length: CANONICAL_KEYPOINT_COUNT },
+  (_, id) => (id < COCO_KEYPOINT_COUNT ? id : null)
+);
+
 // Type for ONNX session
 export type PoseDetector = {
   session: InferenceSession;
   inputShape: [number, number, number, number];
 };
 
-let detector: PoseDetector | null = null;
-let isInitializing = false;
-let initPromise: Promise<PoseDetector> | null = null;
+// One session per model file (backends for different YOLOv8 sizes can coexist)
+const detectors = new Map<string, Promise<PoseDetector>>();
+
+export interface PoseDetectorOptions {
+  numThreads?: number; // WASM threads - only honored when the page is cross-origin isolated
+  modelUrl?: string; // YOLOv8-Pose ONNX export (defaults to the nano model)
+}
 
 // Model configuration
 const MODEL_INPUT_SIZE = 640; // YOLOv8-Pose standard input size
-const MODEL_URL = '/models/yolov8n-pose.onnx'; // Place model in public/models/
+export const DEFAULT_MODEL_URL = '/models/yolov8n-pose.onnx'; // Place model in public/models/
 const MIN_CONFIDENCE = 0.25; // Minimum confidence threshold
+const NMS_IOU_THRESHOLD = 0.45; // Overlapping boxes above this IoU are treated as the same person
+const MAX_DETECTIONS = 10; // Upper bound on people returned per frame
+
+// True in the page and in Web Workers (see lib/pose-inference.worker.ts), false during SSR
+const isBrowserContext = () =>
+  typeof window !== 'undefined' || typeof (globalThis as any).WorkerGlobalScope !== 'undefined';
 
 /**
  * Initialize ONNX Runtime Web + YOLOv8-Pose detector
  */
-export async function createPoseDetector(): Promise<PoseDetector> {
-  if (typeof window === 'undefined') {
+export async function createPoseDetector(options: PoseDetectorOptions = {}): Promise<PoseDetector> {
+  if (!isBrowserContext()) {
     throw new Error('Pose detection only works in browser');
   }
 
-  // Return existing detector if already initialized
-  if (detector) {
-    return detector;
-  }
+  const modelUrl = options.modelUrl || DEFAULT_MODEL_URL;
 
-  // If already initializing, wait for that promise
-  if (isInitializing && initPromise) {
-    return initPromise;
+  // Return existing (or in-progress) detector for this model
+  const existing = detectors.get(modelUrl);
+  if (existing) {
+    return existing;
   }
 
   // Start initialization
-  isInitializing = true;
-  initPromise = (async () => {
+  const initPromise = (async () => {
     // Suppress CPU vendor warning (it's harmless)
     // ONNX Runtime logs warnings with ANSI color codes, so we need to check the raw string
     const originalWarn = console.warn;
@@ -155,12 +220,12 @@ export async function createPoseDetector(): Promise<PoseDetector> {
       
       // Set up ONNX Runtime Web
       const ort = await getOrt();
-      ort.env.wasm.numThreads = 1; // Use single thread for stability
+      ort.env.wasm.numThreads = options.numThreads ?? 1; // Single thread unless the caller opts in
       ort.env.wasm.simd = true; // Enable SIMD for better performance
       
       // Load the ONNX model
-      console.log('[Pose Detection] Loading YOLOv8-Pose model from:', MODEL_URL);
-      const session = await ort.InferenceSession.create(MODEL_URL, {
+      console.log('[Pose Detection] Loading YOLOv8-Pose model from:', modelUrl);
+      const session = await ort.InferenceSession.create(modelUrl, {
         executionProviders: ['wasm'], // Use WASM backend (more stable than WebGL)
       });
       
@@ -199,48 +264,55 @@ export async function createPoseDetector(): Promise<PoseDetector> {
       
       console.log('[Pose Detection] Model loaded successfully. Input name:', inputName, 'Input shape:', inputShape);
       
-      detector = {
+      return {
         session,
         inputShape,
       };
-      
-      isInitializing = false;
-      return detector;
     } catch (error) {
       // Restore console.warn even on error
       console.warn = originalWarn;
-      isInitializing = false;
-      initPromise = null;
+      detectors.delete(modelUrl);
       console.error('[Pose Detection] Failed to initialize YOLOv8-Pose:', error);
       
       // Check if it's a model file not found error
       if (error instanceof Error && (error.message.includes('404') || error.message.includes('Failed to fetch'))) {
-        throw new Error(`Model file not found at ${MODEL_URL}. Please download yolov8n-pose.onnx and place it in public/models/`);
+        throw new Error(`Model file not found at ${modelUrl}. Please export the YOLOv8-Pose model and place it in public/models/`);
       }
       
       throw new Error(`Failed to initialize YOLOv8-Pose detector: ${error instanceof Error ? error.message : String(error)}`);
     }
   })();
 
+  detectors.set(modelUrl, initPromise);
   return initPromise;
 }
 
+// Reused between frames - allocating a canvas per frame adds GC pressure at higher frame rates
+let preprocessCanvas: OffscreenCanvas | HTMLCanvasElement | null = null;
+
+function getPreprocessContext(inputSize: number): OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D {
+  if (!preprocessCanvas) {
+    // OffscreenCanvas is the only option inside a worker
+    preprocessCanvas = typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(inputSize, inputSize)
+      : document.createElement('canvas');
+  }
+  preprocessCanvas.width = inputSize;
+  preprocessCanvas.height = inputSize;
+  return preprocessCanvas.getContext('2d', { willReadFrequently: true }) as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+}
+
 /**
- * Preprocess video frame for YOLOv8-Pose
+ * Preprocess a frame (video element or ImageBitmap) for YOLOv8-Pose
  */
 function preprocessImage(
-  videoElement: HTMLVideoElement,
+  image: CanvasImageSource,
   inputSize: number = MODEL_INPUT_SIZE
 ): Float32Array {
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d')!;
-  
-  // Set canvas size to model input size
-  canvas.width = inputSize;
-  canvas.height = inputSize;
+  const ctx = getPreprocessContext(inputSize);
   
-  // Draw video frame to canvas (resized)
-  ctx.drawImage(videoElement, 0, 0, inputSize, inputSize);
+  // Draw frame to canvas (resized to model input size)
+  ctx.drawImage(image, 0, 0, inputSize, inputSize);
   
   // Get image data
   const imageData = ctx.getImageData(0, 0, inputSize, inputSize);
@@ -265,14 +337,50 @@ function preprocessImage(
 }
 
 /**
- * Postprocess YOLOv8-Pose output to extract keypoints
+ * Intersection-over-union of two bounding boxes
+ */
+export function computeIoU(a: PoseBoundingBox, b: PoseBoundingBox): number {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.width, b.x + b.width);
+  const y2 = Math.min(a.y + a.height, b.y + b.height);
+
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a.width * a.height + b.width * b.height - intersection;
+
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * Greedy non-maximum suppression - keeps the highest scoring pose of each overlapping group
+ */
+function nonMaxSuppression(
+  detections: DetectedPose[],
+  iouThreshold: number = NMS_IOU_THRESHOLD
+): DetectedPose[] {
+  const sorted = [...detections].sort((a, b) => b.score - a.score);
+  const kept: DetectedPose[] = [];
+
+  for (const detection of sorted) {
+    if (kept.length >= MAX_DETECTIONS) break;
+    const overlaps = kept.some((k) => computeIoU(k.bbox, detection.bbox) > iouThreshold);
+    if (!overlaps) {
+      kept.push(detection);
+    }
+  }
+
+  return kept;
+}
+
+/**
+ * Postprocess YOLOv8-Pose output to extract every person in the frame
  */
 function postprocessOutput(
   output: OrtTensor,
   originalWidth: number,
   originalHeight: number,
   inputSize: number = MODEL_INPUT_SIZE
-): PoseKeypoint[] {
+): DetectedPose[] {
   // YOLOv8-Pose output format: [1, num_detections, 56] or [num_detections, 56]
   // Each detection: [x, y, w, h, conf, kp1_x, kp1_y, kp1_conf, ..., kp17_x, kp17_y, kp17_conf]
   // So: 4 (bbox) + 1 (conf) + 17*3 (keypoints) = 56
@@ -298,70 +406,82 @@ function postprocessOutput(
     dataOffset = 0;
   }
   
-  const keypoints: PoseKeypoint[] = [];
-  
   // Scale factors for converting from model input size to original size
   const scaleX = originalWidth / inputSize;
   const scaleY = originalHeight / inputSize;
   
-  // Find the detection with highest confidence
-  let bestDetection = -1;
-  let bestConf = 0;
+  const candidates: DetectedPose[] = [];
   
   for (let i = 0; i < numDetections; i++) {
-    const baseIdx = dataOffset + i * 56;
-    if (baseIdx + 4 >= outputData.length) break;
+    const baseIndex = dataOffset + i * 56;
+    if (baseIndex + 55 >= outputData.length) break;
     
-    const conf = outputData[baseIdx + 4]; // Confidence at index 4
-    if (conf > bestConf && conf > MIN_CONFIDENCE) {
-      bestConf = conf;
-      bestDetection = i;
-    }
-  }
-  
-  if (bestDetection === -1) {
-    return keypoints; // No valid detection
-  }
-  
-  // Extract keypoints from best detection
-  const baseIndex = dataOffset + bestDetection * 56;
-  
-  for (let kp = 0; kp < 17; kp++) {
-    const kpIndex = baseIndex + 5 + kp * 3; // Skip bbox (4) + conf (1), then 3 values per keypoint
+    const conf = outputData[baseIndex + 4]; // Confidence at index 4
+    if (conf <= MIN_CONFIDENCE) continue;
     
-    if (kpIndex + 2 >= outputData.length) break;
+    // Bounding box is (center x, center y, width, height) in model input pixels
+    const cx = outputData[baseIndex] * scaleX;
+    const cy = outputData[baseIndex + 1] * scaleY;
+    const w = outputData[baseIndex + 2] * scaleX;
+    const h = outputData[baseIndex + 3] * scaleY;
     
-    const x = outputData[kpIndex] * scaleX;
-    const y = outputData[kpIndex + 1] * scaleY;
-    const conf = outputData[kpIndex + 2];
+    const keypoints: PoseKeypoint[] = [];
+    for (let kp = 0; kp < 17; kp++) {
+      const kpIndex = baseIndex + 5 + kp * 3; // Skip bbox (4) + conf (1), then 3 values per keypoint
+      
+      const x = outputData[kpIndex] * scaleX;
+      const y = outputData[kpIndex + 1] * scaleY;
+      const kpConf = outputData[kpIndex + 2];
+      
+      keypoints.push({
+        id: kp,
+        x: x / originalWidth, // Normalize to [0, 1]
+        y: y / originalHeight, // Normalize to [0, 1]
+        z: 0, // YOLOv8-Pose is 2D
+        visibility: kpConf,
+        score: kpConf,
+      });
+    }
     
-    keypoints.push({
-      id: kp,
-      x: x / originalWidth, // Normalize to [0, 1]
-      y: y / originalHeight, // Normalize to [0, 1]
-      z: 0, // YOLOv8-Pose is 2D
-      visibility: conf,
+    candidates.push({
+      keypoints: toCanonicalKeypoints(keypoints, COCO_TO_CANONICAL),
       score: conf,
+      bbox: {
+        x: (cx - w / 2) / originalWidth,
+        y: (cy - h / 2) / originalHeight,
+        width: w / originalWidth,
+        height: h / originalHeight,
+      },
     });
   }
   
-  return keypoints;
+  return nonMaxSuppression(candidates);
 }
 
 /**
- * Estimate poses from video element
+ * Estimate poses from video element (main thread)
+ * Returns one entry per detected person, most confident first
  */
 export async function estimatePoses(
   detector: PoseDetector,
   videoElement: HTMLVideoElement
-): Promise<{ keypoints: PoseKeypoint[] }[]> {
+): Promise<DetectedPose[]> {
   if (!videoElement || videoElement.readyState < 2) {
     return [];
   }
   
-  const originalWidth = videoElement.videoWidth;
-  const originalHeight = videoElement.videoHeight;
-  
+  return estimatePosesFromImage(detector, videoElement, videoElement.videoWidth, videoElement.videoHeight);
+}
+
+/**
+ * Estimate poses from any drawable frame - used by the inference worker with transferred ImageBitmaps
+ */
+export async function estimatePosesFromImage(
+  detector: PoseDetector,
+  image: CanvasImageSource,
+  originalWidth: number,
+  originalHeight: number
+): Promise<DetectedPose[]> {
   if (originalWidth === 0 || originalHeight === 0) {
     return [];
   }
@@ -369,7 +489,7 @@ export async function estimatePoses(
   try {
     const ort = await getOrt();
     // Preprocess image
-    const inputTensor = preprocessImage(videoElement, MODEL_INPUT_SIZE);
+    const inputTensor = preprocessImage(image, MODEL_INPUT_SIZE);
     
     // Create ONNX tensor
     const inputName = detector.session.inputNames[0];
@@ -383,14 +503,8 @@ export async function estimatePoses(
     const outputName = detector.session.outputNames[0];
     const output = results[outputName];
     
-    // Postprocess to extract keypoints
-    const keypoints = postprocessOutput(output, originalWidth, originalHeight, MODEL_INPUT_SIZE);
-    
-    if (keypoints.length === 0) {
-      return [];
-    }
-    
-    return [{ keypoints }];
+    // Postprocess to extract every detected person (sorted by confidence, highest first)
+    return postprocessOutput(output, originalWidth, originalHeight, MODEL_INPUT_SIZE);
   } catch (error) {
     console.error('[Pose Detection] Error estimating poses:', error);
     return [];
@@ -398,7 +512,7 @@ export async function estimatePoses(
 }
 
 /**
- * Convert YOLOv8 keypoints to our keypoint format (already in correct format)
+ * Convert backend keypoints to our keypoint format (backends already emit the canonical schema)
  */
 export function landmarksToKeypoints(keypoints: PoseKeypoint[]): PoseKeypoint[] {
   return keypoints; // Already in correct format
@@ -425,6 +539,68 @@ export function computeAngle(
   return Math.acos(cosAngle) * (180 / Math.PI);
 }
 
+type Point2D = { x: number; y: number };
+type PointLookup = (index: number) => Point2D | null;
+
+const toDegrees = (radians: number) => radians * (180 / Math.PI);
+const distance = (a: Point2D, b: Point2D) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Typical shoulder-to-hip keypoint width ratio when the shoulders and hips face the same way
+const SHOULDER_TO_HIP_WIDTH_RATIO = 1.4;
+// Below this hip width (as a fraction of torso length) the athlete is side-on and frontal-plane angles are meaningless
+const MIN_FRONTAL_HIP_WIDTH = 0.25;
+
+const isFrontalView = (leftHip: Point2D, rightHip: Point2D, leftShoulder: Point2D | null, rightShoulder: Point2D | null) => {
+  if (!leftShoulder || !rightShoulder) return true; // Can't tell - assume the usual camera setup
+  const hipMid = { x: (leftHip.x + rightHip.x) / 2, y: (leftHip.y + rightHip.y) / 2 };
+  const shoulderMid = { x: (leftShoulder.x + rightShoulder.x) / 2, y: (leftShoulder.y + rightShoulder.y) / 2 };
+  const torsoLength = distance(hipMid, shoulderMid);
+  return torsoLength > 0 && Math.abs(rightHip.x - leftHip.x) / torsoLength >= MIN_FRONTAL_HIP_WIDTH;
+};
+
+/**
+ * Ankle dorsiflexion for one leg in degrees. With heel and foot-index landmarks this is the shank's angle
+ * past perpendicular to the foot; without them (COCO backends) it falls back to the shank's forward
+ * inclination from vertical, which matches dorsiflexion while the foot is flat on the ground.
+ */
+function ankleDorsiflexion(getPoint: PointLookup, side: 'left' | 'right'): number | null {
+  const knee = getPoint(side === 'left' ? POSE_LANDMARKS.LEFT_KNEE : POSE_LANDMARKS.RIGHT_KNEE);
+  const ankle = getPoint(side === 'left' ? POSE_LANDMARKS.LEFT_ANKLE : POSE_LANDMARKS.RIGHT_ANKLE);
+  if (!knee || !ankle) return null;
+
+  const heel = getPoint(side === 'left' ? POSE_LANDMARKS.LEFT_HEEL : POSE_LANDMARKS.RIGHT_HEEL);
+  const toe = getPoint(side === 'left' ? POSE_LANDMARKS.LEFT_FOOT_INDEX : POSE_LANDMARKS.RIGHT_FOOT_INDEX);
+  if (heel && toe) {
+    // Foot direction (heel -> toe) drawn from the ankle, so the angle is measured at the ankle
+    const footTip = { x: ankle.x + toe.x - heel.x, y: ankle.y + toe.y - heel.y };
+    return 90 - computeAngle(knee, ankle, footTip);
+  }
+
+  if (ankle.y <= knee.y) return null;
+  return toDegrees(Math.atan2(Math.abs(knee.x - ankle.x), ankle.y - knee.y));
+}
+
+/**
+ * Inward knee collapse for one leg, in degrees. Positive when the knee sits medial to the hip-ankle line.
+ * Only meaningful when the athlete faces the camera.
+ */
+function kneeValgus(getPoint: PointLookup, side: 'left' | 'right'): number | null {
+  const hip = getPoint(side === 'left' ? POSE_LANDMARKS.LEFT_HIP : POSE_LANDMARKS.RIGHT_HIP);
+  const knee = getPoint(side === 'left' ? POSE_LANDMARKS.LEFT_KNEE : POSE_LANDMARKS.RIGHT_KNEE);
+  const ankle = getPoint(side === 'left' ? POSE_LANDMARKS.LEFT_ANKLE : POSE_LANDMARKS.RIGHT_ANKLE);
+  const leftHip = getPoint(POSE_LANDMARKS.LEFT_HIP);
+  const rightHip = getPoint(POSE_LANDMARKS.RIGHT_HIP);
+  if (!hip || !knee || !ankle || !leftHip || !rightHip || ankle.y === hip.y) return null;
+
+  const midlineX = (leftHip.x + rightHip.x) / 2;
+  // Where the straight hip-ankle line would be at knee height
+  const lineX = hip.x + ((ankle.x - hip.x) * (knee.y - hip.y)) / (ankle.y - hip.y);
+  const towardMidline = Math.sign(midlineX - lineX) || 1;
+  const deviation = 180 - computeAngle(hip, knee, ankle);
+
+  return (knee.x - lineX) * towardMidline > 0 ? deviation : -deviation;
+}
+
 /**
  * Calculate all biomechanical angles from pose keypoints
  */
@@ -545,9 +721,56 @@ export function calculateBiomechanicalAngles(keypoints: PoseKeypoint[]): Biomech
 
       return computeAngle(nose, shoulderMid, hipMid);
     })(),
+
+    leftAnkleDorsiflexion: ankleDorsiflexion(getPoint, 'left'),
+    rightAnkleDorsiflexion: ankleDorsiflexion(getPoint, 'right'),
+
+    // Pelvic obliquity (hip line from horizontal, frontal view)
+    pelvicObliquity: (() => {
+      const leftHip = getPoint(POSE_LANDMARKS.LEFT_HIP);
+      const rightHip = getPoint(POSE_LANDMARKS.RIGHT_HIP);
+      if (!leftHip || !rightHip) return null;
+      if (!isFrontalView(leftHip, rightHip, getPoint(POSE_LANDMARKS.LEFT_SHOULDER), getPoint(POSE_LANDMARKS.RIGHT_SHOULDER))) return null;
+
+      // Image y grows downward, so a higher left hip has the smaller y
+      return toDegrees(Math.atan2(rightHip.y - leftHip.y, Math.abs(rightHip.x - leftHip.x)));
+    })(),
+
+    // Trunk rotation (shoulder line vs hip line about the vertical axis)
+    trunkRotation: (() => {
+      const indices = [
+        POSE_LANDMARKS.LEFT_SHOULDER,
+        POSE_LANDMARKS.RIGHT_SHOULDER,
+        POSE_LANDMARKS.LEFT_HIP,
+        POSE_LANDMARKS.RIGHT_HIP,
+      ];
+      const points = indices.map((index) => keypoints[index]);
+      if (points.some((kp) => !kp || kp.visibility <= 0.5)) return null;
+      const [leftShoulder, rightShoulder, leftHip, rightHip] = points;
+
+      // Backends with depth (BlazePose): signed difference of the two lines' headings in the x-z plane
+      if (points.every((kp) => kp.z !== 0)) {
+        const heading = (a: PoseKeypoint, b: PoseKeypoint) => toDegrees(Math.atan2(b.z - a.z, b.x - a.x));
+        const difference = heading(leftShoulder, rightShoulder) - heading(leftHip, rightHip);
+        return ((difference + 540) % 360) - 180;
+      }
+
+      // 2D only: the shoulder line foreshortens relative to the hip line as the trunk turns (unsigned)
+      if (!isFrontalView(leftHip, rightHip, leftShoulder, rightShoulder)) return null;
+      const hipWidth = distance(leftHip, rightHip);
+      const widthRatio = distance(leftShoulder, rightShoulder) / (hipWidth * SHOULDER_TO_HIP_WIDTH_RATIO);
+      return toDegrees(Math.acos(Math.min(1, widthRatio)));
+    })(),
+
+    leftKneeValgus: kneeValgus(getPoint, 'left'),
+    rightKneeValgus: kneeValgus(getPoint, 'right'),
   };
 }
 
+// Narrowest half-width the base of support is given (feet together still leave about a foot's width),
+// as a fraction of the center of mass height above the feet
+const MIN_BASE_HALF_WIDTH = 0.1;
+
 /**
  * Calculate biomechanical metrics from pose keypoints
  */
@@ -574,11 +797,42 @@ export function calculateBiomechanicalMetrics(keypoints: PoseKeypoint[]): Biomec
       }
     : { x: 0.5, y: 0.5 };
 
-  // Calculate balance score (based on center of mass deviation from center)
-  const balanceDeviation = Math.sqrt(
-    Math.pow(centerOfMass.x - 0.5, 2) + Math.pow(centerOfMass.y - 0.5, 2)
-  );
-  const balanceScore = Math.max(0, Math.min(100, 100 - balanceDeviation * 200));
+  // Base of support: the feet (heel / foot index when the backend has them, otherwise the ankles)
+  const leftAnkle = getPoint(POSE_LANDMARKS.LEFT_ANKLE);
+  const rightAnkle = getPoint(POSE_LANDMARKS.RIGHT_ANKLE);
+  const footXs = [
+    POSE_LANDMARKS.LEFT_ANKLE,
+    POSE_LANDMARKS.RIGHT_ANKLE,
+    POSE_LANDMARKS.LEFT_HEEL,
+    POSE_LANDMARKS.RIGHT_HEEL,
+    POSE_LANDMARKS.LEFT_FOOT_INDEX,
+    POSE_LANDMARKS.RIGHT_FOOT_INDEX,
+  ]
+    .map((idx) => getPoint(idx))
+    .filter((p): p is { x: number; y: number } => p !== null)
+    .map((p) => p.x);
+  const baseOfSupport = leftAnkle && rightAnkle
+    ? {
+        x: (Math.min(...footXs) + Math.max(...footXs)) / 2,
+        y: Math.max(leftAnkle.y, rightAnkle.y),
+        width: Math.max(...footXs) - Math.min(...footXs),
+      }
+    : null;
+  const centerOfMassOffset = baseOfSupport && majorPoints.length > 0 ? centerOfMass.x - baseOfSupport.x : null;
+
+  // Calculate balance score: how far the center of mass sits from the middle of the feet, relative to the
+  // edge of the base of support (falls back to distance from the frame centre when the feet aren't visible)
+  let balanceScore: number;
+  if (baseOfSupport && centerOfMassOffset !== null) {
+    const comHeight = Math.max(0, baseOfSupport.y - centerOfMass.y);
+    const halfBase = Math.max(baseOfSupport.width / 2, comHeight * MIN_BASE_HALF_WIDTH);
+    balanceScore = halfBase > 0 ? 100 * (1 - Math.min(1, Math.abs(centerOfMassOffset) / halfBase)) : 100;
+  } else {
+    const balanceDeviation = Math.sqrt(
+      Math.pow(centerOfMass.x - 0.5, 2) + Math.pow(centerOfMass.y - 0.5, 2)
+    );
+    balanceScore = Math.max(0, Math.min(100, 100 - balanceDeviation * 200));
+  }
 
   // Calculate symmetry score (compare left vs right side)
   const leftShoulder = getPoint(POSE_LANDMARKS.LEFT_SHOULDER);
@@ -611,5 +865,7 @@ export function calculateBiomechanicalMetrics(keypoints: PoseKeypoint[]): Biomec
     symmetryScore: Math.round(symmetryScore),
     posturalEfficiency: Math.round(posturalEfficiency),
     centerOfMass,
+    baseOfSupport,
+    centerOfMassOffset,
   };
 }
@@ -0,0 +1,177 @@
+// Pose inference client - sends video frames to the inference worker, falls back to the main thread
+import type { DetectedPose } from './pose-detection';
+import { createPoseBackend, DEFAULT_POSE_BACKEND, type PoseBackend, type PoseBackendId } from './pose-backends';
+import type { PoseWorkerRequest, PoseWorkerResponse } from './pose-inference.worker';
+
+export interface PoseInferenceResult {
+  poses: DetectedPose[];
+  inferenceMs: number; // Model time (worker) or model + preprocessing time (main thread)
+  capturedAt: number; // ms timestamp the frame was grabbed from the video
+}
+
+export type PoseInferenceClient = {
+  backendId: PoseBackendId;
+  mode: () => 'worker' | 'main-thread';
+  ready: () => Promise<void>;
+  estimate: (videoElement: HTMLVideoElement) => Promise<PoseInferenceResult>;
+  terminate: () => void;
+};
+
+const MAX_WORKER_THREADS = 4;
+const WORKER_INIT_TIMEOUT_MS = 60000; // Model download + WASM compile on a slow connection
+const WORKER_REQUEST_TIMEOUT_MS = 5000; // A frame takes well under a second - longer means the worker is stuck
+
+/**
+ * Whether this browser can run inference in a worker (needs transferable ImageBitmaps and OffscreenCanvas)
+ */
+export function supportsWorkerInference(): boolean {
+  return typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof createImageBitmap === 'function';
+}
+
+const emptyResult = (): PoseInferenceResult => ({ poses: [], inferenceMs: 0, capturedAt: Date.now() });
+
+/**
+ * Create an inference client for a pose backend. One client serves every video source - frames are processed one at a time.
+ */
+export function createPoseInferenceClient(backendId: PoseBackendId = DEFAULT_POSE_BACKEND): PoseInferenceClient {
+  let worker: Worker | null = null;
+  let mainThreadBackend: PoseBackend | null = null;
+  let readyPromise: Promise<void> | null = null;
+  let nextRequestId = 1;
+  const pending = new Map<number, {
+    resolve: (result: { poses: DetectedPose[]; inferenceMs: number }) => void;
+    reject: (error: Error) => void;
+    timeout: ReturnType<typeof setTimeout>;
+  }>();
+
+  const settle = (id: number) => {
+    const request = pending.get(id);
+    if (request) {
+      clearTimeout(request.timeout);
+      pending.delete(id);
+    }
+    return request;
+  };
+
+  const rejectPending = (error: Error) => {
+    pending.forEach(({ reject, timeout }) => {
+      clearTimeout(timeout);
+      reject(error);
+    });
+    pending.clear();
+  };
+
+  // Any worker failure drops us to main-thread inference for the rest of the session
+  const fallBackToMainThread = (reason: string) => {
+    if (!worker) return;
+    console.warn(`[Pose Inference] Worker unavailable (${reason}) - running inference on the main thread`);
+    worker.terminate();
+    worker = null;
+    rejectPending(new Error(reason));
+    readyPromise = loadOnMainThread().catch((error) => {
+      // estimate() retries the load and surfaces the error per frame
+      console.error('[Pose Inference] Main-thread model failed to load:', error);
+    });
+  };
+
+  const loadOnMainThread = async () => {
+    mainThreadBackend = mainThreadBackend || createPoseBackend(backendId);
+    await mainThreadBackend.load();
+  };
+
+  const startWorker = (): Promise<void> => {
+    worker = new Worker(new URL('./pose-inference.worker.ts', import.meta.url), { type: 'module' });
+    // Extra threads only help when SharedArrayBuffer is available (cross-origin isolated pages)
+    const numThreads = self.crossOriginIsolated
+      ? Math.min(MAX_WORKER_THREADS, Math.max(1, (navigator.hardwareConcurrency || 2) - 1))
+      : 1;
+
+    return new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('worker init timed out')), WORKER_INIT_TIMEOUT_MS);
+
+      worker!.onmessage = (event: MessageEvent<PoseWorkerResponse>) => {
+        const message = event.data;
+        if (message.type === 'ready') {
+          clearTimeout(timeout);
+          console.log(`[Pose Inference] Worker ready (${numThreads} thread${numThreads === 1 ? '' : 's'})`);
+          resolve();
+        } else if (message.type === 'result') {
+          settle(message.id)?.resolve({ poses: message.poses, inferenceMs: message.inferenceMs });
+        } else if (message.type === 'error') {
+          if (message.id === undefined) {
+            clearTimeout(timeout);
+            reject(new Error(message.message));
+            return;
+          }
+          settle(message.id)?.reject(new Error(message.message));
+        }
+      };
+      worker!.onerror = (event) => {
+        clearTimeout(timeout);
+        const reason = event.message || 'worker error';
+        reject(new Error(reason)); // No-op once ready - the fallback below handles crashes mid-session
+        fallBackToMainThread(reason);
+      };
+
+      const init: PoseWorkerRequest = { type: 'init', backendId, numThreads };
+      worker!.postMessage(init);
+    }).catch((error: Error) => fallBackToMainThread(error.message));
+  };
+
+  const ready = () => {
+    if (!readyPromise) {
+      readyPromise = supportsWorkerInference()
+        ? startWorker()
+        : loadOnMainThread();
+    }
+    return readyPromise;
+  };
+
+  const estimateOnMainThread = async (videoElement: HTMLVideoElement, capturedAt: number): Promise<PoseInferenceResult> => {
+    await loadOnMainThread();
+    const startedAt = performance.now();
+    const poses = await mainThreadBackend!.estimate(videoElement, videoElement.videoWidth, videoElement.videoHeight);
+    return { poses, inferenceMs: performance.now() - startedAt, capturedAt };
+  };
+
+  const estimate = async (videoElement: HTMLVideoElement): Promise<PoseInferenceResult> => {
+    if (!videoElement || videoElement.readyState < 2 || videoElement.videoWidth === 0 || videoElement.videoHeight === 0) {
+      return emptyResult();
+    }
+
+    await ready();
+    const capturedAt = Date.now();
+    if (!worker) {
+      return estimateOnMainThread(videoElement, capturedAt);
+    }
+
+    const frame = await createImageBitmap(videoElement);
+    const id = nextRequestId++;
+    const activeWorker = worker;
+    const { poses, inferenceMs } = await new Promise<{ poses: DetectedPose[]; inferenceMs: number }>((resolve, reject) => {
+      // A worker that stops answering (without an error event) would otherwise stall the detection loop
+      const timeout = setTimeout(() => fallBackToMainThread('worker request timed out'), WORKER_REQUEST_TIMEOUT_MS);
+      pending.set(id, { resolve, reject, timeout });
+      const request: PoseWorkerRequest = { type: 'estimate', id, frame, width: frame.width, height: frame.height };
+      activeWorker.postMessage(request, [frame]); // Transfer - no copy of the pixels
+    });
+    return { poses, inferenceMs, capturedAt };
+  };
+
+  return {
+    backendId,
+    mode: () => (worker ? 'worker' : 'main-thread'),
+    ready,
+    estimate,
+    terminate: () => {
+      worker?.terminate();
+      worker = null;
+      mainThreadBackend?.dispose();
+      mainThreadBackend = null;
+      readyPromise = null;
+      rejectPending(new Error('Pose inference client terminated'));
+    },
+  };
+}
@@ -0,0 +1,58 @@
+// Pose inference Web Worker - runs the selected pose backend off the main thread so video playback doesn't stutter
+import type { DetectedPose } from './pose-detection';
+import { createPoseBackend, type PoseBackend, type PoseBackendId } from './pose-backends';
+
+export type PoseWorkerRequest =
+  | { type: 'init'; backendId: PoseBackendId; numThreads: number }
+  | { type: 'estimate'; id: number; frame: ImageBitmap; width: number; height: number };
+
+export type PoseWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'error'; id?: number; message: string }
+  | { type: 'result'; id: number; poses: DetectedPose[]; inferenceMs: number };
+
+// Minimal view of the worker global (the DOM lib used by the app doesn't include worker types)
+const ctx = self as unknown as {
+  postMessage: (message: PoseWorkerResponse) => void;
+  onmessage: ((event: MessageEvent<PoseWorkerRequest>) => void) | null;
+};
+
+let backendPromise: Promise<PoseBackend> | null = null;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+ctx.onmessage = async (event) => {
+  const request = event.data;
+
+  if (request.type === 'init') {
+    try {
+      backendPromise = backendPromise || (async () => {
+        const backend = createPoseBackend(request.backendId);
+        await backend.load({ numThreads: request.numThreads });
+        return backend;
+      })();
+      await backendPromise;
+      ctx.postMessage({ type: 'ready' });
+    } catch (error) {
+      backendPromise = null;
+      ctx.postMessage({ type: 'error', message: errorMessage(error) });
+    }
+    return;
+  }
+
+  if (request.type === 'estimate') {
+    try {
+      if (!backendPromise) {
+        throw new Error('Pose worker received a frame before init');
+      }
+      const backend = await backendPromise;
+      const startedAt = performance.now();
+      const poses = await backend.estimate(request.frame, request.width, request.height);
+      ctx.postMessage({ type: 'result', id: request.id, poses, inferenceMs: performance.now() - startedAt });
+    } catch (error) {
+      ctx.postMessage({ type: 'error', id: request.id, message: errorMessage(error) });
+    } finally {
+      request.frame.close(); // Release the transferred bitmap's memory right away
+    }
+  }
+};
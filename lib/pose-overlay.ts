@@ -0,0 +1,219 @@
+// Pose overlay - skeleton, joint angle labels and form-fault highlights drawn over the live video tiles
+import { POSE_LANDMARKS, type BiomechanicalAngles, type PoseKeypoint } from './pose-detection';
+import { ANGLE_LANDMARKS } from './pose-smoothing';
+import type { FaultSeverity, FormFaultEvent, RuleMetric } from './movement-rules';
+
+// A fault currently highlighted on the skeleton
+export interface OverlayFault {
+  ruleId: string;
+  label: string;
+  metric: RuleMetric;
+  severity: FaultSeverity;
+  raisedAt: number; // ms
+}
+
+// Latest pose of one person, shared via the realtime metrics context / data channel
+export interface PoseOverlayFrame {
+  sourceId: string; // Participant whose video the pose was detected in (the tile it's drawn on)
+  keypoints: Array<Pick<PoseKeypoint, 'x' | 'y' | 'visibility'>>; // Normalized to the video frame
+  faults: OverlayFault[];
+  timestamp: number; // ms, when this client received / computed the frame
+}
+
+// Screen rectangle the video frame is drawn into (after object-fit)
+export interface VideoContentRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const OVERLAY_MIN_VISIBILITY = 0.5; // Same cutoff as the angle calculators
+export const OVERLAY_FAULT_HOLD_MS = 3000; // A raised fault stays highlighted this long
+export const OVERLAY_STALE_MS = 1500; // Skeletons older than this are not drawn (person left / tracking lost)
+
+export const SKELETON_CONNECTIONS: Array<[number, number]> = [
+  [POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.RIGHT_SHOULDER],
+  [POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.LEFT_ELBOW],
+  [POSE_LANDMARKS.LEFT_ELBOW, POSE_LANDMARKS.LEFT_WRIST],
+  [POSE_LANDMARKS.RIGHT_SHOULDER, POSE_LANDMARKS.RIGHT_ELBOW],
+  [POSE_LANDMARKS.RIGHT_ELBOW, POSE_LANDMARKS.RIGHT_WRIST],
+  [POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.LEFT_HIP],
+  [POSE_LANDMARKS.RIGHT_SHOULDER, POSE_LANDMARKS.RIGHT_HIP],
+  [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.RIGHT_HIP],
+  [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_KNEE],
+  [POSE_LANDMARKS.LEFT_KNEE, POSE_LANDMARKS.LEFT_ANKLE],
+  [POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_KNEE],
+  [POSE_LANDMARKS.RIGHT_KNEE, POSE_LANDMARKS.RIGHT_ANKLE],
+  [POSE_LANDMARKS.LEFT_ANKLE, POSE_LANDMARKS.LEFT_HEEL],
+  [POSE_LANDMARKS.LEFT_HEEL, POSE_LANDMARKS.LEFT_FOOT_INDEX],
+  [POSE_LANDMARKS.LEFT_ANKLE, POSE_LANDMARKS.LEFT_FOOT_INDEX],
+  [POSE_LANDMARKS.RIGHT_ANKLE, POSE_LANDMARKS.RIGHT_HEEL],
+  [POSE_LANDMARKS.RIGHT_HEEL, POSE_LANDMARKS.RIGHT_FOOT_INDEX],
+  [POSE_LANDMARKS.RIGHT_ANKLE, POSE_LANDMARKS.RIGHT_FOOT_INDEX],
+];
+
+// Joint angles labelled on the skeleton, anchored at the joint they're measured at
+export const OVERLAY_ANGLE_LABELS: Array<{ angle: keyof BiomechanicalAngles; landmark: number }> = [
+  { angle: 'leftKnee', landmark: POSE_LANDMARKS.LEFT_KNEE },
+  { angle: 'rightKnee', landmark: POSE_LANDMARKS.RIGHT_KNEE },
+  { angle: 'leftHip', landmark: POSE_LANDMARKS.LEFT_HIP },
+  { angle: 'rightHip', landmark: POSE_LANDMARKS.RIGHT_HIP },
+  { angle: 'leftElbow', landmark: POSE_LANDMARKS.LEFT_ELBOW },
+  { angle: 'rightElbow', landmark: POSE_LANDMARKS.RIGHT_ELBOW },
+  { angle: 'leftShoulder', landmark: POSE_LANDMARKS.LEFT_SHOULDER },
+  { angle: 'rightShoulder', landmark: POSE_LANDMARKS.RIGHT_SHOULDER },
+];
+
+// Landmarks involved in the derived rule metrics (angle metrics use ANGLE_LANDMARKS)
+const DERIVED_METRIC_LANDMARKS: Record<string, number[]> = {
+  kneeValgus: [POSE_LANDMARKS.LEFT_KNEE, POSE_LANDMARKS.RIGHT_KNEE],
+  trunkLean: ANGLE_LANDMARKS.spineLean,
+  hipSag: [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.RIGHT_HIP],
+  kneeAsymmetry: [POSE_LANDMARKS.LEFT_KNEE, POSE_LANDMARKS.RIGHT_KNEE],
+  hipAsymmetry: [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.RIGHT_HIP],
+};
+
+/**
+ * Landmarks to highlight for a fault on this metric
+ */
+export function faultLandmarks(metric: RuleMetric): number[] {
+  return DERIVED_METRIC_LANDMARKS[metric] || ANGLE_LANDMARKS[metric as keyof BiomechanicalAngles] || [];
+}
+
+/**
+ * Keypoints trimmed to what the overlay draws (keeps the data channel message small)
+ */
+export function toOverlayKeypoints(keypoints: PoseKeypoint[]): PoseOverlayFrame['keypoints'] {
+  const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+  return keypoints.map((kp) => ({ x: round(kp.x, 4), y: round(kp.y, 4), visibility: round(kp.visibility, 2) }));
+}
+
+/**
+ * Faults still highlighted at `now` (most recent per rule)
+ */
+export function activeOverlayFaults(events: FormFaultEvent[], now: number): OverlayFault[] {
+  const byRule = new Map<string, OverlayFault>();
+  events
+    .filter((event) => now - event.timestamp <= OVERLAY_FAULT_HOLD_MS)
+    .forEach((event) => {
+      byRule.set(event.ruleId, {
+        ruleId: event.ruleId,
+        label: event.label,
+        metric: event.metric,
+        severity: event.severity,
+        raisedAt: event.timestamp,
+      });
+    });
+  return Array.from(byRule.values());
+}
+
+/**
+ * Where a video frame ends up inside its element for a given object-fit (letterboxed or cropped)
+ */
+export function getVideoContentRect(
+  videoWidth: number,
+  videoHeight: number,
+  elementWidth: number,
+  elementHeight: number,
+  objectFit: string
+): VideoContentRect {
+  if (videoWidth <= 0 || videoHeight <= 0 || objectFit === 'fill') {
+    return { x: 0, y: 0, width: elementWidth, height: elementHeight };
+  }
+  const scaleX = elementWidth / videoWidth;
+  const scaleY = elementHeight / videoHeight;
+  const scale = objectFit === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+  const width = videoWidth * scale;
+  const height = videoHeight * scale;
+  return { x: (elementWidth - width) / 2, y: (elementHeight - height) / 2, width, height };
+}
+
+export interface OverlayPose {
+  keypoints: Array<Pick<PoseKeypoint, 'x' | 'y' | 'visibility'>>;
+  angles: Partial<BiomechanicalAngles>;
+  faults: OverlayFault[];
+}
+
+const SKELETON_COLOR = 'rgba(34, 211, 238, 0.9)';
+const FAULT_COLORS: Record<FaultSeverity, string> = {
+  high: '#ef4444',
+  medium: '#f97316',
+  low: '#eab308',
+};
+const SEVERITY_RANK: Record<FaultSeverity, number> = { low: 1, medium: 2, high: 3 };
+
+/**
+ * Draw one person's skeleton, joint angle labels and fault highlights. `toScreen` maps normalized keypoints to canvas pixels.
+ */
+export function drawPoseOverlay(
+  ctx: CanvasRenderingContext2D,
+  pose: OverlayPose,
+  toScreen: (point: { x: number; y: number }) => { x: number; y: number }
+): void {
+  const { keypoints, angles, faults } = pose;
+  const isVisible = (index: number) => (keypoints[index]?.visibility ?? 0) >= OVERLAY_MIN_VISIBILITY;
+
+  // Worst severity per faulted landmark
+  const faulted = new Map<number, FaultSeverity>();
+  faults.forEach((fault) => {
+    faultLandmarks(fault.metric).forEach((index) => {
+      const current = faulted.get(index);
+      if (!current || SEVERITY_RANK[fault.severity] > SEVERITY_RANK[current]) {
+        faulted.set(index, fault.severity);
+      }
+    });
+  });
+
+  ctx.lineWidth = 3;
+  ctx.lineCap = 'round';
+  SKELETON_CONNECTIONS.forEach(([a, b]) => {
+    if (!isVisible(a) || !isVisible(b)) return;
+    const from = toScreen(keypoints[a]);
+    const to = toScreen(keypoints[b]);
+    const severity = faulted.get(a) && faulted.get(b) ? faulted.get(a)! : null;
+    ctx.strokeStyle = severity ? FAULT_COLORS[severity] : SKELETON_COLOR;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  });
+
+  keypoints.forEach((kp, index) => {
+    if (!isVisible(index)) return;
+    const point = toScreen(kp);
+    const severity = faulted.get(index);
+    ctx.fillStyle = severity ? FAULT_COLORS[severity] : 'white';
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, severity ? 6 : 3.5, 0, Math.PI * 2);
+    ctx.fill();
+  });
+
+  ctx.font = '600 11px ui-sans-serif, system-ui, sans-serif';
+  ctx.textBaseline = 'middle';
+  OVERLAY_ANGLE_LABELS.forEach(({ angle, landmark }) => {
+    const value = angles[angle];
+    if (value === null || value === undefined || !isVisible(landmark)) return;
+    const point = toScreen(keypoints[landmark]);
+    const text = `${Math.round(value)}°`;
+    const textWidth = ctx.measureText(text).width;
+    const severity = faulted.get(landmark);
+    ctx.fillStyle = severity ? FAULT_COLORS[severity] : 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(point.x + 8, point.y - 8, textWidth + 8, 16);
+    ctx.fillStyle = 'white';
+    ctx.fillText(text, point.x + 12, point.y);
+  });
+
+  // Fault names above the head (or the highest visible joint)
+  const visiblePoints = keypoints.filter((_, index) => isVisible(index)).map(toScreen);
+  if (faults.length === 0 || visiblePoints.length === 0) return;
+  const top = visiblePoints.reduce((highest, point) => (point.y < highest.y ? point : highest));
+  faults.forEach((fault, i) => {
+    const textWidth = ctx.measureText(fault.label).width;
+    const y = Math.max(10, top.y - 24 - i * 20);
+    ctx.fillStyle = FAULT_COLORS[fault.severity];
+    ctx.fillRect(top.x - textWidth / 2 - 6, y - 9, textWidth + 12, 18);
+    ctx.fillStyle = 'white';
+    ctx.fillText(fault.label, top.x - textWidth / 2, y);
+  });
+}
@@ -0,0 +1,303 @@
+// Temporal keypoint smoothing - removes detector jitter before angles are calculated
+import { POSE_LANDMARKS, type BiomechanicalAngles, type PoseKeypoint } from './pose-detection';
+
+export type SmoothingFilter = 'one-euro' | 'kalman' | 'none';
+
+export interface PoseSmootherOptions {
+  filter?: SmoothingFilter;
+  minVisibility?: number; // Keypoints below this are treated as missing (matches the angle calculators' cutoff)
+  maxGapMs?: number; // Missing keypoints are interpolated for up to this long before being dropped
+  visibilityAlpha?: number; // EMA weight for visibility so it doesn't flicker around the cutoff
+  // One-Euro parameters
+  minCutoff?: number; // Hz - lower = smoother when still
+  beta?: number; // Speed coefficient - higher = less lag during fast movement
+  derivativeCutoff?: number; // Hz
+  // Kalman parameters
+  processNoise?: number;
+  measurementNoise?: number;
+}
+
+export type AngleConfidence = Record<keyof BiomechanicalAngles, number>;
+
+export interface SmoothedPose {
+  keypoints: PoseKeypoint[];
+  interpolated: number[]; // Landmark indices filled in from history this frame
+}
+
+export type PoseSmoother = {
+  smooth: (keypoints: PoseKeypoint[], timestamp?: number) => SmoothedPose;
+  reset: () => void;
+};
+
+const DEFAULT_MIN_VISIBILITY = 0.5;
+const DEFAULT_MAX_GAP_MS = 2500; // ~2 missed frames at the default 1 fps detection rate
+const DEFAULT_VISIBILITY_ALPHA = 0.6;
+const DEFAULT_MIN_CUTOFF = 1.0;
+const DEFAULT_BETA = 0.5;
+const DEFAULT_DERIVATIVE_CUTOFF = 1.0;
+const DEFAULT_PROCESS_NOISE = 0.01;
+const DEFAULT_MEASUREMENT_NOISE = 0.005;
+const MIN_ANGLE_CONFIDENCE = 0.5; // Angles below this confidence are dropped
+
+// Landmarks each angle in calculateBiomechanicalAngles depends on
+export const ANGLE_LANDMARKS: Record<keyof BiomechanicalAngles, number[]> = {
+  leftKnee: [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_KNEE, POSE_LANDMARKS.LEFT_ANKLE],
+  rightKnee: [POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_KNEE, POSE_LANDMARKS.RIGHT_ANKLE],
+  leftHip: [POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_KNEE],
+  rightHip: [POSE_LANDMARKS.RIGHT_SHOULDER, POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_KNEE],
+  leftShoulder: [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.LEFT_ELBOW],
+  rightShoulder: [POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_SHOULDER, POSE_LANDMARKS.RIGHT_ELBOW],
+  leftElbow: [POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.LEFT_ELBOW, POSE_LANDMARKS.LEFT_WRIST],
+  rightElbow: [POSE_LANDMARKS.RIGHT_SHOULDER, POSE_LANDMARKS.RIGHT_ELBOW, POSE_LANDMARKS.RIGHT_WRIST],
+  spineLean: [
+    POSE_LANDMARKS.LEFT_SHOULDER,
+    POSE_LANDMARKS.RIGHT_SHOULDER,
+    POSE_LANDMARKS.LEFT_HIP,
+    POSE_LANDMARKS.RIGHT_HIP,
+  ],
+  neckFlexion: [
+    POSE_LANDMARKS.NOSE,
+    POSE_LANDMARKS.LEFT_SHOULDER,
+    POSE_LANDMARKS.RIGHT_SHOULDER,
+    POSE_LANDMARKS.LEFT_HIP,
+    POSE_LANDMARKS.RIGHT_HIP,
+  ],
+  // Heel / foot index are optional (the angle falls back to the shank when they're missing)
+  leftAnkleDorsiflexion: [POSE_LANDMARKS.LEFT_KNEE, POSE_LANDMARKS.LEFT_ANKLE],
+  rightAnkleDorsiflexion: [POSE_LANDMARKS.RIGHT_KNEE, POSE_LANDMARKS.RIGHT_ANKLE],
+  pelvicObliquity: [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.RIGHT_HIP],
+  trunkRotation: [
+    POSE_LANDMARKS.LEFT_SHOULDER,
+    POSE_LANDMARKS.RIGHT_SHOULDER,
+    POSE_LANDMARKS.LEFT_HIP,
+    POSE_LANDMARKS.RIGHT_HIP,
+  ],
+  leftKneeValgus: [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.LEFT_KNEE, POSE_LANDMARKS.LEFT_ANKLE],
+  rightKneeValgus: [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_KNEE, POSE_LANDMARKS.RIGHT_ANKLE],
+};
+
+type ScalarFilter = {
+  filter: (value: number, timestamp: number, confidence: number) => number;
+  velocity: () => number; // units per second
+};
+
+/**
+ * One-Euro filter (Casiez et al. 2012) - adaptive low-pass that is smooth when still and responsive when moving
+ */
+function createOneEuroFilter(minCutoff: number, beta: number, derivativeCutoff: number): ScalarFilter {
+  let prevValue: number | null = null;
+  let prevDerivative = 0;
+  let prevTimestamp = 0;
+
+  const alpha = (cutoff: number, dt: number) => {
+    const tau = 1 / (2 * Math.PI * cutoff);
+    return 1 / (1 + tau / dt);
+  };
+
+  return {
+    filter: (value, timestamp) => {
+      if (prevValue === null) {
+        prevValue = value;
+        prevTimestamp = timestamp;
+        return value;
+      }
+
+      const dt = Math.max(0.001, (timestamp - prevTimestamp) / 1000);
+      const derivative = (value - prevValue) / dt;
+      const aD = alpha(derivativeCutoff, dt);
+      prevDerivative = aD * derivative + (1 - aD) * prevDerivative;
+
+      const cutoff = minCutoff + beta * Math.abs(prevDerivative);
+      const a = alpha(cutoff, dt);
+      prevValue = a * value + (1 - a) * prevValue;
+      prevTimestamp = timestamp;
+      return prevValue;
+    },
+    velocity: () => prevDerivative,
+  };
+}
+
+/**
+ * 1D constant-velocity Kalman filter. Measurement noise grows as keypoint confidence drops.
+ */
+function createKalmanFilter(processNoise: number, measurementNoise: number): ScalarFilter {
+  let position: number | null = null;
+  let velocity = 0;
+  // Covariance matrix [[p00, p01], [p01, p11]]
+  let p00 = 1;
+  let p01 = 0;
+  let p11 = 1;
+  let prevTimestamp = 0;
+
+  return {
+    filter: (value, timestamp, confidence) => {
+      if (position === null) {
+        position = value;
+        prevTimestamp = timestamp;
+        return value;
+      }
+
+      const dt = Math.max(0.001, (timestamp - prevTimestamp) / 1000);
+      prevTimestamp = timestamp;
+
+      // Predict
+      position += velocity * dt;
+      p00 += dt * (2 * p01 + dt * p11) + processNoise;
+      p01 += dt * p11;
+      p11 += processNoise;
+
+      // Update
+      const r = measurementNoise / Math.max(0.05, confidence);
+      const innovation = value - position;
+      const s = p00 + r;
+      const k0 = p00 / s;
+      const k1 = p01 / s;
+      position += k0 * innovation;
+      velocity += k1 * innovation;
+      p11 -= k1 * p01;
+      p01 -= k0 * p01;
+      p00 -= k0 * p00;
+
+      return position;
+    },
+    velocity: () => velocity,
+  };
+}
+
+function createPassthroughFilter(): ScalarFilter {
+  let prevValue: number | null = null;
+  let prevTimestamp = 0;
+  let lastVelocity = 0;
+
+  return {
+    filter: (value, timestamp) => {
+      if (prevValue !== null) {
+        const dt = Math.max(0.001, (timestamp - prevTimestamp) / 1000);
+        lastVelocity = (value - prevValue) / dt;
+      }
+      prevValue = value;
+      prevTimestamp = timestamp;
+      return value;
+    },
+    velocity: () => lastVelocity,
+  };
+}
+
+interface KeypointState {
+  x: ScalarFilter;
+  y: ScalarFilter;
+  visibility: number; // Smoothed visibility
+  last: PoseKeypoint | null; // Last smoothed observation
+  lastSeen: number; // ms timestamp of the last real observation
+}
+
+/**
+ * Create a smoother for one tracked person. Each track needs its own smoother so filter state isn't shared.
+ */
+export function createPoseSmoother(options: PoseSmootherOptions = {}): PoseSmoother {
+  const filterType = options.filter ?? 'one-euro';
+  const minVisibility = options.minVisibility ?? DEFAULT_MIN_VISIBILITY;
+  const maxGapMs = options.maxGapMs ?? DEFAULT_MAX_GAP_MS;
+  const visibilityAlpha = options.visibilityAlpha ?? DEFAULT_VISIBILITY_ALPHA;
+
+  const createFilter = (): ScalarFilter => {
+    switch (filterType) {
+      case 'kalman':
+        return createKalmanFilter(
+          options.processNoise ?? DEFAULT_PROCESS_NOISE,
+          options.measurementNoise ?? DEFAULT_MEASUREMENT_NOISE
+        );
+      case 'none':
+        return createPassthroughFilter();
+      default:
+        return createOneEuroFilter(
+          options.minCutoff ?? DEFAULT_MIN_CUTOFF,
+          options.beta ?? DEFAULT_BETA,
+          options.derivativeCutoff ?? DEFAULT_DERIVATIVE_CUTOFF
+        );
+    }
+  };
+
+  let states = new Map<number, KeypointState>();
+
+  const smooth = (keypoints: PoseKeypoint[], timestamp: number = Date.now()): SmoothedPose => {
+    const interpolated: number[] = [];
+
+    const result = keypoints.map((kp, index) => {
+      let state = states.get(index);
+      if (!state) {
+        state = { x: createFilter(), y: createFilter(), visibility: kp.visibility, last: null, lastSeen: 0 };
+        states.set(index, state);
+      }
+
+      state.visibility = visibilityAlpha * kp.visibility + (1 - visibilityAlpha) * state.visibility;
+
+      // Smoothed visibility acts as hysteresis: a keypoint that dips just under the cutoff for a frame is still used
+      if (kp.visibility >= minVisibility || state.visibility >= minVisibility) {
+        const smoothed: PoseKeypoint = {
+          ...kp,
+          x: state.x.filter(kp.x, timestamp, kp.visibility),
+          y: state.y.filter(kp.y, timestamp, kp.visibility),
+          visibility: Math.max(kp.visibility, state.visibility),
+        };
+        state.last = smoothed;
+        state.lastSeen = timestamp;
+        return smoothed;
+      }
+
+      // Short occlusion: extrapolate from the last good position, with confidence fading over the gap
+      const gap = timestamp - state.lastSeen;
+      if (state.last && gap <= maxGapMs) {
+        const fade = 1 - gap / (maxGapMs * 2); // Stays above half the last confidence for the whole gap
+        const dt = gap / 1000;
+        interpolated.push(index);
+        return {
+          ...kp,
+          x: state.last.x + state.x.velocity() * dt,
+          y: state.last.y + state.y.velocity() * dt,
+          visibility: state.last.visibility * fade,
+        };
+      }
+
+      return { ...kp, visibility: Math.min(kp.visibility, state.visibility) };
+    });
+
+    return { keypoints: result, interpolated };
+  };
+
+  return {
+    smooth,
+    reset: () => {
+      states = new Map();
+    },
+  };
+}
+
+/**
+ * Confidence (0-1) of each angle: the weakest of the keypoints it is built from
+ */
+export function calculateAngleConfidence(keypoints: PoseKeypoint[]): AngleConfidence {
+  const confidence = {} as AngleConfidence;
+  (Object.keys(ANGLE_LANDMARKS) as Array<keyof BiomechanicalAngles>).forEach((angle) => {
+    const visibilities = ANGLE_LANDMARKS[angle].map((index) => keypoints[index]?.visibility ?? 0);
+    confidence[angle] = Math.min(...visibilities);
+  });
+  return confidence;
+}
+
+/**
+ * Drop angles whose confidence is too low to trust
+ */
+export function filterAnglesByConfidence(
+  angles: BiomechanicalAngles,
+  confidence: AngleConfidence,
+  minConfidence: number = MIN_ANGLE_CONFIDENCE
+): BiomechanicalAngles {
+  const filtered = { ...angles };
+  (Object.keys(filtered) as Array<keyof BiomechanicalAngles>).forEach((angle) => {
+    if (filtered[angle] !== null && confidence[angle] < minConfidence) {
+      filtered[angle] = null;
+    }
+  });
+  return filtered;
+}
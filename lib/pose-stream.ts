@@ -0,0 +1,333 @@
+// Pose stream - compact, versioned binary encoding of pose frames, shared by the browser and API routes.
+// Used for the LiveKit data channel (topic POSE_STREAM_TOPIC) and for stored session pose tracks.
+//
+// Layout (version 1), all integers are unsigned LEB128 varints unless noted, signed values are zigzag-encoded:
+//   magic "PS" (2 bytes) | version (1 byte) | keypointCount | angleCount
+//   participantId (string) | sourceId (string) | aspectRatio × 1000 (0 = unknown)
+//   startMs | frameCount
+//   per frame:
+//     dtMs (since the previous frame, 0 for the first)
+//     keypoints: x, y (× 10000) and visibility (× 100), signed deltas from the previous frame
+//     angle presence bitmask, then each present angle (× 10) as a signed delta from its last value
+//     faultCount, per fault: ruleId, label, metric (strings), severity (1 byte), raisedAt offset before the frame
+//   strings are a varint byte length followed by UTF-8
+import { CANONICAL_KEYPOINT_COUNT, type BiomechanicalAngles } from './pose-detection';
+import type { FaultSeverity, RuleMetric } from './movement-rules';
+import type { OverlayFault } from './pose-overlay';
+import type { PoseTrackFrame } from './pose-tracks';
+
+export const POSE_STREAM_VERSION = 1;
+export const POSE_STREAM_TOPIC = 'pose-stream'; // LiveKit data packet topic
+
+// Angle order is part of the format - append new angles, never reorder (bump the version instead)
+export const POSE_STREAM_ANGLES: Array<keyof BiomechanicalAngles> = [
+  'leftKnee',
+  'rightKnee',
+  'leftHip',
+  'rightHip',
+  'leftShoulder',
+  'rightShoulder',
+  'leftElbow',
+  'rightElbow',
+  'spineLean',
+  'neckFlexion',
+  'leftAnkleDorsiflexion',
+  'rightAnkleDorsiflexion',
+  'pelvicObliquity',
+  'trunkRotation',
+  'leftKneeValgus',
+  'rightKneeValgus',
+];
+
+const MAGIC = [0x50, 0x53]; // "PS"
+const XY_SCALE = 10000; // 0.0001 of the frame
+const VISIBILITY_SCALE = 100;
+const ANGLE_SCALE = 10; // 0.1 degree
+const ASPECT_SCALE = 1000;
+const SEVERITIES: FaultSeverity[] = ['low', 'medium', 'high'];
+
+export interface PoseStreamMeta {
+  participantId?: string;
+  sourceId?: string;
+  aspectRatio?: number; // Source video width / height
+}
+
+export interface PoseStream extends PoseStreamMeta {
+  version: number;
+  startMs: number;
+  frames: PoseTrackFrame[];
+}
+
+export class PoseStreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PoseStreamError';
+  }
+}
+
+// Varints use arithmetic rather than bitwise ops so ms timestamps (> 2^32) survive
+const createWriter = () => {
+  let bytes = new Uint8Array(1024);
+  let length = 0;
+  const ensure = (extra: number) => {
+    if (length + extra <= bytes.length) return;
+    const grown = new Uint8Array(Math.max(bytes.length * 2, length + extra));
+    grown.set(bytes.subarray(0, length));
+    bytes = grown;
+  };
+  const byte = (value: number) => {
+    ensure(1);
+    bytes[length++] = value;
+  };
+  const uint = (value: number) => {
+    let n = Math.max(0, Math.round(value));
+    while (n >= 0x80) {
+      byte((n % 0x80) | 0x80);
+      n = Math.floor(n / 0x80);
+    }
+    byte(n);
+  };
+  const int = (value: number) => {
+    const n = Math.round(value);
+    uint(n >= 0 ? n * 2 : -n * 2 - 1);
+  };
+  const string = (value: string) => {
+    const encoded = new TextEncoder().encode(value);
+    uint(encoded.length);
+    ensure(encoded.length);
+    bytes.set(encoded, length);
+    length += encoded.length;
+  };
+  return { byte, uint, int, string, finish: () => bytes.slice(0, length) };
+};
+
+const createReader = (bytes: Uint8Array) => {
+  let offset = 0;
+  const byte = () => {
+    if (offset >= bytes.length) throw new PoseStreamError('Pose stream is truncated');
+    return bytes[offset++];
+  };
+  const uint = () => {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const b = byte();
+      value += (b & 0x7f) * scale;
+      if (b < 0x80) return value;
+      scale *= 0x80;
+      if (scale > 2 ** 56) throw new PoseStreamError('Pose stream varint is too long');
+    }
+  };
+  const int = () => {
+    const n = uint();
+    return n % 2 === 0 ? n / 2 : -(n + 1) / 2;
+  };
+  const string = () => {
+    const length = uint();
+    if (offset + length > bytes.length) throw new PoseStreamError('Pose stream is truncated');
+    const value = new TextDecoder().decode(bytes.subarray(offset, offset + length));
+    offset += length;
+    return value;
+  };
+  return { byte, uint, int, string, remaining: () => bytes.length - offset };
+};
+
+/**
+ * Encode frames (time-ordered) into a pose stream chunk
+ */
+export function encodePoseStream(frames: PoseTrackFrame[], meta: PoseStreamMeta = {}): Uint8Array {
+  const writer = createWriter();
+  const keypointCount = frames.reduce((max, frame) => Math.max(max, frame.keypoints.length), 0);
+  const startMs = Math.round(frames[0]?.timestamp ?? 0);
+
+  MAGIC.forEach(writer.byte);
+  writer.byte(POSE_STREAM_VERSION);
+  writer.uint(keypointCount);
+  writer.uint(POSE_STREAM_ANGLES.length);
+  writer.string(meta.participantId || '');
+  writer.string(meta.sourceId || '');
+  writer.uint(meta.aspectRatio ? meta.aspectRatio * ASPECT_SCALE : 0);
+  writer.uint(startMs);
+  writer.uint(frames.length);
+
+  const previousKeypoints = new Array<number>(keypointCount * 3).fill(0);
+  const previousAngles = new Array<number>(POSE_STREAM_ANGLES.length).fill(0);
+  let previousTimestamp = startMs;
+
+  frames.forEach((frame) => {
+    writer.uint(frame.timestamp - previousTimestamp);
+    previousTimestamp = Math.round(frame.timestamp);
+
+    for (let i = 0; i < keypointCount; i++) {
+      const [x, y, visibility] = frame.keypoints[i] || [0, 0, 0];
+      [x * XY_SCALE, y * XY_SCALE, visibility * VISIBILITY_SCALE].forEach((value, j) => {
+        const quantized = Math.round(value);
+        writer.int(quantized - previousKeypoints[i * 3 + j]);
+        previousKeypoints[i * 3 + j] = quantized;
+      });
+    }
+
+    let presence = 0;
+    POSE_STREAM_ANGLES.forEach((angle, i) => {
+      if (typeof frame.angles[angle] === 'number') presence += 2 ** i;
+    });
+    writer.uint(presence);
+    POSE_STREAM_ANGLES.forEach((angle, i) => {
+      const value = frame.angles[angle];
+      if (typeof value !== 'number') return;
+      const quantized = Math.round(value * ANGLE_SCALE);
+      writer.int(quantized - previousAngles[i]);
+      previousAngles[i] = quantized;
+    });
+
+    const faults = frame.faults || [];
+    writer.uint(faults.length);
+    faults.forEach((fault) => {
+      writer.string(fault.ruleId);
+      writer.string(fault.label);
+      writer.string(fault.metric);
+      writer.byte(Math.max(0, SEVERITIES.indexOf(fault.severity)));
+      writer.int(frame.timestamp - fault.raisedAt);
+    });
+  });
+
+  return writer.finish();
+}
+
+/**
+ * Decode a pose stream chunk. Throws PoseStreamError for data that isn't a (supported) pose stream.
+ */
+export function decodePoseStream(bytes: Uint8Array): PoseStream {
+  const reader = createReader(bytes);
+  if (reader.byte() !== MAGIC[0] || reader.byte() !== MAGIC[1]) {
+    throw new PoseStreamError('Not a pose stream');
+  }
+  const version = reader.byte();
+  if (version !== POSE_STREAM_VERSION) {
+    throw new PoseStreamError(`Unsupported pose stream version ${version}`);
+  }
+
+  // Counts come from untrusted bytes - check them before anything is allocated from them
+  const keypointCount = reader.uint();
+  if (keypointCount > CANONICAL_KEYPOINT_COUNT) {
+    throw new PoseStreamError(`Pose stream has ${keypointCount} keypoints (at most ${CANONICAL_KEYPOINT_COUNT})`);
+  }
+  const angleCount = reader.uint();
+  if (angleCount > POSE_STREAM_ANGLES.length) {
+    throw new PoseStreamError(`Pose stream has ${angleCount} angles (at most ${POSE_STREAM_ANGLES.length})`);
+  }
+  const participantId = reader.string();
+  const sourceId = reader.string();
+  const aspectRatio = reader.uint() / ASPECT_SCALE;
+  const startMs = reader.uint();
+  const frameCount = reader.uint();
+  // Every frame takes at least one byte per keypoint value plus its dt, presence and fault count
+  if (frameCount * (keypointCount * 3 + 3) > reader.remaining()) {
+    throw new PoseStreamError('Pose stream is truncated');
+  }
+
+  const previousKeypoints = new Array<number>(keypointCount * 3).fill(0);
+  const previousAngles = new Array<number>(angleCount).fill(0);
+  let timestamp = startMs;
+  const frames: PoseTrackFrame[] = [];
+
+  for (let f = 0; f < frameCount; f++) {
+    timestamp += reader.uint();
+
+    const keypoints: PoseTrackFrame['keypoints'] = [];
+    for (let i = 0; i < keypointCount; i++) {
+      const values = [0, 1, 2].map((j) => {
+        previousKeypoints[i * 3 + j] += reader.int();
+        return previousKeypoints[i * 3 + j];
+      });
+      keypoints.push([values[0] / XY_SCALE, values[1] / XY_SCALE, values[2] / VISIBILITY_SCALE]);
+    }
+
+    const presence = reader.uint();
+    const angles: PoseTrackFrame['angles'] = {};
+    for (let i = 0; i < angleCount; i++) {
+      if (Math.floor(presence / 2 ** i) % 2 === 0) continue;
+      previousAngles[i] += reader.int();
+      const angle = POSE_STREAM_ANGLES[i];
+      if (angle) angles[angle] = previousAngles[i] / ANGLE_SCALE;
+    }
+
+    const frame: PoseTrackFrame = { timestamp, keypoints, angles };
+    const faultCount = reader.uint();
+    if (faultCount > 0) {
+      const faults: OverlayFault[] = [];
+      for (let i = 0; i < faultCount; i++) {
+        const ruleId = reader.string();
+        const label = reader.string();
+        const metric = reader.string() as RuleMetric;
+        const severity = SEVERITIES[reader.byte()] || 'low';
+        faults.push({ ruleId, label, metric, severity, raisedAt: timestamp - reader.int() });
+      }
+      frame.faults = faults;
+    }
+    frames.push(frame);
+  }
+
+  return {
+    version,
+    participantId: participantId || undefined,
+    sourceId: sourceId || undefined,
+    aspectRatio: aspectRatio || undefined,
+    startMs,
+    frames,
+  };
+}
+
+/**
+ * Base64 for JSON request/response bodies (btoa/atob exist in browsers and Node 16+)
+ */
+export function poseStreamToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function poseStreamFromBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Frames of a chunk as returned by the pose-tracks API (base64 stream, or JSON frames for chunks stored before pose streams)
+ */
+export function decodeStoredFrames(chunk: { stream?: string; frames?: PoseTrackFrame[] }): PoseTrackFrame[] {
+  return chunk.stream ? decodePoseStream(poseStreamFromBase64(chunk.stream)).frames : chunk.frames || [];
+}
+
+// Interoperable JSON export of decoded pose tracks (self-describing, no knowledge of the binary format needed)
+export interface PoseStreamJsonExport {
+  format: 'pose-stream-json';
+  version: number;
+  keypointFormat: '[x, y, visibility] normalized to the video frame';
+  angleUnits: 'degrees';
+  tracks: Array<{
+    participantId: string;
+    participantName?: string;
+    aspectRatio?: number;
+    frames: PoseTrackFrame[];
+  }>;
+}
+
+/**
+ * Build the JSON export for one or more decoded tracks
+ */
+export function toPoseStreamJson(tracks: PoseStreamJsonExport['tracks']): PoseStreamJsonExport {
+  return {
+    format: 'pose-stream-json',
+    version: POSE_STREAM_VERSION,
+    keypointFormat: '[x, y, visibility] normalized to the video frame',
+    angleUnits: 'degrees',
+    tracks,
+  };
+}
@@ -0,0 +1,224 @@
+// Multi-person pose tracking - gives each detected person a persistent track ID across frames
+import { computeIoU, type DetectedPose, type PoseBoundingBox, type PoseKeypoint } from './pose-detection';
+
+export interface TrackedPose extends DetectedPose {
+  trackId: number;
+  hits: number; // Number of frames this track has been matched
+  missed: number; // Consecutive frames without a match
+  firstSeen: number; // ms timestamp
+  lastSeen: number; // ms timestamp
+}
+
+// Lightweight view of a track, shared with the UI so a coach can pin it to a subject
+export interface TrackSummary {
+  trackId: number;
+  score: number;
+  bbox: PoseBoundingBox;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export interface PoseTrackerOptions {
+  maxMissed?: number; // Drop a track after this many frames without a match
+  minMatchScore?: number; // Minimum similarity (0-1) to continue an existing track
+  minKeypointConfidence?: number; // Keypoints below this are ignored when comparing poses
+}
+
+// Where a pinned person was last seen, so the pin can follow them onto a new track after an occlusion
+export interface PinnedTrackMemory {
+  trackId: number;
+  bbox: PoseBoundingBox;
+  lastSeen: number; // ms timestamp
+}
+
+export type PoseTracker = {
+  update: (detections: DetectedPose[], timestamp?: number) => TrackedPose[];
+  getTracks: () => TrackedPose[];
+  reset: () => void;
+};
+
+const DEFAULT_MAX_MISSED = 5;
+const DEFAULT_MIN_MATCH_SCORE = 0.2;
+const DEFAULT_MIN_KEYPOINT_CONFIDENCE = 0.3;
+const PIN_REACQUIRE_WINDOW_MS = 10000; // Longer gaps leave the pin where it is until the coach moves or clears it
+const PIN_REACQUIRE_MAX_DISTANCE = 1; // Box-center distance, in body sizes
+const PIN_REACQUIRE_MAX_SIZE_RATIO = 2; // A much bigger / smaller box is someone at another distance from the camera
+
+/**
+ * Similarity between two poses' keypoints (0-1), scaled by body size so it works at any distance from the camera
+ */
+function keypointSimilarity(
+  a: PoseKeypoint[],
+  b: PoseKeypoint[],
+  scale: number,
+  minConfidence: number
+): number | null {
+  let total = 0;
+  let count = 0;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i].visibility < minConfidence || b[i].visibility < minConfidence) continue;
+    const dx = a[i].x - b[i].x;
+    const dy = a[i].y - b[i].y;
+    // Gaussian falloff similar to COCO object keypoint similarity
+    total += Math.exp(-(dx * dx + dy * dy) / (2 * scale * scale));
+    count++;
+  }
+
+  return count > 0 ? total / count : null;
+}
+
+/**
+ * Combined box + keypoint similarity used for matching detections to tracks
+ */
+function matchScore(track: TrackedPose, detection: DetectedPose, minConfidence: number): number {
+  const iou = computeIoU(track.bbox, detection.bbox);
+  const scale = Math.max(0.05, Math.sqrt(track.bbox.width * track.bbox.height) * 0.5);
+  const kpSimilarity = keypointSimilarity(track.keypoints, detection.keypoints, scale, minConfidence);
+
+  return kpSimilarity === null ? iou : 0.5 * iou + 0.5 * kpSimilarity;
+}
+
+/**
+ * Create a tracker for one video source. Each source (participant camera) needs its own tracker.
+ */
+export function createPoseTracker(options: PoseTrackerOptions = {}): PoseTracker {
+  const maxMissed = options.maxMissed ?? DEFAULT_MAX_MISSED;
+  const minMatchScore = options.minMatchScore ?? DEFAULT_MIN_MATCH_SCORE;
+  const minConfidence = options.minKeypointConfidence ?? DEFAULT_MIN_KEYPOINT_CONFIDENCE;
+
+  let tracks: TrackedPose[] = [];
+  let nextTrackId = 1;
+
+  const update = (detections: DetectedPose[], timestamp: number = Date.now()): TrackedPose[] => {
+    // Score every track/detection pair, then greedily take the best pairs first
+    const pairs: Array<{ trackIndex: number; detectionIndex: number; score: number }> = [];
+    tracks.forEach((track, trackIndex) => {
+      detections.forEach((detection, detectionIndex) => {
+        const score = matchScore(track, detection, minConfidence);
+        if (score >= minMatchScore) {
+          pairs.push({ trackIndex, detectionIndex, score });
+        }
+      });
+    });
+    pairs.sort((a, b) => b.score - a.score);
+
+    const matchedTracks = new Set<number>();
+    const matchedDetections = new Set<number>();
+    const current: TrackedPose[] = [];
+
+    for (const pair of pairs) {
+      if (matchedTracks.has(pair.trackIndex) || matchedDetections.has(pair.detectionIndex)) continue;
+      matchedTracks.add(pair.trackIndex);
+      matchedDetections.add(pair.detectionIndex);
+
+      const track = tracks[pair.trackIndex];
+      const detection = detections[pair.detectionIndex];
+      current.push({
+        ...track,
+        keypoints: detection.keypoints,
+        score: detection.score,
+        bbox: detection.bbox,
+        hits: track.hits + 1,
+        missed: 0,
+        lastSeen: timestamp,
+      });
+    }
+
+    // Unmatched detections start new tracks
+    detections.forEach((detection, detectionIndex) => {
+      if (matchedDetections.has(detectionIndex)) return;
+      current.push({
+        ...detection,
+        trackId: nextTrackId++,
+        hits: 1,
+        missed: 0,
+        firstSeen: timestamp,
+        lastSeen: timestamp,
+      });
+    });
+
+    // Unmatched tracks are kept for a few frames so short occlusions don't change identity
+    const coasting = tracks
+      .filter((_, trackIndex) => !matchedTracks.has(trackIndex))
+      .map((track) => ({ ...track, missed: track.missed + 1 }))
+      .filter((track) => track.missed <= maxMissed);
+
+    tracks = [...current, ...coasting];
+
+    // Only return people visible in this frame, tagged with their track ID
+    return current
+      .map((track) => ({ ...track }))
+      .sort((a, b) => b.score - a.score);
+  };
+
+  return {
+    update,
+    getTracks: () => tracks.map((track) => ({ ...track })),
+    reset: () => {
+      tracks = [];
+      nextTrackId = 1;
+    },
+  };
+}
+
+/**
+ * Pick the track to analyze when no subject has been pinned.
+ * Sticks with the previous primary track while it is still visible, otherwise takes the most confident one.
+ */
+export function selectPrimaryTrack(
+  tracks: TrackedPose[],
+  previousTrackId?: number | null
+): TrackedPose | null {
+  if (tracks.length === 0) return null;
+  if (previousTrackId !== undefined && previousTrackId !== null) {
+    const previous = tracks.find((track) => track.trackId === previousTrackId);
+    if (previous) return previous;
+  }
+  return tracks.reduce((best, track) => (track.score > best.score ? track : best), tracks[0]);
+}
+
+/**
+ * Find the new track a lost pinned person most likely reappeared as: one started after they were last seen
+ * (so not someone tracked all along), of a similar size and closest to where they were.
+ */
+export function findReappearedTrack(
+  memory: PinnedTrackMemory,
+  candidates: TrackedPose[],
+  timestamp: number
+): TrackedPose | null {
+  if (timestamp - memory.lastSeen > PIN_REACQUIRE_WINDOW_MS) return null;
+
+  const size = Math.max(0.05, Math.sqrt(memory.bbox.width * memory.bbox.height));
+  const centerX = memory.bbox.x + memory.bbox.width / 2;
+  const centerY = memory.bbox.y + memory.bbox.height / 2;
+
+  let best: { track: TrackedPose; distance: number } | null = null;
+  for (const track of candidates) {
+    if (track.trackId === memory.trackId || track.firstSeen < memory.lastSeen) continue;
+    const trackSize = Math.sqrt(track.bbox.width * track.bbox.height);
+    const sizeRatio = Math.max(trackSize, size) / Math.max(0.05, Math.min(trackSize, size));
+    if (sizeRatio > PIN_REACQUIRE_MAX_SIZE_RATIO) continue;
+    const distance = Math.hypot(
+      track.bbox.x + track.bbox.width / 2 - centerX,
+      track.bbox.y + track.bbox.height / 2 - centerY
+    ) / size;
+    if (distance <= PIN_REACQUIRE_MAX_DISTANCE && (!best || distance < best.distance)) {
+      best = { track, distance };
+    }
+  }
+  return best?.track ?? null;
+}
+
+/**
+ * Convert tracks to the summary shape shared with the UI
+ */
+export function summarizeTracks(tracks: TrackedPose[]): TrackSummary[] {
+  return tracks.map((track) => ({
+    trackId: track.trackId,
+    score: track.score,
+    bbox: track.bbox,
+    firstSeen: track.firstSeen,
+    lastSeen: track.lastSeen,
+  }));
+}
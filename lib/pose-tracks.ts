@@ -0,0 +1,158 @@
+// Pose tracks - the full-resolution pose time series of a session, recorded in chunks for replay and review
+import type { BiomechanicalAngles, PoseKeypoint } from './pose-detection';
+import type { FormFaultEvent } from './movement-rules';
+import type { OverlayFault } from './pose-overlay';
+
+// One recorded frame
+export interface PoseTrackFrame {
+  timestamp: number; // ms epoch
+  keypoints: Array<[number, number, number]>; // [x, y, visibility] per canonical keypoint, normalized to the video frame
+  angles: Partial<Record<keyof BiomechanicalAngles, number>>; // Degrees, angles that weren't measured are omitted
+  faults?: OverlayFault[]; // Form faults raised on this frame
+}
+
+// A contiguous run of frames (the unit that's uploaded and stored)
+export interface PoseTrackChunk {
+  startMs: number;
+  endMs: number;
+  frames: PoseTrackFrame[];
+}
+
+export type PoseTrackRecorder = {
+  add: (timestamp: number, keypoints: PoseKeypoint[], angles: BiomechanicalAngles, faults?: FormFaultEvent[]) => void;
+  takeCompleted: () => PoseTrackChunk[]; // Chunks that have reached their full duration
+  flush: () => PoseTrackChunk[]; // Everything recorded so far, including a partial chunk
+  reset: () => void;
+};
+
+export const POSE_TRACK_CHUNK_MS = 5000; // Keeps each chunk well under the DynamoDB item limit at 30 fps
+
+// Display names for the recorded angles (review page charts)
+export const POSE_TRACK_ANGLE_LABELS: Record<keyof BiomechanicalAngles, string> = {
+  leftKnee: 'Left Knee',
+  rightKnee: 'Right Knee',
+  leftHip: 'Left Hip',
+  rightHip: 'Right Hip',
+  leftShoulder: 'Left Shoulder',
+  rightShoulder: 'Right Shoulder',
+  leftElbow: 'Left Elbow',
+  rightElbow: 'Right Elbow',
+  spineLean: 'Spine Lean',
+  neckFlexion: 'Neck Flexion',
+  leftAnkleDorsiflexion: 'Left Ankle Dorsiflexion',
+  rightAnkleDorsiflexion: 'Right Ankle Dorsiflexion',
+  pelvicObliquity: 'Pelvic Obliquity',
+  trunkRotation: 'Trunk Rotation',
+  leftKneeValgus: 'Left Knee Valgus',
+  rightKneeValgus: 'Right Knee Valgus',
+};
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Convert a processed frame to its recorded form (rounded to keep chunks small)
+ */
+export function toPoseTrackFrame(
+  timestamp: number,
+  keypoints: PoseKeypoint[],
+  angles: BiomechanicalAngles,
+  faults: FormFaultEvent[] = []
+): PoseTrackFrame {
+  const recordedAngles: PoseTrackFrame['angles'] = {};
+  (Object.keys(angles) as Array<keyof BiomechanicalAngles>).forEach((key) => {
+    const value = angles[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      recordedAngles[key] = round(value, 1);
+    }
+  });
+
+  const frame: PoseTrackFrame = {
+    timestamp: Math.round(timestamp),
+    keypoints: keypoints.map((kp) => [round(kp.x, 4), round(kp.y, 4), round(kp.visibility, 2)]),
+    angles: recordedAngles,
+  };
+  // Only set when present - the stored item can't contain undefined values
+  if (faults.length > 0) {
+    frame.faults = faults.map((f) => ({ ruleId: f.ruleId, label: f.label, metric: f.metric, severity: f.severity, raisedAt: f.timestamp }));
+  }
+  return frame;
+}
+
+/**
+ * Create a recorder for one person's pose track. Frames are grouped into fixed-duration chunks.
+ */
+export function createPoseTrackRecorder(chunkMs: number = POSE_TRACK_CHUNK_MS): PoseTrackRecorder {
+  let current: PoseTrackFrame[] = [];
+  let completed: PoseTrackChunk[] = [];
+
+  const toChunk = (frames: PoseTrackFrame[]): PoseTrackChunk => ({
+    startMs: frames[0].timestamp,
+    endMs: frames[frames.length - 1].timestamp,
+    frames,
+  });
+
+  return {
+    add: (timestamp, keypoints, angles, faults) => {
+      if (current.length > 0 && timestamp - current[0].timestamp >= chunkMs) {
+        completed.push(toChunk(current));
+        current = [];
+      }
+      current.push(toPoseTrackFrame(timestamp, keypoints, angles, faults));
+    },
+    takeCompleted: () => {
+      const chunks = completed;
+      completed = [];
+      return chunks;
+    },
+    flush: () => {
+      const chunks = current.length > 0 ? [...completed, toChunk(current)] : completed;
+      current = [];
+      completed = [];
+      return chunks;
+    },
+    reset: () => {
+      current = [];
+      completed = [];
+    },
+  };
+}
+
+/**
+ * Merge stored chunks into one time-ordered frame list (duplicate timestamps from re-uploads are dropped)
+ */
+export function mergePoseTrackChunks(chunks: Array<Pick<PoseTrackChunk, 'frames'>>): PoseTrackFrame[] {
+  const frames = chunks.flatMap((chunk) => chunk.frames).sort((a, b) => a.timestamp - b.timestamp);
+  return frames.filter((frame, i) => i === 0 || frame.timestamp !== frames[i - 1].timestamp);
+}
+
+/**
+ * Index of the last frame at or before `timestamp` (binary search; 0 if the time is before the first frame)
+ */
+export function findFrameIndex(frames: PoseTrackFrame[], timestamp: number): number {
+  let low = 0;
+  let high = frames.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (frames[mid].timestamp <= timestamp) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return Math.max(0, low);
+}
+
+/**
+ * Faults still highlighted on frame `index` - the recorded equivalent of the live overlay's hold window
+ */
+export function faultsAt(frames: PoseTrackFrame[], index: number, holdMs: number): OverlayFault[] {
+  const timestamp = frames[index]?.timestamp;
+  if (timestamp === undefined) return [];
+  const byRule = new Map<string, OverlayFault>();
+  for (let i = index; i >= 0 && timestamp - frames[i].timestamp <= holdMs; i--) {
+    frames[i].faults?.forEach((fault) => {
+      if (!byRule.has(fault.ruleId)) byRule.set(fault.ruleId, fault);
+    });
+  }
+  return Array.from(byRule.values());
+}
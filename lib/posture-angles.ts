@@ -0,0 +1,123 @@
+// Posture angle summaries - window averages of the measured posture angles, stored with AIMetric.posture_metrics
+import type { BiomechanicalAngles } from './pose-detection';
+
+export interface PostureAngleSummary {
+  leftAnkleDorsiflexion: number | null; // degrees
+  rightAnkleDorsiflexion: number | null;
+  pelvicObliquity: number | null; // degrees, positive when the left hip is higher
+  trunkRotation: number | null; // degrees
+  leftKneeValgus: number | null; // degrees, positive = knee collapsing inward
+  rightKneeValgus: number | null;
+  peakLeftKneeValgus: number | null; // Worst frame in the window
+  peakRightKneeValgus: number | null;
+  frameCount: number; // Frames the summary was built from
+}
+
+// Persisted shape (merged into AIMetric.posture_metrics / AIInsight.posture_metrics)
+export interface PostureAngleRecord {
+  ankle_dorsiflexion_left?: number;
+  ankle_dorsiflexion_right?: number;
+  pelvic_obliquity?: number;
+  trunk_rotation?: number;
+  knee_valgus_left?: number;
+  knee_valgus_right?: number;
+  peak_knee_valgus_left?: number;
+  peak_knee_valgus_right?: number;
+}
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null);
+const max = (values: number[]) => (values.length > 0 ? Math.max(...values) : null);
+
+/**
+ * Average the posture angles over a window of frames (angles missing on a frame are skipped)
+ */
+export function summarizePostureAngles(frames: Array<BiomechanicalAngles | undefined>): PostureAngleSummary {
+  const angles = frames.filter((frame): frame is BiomechanicalAngles => !!frame);
+  const valuesOf = (key: keyof BiomechanicalAngles) =>
+    angles.map((frame) => frame[key]).filter((value): value is number => typeof value === 'number');
+
+  return {
+    leftAnkleDorsiflexion: mean(valuesOf('leftAnkleDorsiflexion')),
+    rightAnkleDorsiflexion: mean(valuesOf('rightAnkleDorsiflexion')),
+    pelvicObliquity: mean(valuesOf('pelvicObliquity')),
+    trunkRotation: mean(valuesOf('trunkRotation')),
+    leftKneeValgus: mean(valuesOf('leftKneeValgus')),
+    rightKneeValgus: mean(valuesOf('rightKneeValgus')),
+    peakLeftKneeValgus: max(valuesOf('leftKneeValgus')),
+    peakRightKneeValgus: max(valuesOf('rightKneeValgus')),
+    frameCount: angles.length,
+  };
+}
+
+const round = (value: number | null | undefined) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.round(value * 10) / 10 : undefined;
+
+// Drop measures that weren't captured so they don't overwrite or clutter posture_metrics
+const definedOnly = (record: PostureAngleRecord): PostureAngleRecord =>
+  Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined)) as PostureAngleRecord;
+
+/**
+ * Convert a summary to the snake_case fields stored in posture_metrics
+ */
+export function toPostureAngleRecord(summary: Partial<PostureAngleSummary>): PostureAngleRecord {
+  return definedOnly({
+    ankle_dorsiflexion_left: round(summary.leftAnkleDorsiflexion),
+    ankle_dorsiflexion_right: round(summary.rightAnkleDorsiflexion),
+    pelvic_obliquity: round(summary.pelvicObliquity),
+    trunk_rotation: round(summary.trunkRotation),
+    knee_valgus_left: round(summary.leftKneeValgus),
+    knee_valgus_right: round(summary.rightKneeValgus),
+    peak_knee_valgus_left: round(summary.peakLeftKneeValgus),
+    peak_knee_valgus_right: round(summary.peakRightKneeValgus),
+  });
+}
+
+/**
+ * Combine the posture angles of several metric windows (e.g. a whole session): averages are averaged, peaks keep the worst
+ */
+export function combinePostureAngleRecords(records: Array<PostureAngleRecord | undefined>): PostureAngleRecord {
+  const present = records.filter((record): record is PostureAngleRecord => !!record);
+  const valuesOf = (key: keyof PostureAngleRecord) =>
+    present.map((record) => record[key]).filter((value): value is number => typeof value === 'number');
+
+  return definedOnly({
+    ankle_dorsiflexion_left: round(mean(valuesOf('ankle_dorsiflexion_left'))),
+    ankle_dorsiflexion_right: round(mean(valuesOf('ankle_dorsiflexion_right'))),
+    pelvic_obliquity: round(mean(valuesOf('pelvic_obliquity'))),
+    trunk_rotation: round(mean(valuesOf('trunk_rotation'))),
+    knee_valgus_left: round(mean(valuesOf('knee_valgus_left'))),
+    knee_valgus_right: round(mean(valuesOf('knee_valgus_right'))),
+    peak_knee_valgus_left: round(max(valuesOf('peak_knee_valgus_left'))),
+    peak_knee_valgus_right: round(max(valuesOf('peak_knee_valgus_right'))),
+  });
+}
+
+/**
+ * Human-readable lines for reports (only the measures that were captured)
+ */
+export function describePostureAngles(record: PostureAngleRecord | undefined): Array<{ label: string; value: string }> {
+  if (!record) return [];
+  const degrees = (value: number) => `${value.toFixed(1)}°`;
+  const pair = (left?: number, right?: number) =>
+    `L ${left !== undefined ? degrees(left) : '—'} / R ${right !== undefined ? degrees(right) : '—'}`;
+  const lines: Array<{ label: string; value: string }> = [];
+
+  if (record.ankle_dorsiflexion_left !== undefined || record.ankle_dorsiflexion_right !== undefined) {
+    lines.push({ label: 'Ankle Dorsiflexion', value: pair(record.ankle_dorsiflexion_left, record.ankle_dorsiflexion_right) });
+  }
+  if (record.knee_valgus_left !== undefined || record.knee_valgus_right !== undefined) {
+    const peak = max([record.peak_knee_valgus_left, record.peak_knee_valgus_right].filter((v): v is number => v !== undefined));
+    lines.push({
+      label: 'Knee Valgus',
+      value: `${pair(record.knee_valgus_left, record.knee_valgus_right)}${peak !== null ? ` (peak ${degrees(peak)})` : ''}`,
+    });
+  }
+  if (record.pelvic_obliquity !== undefined) {
+    const side = record.pelvic_obliquity > 0 ? ' (left hip high)' : record.pelvic_obliquity < 0 ? ' (right hip high)' : '';
+    lines.push({ label: 'Pelvic Obliquity', value: `${degrees(Math.abs(record.pelvic_obliquity))}${side}` });
+  }
+  if (record.trunk_rotation !== undefined) {
+    lines.push({ label: 'Trunk Rotation', value: degrees(record.trunk_rotation) });
+  }
+  return lines;
+}
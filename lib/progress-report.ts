@@ -0,0 +1,177 @@
+// Baseline vs latest progress for a subject over a date range - built from the subject trends
+import { TREND_METRICS, type SubjectTrends, type TrendMetricId, type TrendPoint, type TrendSession } from './subject-trends';
+
+export type ChangeSignificance = 'meaningful' | 'within_noise' | 'insufficient_data';
+
+export interface ProgressComparison {
+  metric: TrendMetricId;
+  label: string;
+  unit: string;
+  higher_is_better: boolean;
+  baseline: { date: string; value: number };
+  latest: { date: string; value: number };
+  change: number; // Latest minus baseline
+  change_pct: number | null; // Relative to the baseline (null when the baseline is 0)
+  direction: 'improved' | 'declined' | 'stable';
+  significance: ChangeSignificance;
+  minimal_detectable_change: number | null; // MDC95 from the session-to-session noise between baseline and latest
+  slope_per_session: number | null; // Least-squares trend between baseline and latest
+  points: number; // Values between baseline and latest (inclusive)
+  change_points: Array<{ date: string; direction: 'up' | 'down' }>;
+}
+
+export interface ProgressReportOptions {
+  from?: string | null; // YYYY-MM-DD, inclusive
+  to?: string | null;
+  baselineSessionId?: string | null; // Coach's choice - the first session in the range otherwise
+  latestSessionId?: string | null; // Coach's choice - the last session in the range otherwise
+}
+
+export interface ProgressReport {
+  range: { from: string | null; to: string | null };
+  sessions: TrendSession[]; // Sessions in the range, oldest first
+  baseline: TrendSession | null;
+  latest: TrendSession | null;
+  baseline_auto: boolean; // Picked automatically (no choice, or the chosen session isn't in the range)
+  latest_auto: boolean;
+  comparisons: ProgressComparison[];
+  improved_count: number; // Meaningful improvements
+  declined_count: number; // Meaningful declines
+}
+
+const MIN_NOISE_POINTS = 4; // Values needed to estimate session-to-session noise
+const MDC_Z = 1.96; // 95% confidence
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+const standardDeviation = (values: number[]) => {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / Math.max(1, values.length - 1));
+};
+const day = (date: string) => date.slice(0, 10);
+
+const slope = (values: number[]) => {
+  const xMean = (values.length - 1) / 2;
+  const yMean = mean(values);
+  const numerator = values.reduce((sum, y, x) => sum + (x - xMean) * (y - yMean), 0);
+  const denominator = values.reduce((sum, _y, x) => sum + (x - xMean) ** 2, 0);
+  return denominator > 0 ? numerator / denominator : 0;
+};
+
+/**
+ * Compare each trend's first value on / after the baseline session's day with its last value on / before the latest
+ * session's day. A change is meaningful when it beats the minimal detectable change (1.96 x SD of the
+ * session-to-session differences - measurement noise plus normal day-to-day variation) and the metric's minimum change.
+ */
+export function buildProgressReport(trends: SubjectTrends, options: ProgressReportOptions = {}): ProgressReport {
+  const from = options.from || null;
+  const to = options.to || null;
+  const inRange = (date: string) => (!from || day(date) >= from) && (!to || day(date) <= to);
+
+  const sessions = trends.sessions.filter((s) => inRange(s.date));
+  const chosenBaseline = sessions.find((s) => s.session_id === options.baselineSessionId) || null;
+  const chosenLatest = sessions.find((s) => s.session_id === options.latestSessionId) || null;
+  let baseline = chosenBaseline || sessions[0] || null;
+  let latest = chosenLatest || sessions[sessions.length - 1] || null;
+  if (baseline && latest && baseline.date > latest.date) [baseline, latest] = [latest, baseline];
+
+  const startDay = baseline ? day(baseline.date) : from;
+  const endDay = latest ? day(latest.date) : to;
+
+  const comparisons: ProgressComparison[] = [];
+  trends.series.forEach((series) => {
+    const definition = TREND_METRICS[series.metric];
+    const window: TrendPoint[] = series.points.filter((p) =>
+      inRange(p.date) && (!startDay || day(p.date) >= startDay) && (!endDay || day(p.date) <= endDay));
+    if (window.length < 2) return;
+
+    const first = window[0];
+    const last = window[window.length - 1];
+    const change = last.value - first.value;
+    const values = window.map((p) => p.value);
+
+    let significance: ChangeSignificance = 'insufficient_data';
+    let mdc: number | null = null;
+    if (window.length >= MIN_NOISE_POINTS) {
+      const differences = values.slice(1).map((v, i) => v - values[i]);
+      mdc = MDC_Z * standardDeviation(differences);
+      significance = Math.abs(change) >= Math.max(mdc, definition.minChange) ? 'meaningful' : 'within_noise';
+    }
+
+    const direction: ProgressComparison['direction'] = Math.abs(change) < definition.minChange
+      ? 'stable'
+      : (change > 0) === definition.higherIsBetter ? 'improved' : 'declined';
+
+    comparisons.push({
+      metric: series.metric,
+      label: series.label,
+      unit: series.unit,
+      higher_is_better: series.higher_is_better,
+      baseline: { date: first.date, value: first.value },
+      latest: { date: last.date, value: last.value },
+      change: round1(change),
+      change_pct: first.value !== 0 ? round1((change / Math.abs(first.value)) * 100) : null,
+      direction,
+      significance,
+      minimal_detectable_change: mdc !== null ? round1(mdc) : null,
+      slope_per_session: window.length >= 3 ? round1(slope(values)) : null,
+      points: window.length,
+      change_points: window
+        .filter((p) => p.change_point !== null)
+        .map((p) => ({ date: p.date, direction: p.change_point as 'up' | 'down' })),
+    });
+  });
+
+  return {
+    range: { from, to },
+    sessions,
+    baseline,
+    latest,
+    baseline_auto: !chosenBaseline,
+    latest_auto: !chosenLatest,
+    comparisons,
+    improved_count: comparisons.filter((c) => c.significance === 'meaningful' && c.direction === 'improved').length,
+    declined_count: comparisons.filter((c) => c.significance === 'meaningful' && c.direction === 'declined').length,
+  };
+}
+
+const formatValue = (comparison: ProgressComparison, value: number) =>
+  comparison.metric === 'risk' ? (['Low', 'Medium', 'High'][Math.round(value) - 1] || `${value}`) : `${value}${comparison.unit}`;
+
+/**
+ * Human-readable line per comparison for reports
+ */
+export function describeProgressComparison(comparison: ProgressComparison): { label: string; value: string } {
+  const significance = comparison.significance === 'meaningful'
+    ? 'meaningful change'
+    : comparison.significance === 'within_noise'
+      ? `within normal variation (±${comparison.minimal_detectable_change}${comparison.unit})`
+      : 'too few sessions to test';
+  return {
+    label: comparison.label,
+    value: `${formatValue(comparison, comparison.baseline.value)} → ${formatValue(comparison, comparison.latest.value)} `
+      + `(${comparison.change > 0 ? '+' : ''}${comparison.change}${comparison.metric === 'risk' ? '' : comparison.unit}, ${comparison.direction}; ${significance})`,
+  };
+}
+
+/**
+ * One-paragraph overview of the report - measured facts only
+ */
+export function summarizeProgressReport(report: ProgressReport): string {
+  if (report.comparisons.length === 0) {
+    return report.sessions.length < 2
+      ? 'Not enough sessions in this range to compare - at least two sessions with generated insights are needed.'
+      : 'No metric was measured in both the baseline and the latest session.';
+  }
+  const label = (c: ProgressComparison) => c.label.toLowerCase();
+  const improved = report.comparisons.filter((c) => c.significance === 'meaningful' && c.direction === 'improved');
+  const declined = report.comparisons.filter((c) => c.significance === 'meaningful' && c.direction === 'declined');
+  const untested = report.comparisons.filter((c) => c.significance === 'insufficient_data').length;
+  const parts = [
+    `${report.comparisons.length} metric${report.comparisons.length === 1 ? '' : 's'} compared across ${report.sessions.length} session${report.sessions.length === 1 ? '' : 's'}.`,
+    improved.length > 0 ? `Meaningful improvement in ${improved.map(label).join(', ')}.` : 'No meaningful improvements yet.',
+    declined.length > 0 ? `Meaningful decline in ${declined.map(label).join(', ')}.` : 'No meaningful declines.',
+  ];
+  if (untested > 0) parts.push(`${untested} metric${untested === 1 ? ' has' : 's have'} too few sessions to separate change from normal variation.`);
+  return parts.join(' ');
+}
@@ -2,31 +2,239 @@
 
 import { createContext, useContext, useState, ReactNode } from "react"
 import type { BiomechanicalAngles, BiomechanicalMetrics } from "@/lib/pose-detection"
+import type { TrackSummary } from "@/lib/pose-tracking"
+import type { RepSummary } from "@/lib/rep-counting"
+import type { BaseballLiveState, ThrowResult } from "@/lib/baseball-metrics"
+import type { JumpLiveState, JumpResult } from "@/lib/jump-analysis"
+import type { GaitLiveState } from "@/lib/gait-analysis"
+import type { BalanceSummary, CalibrationCaptureState, CalibrationProfile, HeightSource } from "@/lib/calibration"
+import type { PoseOverlayFrame } from "@/lib/pose-overlay"
+import type { ExerciseTemplateSelection, TemplateMatchSummary } from "@/lib/reference-templates"
+import type { RomAssessmentState } from "@/lib/rom-assessment"
+import type { MovementScreenState } from "@/lib/movement-screen"
+import type { FatigueLiveState, FatigueThresholdEvent } from "@/lib/fatigue"
 
 interface RealtimeMetricsData {
   angles: BiomechanicalAngles
   metrics: BiomechanicalMetrics
+  trackId?: number // Pose track the data was computed from (multi-person sessions)
+  angleConfidence?: Partial<Record<keyof BiomechanicalAngles, number>> // 0-1 confidence per angle
+  reps?: RepSummary // Live rep count / phase
+  baseball?: BaseballLiveState // Live pelvis/torso rotation and throw state
+  jump?: JumpLiveState // Grounded / in flight / landing
+  gait?: GaitLiveState // Stride count, last stride and recent averages (side-on view)
+  balance?: BalanceSummary // Sway / CoM excursion / stride in cm (once calibrated)
+  overlay?: PoseOverlayFrame // Keypoints + active faults for the skeleton overlay on the video tile
+  templateMatch?: TemplateMatchSummary // Reps scored against the selected exercise's reference template
+  fatigue?: FatigueLiveState // Velocity loss / variability / symmetry and efficiency decline since the start
 }
 
+// A calibration the coach started - picked up by the pose pipeline for that person
+interface CalibrationRequest {
+  heightCm: number
+  heightSource: HeightSource
+  requestedAt: number
+}
+
+const MAX_THROWS_PER_PARTICIPANT = 50
+const MAX_JUMPS_PER_PARTICIPANT = 50
+
+// Track pins per video source: { [sourceParticipantId]: { [trackId]: subjectId } }
+type TrackAssignments = Record<string, Record<number, string>>
+
 interface RealtimeMetricsContextType {
   realtimeData: Record<string, RealtimeMetricsData>
-  setRealtimeData: (participantId: string, data: RealtimeMetricsData) => void
+  setRealtimeData: (participantId: string, data: RealtimeMetricsData) => void // Keeps the current overlay when data has none
+  setRealtimeOverlay: (participantId: string, overlay: PoseOverlayFrame) => void // Remote skeletons arrive on their own data channel topic
+  // People currently tracked in each video source
+  trackedPeople: Record<string, TrackSummary[]>
+  setTrackedPeople: (sourceId: string, tracks: TrackSummary[]) => void
+  trackAssignments: TrackAssignments
+  assignTrack: (sourceId: string, trackId: number, subjectId: string | null) => void
+  // Segmented throws per participant (most recent last)
+  throws: Record<string, ThrowResult[]>
+  addThrow: (participantId: string, result: ThrowResult) => void
+  // Detected jumps / landings per participant (most recent last)
+  jumps: Record<string, JumpResult[]>
+  addJump: (participantId: string, result: JumpResult) => void
+  // Camera calibration per participant (keys match realtimeData)
+  calibrations: Record<string, CalibrationProfile>
+  calibrationRequests: Record<string, CalibrationRequest>
+  calibrationStatus: Record<string, CalibrationCaptureState>
+  requestCalibration: (participantId: string, heightCm: number, heightSource: HeightSource) => void
+  setCalibrationStatus: (participantId: string, state: CalibrationCaptureState) => void
+  clearCalibration: (participantId: string) => void
+  // Skeleton overlay toggled on per video tile (keyed by the tile's participant identity)
+  overlayTiles: Record<string, boolean>
+  setOverlayEnabled: (tileId: string, enabled: boolean) => void
+  // Reference template per participant (keys match realtimeData)
+  exerciseTemplates: Record<string, ExerciseTemplateSelection>
+  setExerciseTemplate: (participantId: string, selection: ExerciseTemplateSelection | null) => void
+  // ROM assessment in progress per participant - run on the coach's side, mirrored to the subject via data channel
+  romAssessments: Record<string, RomAssessmentState>
+  setRomAssessment: (participantId: string, state: RomAssessmentState | null) => void
+  // Movement screen test being captured per participant (screening sessions), mirrored the same way
+  movementScreens: Record<string, MovementScreenState>
+  setMovementScreen: (participantId: string, state: MovementScreenState | null) => void
+  // Latest "fatigue threshold reached" event per participant, until dismissed
+  fatigueAlerts: Record<string, FatigueThresholdEvent>
+  setFatigueAlert: (participantId: string, event: FatigueThresholdEvent | null) => void
 }
 
 const RealtimeMetricsContext = createContext<RealtimeMetricsContextType | undefined>(undefined)
 
 export function RealtimeMetricsProvider({ children }: { children: ReactNode }) {
   const [realtimeData, setRealtimeDataState] = useState<Record<string, RealtimeMetricsData>>({})
+  const [trackedPeople, setTrackedPeopleState] = useState<Record<string, TrackSummary[]>>({})
+  const [trackAssignments, setTrackAssignments] = useState<TrackAssignments>({})
+  const [throws, setThrows] = useState<Record<string, ThrowResult[]>>({})
+  const [jumps, setJumps] = useState<Record<string, JumpResult[]>>({})
+  const [calibrations, setCalibrations] = useState<Record<string, CalibrationProfile>>({})
+  const [calibrationRequests, setCalibrationRequests] = useState<Record<string, CalibrationRequest>>({})
+  const [calibrationStatus, setCalibrationStatusState] = useState<Record<string, CalibrationCaptureState>>({})
+  const [overlayTiles, setOverlayTiles] = useState<Record<string, boolean>>({})
+  const [exerciseTemplates, setExerciseTemplates] = useState<Record<string, ExerciseTemplateSelection>>({})
+  const [romAssessments, setRomAssessments] = useState<Record<string, RomAssessmentState>>({})
+  const [movementScreens, setMovementScreens] = useState<Record<string, MovementScreenState>>({})
+  const [fatigueAlerts, setFatigueAlerts] = useState<Record<string, FatigueThresholdEvent>>({})
 
   const setRealtimeData = (participantId: string, data: RealtimeMetricsData) => {
     setRealtimeDataState(prev => ({
       ...prev,
-      [participantId]: data
+      [participantId]: { overlay: prev[participantId]?.overlay, ...data }
+    }))
+  }
+
+  const setRealtimeOverlay = (participantId: string, overlay: PoseOverlayFrame) => {
+    setRealtimeDataState(prev => {
+      if (!prev[participantId]) return prev // Drawn once the person's metrics have arrived
+      return {
+        ...prev,
+        [participantId]: { ...prev[participantId], overlay }
+      }
+    })
+  }
+
+  const setTrackedPeople = (sourceId: string, tracks: TrackSummary[]) => {
+    setTrackedPeopleState(prev => ({
+      ...prev,
+      [sourceId]: tracks
+    }))
+  }
+
+  // Pin a track to a subject (or unpin with null). A subject can only be pinned to one track per source.
+  const assignTrack = (sourceId: string, trackId: number, subjectId: string | null) => {
+    setTrackAssignments(prev => {
+      const sourceAssignments = { ...(prev[sourceId] || {}) }
+      if (subjectId) {
+        Object.keys(sourceAssignments).forEach(key => {
+          if (sourceAssignments[Number(key)] === subjectId) {
+            delete sourceAssignments[Number(key)]
+          }
+        })
+        sourceAssignments[trackId] = subjectId
+      } else {
+        delete sourceAssignments[trackId]
+      }
+      return {
+        ...prev,
+        [sourceId]: sourceAssignments
+      }
+    })
+  }
+
+  // Add a throw, replacing any earlier copy with the same index (the same throw can arrive locally and via data channel)
+  const addThrow = (participantId: string, result: ThrowResult) => {
+    setThrows(prev => {
+      const existing = (prev[participantId] || []).filter(t => t.throwIndex !== result.throwIndex)
+      return {
+        ...prev,
+        [participantId]: [...existing, result]
+          .sort((a, b) => a.throwIndex - b.throwIndex)
+          .slice(-MAX_THROWS_PER_PARTICIPANT)
+      }
+    })
+  }
+
+  // Add a jump, replacing any earlier copy with the same index (same as throws)
+  const addJump = (participantId: string, result: JumpResult) => {
+    setJumps(prev => {
+      const existing = (prev[participantId] || []).filter(j => j.jumpIndex !== result.jumpIndex)
+      return {
+        ...prev,
+        [participantId]: [...existing, result]
+          .sort((a, b) => a.jumpIndex - b.jumpIndex)
+          .slice(-MAX_JUMPS_PER_PARTICIPANT)
+      }
+    })
+  }
+
+  const withoutKey = <T,>(record: Record<string, T>, key: string) => {
+    const { [key]: _removed, ...rest } = record
+    return rest
+  }
+
+  const requestCalibration = (participantId: string, heightCm: number, heightSource: HeightSource) => {
+    setCalibrationRequests(prev => ({
+      ...prev,
+      [participantId]: { heightCm, heightSource, requestedAt: Date.now() }
+    }))
+    setCalibrationStatusState(prev => withoutKey(prev, participantId))
+  }
+
+  // Capture progress from the pose pipeline - a finished capture becomes the participant's calibration
+  const setCalibrationStatus = (participantId: string, state: CalibrationCaptureState) => {
+    setCalibrationStatusState(prev => ({
+      ...prev,
+      [participantId]: state
     }))
+    if (state.status === 'collecting') return
+    setCalibrationRequests(prev => withoutKey(prev, participantId))
+    const profile = state.profile
+    if (profile) {
+      setCalibrations(prev => ({
+        ...prev,
+        [participantId]: profile
+      }))
+    }
+  }
+
+  const clearCalibration = (participantId: string) => {
+    setCalibrations(prev => withoutKey(prev, participantId))
+    setCalibrationRequests(prev => withoutKey(prev, participantId))
+    setCalibrationStatusState(prev => withoutKey(prev, participantId))
+  }
+
+  const setOverlayEnabled = (tileId: string, enabled: boolean) => {
+    setOverlayTiles(prev => ({
+      ...prev,
+      [tileId]: enabled
+    }))
+  }
+
+  const setExerciseTemplate = (participantId: string, selection: ExerciseTemplateSelection | null) => {
+    setExerciseTemplates(prev => selection ? { ...prev, [participantId]: selection } : withoutKey(prev, participantId))
+  }
+
+  const setRomAssessment = (participantId: string, state: RomAssessmentState | null) => {
+    setRomAssessments(prev => state ? { ...prev, [participantId]: state } : withoutKey(prev, participantId))
+  }
+
+  const setMovementScreen = (participantId: string, state: MovementScreenState | null) => {
+    setMovementScreens(prev => state ? { ...prev, [participantId]: state } : withoutKey(prev, participantId))
+  }
+
+  const setFatigueAlert = (participantId: string, event: FatigueThresholdEvent | null) => {
+    setFatigueAlerts(prev => event ? { ...prev, [participantId]: event } : withoutKey(prev, participantId))
   }
 
   return (
-    <RealtimeMetricsContext.Provider value={{ realtimeData, setRealtimeData }}>
+    <RealtimeMetricsContext.Provider value={{
+      realtimeData, setRealtimeData, setRealtimeOverlay, trackedPeople, setTrackedPeople, trackAssignments, assignTrack, throws, addThrow, jumps, addJump,
+      calibrations, calibrationRequests, calibrationStatus, requestCalibration, setCalibrationStatus, clearCalibration,
+      overlayTiles, setOverlayEnabled, exerciseTemplates, setExerciseTemplate,
+      romAssessments, setRomAssessment, movementScreens, setMovementScreen, fatigueAlerts, setFatigueAlert
+    }}>
       {children}
     </RealtimeMetricsContext.Provider>
   )
@@ -38,9 +246,33 @@ export function useRealtimeMetrics() {
     // Return default values if context is not available (for components outside provider)
     return {
       realtimeData: {},
-      setRealtimeData: () => {}
+      setRealtimeData: () => {},
+      setRealtimeOverlay: () => {},
+      trackedPeople: {},
+      setTrackedPeople: () => {},
+      trackAssignments: {},
+      assignTrack: () => {},
+      throws: {},
+      addThrow: () => {},
+      jumps: {},
+      addJump: () => {},
+      calibrations: {},
+      calibrationRequests: {},
+      calibrationStatus: {},
+      requestCalibration: () => {},
+      setCalibrationStatus: () => {},
+      clearCalibration: () => {},
+      overlayTiles: {},
+      setOverlayEnabled: () => {},
+      exerciseTemplates: {},
+      setExerciseTemplate: () => {},
+      romAssessments: {},
+      setRomAssessment: () => {},
+      movementScreens: {},
+      setMovementScreen: () => {},
+      fatigueAlerts: {},
+      setFatigueAlert: () => {}
     }
   }
   return context
 }
-
@@ -0,0 +1,363 @@
+// Reference templates - target angle ranges per rep phase and tempo, derived from an exercise's exemplar recording,
+// and per-rep scoring of live / offline reps against them
+import type { BiomechanicalAngles } from './pose-detection';
+import type { PoseTrackFrame } from './pose-tracks';
+import type { MovementRule } from './movement-rules';
+import { POSE_TRACK_ANGLE_LABELS } from './pose-tracks';
+import { COMPARISON_ANGLES } from './movement-comparison';
+import { isFiniteNumber } from './utils';
+import {
+  createProfileRepCounter,
+  createRepCounter,
+  REP_EXERCISE_PROFILES,
+  type RepCounter,
+  type RepPhase,
+  type RepRecord,
+} from './rep-counting';
+
+type AngleKey = keyof BiomechanicalAngles;
+type ScoredPhase = Exclude<RepPhase, 'top'>; // The top between reps has no fixed length, so it isn't scored
+
+export const REFERENCE_TEMPLATE_VERSION = 1;
+
+export interface AngleRange {
+  min: number; // degrees
+  max: number;
+}
+
+export interface ReferenceTemplate {
+  version: number;
+  repProfile: string; // Rep profile the reps were segmented with (see lib/rep-counting.ts)
+  angleSource: string;
+  repsAnalyzed: number;
+  phases: Record<ScoredPhase, Partial<Record<AngleKey, AngleRange>>>;
+  tempo: Record<ScoredPhase, number>; // seconds
+  rangeOfMotion: number; // degrees
+}
+
+export interface RepTemplateMatch {
+  repIndex: number;
+  timestamp: number; // ms epoch the rep ended
+  match: number; // 0-100 overall
+  angleMatch: number; // 0-100 per component
+  tempoMatch: number;
+  rangeOfMotionMatch: number;
+  worstAngle: { angle: AngleKey; phase: ScoredPhase; deviation: number } | null; // Largest average miss (degrees)
+}
+
+// Reps scored during one metric window, as posted to save-metric
+export interface TemplateMatchWindow {
+  exerciseId: string;
+  exerciseName: string;
+  reps: RepTemplateMatch[];
+}
+
+// Catalog exercise a person is performing - reps are scored against its template when it has one
+export interface ExerciseTemplateSelection {
+  exerciseId: string;
+  exerciseName: string;
+  template?: ReferenceTemplate;
+  formRules?: MovementRule[]; // Catalog form_rules - replace the built-in rule set for the exercise
+}
+
+// What the live display shows for a person scored against a template
+export interface TemplateMatchSummary {
+  exerciseId: string;
+  exerciseName: string;
+  repsScored: number;
+  lastMatch: RepTemplateMatch | null;
+  averageMatch: number | null;
+}
+
+// Stored on an AIMetric for the reps scored during its window
+export interface TemplateMatchRecord {
+  exercise_id: string;
+  exercise_name: string;
+  template_version: number;
+  reps_scored: number;
+  average_match: number;
+  best_match: number;
+  worst_match: number;
+  average_angle_match: number;
+  average_tempo_match: number;
+  average_range_of_motion_match: number;
+}
+
+export type TemplateScorer = {
+  update: (angles: BiomechanicalAngles, timestamp: number) => RepTemplateMatch | null; // Set when a rep was completed
+  reset: () => void;
+};
+
+const SCORED_PHASES: ScoredPhase[] = ['eccentric', 'bottom', 'concentric'];
+const RANGE_PERCENTILE = 0.1; // Target range spans the 10th-90th percentile of the exemplar's reps...
+const ANGLE_TOLERANCE_DEG = 8; // ...widened by this much on each side
+const MIN_PHASE_SAMPLES = 3; // An angle gets a range in a phase only with this many exemplar samples
+const ANGLE_ZERO_DEG = 30; // Missing a range by this much scores 0
+const MIN_TEMPO_TOLERANCE_S = 0.5; // Phase durations are scored relative to max(target, this)
+const MATCH_WEIGHTS = { angles: 0.6, tempo: 0.25, rangeOfMotion: 0.15 };
+const SAMPLE_HISTORY_MS = 30000; // Longer than the longest rep the counter accepts
+
+export interface AngleSample {
+  timestamp: number;
+  angles: BiomechanicalAngles;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))];
+
+/**
+ * Stored frame angles (measured ones only) as the full angle set the pipeline works on
+ */
+function toBiomechanicalAngles(angles: PoseTrackFrame['angles']): BiomechanicalAngles {
+  return Object.fromEntries(
+    (Object.keys(POSE_TRACK_ANGLE_LABELS) as AngleKey[]).map((key) => [key, angles[key] ?? null])
+  ) as unknown as BiomechanicalAngles;
+}
+
+// Phase of a sample inside a completed rep, from the rep's measured tempo
+function phaseAt(rep: RepRecord, timestamp: number): ScoredPhase {
+  const bottomStart = rep.startTime + rep.tempo.eccentric * 1000;
+  const concentricStart = bottomStart + rep.tempo.bottom * 1000;
+  if (timestamp < bottomStart) return 'eccentric';
+  if (timestamp < concentricStart) return 'bottom';
+  return 'concentric';
+}
+
+function repSamples(rep: RepRecord, samples: AngleSample[]): AngleSample[] {
+  return samples.filter((sample) => sample.timestamp >= rep.startTime && sample.timestamp <= rep.endTime);
+}
+
+/**
+ * Derive a template from an exemplar recording: segment it into reps, then take the angle ranges seen
+ * in each phase and the average phase durations. Returns null when no full rep was found.
+ */
+export function buildReferenceTemplate(frames: PoseTrackFrame[], exerciseName?: string | null): ReferenceTemplate | null {
+  const counter = createRepCounter(exerciseName);
+  const samples: AngleSample[] = frames.map((frame) => ({ timestamp: frame.timestamp, angles: toBiomechanicalAngles(frame.angles) }));
+  const reps: RepRecord[] = [];
+  let angleSource = '';
+  samples.forEach((sample) => {
+    const previousCount = counter.getSummary().repCount;
+    const summary = counter.update(sample.angles, sample.timestamp);
+    if (summary.repCount > previousCount && summary.lastRep) {
+      reps.push(summary.lastRep);
+      angleSource = summary.angleSource; // Auto mode settles on the counter that saw the reps
+    }
+  });
+  if (reps.length === 0) return null;
+
+  // Auto mode reports "auto" - keep the profile behind the counter that counted the reps
+  const { exercise } = counter.getSummary();
+  const repProfile = REP_EXERCISE_PROFILES.find((profile) =>
+    exercise === 'auto' ? profile.angleSource === angleSource : profile.id === exercise);
+  if (!repProfile) return null;
+
+  const phases = { eccentric: {}, bottom: {}, concentric: {} } as ReferenceTemplate['phases'];
+  SCORED_PHASES.forEach((phase) => {
+    COMPARISON_ANGLES.forEach((angle) => {
+      const values = reps
+        .flatMap((rep) => repSamples(rep, samples).filter((sample) => phaseAt(rep, sample.timestamp) === phase))
+        .map((sample) => sample.angles[angle])
+        .filter((value): value is number => value !== null)
+        .sort((a, b) => a - b);
+      if (values.length < MIN_PHASE_SAMPLES) return;
+      phases[phase][angle] = {
+        min: round1(percentile(values, RANGE_PERCENTILE) - ANGLE_TOLERANCE_DEG),
+        max: round1(percentile(values, 1 - RANGE_PERCENTILE) + ANGLE_TOLERANCE_DEG),
+      };
+    });
+  });
+
+  return {
+    version: REFERENCE_TEMPLATE_VERSION,
+    repProfile: repProfile.id,
+    angleSource,
+    repsAnalyzed: reps.length,
+    phases,
+    tempo: {
+      eccentric: round1(mean(reps.map((rep) => rep.tempo.eccentric))),
+      bottom: round1(mean(reps.map((rep) => rep.tempo.bottom))),
+      concentric: round1(mean(reps.map((rep) => rep.tempo.concentric))),
+    },
+    rangeOfMotion: round1(mean(reps.map((rep) => rep.rangeOfMotion))),
+  };
+}
+
+/**
+ * Score one completed rep (with the angle samples recorded during it) against a template
+ */
+export function scoreRepAgainstTemplate(rep: RepRecord, samples: AngleSample[], template: ReferenceTemplate): RepTemplateMatch {
+  // Angles: every measured sample is scored against its phase's range, partial credit for near misses
+  const sampleScores: number[] = [];
+  const deviations = new Map<string, { angle: AngleKey; phase: ScoredPhase; total: number; count: number }>();
+  repSamples(rep, samples).forEach((sample) => {
+    const phase = phaseAt(rep, sample.timestamp);
+    (Object.entries(template.phases[phase]) as Array<[AngleKey, AngleRange]>).forEach(([angle, range]) => {
+      const value = sample.angles[angle];
+      if (value === null) return;
+      const deviation = value < range.min ? range.min - value : value > range.max ? value - range.max : 0;
+      sampleScores.push(Math.max(0, 1 - deviation / ANGLE_ZERO_DEG));
+      const key = `${phase}:${angle}`;
+      const entry = deviations.get(key) || { angle, phase, total: 0, count: 0 };
+      entry.total += deviation;
+      entry.count++;
+      deviations.set(key, entry);
+    });
+  });
+  const angleMatch = sampleScores.length > 0 ? mean(sampleScores) : 0;
+
+  const tempoMatch = mean(SCORED_PHASES.map((phase) => {
+    const target = template.tempo[phase];
+    return Math.max(0, 1 - Math.abs(rep.tempo[phase] - target) / Math.max(target, MIN_TEMPO_TOLERANCE_S));
+  }));
+
+  const rangeOfMotionMatch = template.rangeOfMotion > 0
+    ? Math.max(0, 1 - Math.abs(rep.rangeOfMotion - template.rangeOfMotion) / template.rangeOfMotion)
+    : 0;
+
+  const worst = Array.from(deviations.values())
+    .map((entry) => ({ angle: entry.angle, phase: entry.phase, deviation: entry.total / entry.count }))
+    .sort((a, b) => b.deviation - a.deviation)[0];
+
+  return {
+    repIndex: rep.index,
+    timestamp: rep.endTime,
+    match: Math.round(100 * (
+      MATCH_WEIGHTS.angles * angleMatch + MATCH_WEIGHTS.tempo * tempoMatch + MATCH_WEIGHTS.rangeOfMotion * rangeOfMotionMatch
+    )),
+    angleMatch: Math.round(angleMatch * 100),
+    tempoMatch: Math.round(tempoMatch * 100),
+    rangeOfMotionMatch: Math.round(rangeOfMotionMatch * 100),
+    worstAngle: worst && worst.deviation > 0 ? { ...worst, deviation: round1(worst.deviation) } : null,
+  };
+}
+
+/**
+ * Score a person's reps as they happen. Runs its own rep counter with the template's profile,
+ * so reps are segmented the same way the exemplar's were.
+ */
+export function createTemplateScorer(template: ReferenceTemplate): TemplateScorer {
+  const counter: RepCounter = createProfileRepCounter(template.repProfile) || createRepCounter();
+  let samples: AngleSample[] = [];
+
+  return {
+    update: (angles, timestamp) => {
+      samples.push({ timestamp, angles });
+      if (timestamp - samples[0].timestamp > SAMPLE_HISTORY_MS) {
+        samples = samples.filter((sample) => timestamp - sample.timestamp <= SAMPLE_HISTORY_MS);
+      }
+      const previousCount = counter.getSummary().repCount;
+      const summary = counter.update(angles, timestamp);
+      if (summary.repCount === previousCount || !summary.lastRep) return null;
+      return scoreRepAgainstTemplate(summary.lastRep, samples, template);
+    },
+    reset: () => {
+      counter.reset();
+      samples = [];
+    },
+  };
+}
+
+/**
+ * Live summary of the reps scored so far
+ */
+export function summarizeTemplateMatches(exerciseId: string, exerciseName: string, matches: RepTemplateMatch[]): TemplateMatchSummary {
+  return {
+    exerciseId,
+    exerciseName,
+    repsScored: matches.length,
+    lastMatch: matches.length > 0 ? matches[matches.length - 1] : null,
+    averageMatch: matches.length > 0 ? Math.round(mean(matches.map((m) => m.match))) : null,
+  };
+}
+
+/**
+ * Record for the reps scored during one metric window (null when none were)
+ */
+export function toTemplateMatchRecord(
+  exerciseId: string,
+  exerciseName: string,
+  matches: RepTemplateMatch[]
+): TemplateMatchRecord | null {
+  if (matches.length === 0) return null;
+  const scores = matches.map((m) => m.match);
+  return {
+    exercise_id: exerciseId,
+    exercise_name: exerciseName,
+    template_version: REFERENCE_TEMPLATE_VERSION,
+    reps_scored: matches.length,
+    average_match: round1(mean(scores)),
+    best_match: Math.max(...scores),
+    worst_match: Math.min(...scores),
+    average_angle_match: round1(mean(matches.map((m) => m.angleMatch))),
+    average_tempo_match: round1(mean(matches.map((m) => m.tempoMatch))),
+    average_range_of_motion_match: round1(mean(matches.map((m) => m.rangeOfMotionMatch))),
+  };
+}
+
+const isMatchScore = (value: unknown) => isFiniteNumber(value) && value >= 0 && value <= 100;
+
+const isRepTemplateMatch = (value: unknown): value is RepTemplateMatch => {
+  if (!value || typeof value !== 'object') return false;
+  const rep = value as Record<string, unknown>;
+  const worst = rep.worstAngle as Record<string, unknown> | null | undefined;
+  return Number.isInteger(rep.repIndex)
+    && isFiniteNumber(rep.timestamp)
+    && ['match', 'angleMatch', 'tempoMatch', 'rangeOfMotionMatch'].every((key) => isMatchScore(rep[key]))
+    && (worst === null || (!!worst && typeof worst === 'object'
+      && typeof worst.angle === 'string' && Object.prototype.hasOwnProperty.call(POSE_TRACK_ANGLE_LABELS, worst.angle)
+      && SCORED_PHASES.includes(worst.phase as ScoredPhase)
+      && isFiniteNumber(worst.deviation)));
+};
+
+/**
+ * Shape check for template matches posted by clients (save-metric) before they are converted
+ */
+export function isTemplateMatchWindow(value: unknown): value is TemplateMatchWindow {
+  if (!value || typeof value !== 'object') return false;
+  const posted = value as Record<string, unknown>;
+  return typeof posted.exerciseId === 'string' && posted.exerciseId.length > 0
+    && typeof posted.exerciseName === 'string' && posted.exerciseName.length > 0
+    && Array.isArray(posted.reps) && posted.reps.every(isRepTemplateMatch);
+}
+
+/**
+ * Combine the windows of a session, per exercise (averages weighted by reps scored)
+ */
+export function combineTemplateMatchRecords(records: Array<TemplateMatchRecord | undefined>): TemplateMatchRecord[] {
+  const byExercise = new Map<string, TemplateMatchRecord[]>();
+  records.forEach((record) => {
+    if (record) byExercise.set(record.exercise_id, [...(byExercise.get(record.exercise_id) || []), record]);
+  });
+  return Array.from(byExercise.values()).map((group) => {
+    const reps = group.reduce((sum, r) => sum + r.reps_scored, 0);
+    const weighted = (key: keyof Pick<TemplateMatchRecord, 'average_match' | 'average_angle_match' | 'average_tempo_match' | 'average_range_of_motion_match'>) =>
+      round1(group.reduce((sum, r) => sum + r[key] * r.reps_scored, 0) / reps);
+    return {
+      exercise_id: group[0].exercise_id,
+      exercise_name: group[group.length - 1].exercise_name,
+      template_version: Math.max(...group.map((r) => r.template_version)),
+      reps_scored: reps,
+      average_match: weighted('average_match'),
+      best_match: Math.max(...group.map((r) => r.best_match)),
+      worst_match: Math.min(...group.map((r) => r.worst_match)),
+      average_angle_match: weighted('average_angle_match'),
+      average_tempo_match: weighted('average_tempo_match'),
+      average_range_of_motion_match: weighted('average_range_of_motion_match'),
+    };
+  });
+}
+
+/**
+ * Human-readable lines for reports
+ */
+export function describeTemplateMatches(records: TemplateMatchRecord[] | undefined): Array<{ label: string; value: string }> {
+  return (records || []).map((record) => ({
+    label: record.exercise_name,
+    value: `${Math.round(record.average_match)}% match over ${record.reps_scored} rep${record.reps_scored === 1 ? '' : 's'} `
+      + `(best ${record.best_match}%, worst ${record.worst_match}% · angles ${Math.round(record.average_angle_match)}%, `
+      + `tempo ${Math.round(record.average_tempo_match)}%, range of motion ${Math.round(record.average_range_of_motion_match)}%)`,
+  }));
+}
@@ -0,0 +1,324 @@
+// Rep counting and movement phase segmentation from joint-angle time series
+import type { BiomechanicalAngles } from './pose-detection';
+
+export type RepPhase = 'eccentric' | 'bottom' | 'concentric' | 'top';
+
+export interface RepPhaseTempo {
+  eccentric: number; // seconds
+  bottom: number;
+  concentric: number;
+  top: number;
+}
+
+export interface RepRecord {
+  index: number; // 1-based rep number
+  startTime: number; // ms timestamp the eccentric phase began
+  endTime: number; // ms timestamp the athlete returned to the top
+  topAngle: number; // degrees
+  bottomAngle: number; // degrees
+  rangeOfMotion: number; // degrees
+  tempo: RepPhaseTempo;
+}
+
+export interface RepSummary {
+  exercise: string; // Profile used (e.g. "squat"), "auto" when no exercise is known
+  angleSource: string; // Joint angle the reps were detected from
+  repCount: number;
+  partialReps: number; // Movements that started but didn't reach the profile's minimum range of motion
+  currentPhase: RepPhase;
+  currentAngle: number | null;
+  lastRep: RepRecord | null;
+  averageTempo: RepPhaseTempo | null;
+  averageRangeOfMotion: number | null; // degrees
+  rangeOfMotionVariability: number | null; // Coefficient of variation (%) across reps
+  tempoVariability: number | null; // Coefficient of variation (%) of total rep duration
+}
+
+export interface RepExerciseProfile {
+  id: string;
+  keywords: string[]; // Matched against the exercise name (case-insensitive)
+  angleSource: string;
+  // Angle that is largest at the top of the rep (joint extended) and smallest at the bottom
+  getAngle: (angles: BiomechanicalAngles) => number | null;
+  minRangeOfMotion: number; // degrees needed for a full rep
+}
+
+export type RepCounter = {
+  update: (angles: BiomechanicalAngles, timestamp?: number) => RepSummary;
+  getSummary: () => RepSummary;
+  reset: () => void;
+};
+
+const MAX_REPS_KEPT = 20; // Rep history used for averages/variability
+const MAX_REP_DURATION_MS = 20000; // A cycle longer than this is abandoned and the top re-baselined
+const START_THRESHOLD_RATIO = 0.25; // Fraction of min ROM the angle must drop before a rep starts
+const BOTTOM_BAND_RATIO = 0.15; // Samples within this fraction of ROM from the lowest angle count as "bottom"
+const MIN_BOTTOM_BAND = 5; // degrees
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+const coefficientOfVariation = (values: number[]): number | null => {
+  if (values.length < 2) return null;
+  const mean = average(values)!;
+  if (mean === 0) return null;
+  const variance = values.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / values.length;
+  return (Math.sqrt(variance) / mean) * 100;
+};
+
+// Mean of the left/right angles when both are visible, otherwise whichever side is
+const bilateral = (left: number | null, right: number | null): number | null => {
+  if (left !== null && right !== null) return (left + right) / 2;
+  return left ?? right;
+};
+
+const kneeAngle = (angles: BiomechanicalAngles) => bilateral(angles.leftKnee, angles.rightKnee);
+const hipAngle = (angles: BiomechanicalAngles) => bilateral(angles.leftHip, angles.rightHip);
+
+export const REP_EXERCISE_PROFILES: RepExerciseProfile[] = [
+  {
+    id: 'squat',
+    keywords: ['squat', 'wall sit'],
+    angleSource: 'knee',
+    getAngle: kneeAngle,
+    minRangeOfMotion: 40,
+  },
+  {
+    id: 'lunge',
+    keywords: ['lunge', 'split squat', 'step up'],
+    angleSource: 'knee (deepest side)',
+    // The front knee bends the most, so follow whichever knee is more flexed
+    getAngle: (angles) =>
+      angles.leftKnee !== null && angles.rightKnee !== null
+        ? Math.min(angles.leftKnee, angles.rightKnee)
+        : angles.leftKnee ?? angles.rightKnee,
+    minRangeOfMotion: 35,
+  },
+  {
+    id: 'glute_bridge',
+    keywords: ['bridge', 'hip thrust'],
+    angleSource: 'hip',
+    getAngle: hipAngle,
+    minRangeOfMotion: 25,
+  },
+  {
+    id: 'deadlift',
+    keywords: ['deadlift', 'rdl', 'good morning', 'hinge'],
+    angleSource: 'hip',
+    getAngle: hipAngle,
+    minRangeOfMotion: 40,
+  },
+];
+
+/**
+ * Find the rep profile for an exercise name, or null if none matches
+ */
+export function getRepProfile(exerciseName?: string | null): RepExerciseProfile | null {
+  if (!exerciseName) return null;
+  const name = exerciseName.toLowerCase();
+  return REP_EXERCISE_PROFILES.find((profile) => profile.keywords.some((keyword) => name.includes(keyword))) || null;
+}
+
+interface Sample {
+  time: number;
+  angle: number;
+}
+
+/**
+ * State machine for one angle signal: top -> eccentric -> bottom -> concentric -> top (= 1 rep)
+ */
+function createAngleRepCounter(profile: RepExerciseProfile, exerciseLabel: string): RepCounter {
+  const startThreshold = profile.minRangeOfMotion * START_THRESHOLD_RATIO;
+
+  let phase: RepPhase = 'top';
+  let topAngle: number | null = null; // Reference angle at the top of the movement
+  let topSince = 0; // When the current top phase began
+  let lastTopSample: Sample | null = null;
+  let cycle: Sample[] = []; // Samples since the current rep started
+  let currentAngle: number | null = null;
+  let reps: RepRecord[] = [];
+  let repCount = 0;
+  let partialReps = 0;
+  let previousTopDuration = 0; // Time spent at the top before the current rep
+
+  const bottomBand = (rangeOfMotion: number) => Math.max(MIN_BOTTOM_BAND, rangeOfMotion * BOTTOM_BAND_RATIO);
+
+  const completeRep = (endTime: number) => {
+    const lowest = Math.min(...cycle.map((s) => s.angle));
+    const rangeOfMotion = (topAngle ?? lowest) - lowest;
+    const band = bottomBand(rangeOfMotion);
+    const bottomSamples = cycle.filter((s) => s.angle <= lowest + band);
+    const bottomStart = bottomSamples[0].time;
+    const concentricStart = bottomSamples[bottomSamples.length - 1].time;
+    const startTime = cycle[0].time;
+
+    repCount++;
+    reps.push({
+      index: repCount,
+      startTime,
+      endTime,
+      topAngle: topAngle ?? lowest,
+      bottomAngle: lowest,
+      rangeOfMotion,
+      tempo: {
+        eccentric: (bottomStart - startTime) / 1000,
+        bottom: (concentricStart - bottomStart) / 1000,
+        concentric: (endTime - concentricStart) / 1000,
+        top: previousTopDuration / 1000,
+      },
+    });
+    if (reps.length > MAX_REPS_KEPT) {
+      reps = reps.slice(-MAX_REPS_KEPT);
+    }
+  };
+
+  const returnToTop = (sample: Sample) => {
+    phase = 'top';
+    topSince = sample.time;
+    lastTopSample = sample;
+    cycle = [];
+  };
+
+  const getSummary = (): RepSummary => {
+    const roms = reps.map((r) => r.rangeOfMotion);
+    const durations = reps.map((r) => r.tempo.eccentric + r.tempo.bottom + r.tempo.concentric);
+    // First rep has no measured top phase, so leave it out of the top average
+    const topTimes = reps.filter((r) => r.index > 1).map((r) => r.tempo.top);
+
+    return {
+      exercise: exerciseLabel,
+      angleSource: profile.angleSource,
+      repCount,
+      partialReps,
+      currentPhase: phase,
+      currentAngle,
+      lastRep: reps.length > 0 ? reps[reps.length - 1] : null,
+      averageTempo: reps.length > 0
+        ? {
+            eccentric: average(reps.map((r) => r.tempo.eccentric))!,
+            bottom: average(reps.map((r) => r.tempo.bottom))!,
+            concentric: average(reps.map((r) => r.tempo.concentric))!,
+            top: average(topTimes) ?? 0,
+          }
+        : null,
+      averageRangeOfMotion: average(roms),
+      rangeOfMotionVariability: coefficientOfVariation(roms),
+      tempoVariability: coefficientOfVariation(durations),
+    };
+  };
+
+  const update = (angles: BiomechanicalAngles, timestamp: number = Date.now()): RepSummary => {
+    const angle = profile.getAngle(angles);
+    currentAngle = angle;
+    if (angle === null) {
+      return getSummary();
+    }
+
+    const sample = { time: timestamp, angle };
+
+    if (topAngle === null) {
+      topAngle = angle;
+      returnToTop(sample);
+      return getSummary();
+    }
+
+    if (phase === 'top') {
+      if (angle < topAngle - startThreshold) {
+        // Movement started from the last sample that was still at the top
+        previousTopDuration = lastTopSample ? lastTopSample.time - topSince : 0;
+        cycle = [lastTopSample ?? sample, sample];
+        phase = 'eccentric';
+      } else {
+        // Follow the athlete's actual top position (e.g. full lockout)
+        topAngle = Math.max(topAngle, angle);
+        lastTopSample = sample;
+      }
+      return getSummary();
+    }
+
+    cycle.push(sample);
+    const lowest = Math.min(...cycle.map((s) => s.angle));
+
+    if (angle >= topAngle - startThreshold) {
+      if (topAngle - lowest >= profile.minRangeOfMotion) {
+        completeRep(timestamp);
+      } else {
+        partialReps++;
+      }
+      returnToTop(sample);
+      return getSummary();
+    }
+
+    if (timestamp - cycle[0].time > MAX_REP_DURATION_MS) {
+      // Athlete settled into a new position - treat it as the new top
+      topAngle = angle;
+      returnToTop(sample);
+      return getSummary();
+    }
+
+    const previous = cycle[cycle.length - 2];
+    const descending = angle < previous.angle - MIN_BOTTOM_BAND;
+    const band = bottomBand(Math.max(profile.minRangeOfMotion, topAngle - lowest));
+    if (descending) {
+      phase = 'eccentric';
+    } else if (angle <= lowest + band) {
+      phase = 'bottom';
+    } else if (angle > previous.angle) {
+      phase = 'concentric';
+    }
+    return getSummary();
+  };
+
+  return {
+    update,
+    getSummary,
+    reset: () => {
+      phase = 'top';
+      topAngle = null;
+      topSince = 0;
+      lastTopSample = null;
+      cycle = [];
+      currentAngle = null;
+      reps = [];
+      repCount = 0;
+      partialReps = 0;
+      previousTopDuration = 0;
+    },
+  };
+}
+
+/**
+ * Create a rep counter for an exercise. When the exercise is unknown (or has no profile),
+ * knee- and hip-driven counters run side by side and whichever sees more movement is reported.
+ */
+export function createRepCounter(exerciseName?: string | null): RepCounter {
+  const profile = getRepProfile(exerciseName);
+  if (profile) {
+    return createAngleRepCounter(profile, profile.id);
+  }
+
+  const candidates = [
+    createAngleRepCounter(REP_EXERCISE_PROFILES[0], 'auto'), // knee-driven (squat pattern)
+    createAngleRepCounter(REP_EXERCISE_PROFILES[2], 'auto'), // hip-driven (bridge/hinge pattern)
+  ];
+
+  const pickBest = (summaries: RepSummary[]): RepSummary =>
+    summaries.reduce((best, summary) => {
+      if (summary.repCount !== best.repCount) return summary.repCount > best.repCount ? summary : best;
+      return (summary.averageRangeOfMotion ?? 0) > (best.averageRangeOfMotion ?? 0) ? summary : best;
+    });
+
+  return {
+    update: (angles, timestamp) => pickBest(candidates.map((counter) => counter.update(angles, timestamp))),
+    getSummary: () => pickBest(candidates.map((counter) => counter.getSummary())),
+    reset: () => candidates.forEach((counter) => counter.reset()),
+  };
+}
+
+/**
+ * Create a rep counter that always follows one profile (e.g. the one a reference template was recorded with)
+ */
+export function createProfileRepCounter(profileId: string): RepCounter | null {
+  const profile = REP_EXERCISE_PROFILES.find((p) => p.id === profileId);
+  return profile ? createAngleRepCounter(profile, profile.id) : null;
+}
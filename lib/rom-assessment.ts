@@ -0,0 +1,446 @@
+// Range-of-motion assessment - scripted ROM tests, extreme angles per side and comparison to normative ranges
+import type { BiomechanicalAngles } from './pose-detection';
+
+export type RomTestId = 'shoulder_flexion' | 'hip_flexion' | 'overhead_squat' | 'single_leg_squat';
+export type AssessmentSide = 'left' | 'right';
+export type RomStatus = 'normal' | 'limited' | 'excessive';
+
+export interface RomMeasureDefinition {
+  key: string;
+  label: string;
+  extreme: 'max' | 'min'; // Which end of the range the test is about
+  sided: boolean; // Measured per side (false = one value for the whole body)
+  angle: (angles: BiomechanicalAngles, side: AssessmentSide) => number | null;
+  normal: { min?: number; max?: number }; // Typical adult range (degrees) - below min = limited, above max = excessive
+}
+
+export interface RomTestDefinition {
+  id: RomTestId;
+  name: string;
+  view: 'side' | 'front'; // Camera view the angles need
+  unilateral: boolean; // Tested one side at a time (left, then right)
+  instructions: string; // "{side}" is replaced with the tested side
+  captureMs: number;
+  measures: RomMeasureDefinition[];
+}
+
+export interface RomMeasureResult {
+  key: string;
+  label: string;
+  side: AssessmentSide | 'both';
+  value: number | null; // degrees, null when the angle was never visible
+  normal: { min?: number; max?: number };
+  status: RomStatus | null;
+}
+
+export interface RomTestResult {
+  testId: RomTestId;
+  testName: string;
+  measures: RomMeasureResult[];
+  asymmetries: Array<{ key: string; label: string; differenceDeg: number }>; // Left vs right beyond ROM_ASYMMETRY_DEG
+}
+
+// What the subject and coach see while a scripted step sequence runs (shared over the data channel)
+export interface AssessmentStepState {
+  status: 'running' | 'complete';
+  stepIndex: number; // 0-based
+  stepCount: number;
+  testName: string | null;
+  side: AssessmentSide | null;
+  view: 'side' | 'front' | 'back' | null;
+  instructions: string | null;
+  phase: 'prepare' | 'capture' | null; // Get into position, then move through the range
+  progress: number; // 0-1 within the phase
+  remainingMs: number;
+}
+
+export interface RomAssessmentState extends AssessmentStepState {
+  testId: RomTestId | null;
+  view: 'side' | 'front' | null;
+}
+
+export type RomAssessment = {
+  update: (angles: BiomechanicalAngles, timestamp?: number) => RomAssessmentState;
+  skip: (timestamp?: number) => RomAssessmentState; // Skip the current step (no result for it)
+  redo: (timestamp?: number) => RomAssessmentState; // Restart the current step from the countdown
+  getState: () => RomAssessmentState;
+  getResults: () => RomTestResult[]; // Completed steps so far
+};
+
+// Persisted shape (jak-coach-rom-assessments) - one per test, values rounded, invisible measures left out
+export interface RomTestRecord {
+  test_id: RomTestId;
+  test_name: string;
+  measures: Array<{
+    measure: string;
+    label: string;
+    side: AssessmentSide | 'both';
+    value_deg: number;
+    normal_min?: number;
+    normal_max?: number;
+    status: RomStatus;
+  }>;
+  asymmetries: Array<{ measure: string; label: string; difference_deg: number }>;
+}
+
+export const ROM_PROTOCOL_VERSION = 1; // Bump when tests, measures or normative ranges change
+export const ROM_ASYMMETRY_DEG = 10; // Left/right difference worth flagging
+
+const PREPARE_MS = 5000; // Countdown to get into position before each capture
+const MIN_CAPTURE_SAMPLES = 5; // Fewer frames with the angle visible = no value
+const SPIKE_WINDOW = 3; // Extremes are taken over a rolling median of this many samples (one-frame spikes are ignored)
+
+const flexion = (angle: number | null) => (angle === null ? null : Math.max(0, 180 - angle));
+const absolute = (angle: number | null) => (angle === null ? null : Math.abs(angle));
+const sideAngle = (angles: BiomechanicalAngles, left: keyof BiomechanicalAngles, right: keyof BiomechanicalAngles, side: AssessmentSide) =>
+  angles[side === 'left' ? left : right];
+
+export const ROM_TESTS: Record<RomTestId, RomTestDefinition> = {
+  shoulder_flexion: {
+    id: 'shoulder_flexion',
+    name: 'Shoulder Flexion',
+    view: 'side',
+    unilateral: true,
+    instructions: 'Stand side-on to the camera. Keeping the elbow straight and ribs down, raise your {side} arm forward and up as far as it goes, hold, then lower.',
+    captureMs: 6000,
+    measures: [
+      // Hip-shoulder-elbow angle: 0° arm by the side, 180° straight overhead
+      { key: 'shoulder_flexion', label: 'Shoulder flexion', extreme: 'max', sided: true, normal: { min: 160 },
+        angle: (angles, side) => sideAngle(angles, 'leftShoulder', 'rightShoulder', side) },
+    ],
+  },
+  hip_flexion: {
+    id: 'hip_flexion',
+    name: 'Hip Flexion',
+    view: 'side',
+    unilateral: true,
+    instructions: 'Stand tall side-on to the camera. Pull your {side} knee up toward your chest without rounding your back, hold, then lower.',
+    captureMs: 6000,
+    measures: [
+      { key: 'hip_flexion', label: 'Hip flexion', extreme: 'max', sided: true, normal: { min: 110 },
+        angle: (angles, side) => flexion(sideAngle(angles, 'leftHip', 'rightHip', side)) },
+    ],
+  },
+  overhead_squat: {
+    id: 'overhead_squat',
+    name: 'Overhead Squat',
+    view: 'side',
+    unilateral: false,
+    instructions: 'Stand side-on, feet shoulder-width apart, arms straight overhead. Squat as deep as you can three times, keeping heels down and arms up.',
+    captureMs: 10000,
+    measures: [
+      { key: 'knee_flexion', label: 'Knee flexion', extreme: 'max', sided: true, normal: { min: 110 },
+        angle: (angles, side) => flexion(sideAngle(angles, 'leftKnee', 'rightKnee', side)) },
+      { key: 'hip_flexion', label: 'Hip flexion', extreme: 'max', sided: true, normal: { min: 95 },
+        angle: (angles, side) => flexion(sideAngle(angles, 'leftHip', 'rightHip', side)) },
+      { key: 'ankle_dorsiflexion', label: 'Ankle dorsiflexion', extreme: 'max', sided: true, normal: { min: 30 },
+        angle: (angles, side) => sideAngle(angles, 'leftAnkleDorsiflexion', 'rightAnkleDorsiflexion', side) },
+      // Arms falling forward at depth
+      { key: 'arm_position', label: 'Arm elevation at depth', extreme: 'min', sided: true, normal: { min: 150 },
+        angle: (angles, side) => sideAngle(angles, 'leftShoulder', 'rightShoulder', side) },
+      { key: 'trunk_lean', label: 'Forward trunk lean', extreme: 'max', sided: false, normal: { max: 45 },
+        angle: (angles) => absolute(angles.spineLean) },
+    ],
+  },
+  single_leg_squat: {
+    id: 'single_leg_squat',
+    name: 'Single-Leg Squat',
+    view: 'front',
+    unilateral: true,
+    instructions: 'Face the camera and stand on your {side} leg, hands on hips. Squat down as far as you can with control three times.',
+    captureMs: 10000,
+    measures: [
+      { key: 'knee_flexion', label: 'Knee flexion', extreme: 'max', sided: true, normal: { min: 60 },
+        angle: (angles, side) => flexion(sideAngle(angles, 'leftKnee', 'rightKnee', side)) },
+      { key: 'knee_valgus', label: 'Knee valgus', extreme: 'max', sided: true, normal: { max: 10 },
+        angle: (angles, side) => sideAngle(angles, 'leftKneeValgus', 'rightKneeValgus', side) },
+      { key: 'pelvic_drop', label: 'Pelvic drop', extreme: 'max', sided: true, normal: { max: 10 },
+        angle: (angles) => absolute(angles.pelvicObliquity) },
+      { key: 'trunk_shift', label: 'Trunk lateral shift', extreme: 'max', sided: true, normal: { max: 10 },
+        angle: (angles) => absolute(angles.spineLean) },
+    ],
+  },
+};
+
+export const ROM_TEST_ORDER: RomTestId[] = ['shoulder_flexion', 'hip_flexion', 'overhead_squat', 'single_leg_squat'];
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+// Max / min over a rolling median, so a single mis-tracked frame can't set the result
+/**
+ * Left/right pairs of a measure that differ by ROM_ASYMMETRY_DEG or more
+ */
+function findAsymmetries(
+  measures: Array<Pick<RomMeasureResult, 'key' | 'label' | 'side' | 'value'>>
+): RomTestResult['asymmetries'] {
+  const asymmetries: RomTestResult['asymmetries'] = [];
+  const keys = Array.from(new Set(measures.map((m) => m.key)));
+  keys.forEach((key) => {
+    const left = measures.find((m) => m.key === key && m.side === 'left');
+    const right = measures.find((m) => m.key === key && m.side === 'right');
+    if (left?.value == null || right?.value == null) return;
+    const differenceDeg = round1(Math.abs(left.value - right.value));
+    if (differenceDeg >= ROM_ASYMMETRY_DEG) asymmetries.push({ key, label: left.label, differenceDeg });
+  });
+  return asymmetries;
+}
+
+export function robustExtreme(values: number[], extreme: 'max' | 'min'): number | null {
+  if (values.length < MIN_CAPTURE_SAMPLES) return null;
+  const smoothed = values.slice(SPIKE_WINDOW - 1).map((_, i) => median(values.slice(i, i + SPIKE_WINDOW)));
+  return round1(extreme === 'max' ? Math.max(...smoothed) : Math.min(...smoothed));
+}
+
+export function romStatus(value: number, normal: { min?: number; max?: number }): RomStatus {
+  if (normal.min !== undefined && value < normal.min) return 'limited';
+  if (normal.max !== undefined && value > normal.max) return 'excessive';
+  return 'normal';
+}
+
+interface AssessmentStep {
+  test: RomTestDefinition;
+  side: AssessmentSide | null; // null for bilateral tests
+}
+
+/**
+ * Run the given tests in order: each step counts down while the subject gets into position, then captures
+ * the extreme angles for the test's measures. Unilateral tests run left, then right.
+ */
+export function createRomAssessment(testIds: RomTestId[] = ROM_TEST_ORDER, startedAt: number = Date.now()): RomAssessment {
+  const steps: AssessmentStep[] = testIds.flatMap<AssessmentStep>((id) => {
+    const test = ROM_TESTS[id];
+    return test.unilateral ? [{ test, side: 'left' }, { test, side: 'right' }] : [{ test, side: null }];
+  });
+  let stepIndex = 0;
+  let phase: 'prepare' | 'capture' = 'prepare';
+  let phaseStartedAt = startedAt;
+  // Samples of the current capture: measure key -> side -> values
+  let samples: Record<string, Partial<Record<AssessmentSide | 'both', number[]>>> = {};
+  // Per step: measure results (null = skipped)
+  const stepResults: Array<RomMeasureResult[] | null> = [];
+  let state: RomAssessmentState;
+
+  const measuredSides = (step: AssessmentStep, measure: RomMeasureDefinition): Array<AssessmentSide | 'both'> => {
+    if (step.side) return [step.side];
+    return measure.sided ? ['left', 'right'] : ['both'];
+  };
+
+  const buildState = (timestamp: number): RomAssessmentState => {
+    const step = steps[stepIndex];
+    if (!step) {
+      return {
+        status: 'complete', stepIndex: steps.length, stepCount: steps.length, testId: null, testName: null, side: null,
+        view: null, instructions: null, phase: null, progress: 1, remainingMs: 0,
+      };
+    }
+    const duration = phase === 'prepare' ? PREPARE_MS : step.test.captureMs;
+    const elapsed = Math.max(0, timestamp - phaseStartedAt);
+    return {
+      status: 'running',
+      stepIndex,
+      stepCount: steps.length,
+      testId: step.test.id,
+      testName: step.test.name,
+      side: step.side,
+      view: step.test.view,
+      instructions: step.test.instructions.replace('{side}', step.side ?? ''),
+      phase,
+      progress: Math.min(1, elapsed / duration),
+      remainingMs: Math.max(0, duration - elapsed),
+    };
+  };
+
+  const finishStep = () => {
+    const step = steps[stepIndex];
+    stepResults[stepIndex] = step.test.measures.flatMap((measure) =>
+      measuredSides(step, measure).map((side) => {
+        const value = robustExtreme(samples[measure.key]?.[side] || [], measure.extreme);
+        return {
+          key: measure.key,
+          label: measure.label,
+          side,
+          value,
+          normal: measure.normal,
+          status: value !== null ? romStatus(value, measure.normal) : null,
+        };
+      })
+    );
+  };
+
+  const nextStep = (timestamp: number) => {
+    stepIndex += 1;
+    phase = 'prepare';
+    phaseStartedAt = timestamp;
+    samples = {};
+  };
+
+  const update = (angles: BiomechanicalAngles, timestamp: number = Date.now()): RomAssessmentState => {
+    const step = steps[stepIndex];
+    if (step) {
+      if (phase === 'prepare' && timestamp - phaseStartedAt >= PREPARE_MS) {
+        phase = 'capture';
+        phaseStartedAt = timestamp;
+      }
+      if (phase === 'capture') {
+        step.test.measures.forEach((measure) => {
+          measuredSides(step, measure).forEach((side) => {
+            const value = measure.angle(angles, side === 'both' ? step.side ?? 'left' : side);
+            if (value === null || !Number.isFinite(value)) return;
+            const bySide = (samples[measure.key] = samples[measure.key] || {});
+            bySide[side] = [...(bySide[side] || []), value];
+          });
+        });
+        if (timestamp - phaseStartedAt >= step.test.captureMs) {
+          finishStep();
+          nextStep(timestamp);
+        }
+      }
+    }
+    state = buildState(timestamp);
+    return state;
+  };
+
+  const getResults = (): RomTestResult[] => {
+    const byTest = new Map<RomTestId, RomTestResult>();
+    steps.forEach((step, index) => {
+      const measures = stepResults[index];
+      if (!measures) return;
+      const result = byTest.get(step.test.id) || { testId: step.test.id, testName: step.test.name, measures: [], asymmetries: [] };
+      result.measures.push(...measures);
+      byTest.set(step.test.id, result);
+    });
+    return Array.from(byTest.values()).map((result) => ({ ...result, asymmetries: findAsymmetries(result.measures) }));
+  };
+
+  state = buildState(startedAt);
+
+  return {
+    update,
+    skip: (timestamp: number = Date.now()) => {
+      if (steps[stepIndex]) {
+        stepResults[stepIndex] = null;
+        nextStep(timestamp);
+      }
+      state = buildState(timestamp);
+      return state;
+    },
+    redo: (timestamp: number = Date.now()) => {
+      phase = 'prepare';
+      phaseStartedAt = timestamp;
+      samples = {};
+      state = buildState(timestamp);
+      return state;
+    },
+    getState: () => state,
+    getResults,
+  };
+}
+
+/**
+ * Convert results to the stored shape (measures that were never visible are left out)
+ */
+export function toRomTestRecords(results: RomTestResult[]): RomTestRecord[] {
+  return results
+    .map((result) => ({
+      test_id: result.testId,
+      test_name: result.testName,
+      measures: result.measures
+        .filter((m): m is RomMeasureResult & { value: number; status: RomStatus } => m.value !== null && m.status !== null)
+        .map((m) => ({
+          measure: m.key,
+          label: m.label,
+          side: m.side,
+          value_deg: m.value,
+          ...(m.normal.min !== undefined ? { normal_min: m.normal.min } : {}),
+          ...(m.normal.max !== undefined ? { normal_max: m.normal.max } : {}),
+          status: m.status,
+        })),
+      asymmetries: result.asymmetries.map((a) => ({ measure: a.key, label: a.label, difference_deg: a.differenceDeg })),
+    }))
+    .filter((test) => test.measures.length > 0);
+}
+
+/**
+ * Re-score a posted test from the protocol: only the measured angles are taken from the client, while labels,
+ * normal ranges, statuses and asymmetries are recomputed (they feed the limited / asymmetry counts and trends)
+ */
+export function rescoreRomTestRecord(test: RomTestRecord): RomTestRecord {
+  const definition = ROM_TESTS[test.test_id];
+  const measures = test.measures.flatMap((m) => {
+    const measure = definition.measures.find((d) => d.key === m.measure);
+    if (!measure) return [];
+    return [{
+      measure: measure.key,
+      label: measure.label,
+      side: m.side,
+      value_deg: m.value_deg,
+      ...(measure.normal.min !== undefined ? { normal_min: measure.normal.min } : {}),
+      ...(measure.normal.max !== undefined ? { normal_max: measure.normal.max } : {}),
+      status: romStatus(m.value_deg, measure.normal),
+    }];
+  });
+  const asymmetries = findAsymmetries(measures.map((m) => ({ key: m.measure, label: m.label, side: m.side, value: m.value_deg })));
+  return {
+    test_id: definition.id,
+    test_name: definition.name,
+    measures,
+    asymmetries: asymmetries.map((a) => ({ measure: a.key, label: a.label, difference_deg: a.differenceDeg })),
+  };
+}
+
+export interface RomMeasureChange {
+  testId: RomTestId;
+  measure: string;
+  label: string;
+  side: AssessmentSide | 'both';
+  current: number;
+  previous: number;
+  changeDeg: number;
+  improved: boolean; // Moved toward (or further inside) the normal range
+}
+
+/**
+ * Measure-by-measure change against an earlier assessment of the same subject
+ */
+export function compareRomAssessments(current: RomTestRecord[], previous: RomTestRecord[]): RomMeasureChange[] {
+  return current.flatMap((test) => {
+    const earlier = previous.find((p) => p.test_id === test.test_id);
+    if (!earlier) return [];
+    return test.measures.flatMap((m) => {
+      const before = earlier.measures.find((p) => p.measure === m.measure && p.side === m.side);
+      if (!before) return [];
+      const changeDeg = round1(m.value_deg - before.value_deg);
+      // Measures with only an upper limit (valgus, lean) improve as they go down
+      const lowerIsBetter = m.normal_min === undefined && m.normal_max !== undefined;
+      return [{
+        testId: test.test_id,
+        measure: m.measure,
+        label: m.label,
+        side: m.side,
+        current: m.value_deg,
+        previous: before.value_deg,
+        changeDeg,
+        improved: lowerIsBetter ? changeDeg < 0 : changeDeg > 0,
+      }];
+    });
+  });
+}
+
+/**
+ * Human-readable lines for reports
+ */
+export function describeRomAssessment(tests: RomTestRecord[] | undefined): Array<{ label: string; value: string }> {
+  return (tests || []).map((test) => {
+    const measures = test.measures.map((m) =>
+      `${m.label}${m.side !== 'both' ? ` (${m.side})` : ''} ${Math.round(m.value_deg)}°${m.status !== 'normal' ? ` - ${m.status}` : ''}`
+    );
+    const asymmetries = test.asymmetries.map((a) => `${a.label} differs ${Math.round(a.difference_deg)}° left vs right`);
+    return { label: test.test_name, value: [...measures, ...asymmetries].join('; ') };
+  });
+}
@@ -0,0 +1,238 @@
+// Longitudinal trends for a subject - one value per session (or assessment), rolling averages and change-point flags
+import type { AIInsight } from './dynamodb-ai-insights';
+import type { AISummary } from './dynamodb-ai-summary';
+import type { AIMetricRepSummary } from './dynamodb-ai-metrics';
+import type { RomAssessmentRecord } from './dynamodb-rom-assessments';
+import type { MovementScreenRecord } from './dynamodb-movement-screens';
+
+export type TrendMetricId =
+  | 'balance'
+  | 'symmetry'
+  | 'postural_efficiency'
+  | 'risk'
+  | 'injury_risk'
+  | 'movement_consistency'
+  | 'dynamic_stability'
+  | 'rep_count'
+  | 'range_of_motion'
+  | 'range_of_motion_variability'
+  | 'tempo_variability'
+  | 'template_match'
+  | 'fatigue_peak'
+  | 'rom_limited'
+  | 'rom_asymmetry'
+  | 'screen_composite';
+
+export type TrendSource = 'session' | 'rom_assessment' | 'movement_screen';
+
+export interface TrendPoint {
+  session_id: string; // Session the value came from (assessment / screen ID when it wasn't run in one)
+  date: string; // ISO 8601
+  value: number;
+  rolling_average: number; // Mean of this and the previous TREND_ROLLING_WINDOW - 1 points
+  change_point: 'up' | 'down' | null; // Level shift beyond the noise of the preceding points
+}
+
+export interface TrendSeries {
+  metric: TrendMetricId;
+  label: string;
+  unit: string;
+  source: TrendSource;
+  higher_is_better: boolean;
+  points: TrendPoint[]; // Oldest first
+  change: number | null; // Latest rolling average minus the first point (null with a single point)
+}
+
+export interface TrendSession {
+  session_id: string;
+  date: string;
+}
+
+export interface SubjectTrends {
+  sessions: TrendSession[]; // Sessions with generated insights or summaries, oldest first
+  series: TrendSeries[]; // Only metrics with at least one value
+}
+
+interface TrendDefinition {
+  label: string;
+  unit: string;
+  source: TrendSource;
+  higherIsBetter: boolean;
+  minChange: number; // Smallest shift flagged as a change point, however steady the history
+}
+
+export const TREND_METRICS: Record<TrendMetricId, TrendDefinition> = {
+  balance: { label: 'Balance', unit: '', source: 'session', higherIsBetter: true, minChange: 5 },
+  symmetry: { label: 'Symmetry', unit: '', source: 'session', higherIsBetter: true, minChange: 5 },
+  postural_efficiency: { label: 'Postural efficiency', unit: '', source: 'session', higherIsBetter: true, minChange: 5 },
+  risk: { label: 'Risk level', unit: '', source: 'session', higherIsBetter: false, minChange: 1 }, // 1 low - 3 high
+  injury_risk: { label: 'Injury risk score', unit: '', source: 'session', higherIsBetter: false, minChange: 10 }, // 0-100, injury-risk model
+  movement_consistency: { label: 'Movement consistency', unit: '', source: 'session', higherIsBetter: true, minChange: 5 },
+  dynamic_stability: { label: 'Dynamic stability', unit: '', source: 'session', higherIsBetter: true, minChange: 5 },
+  rep_count: { label: 'Reps per session', unit: '', source: 'session', higherIsBetter: true, minChange: 3 },
+  range_of_motion: { label: 'Average range of motion', unit: '°', source: 'session', higherIsBetter: true, minChange: 5 },
+  range_of_motion_variability: { label: 'Range of motion variability', unit: '%', source: 'session', higherIsBetter: false, minChange: 3 },
+  tempo_variability: { label: 'Tempo variability', unit: '%', source: 'session', higherIsBetter: false, minChange: 3 },
+  template_match: { label: 'Reference template match', unit: '%', source: 'session', higherIsBetter: true, minChange: 5 },
+  fatigue_peak: { label: 'Peak fatigue index', unit: '', source: 'session', higherIsBetter: false, minChange: 10 },
+  rom_limited: { label: 'ROM measures below normal', unit: '', source: 'rom_assessment', higherIsBetter: false, minChange: 1 },
+  rom_asymmetry: { label: 'ROM left/right asymmetries', unit: '', source: 'rom_assessment', higherIsBetter: false, minChange: 1 },
+  screen_composite: { label: 'Movement screen composite', unit: '/21', source: 'movement_screen', higherIsBetter: true, minChange: 2 },
+};
+
+export const TREND_ROLLING_WINDOW = 3;
+const CHANGE_BASELINE_POINTS = 5; // Preceding points a value is compared against
+const MIN_CHANGE_HISTORY = 3; // No change points until there's this much history
+const CHANGE_SD_MULTIPLIER = 2;
+
+const RISK_VALUES: Record<string, number> = { low: 1, medium: 2, moderate: 2, high: 3 };
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+const standardDeviation = (values: number[]) => {
+  const m = mean(values);
+  return Math.sqrt(mean(values.map((v) => (v - m) ** 2)));
+};
+
+/**
+ * Rolling averages and change points for one metric's values (any order - sorted by date here).
+ * A change point is a value more than 2 SD (at least the metric's minimum change) from the mean of the
+ * preceding points that the next point, when there is one, doesn't undo - a level shift, not a one-off.
+ */
+export function buildTrendSeries(
+  metric: TrendMetricId,
+  values: Array<{ session_id: string; date: string; value: number }>
+): TrendSeries {
+  const definition = TREND_METRICS[metric];
+  const sorted = [...values].sort((a, b) => a.date.localeCompare(b.date));
+  const points: TrendPoint[] = sorted.map((entry, i) => {
+    const window = sorted.slice(Math.max(0, i - TREND_ROLLING_WINDOW + 1), i + 1).map((e) => e.value);
+    let changePoint: TrendPoint['change_point'] = null;
+    if (i >= MIN_CHANGE_HISTORY) {
+      const baseline = sorted.slice(Math.max(0, i - CHANGE_BASELINE_POINTS), i).map((e) => e.value);
+      const baselineMean = mean(baseline);
+      const threshold = Math.max(CHANGE_SD_MULTIPLIER * standardDeviation(baseline), definition.minChange);
+      const shift = entry.value - baselineMean;
+      const next = sorted[i + 1];
+      const persists = !next || (Math.sign(next.value - baselineMean) === Math.sign(shift)
+        && Math.abs(next.value - baselineMean) >= threshold / 2);
+      if (Math.abs(shift) >= threshold && persists) changePoint = shift > 0 ? 'up' : 'down';
+    }
+    return {
+      session_id: entry.session_id,
+      date: entry.date,
+      value: round1(entry.value),
+      rolling_average: round1(mean(window)),
+      change_point: changePoint,
+    };
+  });
+
+  return {
+    metric,
+    label: definition.label,
+    unit: definition.unit,
+    source: definition.source,
+    higher_is_better: definition.higherIsBetter,
+    points,
+    change: points.length > 1 ? round1(points[points.length - 1].rolling_average - points[0].value) : null,
+  };
+}
+
+// Sort keys are `${sessionId}#${id}` - the same session can hold several insights / summaries, keep the newest
+const newestPerSession = <T>(items: T[], sortKey: (item: T) => string, date: (item: T) => string) => {
+  const bySession = new Map<string, { sessionId: string; date: string; item: T }>();
+  items.forEach((item) => {
+    const sessionId = sortKey(item).split('#')[0];
+    const itemDate = date(item);
+    const existing = bySession.get(sessionId);
+    if (!existing || existing.date < itemDate) bySession.set(sessionId, { sessionId, date: itemDate, item });
+  });
+  return bySession;
+};
+
+/**
+ * Every trend for a subject - session scores from the insights (falling back to the session summary's averages),
+ * rep / ROM metrics from the latest saved metric of each session, and the stored ROM assessments and movement screens
+ */
+export function buildSubjectTrends(sources: {
+  insights: AIInsight[];
+  summaries: AISummary[];
+  metrics: AIMetricRepSummary[];
+  romAssessments: RomAssessmentRecord[];
+  movementScreens: MovementScreenRecord[];
+}): SubjectTrends {
+  const values = new Map<TrendMetricId, Array<{ session_id: string; date: string; value: number }>>();
+  const add = (metric: TrendMetricId, sessionId: string, date: string, value: number | null | undefined) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return;
+    values.set(metric, [...(values.get(metric) || []), { session_id: sessionId, date, value }]);
+  };
+
+  const insights = newestPerSession(sources.insights, (i) => i.session_id, (i) => i.timestamp || i.created_at);
+  const summaries = newestPerSession(sources.summaries, (s) => s.session_id, (s) => s.created_at);
+  const sessions = new Map<string, string>();
+
+  insights.forEach(({ sessionId, date, item: insight }) => {
+    sessions.set(sessionId, date);
+    add('balance', sessionId, date, insight.balance_score);
+    add('symmetry', sessionId, date, insight.symmetry_score);
+    add('postural_efficiency', sessionId, date, insight.postural_efficiency);
+    add('risk', sessionId, date, RISK_VALUES[(insight.risk_level || '').toLowerCase()]);
+    add('injury_risk', sessionId, date, insight.injury_risk?.score);
+    add('movement_consistency', sessionId, date, insight.movement_consistency);
+    add('dynamic_stability', sessionId, date, insight.dynamic_stability);
+    const templates = insight.template_matches || [];
+    const repsScored = templates.reduce((sum, t) => sum + t.reps_scored, 0);
+    if (repsScored > 0) {
+      add('template_match', sessionId, date, templates.reduce((sum, t) => sum + t.average_match * t.reps_scored, 0) / repsScored);
+    }
+    add('fatigue_peak', sessionId, date, insight.fatigue_curve?.peak_index);
+  });
+
+  summaries.forEach(({ sessionId, date, item: summary }) => {
+    if (insights.has(sessionId)) return;
+    sessions.set(sessionId, date);
+    add('balance', sessionId, date, summary.metrics_summary?.average_balance_score);
+    add('symmetry', sessionId, date, summary.metrics_summary?.average_symmetry_score);
+    add('postural_efficiency', sessionId, date, summary.metrics_summary?.average_postural_efficiency);
+    add('risk', sessionId, date, RISK_VALUES[(summary.metrics_summary?.risk_level || '').toLowerCase()]);
+  });
+
+  // Rep metrics are cumulative over the session - the latest window holds the session's totals
+  const latestRepMetric = new Map<string, AIMetricRepSummary>();
+  sources.metrics.forEach((metric) => {
+    if (!metric.rep_metrics || !metric.session_id) return;
+    const existing = latestRepMetric.get(metric.session_id);
+    if (!existing || existing.timestamp < metric.timestamp) latestRepMetric.set(metric.session_id, metric);
+  });
+  latestRepMetric.forEach((metric, sessionId) => {
+    const date = sessions.get(sessionId) || metric.timestamp;
+    const reps = metric.rep_metrics!;
+    if (reps.rep_count === 0) return;
+    add('rep_count', sessionId, date, reps.rep_count);
+    add('range_of_motion', sessionId, date, reps.avg_range_of_motion);
+    add('range_of_motion_variability', sessionId, date, reps.range_of_motion_variability);
+    add('tempo_variability', sessionId, date, reps.tempo_variability);
+  });
+
+  sources.romAssessments.forEach((assessment) => {
+    const id = assessment.session_id || assessment.assessment_id;
+    add('rom_limited', id, assessment.created_at, assessment.limited_count);
+    add('rom_asymmetry', id, assessment.created_at, assessment.asymmetry_count);
+  });
+
+  // Partial screens aren't comparable with a full composite
+  sources.movementScreens.forEach((screen) => {
+    if (screen.complete) add('screen_composite', screen.session_id || screen.screen_id, screen.created_at, screen.composite_score);
+  });
+
+  const series = (Object.keys(TREND_METRICS) as TrendMetricId[])
+    .filter((metric) => (values.get(metric) || []).length > 0)
+    .map((metric) => buildTrendSeries(metric, values.get(metric)!));
+
+  return {
+    sessions: Array.from(sessions.entries())
+      .map(([session_id, date]) => ({ session_id, date }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    series,
+  };
+}
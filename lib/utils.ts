@@ -4,3 +4,15 @@ import { twMerge } from 'tailwind-merge'
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Copy of a record without its null / undefined fields. DynamoDB rejects undefined attribute values, so every
+ * record built for storage goes through this - measurements that weren't taken are left out instead.
+ */
+export function withoutEmptyValues<T extends object>(record: { [K in keyof T]: T[K] | null }): T {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined && value !== null)) as T
+}
+
+export function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
@@ -0,0 +1,155 @@
+// Video analysis client - steps through an uploaded clip and feeds its frames to the video analysis worker
+import { DEFAULT_POSE_BACKEND, type PoseBackendId } from './pose-backends';
+import { supportsWorkerInference } from './pose-inference-client';
+import type { PoseTrackChunk } from './pose-tracks';
+import type { ExerciseTemplateSelection } from './reference-templates';
+import { VIDEO_ANALYSIS_FPS, type VideoAnalysisWindow } from './video-analysis';
+import type { VideoAnalysisWorkerRequest, VideoAnalysisWorkerResponse } from './video-analysis.worker';
+
+export interface VideoAnalysisOptions {
+  exerciseName?: string | null; // Selects the rep profile and movement rules
+  referenceTemplate?: ExerciseTemplateSelection | null; // Catalog exercise each rep is scored against
+  backendId?: PoseBackendId;
+  fps?: number;
+  startedAt?: number; // ms epoch given to the first frame (defaults to now)
+  onProgress?: (progress: number) => void; // 0-1 of the clip processed
+  onWindow?: (window: VideoAnalysisWindow) => Promise<void>; // Awaited - the clip pauses while a window is saved
+  onChunks?: (chunks: PoseTrackChunk[], aspectRatio: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface VideoAnalysisResult {
+  durationMs: number;
+  framesAnalyzed: number;
+  framesTracked: number; // Frames with a person in view
+  aspectRatio: number;
+}
+
+const WORKER_INIT_TIMEOUT_MS = 60000; // Model download + WASM compile on a slow connection
+const MAX_WORKER_THREADS = 4;
+
+/**
+ * Read a clip's metadata into a detached video element (the element is never shown)
+ */
+async function loadVideo(file: File): Promise<HTMLVideoElement> {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.src = URL.createObjectURL(file);
+  await new Promise<void>((resolve, reject) => {
+    video.onloadeddata = () => resolve();
+    video.onerror = () => reject(new Error('This video format is not supported by the browser'));
+  });
+  if (!Number.isFinite(video.duration) || video.duration <= 0 || video.videoWidth === 0) {
+    URL.revokeObjectURL(video.src);
+    throw new Error('Could not read the video duration or dimensions');
+  }
+  return video;
+}
+
+const seekTo = (video: HTMLVideoElement, seconds: number) =>
+  new Promise<void>((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error('Failed to read a frame from the video'));
+    video.currentTime = seconds;
+  });
+
+/**
+ * Run the pose pipeline over every sampled frame of a clip. Frames go through the worker one at a time.
+ */
+export async function analyzeVideoFile(file: File, options: VideoAnalysisOptions = {}): Promise<VideoAnalysisResult> {
+  if (!supportsWorkerInference()) {
+    throw new Error('Video analysis needs a browser with Web Worker and OffscreenCanvas support');
+  }
+
+  const fps = options.fps || VIDEO_ANALYSIS_FPS;
+  const startedAt = options.startedAt ?? Date.now();
+  const video = await loadVideo(file);
+  const aspectRatio = video.videoWidth / video.videoHeight;
+  const worker = new Worker(new URL('./video-analysis.worker.ts', import.meta.url), { type: 'module' });
+  let nextRequestId = 1;
+  let pending: { id: number; resolve: (message: VideoAnalysisWorkerResponse) => void; reject: (error: Error) => void } | null = null;
+  let onReady: { resolve: () => void; reject: (error: Error) => void } | null = null;
+
+  worker.onmessage = (event: MessageEvent<VideoAnalysisWorkerResponse>) => {
+    const message = event.data;
+    if (message.type === 'ready') {
+      onReady?.resolve();
+    } else if (message.type === 'error') {
+      const error = new Error(message.message);
+      if (message.id === undefined) {
+        onReady?.reject(error);
+      } else if (pending?.id === message.id) {
+        pending.reject(error);
+      }
+    } else if (pending?.id === message.id) {
+      pending.resolve(message);
+    }
+  };
+  worker.onerror = (event) => {
+    const error = new Error(event.message || 'Video analysis worker crashed');
+    onReady?.reject(error);
+    pending?.reject(error);
+  };
+
+  const send = (request: VideoAnalysisWorkerRequest & { id: number }, transfer: Transferable[] = []) =>
+    new Promise<VideoAnalysisWorkerResponse>((resolve, reject) => {
+      pending = { id: request.id, resolve, reject };
+      worker.postMessage(request, transfer);
+    });
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('Video analysis worker init timed out')), WORKER_INIT_TIMEOUT_MS);
+      onReady = {
+        resolve: () => { clearTimeout(timeout); resolve(); },
+        reject: (error) => { clearTimeout(timeout); reject(error); },
+      };
+      const numThreads = self.crossOriginIsolated
+        ? Math.min(MAX_WORKER_THREADS, Math.max(1, (navigator.hardwareConcurrency || 2) - 1))
+        : 1;
+      const init: VideoAnalysisWorkerRequest = {
+        type: 'init',
+        backendId: options.backendId || DEFAULT_POSE_BACKEND,
+        numThreads,
+        exerciseName: options.exerciseName,
+        referenceTemplate: options.referenceTemplate,
+      };
+      worker.postMessage(init);
+    });
+
+    const durationMs = video.duration * 1000;
+    const frameCount = Math.max(1, Math.floor(video.duration * fps));
+    let framesTracked = 0;
+
+    for (let i = 0; i < frameCount; i++) {
+      if (options.signal?.aborted) {
+        throw new Error('Video analysis cancelled');
+      }
+      const videoTime = i / fps;
+      await seekTo(video, videoTime);
+      const frame = await createImageBitmap(video);
+      const result = await send(
+        { type: 'frame', id: nextRequestId++, frame, width: frame.width, height: frame.height, timestamp: startedAt + Math.round(videoTime * 1000) },
+        [frame] // Transfer - no copy of the pixels
+      );
+      if (result.type !== 'frame-result') continue;
+      if (result.tracked) framesTracked++;
+      if (result.chunks.length > 0) options.onChunks?.(result.chunks, aspectRatio);
+      if (result.window) await options.onWindow?.(result.window);
+      options.onProgress?.((i + 1) / frameCount);
+    }
+
+    const finished = await send({ type: 'finish', id: nextRequestId++ });
+    if (finished.type === 'finished') {
+      if (finished.chunks.length > 0) options.onChunks?.(finished.chunks, aspectRatio);
+      if (finished.window) await options.onWindow?.(finished.window);
+    }
+
+    return { durationMs, framesAnalyzed: frameCount, framesTracked, aspectRatio };
+  } finally {
+    worker.terminate();
+    URL.revokeObjectURL(video.src);
+  }
+}
@@ -0,0 +1,163 @@
+// Video analysis - runs the live pose pipeline over a recorded clip (e.g. an uploaded MP4) frame by frame
+import {
+  calculateBiomechanicalAngles,
+  calculateBiomechanicalMetrics,
+  landmarksToKeypoints,
+  type DetectedPose,
+  type PoseData,
+} from './pose-detection';
+import { createPoseTracker, selectPrimaryTrack } from './pose-tracking';
+import { calculateAngleConfidence, createPoseSmoother, filterAnglesByConfidence, type PoseSmoother } from './pose-smoothing';
+import { createRepCounter, type RepSummary } from './rep-counting';
+import { createKinematicsTracker, type KinematicsSummary } from './kinematics';
+import { createFormFaultDetector, type FormFaultEvent } from './movement-rules';
+import { summarizePostureAngles, type PostureAngleSummary } from './posture-angles';
+import { createPoseTrackRecorder, type PoseTrackChunk } from './pose-tracks';
+import { createTemplateScorer, type ExerciseTemplateSelection, type RepTemplateMatch } from './reference-templates';
+import { createGaitAnalyzer, type GaitStride } from './gait-analysis';
+
+export const VIDEO_ANALYSIS_FPS = 15; // Frames sampled per second of video
+export const VIDEO_ANALYSIS_WINDOW_MS = 10000; // Video time covered by one saved metric (one analyze-movement call)
+const BUFFER_INTERVAL_MS = 1000; // Movement analysis works on ~1 pose per second, same as the live buffer
+
+// Everything measured over one window of the clip - the same inputs a live session's metric is built from
+export interface VideoAnalysisWindow {
+  startMs: number; // ms epoch of the first frame
+  endMs: number; // ms epoch of the last frame
+  poseData: PoseData[];
+  formFaults: FormFaultEvent[];
+  repSummary: RepSummary;
+  kinematics: KinematicsSummary;
+  postureAngles: PostureAngleSummary;
+  // Reps in this window scored against the reference template (sent to save-metric like the live ones)
+  templateMatch: { exerciseId: string; exerciseName: string; reps: RepTemplateMatch[] } | null;
+  gaitStrides: GaitStride[]; // Strides completed in this window (uploads aren't calibrated - no cm values)
+}
+
+export interface VideoFrameResult {
+  tracked: boolean; // A person was found and analyzed on this frame
+  window: VideoAnalysisWindow | null; // Set when this frame closed a window
+  chunks: PoseTrackChunk[]; // Completed pose track chunks (for the review page)
+}
+
+export type VideoFrameAnalyzer = {
+  process: (poses: DetectedPose[], timestamp: number) => VideoFrameResult;
+  finish: () => { window: VideoAnalysisWindow | null; chunks: PoseTrackChunk[] }; // Closes the last (partial) window
+};
+
+/**
+ * Create the analyzer for one clip. Follows a single person (the primary track), like a live session without pins.
+ * Timestamps are ms epoch - the clip's start time plus the video time of the frame.
+ */
+export function createVideoFrameAnalyzer(
+  exerciseName?: string | null,
+  referenceTemplate?: ExerciseTemplateSelection | null
+): VideoFrameAnalyzer {
+  const tracker = createPoseTracker();
+  const smoothers = new Map<number, PoseSmoother>();
+  const repCounter = createRepCounter(exerciseName);
+  const kinematicsTracker = createKinematicsTracker();
+  const faultDetector = createFormFaultDetector({ exerciseName });
+  const recorder = createPoseTrackRecorder();
+  const templateScorer = referenceTemplate?.template ? createTemplateScorer(referenceTemplate.template) : null;
+  const gaitAnalyzer = createGaitAnalyzer();
+
+  let primaryTrackId: number | null = null;
+  let windowStart: number | null = null;
+  let lastFrameAt = 0;
+  let lastBufferedAt: number | null = null;
+  let poseData: PoseData[] = [];
+  let formFaults: FormFaultEvent[] = [];
+  let templateMatches: RepTemplateMatch[] = [];
+  let gaitStrides: GaitStride[] = [];
+
+  const closeWindow = (): VideoAnalysisWindow | null => {
+    const start = windowStart;
+    const window = start !== null && poseData.length > 0
+      ? {
+          startMs: start,
+          endMs: lastFrameAt,
+          poseData,
+          formFaults,
+          repSummary: repCounter.getSummary(),
+          kinematics: kinematicsTracker.takeWindowSummary(),
+          postureAngles: summarizePostureAngles(poseData.map((p) => p.angles)),
+          templateMatch: referenceTemplate && templateMatches.length > 0
+            ? { exerciseId: referenceTemplate.exerciseId, exerciseName: referenceTemplate.exerciseName, reps: templateMatches }
+            : null,
+          gaitStrides,
+        }
+      : null;
+    windowStart = null;
+    poseData = [];
+    formFaults = [];
+    templateMatches = [];
+    gaitStrides = [];
+    return window;
+  };
+
+  const process = (poses: DetectedPose[], timestamp: number): VideoFrameResult => {
+    // Windows follow video time, so gaps where nobody is visible still close them
+    const window = windowStart !== null && timestamp - windowStart >= VIDEO_ANALYSIS_WINDOW_MS ? closeWindow() : null;
+
+    const trackedPoses = tracker.update(poses, timestamp);
+    const liveTrackIds = new Set(tracker.getTracks().map((track) => track.trackId));
+    Array.from(smoothers.keys()).forEach((trackId) => {
+      if (!liveTrackIds.has(trackId)) smoothers.delete(trackId);
+    });
+
+    const pose = selectPrimaryTrack(trackedPoses, primaryTrackId);
+    if (!pose || pose.keypoints.length === 0) {
+      return { tracked: false, window, chunks: recorder.takeCompleted() };
+    }
+    primaryTrackId = pose.trackId;
+    if (windowStart === null) windowStart = timestamp;
+    lastFrameAt = timestamp;
+
+    let smoother = smoothers.get(pose.trackId);
+    if (!smoother) {
+      smoother = createPoseSmoother();
+      smoothers.set(pose.trackId, smoother);
+    }
+    const { keypoints } = smoother.smooth(landmarksToKeypoints(pose.keypoints), timestamp);
+    const angleConfidence = calculateAngleConfidence(keypoints);
+    const angles = filterAnglesByConfidence(calculateBiomechanicalAngles(keypoints), angleConfidence);
+    const metrics = calculateBiomechanicalMetrics(keypoints);
+
+    const previousRepCount = repCounter.getSummary().repCount;
+    const reps = repCounter.update(angles, timestamp);
+    const kinematics = kinematicsTracker.update(keypoints, angles, metrics, timestamp);
+    if (reps.repCount > previousRepCount) {
+      kinematicsTracker.markRepComplete();
+    }
+    const templateMatch = templateScorer?.update(angles, timestamp);
+    if (templateMatch) templateMatches.push(templateMatch);
+    const { completedStride } = gaitAnalyzer.update(keypoints, angles, null, timestamp);
+    if (completedStride) gaitStrides.push(completedStride);
+    const frameFaults = faultDetector.evaluate({ keypoints, angles, phase: reps.currentPhase }, timestamp);
+    formFaults.push(...frameFaults);
+    recorder.add(timestamp, keypoints, angles, frameFaults);
+
+    if (lastBufferedAt === null || timestamp - lastBufferedAt >= BUFFER_INTERVAL_MS) {
+      lastBufferedAt = timestamp;
+      poseData.push({
+        timestamp: poseData.length, // ~1 second apart, as in the live buffer
+        sequenceNumber: poseData.length,
+        keypoints,
+        trackId: pose.trackId,
+        angles,
+        angleConfidence,
+        metrics,
+        formFaults: frameFaults.length > 0 ? frameFaults : undefined,
+        kinematics: kinematics ?? undefined,
+      });
+    }
+
+    return { tracked: true, window, chunks: recorder.takeCompleted() };
+  };
+
+  return {
+    process,
+    finish: () => ({ window: closeWindow(), chunks: recorder.flush() }),
+  };
+}
@@ -0,0 +1,68 @@
+// Video analysis Web Worker - pose estimation plus the angle / metric / rule pipeline for uploaded clips, off the main thread
+import { createPoseBackend, type PoseBackend, type PoseBackendId } from './pose-backends';
+import type { PoseTrackChunk } from './pose-tracks';
+import type { ExerciseTemplateSelection } from './reference-templates';
+import { createVideoFrameAnalyzer, type VideoAnalysisWindow, type VideoFrameAnalyzer } from './video-analysis';
+
+export type VideoAnalysisWorkerRequest =
+  | { type: 'init'; backendId: PoseBackendId; numThreads: number; exerciseName?: string | null; referenceTemplate?: ExerciseTemplateSelection | null }
+  | { type: 'frame'; id: number; frame: ImageBitmap; width: number; height: number; timestamp: number }
+  | { type: 'finish'; id: number };
+
+export type VideoAnalysisWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'error'; id?: number; message: string }
+  | { type: 'frame-result'; id: number; tracked: boolean; window: VideoAnalysisWindow | null; chunks: PoseTrackChunk[] }
+  | { type: 'finished'; id: number; window: VideoAnalysisWindow | null; chunks: PoseTrackChunk[] };
+
+// Minimal view of the worker global (the DOM lib used by the app doesn't include worker types)
+const ctx = self as unknown as {
+  postMessage: (message: VideoAnalysisWorkerResponse) => void;
+  onmessage: ((event: MessageEvent<VideoAnalysisWorkerRequest>) => void) | null;
+};
+
+let backend: PoseBackend | null = null;
+let analyzer: VideoFrameAnalyzer | null = null;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+ctx.onmessage = async (event) => {
+  const request = event.data;
+
+  if (request.type === 'init') {
+    try {
+      backend = backend || createPoseBackend(request.backendId);
+      await backend.load({ numThreads: request.numThreads });
+      analyzer = createVideoFrameAnalyzer(request.exerciseName, request.referenceTemplate);
+      ctx.postMessage({ type: 'ready' });
+    } catch (error) {
+      backend = null;
+      ctx.postMessage({ type: 'error', message: errorMessage(error) });
+    }
+    return;
+  }
+
+  if (request.type === 'frame') {
+    try {
+      if (!backend || !analyzer) {
+        throw new Error('Video analysis worker received a frame before init');
+      }
+      const poses = await backend.estimate(request.frame, request.width, request.height);
+      const result = analyzer.process(poses, request.timestamp);
+      ctx.postMessage({ type: 'frame-result', id: request.id, ...result });
+    } catch (error) {
+      ctx.postMessage({ type: 'error', id: request.id, message: errorMessage(error) });
+    } finally {
+      request.frame.close(); // Release the transferred bitmap's memory right away
+    }
+    return;
+  }
+
+  if (request.type === 'finish') {
+    if (!analyzer) {
+      ctx.postMessage({ type: 'error', id: request.id, message: 'Video analysis worker was not initialized' });
+      return;
+    }
+    ctx.postMessage({ type: 'finished', id: request.id, ...analyzer.finish() });
+  }
+};